@@ -0,0 +1,9 @@
+import { renderAppIcon } from "./lib/appIcon";
+
+// Home screen icon for iPads and iPhones
+export const size = { width: 180, height: 180 };
+export const contentType = "image/png";
+
+export default function AppleIcon() {
+  return renderAppIcon(size.width);
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useState, useEffect, useMemo, useRef } from "react";
+import { BoardOrder } from "../types";
+import { getPublicBoard } from "../lib/supabase";
+
+// Ready orders nobody picked up drop off the board after this long
+const READY_TIMEOUT_MS = 10 * 60 * 1000;
+// Newly ready orders stand out for this long
+const HIGHLIGHT_MS = 20 * 1000;
+// How often the board fetches orders
+const BOARD_POLL_INTERVAL_MS = 5 * 1000;
+// How often the board re-checks timeouts and highlights
+const TICK_INTERVAL_MS = 5000;
+
+// A short two-note chime. Browsers only allow sound after a tap on the page,
+// which turning the chime on provides.
+function playChime(audio: AudioContext) {
+  [880, 1320].forEach((frequency, index) => {
+    const start = audio.currentTime + index * 0.25;
+    const oscillator = audio.createOscillator();
+    const gain = audio.createGain();
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.3, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.6);
+    oscillator.connect(gain).connect(audio.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.6);
+  });
+}
+
+// When an order became ready (ms)
+function readyTime(order: BoardOrder, now: number): number {
+  return order.ready_at ? new Date(order.ready_at).getTime() : now;
+}
+
+// Customer-facing order board for a TV: who is being made and who is ready.
+// Read-only, and shows names and numbers only - never what was ordered. The TV
+// isn't signed in, so there's no realtime feed; it polls the active campaign's
+// board instead.
+export default function BoardPage() {
+  const [orders, setOrders] = useState<BoardOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [isChimeOn, setIsChimeOn] = useState(false);
+
+  // Ready orders already announced, so a later poll doesn't chime again; null
+  // until the first load, whose ready orders don't chime
+  const announcedRef = useRef<Set<number> | null>(null);
+  const audioRef = useRef<AudioContext | null>(null);
+
+  // Load the board, then keep it fresh
+  useEffect(() => {
+    async function loadBoard() {
+      try {
+        const ordersData = await getPublicBoard();
+        const readyIds = ordersData.filter((o) => o.status === "ready").map((o) => o.id);
+        const announced = announcedRef.current;
+        if (announced && readyIds.some((id) => !announced.has(id)) && audioRef.current) {
+          playChime(audioRef.current);
+        }
+        // An order that leaves the ready column chimes again if it comes back
+        announcedRef.current = new Set(readyIds);
+        setOrders(ordersData);
+        setError(null);
+      } catch (err) {
+        console.error("Error loading board:", err);
+        setError("Failed to load orders. Please check your connection.");
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadBoard();
+    const interval = setInterval(loadBoard, BOARD_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), TICK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Oldest first, as the board returns them
+  const preparingOrders = useMemo(
+    () => orders.filter((o) => o.status === "new" || o.status === "in_progress"),
+    [orders]
+  );
+
+  // Most recently ready first
+  const readyOrders = useMemo(
+    () =>
+      orders
+        .filter((o) => o.status === "ready" && now - readyTime(o, now) < READY_TIMEOUT_MS)
+        .sort((a, b) => readyTime(b, now) - readyTime(a, now)),
+    [orders, now]
+  );
+
+  const toggleChime = () => {
+    if (audioRef.current) {
+      audioRef.current.close();
+      audioRef.current = null;
+      setIsChimeOn(false);
+    } else {
+      audioRef.current = new AudioContext();
+      playChime(audioRef.current);
+      setIsChimeOn(true);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-surface">
+        <div className="text-center">
+          <div className="mb-4 h-12 w-12 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto"></div>
+          <p className="text-on-surface-variant">Loading board...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-surface">
+        <div className="text-center">
+          <p className="text-error mb-4">{error}</p>
+          <button
+            onClick={() => window.location.reload()}
+            className="rounded-full bg-primary px-6 py-2 text-on-primary"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-screen flex-col overflow-hidden bg-surface">
+      <header className="flex items-center justify-between border-b border-outline-variant bg-surface-container-low px-6 py-4">
+        <h1 className="text-2xl font-medium text-on-surface sm:text-4xl">
+          {process.env.NEXT_PUBLIC_ORG_NAME || "Kitchen"} Orders
+        </h1>
+        <div className="flex items-center gap-4">
+          <button
+            onClick={toggleChime}
+            className="rounded-full border border-outline px-4 py-2 text-sm text-on-surface-variant hover:bg-surface-container"
+          >
+            {isChimeOn ? "Chime on" : "Chime off"}
+          </button>
+        </div>
+      </header>
+
+      <div className="grid flex-1 grid-cols-2 gap-6 overflow-hidden p-6">
+        <section className="flex flex-col overflow-hidden">
+          <h2 className="mb-4 text-2xl font-medium text-on-surface-variant sm:text-3xl">Preparing</h2>
+          <ul className="flex flex-col gap-3 overflow-y-auto">
+            {preparingOrders.map((order) => (
+              <li
+                key={order.id}
+                className="flex items-baseline gap-4 rounded-2xl bg-surface-container px-6 py-4 text-2xl text-on-surface sm:text-3xl"
+              >
+                <span className="font-bold">#{order.id}</span>
+                <span className="truncate">{order.customer_name}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+
+        <section className="flex flex-col overflow-hidden">
+          <h2 className="mb-4 text-2xl font-medium text-primary sm:text-3xl">Ready</h2>
+          <ul className="flex flex-col gap-3 overflow-y-auto">
+            {readyOrders.map((order) => {
+              const isNew = now - readyTime(order, now) < HIGHLIGHT_MS;
+              return (
+                <li
+                  key={order.id}
+                  className={`flex items-baseline gap-4 rounded-2xl px-6 py-4 text-2xl sm:text-3xl ${
+                    isNew
+                      ? "animate-pulse bg-primary text-on-primary"
+                      : "bg-primary-container text-on-primary-container"
+                  }`}
+                >
+                  <span className="font-bold">#{order.id}</span>
+                  <span className="truncate">{order.customer_name}</span>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "../providers/AuthProvider";
+import { StaffMember } from "../types";
+
+const PIN_MAX_LENGTH = 6;
+const PIN_MIN_LENGTH = 4;
+const KEYPAD = ["1", "2", "3", "4", "5", "6", "7", "8", "9"];
+
+interface StaffSwitcherProps {
+  // Sign the current staff member out after this long without a tap or key press
+  autoLockMinutes?: number;
+}
+
+// Who is using a shared device. Shows the signed-in staff member's name (tap
+// to switch user) and, while nobody is signed in, a full-screen PIN sign-in.
+// Renders nothing on devices without staff PINs.
+export default function StaffSwitcher({ autoLockMinutes = 2 }: StaffSwitcherProps) {
+  const { staffMembers, staff, isStaffLocked, unlockStaff, lockStaff } = useAuth();
+  const [selectedStaff, setSelectedStaff] = useState<StaffMember | null>(null);
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Lock after a while without any activity
+  useEffect(() => {
+    if (!staff) return;
+    const delay = autoLockMinutes * 60 * 1000;
+    let timeout = setTimeout(lockStaff, delay);
+
+    const resetTimer = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(lockStaff, delay);
+    };
+
+    window.addEventListener("pointerdown", resetTimer);
+    window.addEventListener("keydown", resetTimer);
+    return () => {
+      clearTimeout(timeout);
+      window.removeEventListener("pointerdown", resetTimer);
+      window.removeEventListener("keydown", resetTimer);
+    };
+  }, [staff, lockStaff, autoLockMinutes]);
+
+  if (staffMembers.length === 0) return null;
+
+  const resetSignIn = () => {
+    setSelectedStaff(null);
+    setPin("");
+    setError(null);
+  };
+
+  const handleSwitch = async () => {
+    resetSignIn();
+    await lockStaff();
+  };
+
+  const handleSubmit = async () => {
+    if (!selectedStaff || pin.length < PIN_MIN_LENGTH || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      await unlockStaff(selectedStaff.id, pin);
+      resetSignIn();
+    } catch (err) {
+      setPin("");
+      setError(err instanceof Error ? err.message : "Couldn't sign in. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDigit = (digit: string) => {
+    setError(null);
+    setPin((current) => (current.length < PIN_MAX_LENGTH ? current + digit : current));
+  };
+
+  if (!isStaffLocked) {
+    return (
+      <button
+        onClick={handleSwitch}
+        className="rounded-full border border-outline px-4 py-2 text-sm text-on-surface transition-colors hover:bg-surface-container"
+        title="Switch user"
+      >
+        {staff?.name}
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-surface p-4">
+      {!selectedStaff ? (
+        <div className="w-full max-w-lg text-center">
+          <h2 className="mb-6 text-2xl font-medium text-on-surface">Who&apos;s using this device?</h2>
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+            {staffMembers.map((member) => (
+              <button
+                key={member.id}
+                onClick={() => setSelectedStaff(member)}
+                className="rounded-2xl border border-outline-variant bg-surface-container px-4 py-6 text-lg font-medium text-on-surface transition-colors hover:border-primary hover:bg-surface-container-high"
+              >
+                {member.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <form
+          className="w-full max-w-xs text-center"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSubmit();
+          }}
+        >
+          <h2 className="mb-2 text-2xl font-medium text-on-surface">{selectedStaff.name}</h2>
+          <p className="mb-4 text-on-surface-variant">Enter your PIN</p>
+
+          {/* Typed PINs land here too, for devices with a keyboard */}
+          <input
+            type="password"
+            inputMode="numeric"
+            autoFocus
+            value={pin}
+            onChange={(e) => {
+              setError(null);
+              setPin(e.target.value.replace(/\D/g, "").slice(0, PIN_MAX_LENGTH));
+            }}
+            className="mb-2 w-full rounded-lg border border-outline bg-surface px-4 py-3 text-center text-2xl tracking-[0.5em] text-on-surface focus:border-primary focus:outline-none"
+            aria-label="PIN"
+          />
+          <p className="mb-4 h-5 text-sm text-error">{error}</p>
+
+          <div className="grid grid-cols-3 gap-3">
+            {KEYPAD.map((digit) => (
+              <button
+                key={digit}
+                type="button"
+                onClick={() => handleDigit(digit)}
+                className="rounded-full bg-surface-container-high py-4 text-xl text-on-surface hover:bg-surface-container-highest"
+              >
+                {digit}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={resetSignIn}
+              className="rounded-full py-4 text-sm text-on-surface-variant hover:bg-surface-container"
+            >
+              Back
+            </button>
+            <button
+              type="button"
+              onClick={() => handleDigit("0")}
+              className="rounded-full bg-surface-container-high py-4 text-xl text-on-surface hover:bg-surface-container-highest"
+            >
+              0
+            </button>
+            <button
+              type="submit"
+              disabled={pin.length < PIN_MIN_LENGTH || isSubmitting}
+              className="rounded-full bg-primary py-4 text-sm font-medium text-on-primary disabled:opacity-50"
+            >
+              {isSubmitting ? "..." : "Enter"}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
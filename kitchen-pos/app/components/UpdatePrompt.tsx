@@ -0,0 +1,75 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// Registers the service worker and, when a new deployment has been installed
+// in the background, offers to switch to it. Staff pick the moment, so a
+// station never reloads in the middle of an order.
+export default function UpdatePrompt() {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+
+  useEffect(() => {
+    // Caching pages in development would hide code changes
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+
+    let registration: ServiceWorkerRegistration | null = null;
+    // Only reload for an update the user accepted, not the first install
+    const hadController = !!navigator.serviceWorker.controller;
+
+    const trackInstalling = (worker: ServiceWorker) => {
+      worker.addEventListener("statechange", () => {
+        if (worker.state === "installed" && navigator.serviceWorker.controller) {
+          setWaitingWorker(worker);
+        }
+      });
+    };
+
+    const handleControllerChange = () => {
+      if (hadController) window.location.reload();
+    };
+
+    async function register() {
+      try {
+        registration = await navigator.serviceWorker.register(
+          `/sw.js?v=${encodeURIComponent(process.env.NEXT_PUBLIC_APP_VERSION ?? "")}`
+        );
+        if (registration.waiting && navigator.serviceWorker.controller) {
+          setWaitingWorker(registration.waiting);
+        }
+        registration.addEventListener("updatefound", () => {
+          if (registration?.installing) trackInstalling(registration.installing);
+        });
+      } catch (err) {
+        console.error("Error registering service worker:", err);
+      }
+    }
+
+    // Stations stay open for days; check for new deployments now and then
+    const interval = setInterval(() => registration?.update(), 30 * 60 * 1000);
+
+    navigator.serviceWorker.addEventListener("controllerchange", handleControllerChange);
+    register();
+
+    return () => {
+      clearInterval(interval);
+      navigator.serviceWorker.removeEventListener("controllerchange", handleControllerChange);
+    };
+  }, []);
+
+  if (!waitingWorker) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 z-[70] flex -translate-x-1/2 items-center gap-4 rounded-full bg-on-surface px-5 py-3 text-sm text-surface shadow-lg">
+      <span>A new version is available.</span>
+      <button
+        onClick={() => waitingWorker.postMessage({ type: "SKIP_WAITING" })}
+        className="font-medium text-primary hover:underline"
+      >
+        Update now
+      </button>
+      <button onClick={() => setWaitingWorker(null)} className="opacity-70 hover:underline">
+        Later
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+
+import { useState } from "react";
+import { Ingredient, IngredientLevel, IngredientUsage } from "../../types";
+
+interface IngredientTableProps {
+  ingredients: Ingredient[];
+  levels: IngredientLevel[];
+  usage: IngredientUsage[];
+  campaignName: string;
+  onCreateIngredient: (name: string, unit: string) => Promise<void>;
+  onUpdateIngredient: (id: number, updates: Partial<Pick<Ingredient, "unit" | "low_stock_threshold">>) => Promise<void>;
+  onDeactivateIngredient: (id: number) => Promise<void>;
+  onSetOnHand: (ingredientId: number, onHand: number | null) => Promise<void>;
+}
+
+const formatAmount = (value: number) => String(Math.round(value * 1000) / 1000);
+
+// Reads an amount from a prompt. Returns undefined if cancelled or invalid,
+// null if cleared.
+const promptAmount = (message: string, current: number | null): number | null | undefined => {
+  const input = prompt(message, current === null ? "" : formatAmount(current));
+  if (input === null) return undefined;
+  if (input.trim() === "") return null;
+  const value = parseFloat(input);
+  if (isNaN(value) || value < 0) {
+    alert("Please enter a number of 0 or more");
+    return undefined;
+  }
+  return value;
+};
+
+// Ingredients with what was prepped for the campaign, what orders have used
+// so far and what is left. Doubles as the usage report for prepping the next event.
+export default function IngredientTable({
+  ingredients,
+  levels,
+  usage,
+  campaignName,
+  onCreateIngredient,
+  onUpdateIngredient,
+  onDeactivateIngredient,
+  onSetOnHand,
+}: IngredientTableProps) {
+  const [newName, setNewName] = useState("");
+  const [newUnit, setNewUnit] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const levelById = new Map(levels.map((level) => [level.ingredient_id, level]));
+  const usedById = new Map(usage.map((row) => [row.ingredient_id, row.used]));
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    setIsSubmitting(true);
+    try {
+      await onCreateIngredient(newName.trim(), newUnit.trim() || "each");
+      setNewName("");
+      setNewUnit("");
+    } catch (err) {
+      console.error("Error creating ingredient:", err);
+      alert("Failed to add ingredient");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEditOnHand = async (ingredient: Ingredient) => {
+    const value = promptAmount(
+      `How much ${ingredient.name} (${ingredient.unit}) was prepped for ${campaignName}? Leave blank to stop tracking.`,
+      levelById.get(ingredient.id)?.on_hand ?? null
+    );
+    if (value === undefined) return;
+    await onSetOnHand(ingredient.id, value);
+  };
+
+  const handleEditThreshold = async (ingredient: Ingredient) => {
+    const value = promptAmount(
+      `Warn when ${ingredient.name} is down to how many ${ingredient.unit}? Leave blank for no warning.`,
+      ingredient.low_stock_threshold
+    );
+    if (value === undefined) return;
+    await onUpdateIngredient(ingredient.id, { low_stock_threshold: value });
+  };
+
+  const handleEditUnit = async (ingredient: Ingredient) => {
+    const unit = prompt(`Unit for ${ingredient.name} (e.g. g, ml, each)`, ingredient.unit);
+    if (!unit?.trim()) return;
+    await onUpdateIngredient(ingredient.id, { unit: unit.trim() });
+  };
+
+  const handleDeactivate = async (ingredient: Ingredient) => {
+    if (!confirm(`Remove ${ingredient.name}? It will also stop counting towards recipes.`)) return;
+    await onDeactivateIngredient(ingredient.id);
+  };
+
+  const handleDownloadReport = () => {
+    const rows = [
+      ["Ingredient", "Unit", "Prepped", "Used", "Left"],
+      ...ingredients.map((ingredient) => {
+        const level = levelById.get(ingredient.id);
+        return [
+          ingredient.name,
+          ingredient.unit,
+          level ? formatAmount(level.on_hand) : "",
+          formatAmount(usedById.get(ingredient.id) ?? 0),
+          level ? formatAmount(level.remaining) : "",
+        ];
+      }),
+    ];
+    const csv = rows
+      .map((row) => row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(","))
+      .join("\n");
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${campaignName} ingredient usage.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="rounded-2xl bg-surface-container-low">
+      <div className="flex items-center justify-between border-b border-outline-variant px-4 py-3">
+        <h2 className="text-lg font-medium text-on-surface">Ingredients</h2>
+        <button
+          onClick={handleDownloadReport}
+          disabled={ingredients.length === 0}
+          className="rounded-full border border-outline px-4 py-1.5 text-sm text-on-surface transition-colors hover:bg-surface-container-high disabled:opacity-50"
+        >
+          Download usage report
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-on-surface-variant">
+              <th className="px-4 py-2 font-medium">Ingredient</th>
+              <th className="px-4 py-2 font-medium">Unit</th>
+              <th className="px-4 py-2 text-right font-medium">Prepped</th>
+              <th className="px-4 py-2 text-right font-medium">Used</th>
+              <th className="px-4 py-2 text-right font-medium">Left</th>
+              <th className="px-4 py-2 text-right font-medium">Warn at</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {ingredients.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-on-surface-variant">
+                  No ingredients yet
+                </td>
+              </tr>
+            )}
+            {ingredients.map((ingredient) => {
+              const level = levelById.get(ingredient.id);
+              return (
+                <tr key={ingredient.id} className="border-t border-outline-variant">
+                  <td className="px-4 py-2 font-medium text-on-surface">{ingredient.name}</td>
+                  <td className="px-4 py-2">
+                    <button
+                      onClick={() => handleEditUnit(ingredient)}
+                      className="text-on-surface-variant hover:text-primary"
+                    >
+                      {ingredient.unit}
+                    </button>
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() => handleEditOnHand(ingredient)}
+                      className="text-on-surface hover:text-primary"
+                    >
+                      {level ? formatAmount(level.on_hand) : "Set"}
+                    </button>
+                  </td>
+                  <td className="px-4 py-2 text-right text-on-surface">
+                    {formatAmount(usedById.get(ingredient.id) ?? 0)}
+                  </td>
+                  <td
+                    className={`px-4 py-2 text-right font-medium ${
+                      level?.is_low ? "text-error" : "text-on-surface"
+                    }`}
+                  >
+                    {level ? formatAmount(level.remaining) : "—"}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() => handleEditThreshold(ingredient)}
+                      className="text-on-surface-variant hover:text-primary"
+                    >
+                      {ingredient.low_stock_threshold === null
+                        ? "Set"
+                        : formatAmount(ingredient.low_stock_threshold)}
+                    </button>
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() => handleDeactivate(ingredient)}
+                      className="rounded p-1 text-on-surface-variant hover:text-error"
+                      title="Remove ingredient"
+                    >
+                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Add ingredient */}
+      <div className="flex items-center gap-2 border-t border-outline-variant px-4 py-3">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleCreate();
+          }}
+          placeholder="New ingredient..."
+          className="min-w-0 flex-1 rounded-lg border border-outline bg-surface px-3 py-2 text-sm text-on-surface placeholder:text-on-surface-variant focus:border-primary focus:outline-none"
+          disabled={isSubmitting}
+        />
+        <input
+          type="text"
+          value={newUnit}
+          onChange={(e) => setNewUnit(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleCreate();
+          }}
+          placeholder="Unit (g, ml, each)"
+          className="w-36 rounded-lg border border-outline bg-surface px-3 py-2 text-sm text-on-surface placeholder:text-on-surface-variant focus:border-primary focus:outline-none"
+          disabled={isSubmitting}
+        />
+        <button
+          onClick={handleCreate}
+          disabled={isSubmitting || !newName.trim()}
+          className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-on-primary disabled:opacity-50"
+        >
+          {isSubmitting ? "..." : "Add"}
+        </button>
+      </div>
+    </div>
+  );
+}
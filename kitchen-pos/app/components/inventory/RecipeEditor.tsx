@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import { Ingredient, Item, Modifier, RecipeIngredient } from "../../types";
+import type { StockTarget } from "../../lib/supabase";
+
+interface RecipeEditorProps {
+  items: Item[];
+  modifiers: Modifier[];
+  ingredients: Ingredient[];
+  recipes: RecipeIngredient[];
+  onSetRecipeIngredient: (
+    target: StockTarget,
+    ingredientId: number,
+    quantity: number | null
+  ) => Promise<void>;
+}
+
+// Select values encode the target as "item:12" or "modifier:3"
+const toTargetKey = (target: StockTarget) =>
+  "itemId" in target ? `item:${target.itemId}` : `modifier:${target.modifierId}`;
+
+const fromTargetKey = (key: string): StockTarget | null => {
+  const [kind, id] = key.split(":");
+  if (!id) return null;
+  return kind === "item" ? { itemId: Number(id) } : { modifierId: Number(id) };
+};
+
+// Edit how much of each ingredient an item or modifier uses
+export default function RecipeEditor({
+  items,
+  modifiers,
+  ingredients,
+  recipes,
+  onSetRecipeIngredient,
+}: RecipeEditorProps) {
+  const [selectedKey, setSelectedKey] = useState("");
+  const [ingredientId, setIngredientId] = useState<number | undefined>(undefined);
+  const [quantity, setQuantity] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Default to the first item until something is picked
+  const targetKey = selectedKey || (items[0] ? toTargetKey({ itemId: items[0].id }) : "");
+  const target = fromTargetKey(targetKey);
+  const lines = target
+    ? recipes.filter((line) =>
+        "itemId" in target ? line.item_id === target.itemId : line.modifier_id === target.modifierId
+      )
+    : [];
+  const ingredientById = new Map(ingredients.map((ingredient) => [ingredient.id, ingredient]));
+  const unusedIngredients = ingredients.filter(
+    (ingredient) => !lines.some((line) => line.ingredient_id === ingredient.id)
+  );
+
+  const parsedQuantity = parseFloat(quantity);
+  const canAdd = !!target && !!ingredientId && !isNaN(parsedQuantity) && parsedQuantity > 0;
+
+  const save = async (lineIngredientId: number, value: number | null) => {
+    if (!target) return;
+    setIsSaving(true);
+    try {
+      await onSetRecipeIngredient(target, lineIngredientId, value);
+    } catch (err) {
+      console.error("Error saving recipe:", err);
+      alert("Failed to save recipe");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!canAdd) return;
+    await save(ingredientId!, parsedQuantity);
+    setIngredientId(undefined);
+    setQuantity("");
+  };
+
+  const handleEditLine = async (line: RecipeIngredient) => {
+    const ingredient = ingredientById.get(line.ingredient_id);
+    const input = prompt(
+      `How much ${ingredient?.name ?? "of this ingredient"} (${ingredient?.unit ?? ""}) does one use?`,
+      String(line.quantity)
+    );
+    if (input === null) return;
+    const value = parseFloat(input);
+    if (isNaN(value) || value <= 0) {
+      alert("Please enter a number greater than 0");
+      return;
+    }
+    await save(line.ingredient_id, value);
+  };
+
+  return (
+    <div className="rounded-2xl bg-surface-container-low">
+      <div className="border-b border-outline-variant px-4 py-3">
+        <h2 className="text-lg font-medium text-on-surface">Recipes</h2>
+      </div>
+
+      <div className="space-y-3 p-4">
+        <select
+          value={targetKey}
+          onChange={(e) => setSelectedKey(e.target.value)}
+          className="w-full rounded-lg border border-outline bg-surface px-3 py-2 text-sm text-on-surface focus:border-primary focus:outline-none"
+        >
+          <optgroup label="Items">
+            {items.map((item) => (
+              <option key={item.id} value={toTargetKey({ itemId: item.id })}>
+                {item.name}
+              </option>
+            ))}
+          </optgroup>
+          <optgroup label="Modifiers">
+            {modifiers.map((modifier) => (
+              <option key={modifier.id} value={toTargetKey({ modifierId: modifier.id })}>
+                {modifier.name}
+              </option>
+            ))}
+          </optgroup>
+        </select>
+
+        {/* Current recipe */}
+        {lines.length === 0 ? (
+          <p className="py-2 text-center text-sm text-on-surface-variant">
+            No ingredients in this recipe
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {lines.map((line) => {
+              const ingredient = ingredientById.get(line.ingredient_id);
+              return (
+                <div
+                  key={line.id}
+                  className="flex items-center justify-between rounded-lg bg-surface-container px-3 py-2 text-sm"
+                >
+                  <span className="text-on-surface">{ingredient?.name ?? "Removed ingredient"}</span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleEditLine(line)}
+                      disabled={isSaving}
+                      className="text-on-surface-variant hover:text-primary"
+                    >
+                      {line.quantity} {ingredient?.unit}
+                    </button>
+                    <button
+                      onClick={() => save(line.ingredient_id, null)}
+                      disabled={isSaving}
+                      className="text-on-surface-variant hover:text-error"
+                      title="Remove from recipe"
+                    >
+                      <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Add a line */}
+        {unusedIngredients.length > 0 && (
+          <div className="flex items-center gap-2">
+            <select
+              value={ingredientId ?? ""}
+              onChange={(e) => setIngredientId(e.target.value ? Number(e.target.value) : undefined)}
+              className="min-w-0 flex-1 rounded-lg border border-outline bg-surface px-3 py-2 text-sm text-on-surface focus:border-primary focus:outline-none"
+            >
+              <option value="">Add ingredient...</option>
+              {unusedIngredients.map((ingredient) => (
+                <option key={ingredient.id} value={ingredient.id}>
+                  {ingredient.name} ({ingredient.unit})
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              placeholder="Qty"
+              className="w-24 rounded-lg border border-outline bg-surface px-3 py-2 text-sm text-on-surface focus:border-primary focus:outline-none"
+            />
+            <button
+              onClick={handleAdd}
+              disabled={isSaving || !canAdd}
+              className="rounded-lg bg-primary px-4 py-2 text-sm font-medium text-on-primary disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 "use client";
 
 import { useState, useEffect, useMemo } from "react";
-import { Order, OrderItemStatus } from "../../types";
+import { Order, OrderItem, OrderItemStatus } from "../../types";
+import { nestModifiers, quantityLabel } from "../../lib/modifierOptions";
 
 interface KitchenOrderCardProps {
   order: Order;
@@ -81,20 +82,32 @@ export default function KitchenOrderCard({
     });
   };
 
-  // Filter items to only show those matching the category filter
+  // Filter items to only show those matching the category filter. A bundle
+  // line is made by making its components, which are shown instead.
   const filteredItems = useMemo(() => {
     if (!order.order_items) return [];
-    if (!filterCategoryId) return order.order_items;
-    return order.order_items.filter(
+    const lines = order.order_items;
+    const kitchenItems = lines.filter((item) => !lines.some((c) => c.bundle_line_id === item.id));
+    if (!filterCategoryId) return kitchenItems;
+    return kitchenItems.filter(
       (item) => item.item?.category_id === filterCategoryId
     );
   }, [order.order_items, filterCategoryId]);
 
+  const bundleName = (orderItem: OrderItem) =>
+    order.order_items?.find((item) => item.id === orderItem.bundle_line_id)?.item_name;
+
+  // Voided and refunded lines stay on the ticket (struck through) but no longer need making
+  const activeItems = useMemo(
+    () => filteredItems.filter((item) => item.status !== "cancelled" && !item.refunded_at),
+    [filteredItems]
+  );
+
   // Compute the aggregate status of filtered items (for display and actions)
   const aggregateStatus = useMemo((): OrderItemStatus => {
-    if (filteredItems.length === 0) return "new";
+    if (activeItems.length === 0) return filteredItems.length > 0 ? "cancelled" : "new";
     
-    const statuses = filteredItems.map((item) => item.status);
+    const statuses = activeItems.map((item) => item.status);
     const allNew = statuses.every((s) => s === "new");
     const allDone = statuses.every((s) => s === "done");
     const anyInProgress = statuses.some((s) => s === "in_progress");
@@ -104,15 +117,22 @@ export default function KitchenOrderCard({
     if (anyInProgress || anyDone) return "in_progress";
     if (allNew) return "new";
     return "new";
-  }, [filteredItems]);
+  }, [activeItems, filteredItems]);
 
-  // Get urgency class based on elapsed time and status
+  // Get urgency class based on elapsed time and status. Scheduled orders are
+  // urgent as their pickup time nears rather than as they age.
   const getUrgencyClass = (): string => {
     const now = new Date();
     const created = new Date(order.created_at);
     const diffMins = Math.floor((now.getTime() - created.getTime()) / 60000);
 
-    if (aggregateStatus === "done") return "";
+    if (aggregateStatus === "done" || aggregateStatus === "cancelled") return "";
+    if (order.scheduled_for) {
+      const minsToPickup = Math.floor((new Date(order.scheduled_for).getTime() - now.getTime()) / 60000);
+      if (minsToPickup <= 0) return "animate-pulse ring-2 ring-error";
+      if (minsToPickup <= 5) return "ring-2 ring-warning";
+      return "";
+    }
     if (diffMins >= 15) return "animate-pulse ring-2 ring-error";
     if (diffMins >= 10) return "ring-2 ring-warning";
     return "";
@@ -122,8 +142,8 @@ export default function KitchenOrderCard({
   const handleAdvanceStatus = () => {
     if (!onItemStatusChange || filteredItems.length === 0) return;
 
-    const itemIds = filteredItems
-      .filter((item) => item.status !== "cancelled" && item.status !== "done" && item.status !== "picked_up")
+    const itemIds = activeItems
+      .filter((item) => item.status !== "done" && item.status !== "picked_up")
       .map((item) => item.id);
 
     if (itemIds.length === 0) return;
@@ -215,7 +235,7 @@ export default function KitchenOrderCard({
             {statusConfig.label}
           </span>
           <span className={`text-sm font-medium ${getHeaderTextClass()}`}>
-            ⏱ {elapsedTime}
+            {order.scheduled_for ? `Pickup ${formatTime(order.scheduled_for)}` : `⏱ ${elapsedTime}`}
           </span>
         </div>
       </div>
@@ -228,15 +248,17 @@ export default function KitchenOrderCard({
             const isInProgress = orderItem.status === "in_progress";
             const isDone = orderItem.status === "done";
             const isPickedUp = orderItem.status === "picked_up";
+            const isVoided = orderItem.status === "cancelled";
+            const isRefunded = !!orderItem.refunded_at;
             
             return (
               <div
                 key={orderItem.id}
-                className={`px-4 py-3 ${isDone || isPickedUp ? "bg-primary-container/20" : ""}`}
+                className={`px-4 py-3 ${isVoided || isRefunded ? "line-through opacity-50" : isDone || isPickedUp ? "bg-primary-container/20" : ""}`}
               >
                 <div className="flex items-start gap-3">
                   {/* Checkbox for in_progress items OR checkmark for done items */}
-                  {isInProgress && onItemStatusChange ? (
+                  {isInProgress && !isRefunded && onItemStatusChange ? (
                     <button
                       onClick={() => handleItemDone(orderItem.id)}
                       className="mt-0.5 flex h-8 w-8 shrink-0 items-center justify-center rounded-lg border-2 border-secondary bg-surface text-secondary transition-all hover:bg-secondary hover:text-on-secondary active:scale-95"
@@ -288,26 +310,48 @@ export default function KitchenOrderCard({
                         {orderItem.quantity > 1 && (isDone || isInProgress) && (
                           <span className="mr-1">{orderItem.quantity}×</span>
                         )}
-                        {orderItem.item?.name || "Unknown item"}
+                        {/* Size first so it can't be missed at a glance */}
+                        {orderItem.variant_name && (
+                          <span className="mr-1.5 rounded-md bg-secondary px-1.5 py-0.5 text-sm font-bold uppercase text-on-secondary">
+                            {orderItem.variant_name}
+                          </span>
+                        )}
+                        {orderItem.item_name}
                       </p>
                       {/* Individual item status badge */}
                       <span
                         className={`rounded-full px-2 py-0.5 text-xs font-medium ${itemStatusConfig.bgClass} ${itemStatusConfig.textClass}`}
                       >
-                        {itemStatusConfig.label}
+                        {isVoided ? "Voided" : isRefunded ? "Refunded" : itemStatusConfig.label}
                       </span>
                     </div>
+
+                    {/* The bundle this component belongs to */}
+                    {orderItem.bundle_line_id !== null && (
+                      <p className="mt-0.5 text-xs text-on-surface-variant">
+                        Part of {bundleName(orderItem) ?? "a bundle"}
+                      </p>
+                    )}
                     
                     {/* Modifiers - displayed as a list below item name */}
                     {orderItem.modifiers && orderItem.modifiers.length > 0 ? (
                       <ul className="mt-1 space-y-0.5 pl-1">
-                        {orderItem.modifiers.map((mod) => (
+                        {nestModifiers(orderItem.modifiers).map(({ modifier: mod, options }) => (
                           <li
                             key={mod.id}
-                            className={`flex items-center gap-1.5 text-sm ${isDone ? "text-primary/70" : "text-on-surface-variant"}`}
+                            className={`text-sm ${isDone ? "text-primary/70" : "text-on-surface-variant"}`}
                           >
-                            <span className={isDone ? "text-primary" : "text-secondary"}>→</span>
-                            <span className="font-medium">{mod.label || "Modifier"}</span>
+                            <div className="flex items-center gap-1.5">
+                              <span className={isDone ? "text-primary" : "text-secondary"}>→</span>
+                              <span className="font-medium">{quantityLabel(mod.label || "Modifier", mod.quantity)}</span>
+                            </div>
+                            {/* Options chosen under the modifier, e.g. Scallion */}
+                            {options.map((option) => (
+                              <div key={option.id} className="flex items-center gap-1.5 pl-5">
+                                <span className={isDone ? "text-primary" : "text-secondary"}>↳</span>
+                                <span>{quantityLabel(option.label || "Option", option.quantity)}</span>
+                              </div>
+                            ))}
                           </li>
                         ))}
                       </ul>
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Category, Modifier } from "../../types";
+import { Category, Modifier, ModifierGroup } from "../../types";
 import CategoryPicker from "./CategoryPicker";
 import ModifierPicker from "./ModifierPicker";
 
@@ -9,6 +9,7 @@ interface AddItemModalProps {
   isOpen: boolean;
   categories: Category[];
   modifiers: Modifier[];
+  modifierGroups?: ModifierGroup[];
   selectedCategoryId?: number;
   onClose: () => void;
   onAddItem: (item: {
@@ -19,6 +20,8 @@ interface AddItemModalProps {
     image_url: string | null;
     modifierIds: number[];
     no_prep_needed: boolean;
+    is_tax_exempt: boolean;
+    is_bundle: boolean;
   }) => Promise<void>;
   onCreateCategory?: (name: string) => Promise<Category | null>;
   onDeleteCategory?: (categoryId: number) => Promise<boolean>;
@@ -29,6 +32,7 @@ export default function AddItemModal({
   isOpen,
   categories,
   modifiers,
+  modifierGroups,
   selectedCategoryId,
   onClose,
   onAddItem,
@@ -43,6 +47,8 @@ export default function AddItemModal({
   const [categoryId, setCategoryId] = useState<number | undefined>(selectedCategoryId);
   const [selectedModifierIds, setSelectedModifierIds] = useState<number[]>([]);
   const [noPrepNeeded, setNoPrepNeeded] = useState(false);
+  const [isTaxExempt, setIsTaxExempt] = useState(false);
+  const [isBundle, setIsBundle] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -87,6 +93,8 @@ export default function AddItemModal({
         image_url: imageUrl.trim() || null,
         modifierIds: selectedModifierIds,
         no_prep_needed: noPrepNeeded,
+        is_tax_exempt: isTaxExempt,
+        is_bundle: isBundle,
       });
       // Reset form
       setName("");
@@ -96,6 +104,8 @@ export default function AddItemModal({
       setCategoryId(selectedCategoryId);
       setSelectedModifierIds([]);
       setNoPrepNeeded(false);
+      setIsTaxExempt(false);
+      setIsBundle(false);
       onClose();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to create item");
@@ -112,6 +122,7 @@ export default function AddItemModal({
     setCategoryId(selectedCategoryId);
     setSelectedModifierIds([]);
     setNoPrepNeeded(false);
+    setIsBundle(false);
     setError(null);
     onClose();
   };
@@ -247,6 +258,7 @@ export default function AddItemModal({
             </label>
             <ModifierPicker
               modifiers={modifiers}
+              modifierGroups={modifierGroups}
               selectedModifierIds={selectedModifierIds}
               onToggleModifier={handleToggleModifier}
               onCreateModifier={onCreateModifier}
@@ -295,6 +307,90 @@ export default function AddItemModal({
             </button>
           </div>
 
+          {/* Bundle Toggle */}
+          <div>
+            <button
+              type="button"
+              onClick={() => setIsBundle(!isBundle)}
+              className={`flex w-full items-center justify-between rounded-xl border-2 px-4 py-3 text-left transition-all ${
+                isBundle
+                  ? "border-primary bg-primary-container"
+                  : "border-outline-variant bg-surface-container hover:border-outline hover:bg-surface-container-high"
+              }`}
+            >
+              <div>
+                <p className={`font-medium ${isBundle ? "text-on-primary-container" : "text-on-surface"}`}>
+                  Bundle
+                </p>
+                <p className={`text-sm ${isBundle ? "text-on-primary-container/70" : "text-on-surface-variant"}`}>
+                  A deal made of other items (e.g., bagel + latte); set up its parts after adding
+                </p>
+              </div>
+              <div
+                className={`flex h-6 w-6 items-center justify-center rounded-md transition-all ${
+                  isBundle
+                    ? "bg-primary text-on-primary"
+                    : "border-2 border-outline-variant bg-surface"
+                }`}
+              >
+                {isBundle && (
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="h-4 w-4"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                    strokeWidth={3}
+                  >
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                  </svg>
+                )}
+              </div>
+            </button>
+          </div>
+
+          {/* Tax Exempt Toggle */}
+          <div>
+            <button
+              type="button"
+              onClick={() => setIsTaxExempt(!isTaxExempt)}
+              className={`flex w-full items-center justify-between rounded-xl border-2 px-4 py-3 text-left transition-all ${
+                isTaxExempt
+                  ? "border-primary bg-primary-container"
+                  : "border-outline-variant bg-surface-container hover:border-outline hover:bg-surface-container-high"
+              }`}
+            >
+              <div>
+                <p className={`font-medium ${isTaxExempt ? "text-on-primary-container" : "text-on-surface"}`}>
+                  Tax exempt
+                </p>
+                <p className={`text-sm ${isTaxExempt ? "text-on-primary-container/70" : "text-on-surface-variant"}`}>
+                  No sales tax is charged on this item
+                </p>
+              </div>
+              <div
+                className={`flex h-6 w-6 items-center justify-center rounded-md transition-all ${
+                  isTaxExempt
+                    ? "bg-primary text-on-primary"
+                    : "border-2 border-outline-variant bg-surface"
+                }`}
+              >
+                {isTaxExempt && (
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    className="h-4 w-4"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                    strokeWidth={3}
+                  >
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                  </svg>
+                )}
+              </div>
+            </button>
+          </div>
+
           {/* Error */}
           {error && (
             <div className="rounded-lg bg-error-container px-4 py-3 text-sm text-on-error-container">
@@ -0,0 +1,209 @@
+"use client";
+
+import { BundleSlot, BundleSlotChoice, Item } from "../../types";
+
+interface BundleManagerProps {
+  slots: BundleSlot[]; // The bundle's parts, each with the items it can be filled with
+  items: Item[]; // Items that can be offered in a slot
+  // Items that need a size or option chosen can't be; components have neither
+  canOfferItem?: (item: Item) => boolean;
+  onCreateSlot: (name: string) => Promise<void>;
+  onUpdateSlot: (
+    slotId: number,
+    updates: Partial<Pick<BundleSlot, "name" | "display_order">>
+  ) => Promise<void>;
+  onDeactivateSlot: (slotId: number) => Promise<void>;
+  onSetChoice: (slotId: number, itemId: number, priceDelta: number) => Promise<void>;
+  onRemoveChoice: (choiceId: number) => Promise<void>;
+}
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(price);
+};
+
+// Asks for a choice's upcharge. Returns null if cancelled or invalid.
+const promptPriceDelta = (itemName: string, current = 0): number | null => {
+  const input = prompt(`Upcharge for ${itemName} (0 = included)`, String(current));
+  if (input === null) return null;
+  const priceDelta = parseFloat(input);
+  if (isNaN(priceDelta) || priceDelta < 0) {
+    alert("Please enter an upcharge of 0 or more");
+    return null;
+  }
+  return priceDelta;
+};
+
+// Bundle setup inside the item detail modal: add, rename, reorder and remove
+// the bundle's parts, and choose which items can fill each part
+export default function BundleManager({
+  slots,
+  items,
+  onCreateSlot,
+  onUpdateSlot,
+  onDeactivateSlot,
+  onSetChoice,
+  onRemoveChoice,
+  canOfferItem = () => true,
+}: BundleManagerProps) {
+  const sortedSlots = [...slots].sort((a, b) => a.display_order - b.display_order);
+  // A bundle can't be a part of another bundle
+  const offerableItems = items.filter((item) => !item.is_bundle && canOfferItem(item));
+
+  const itemName = (itemId: number) => items.find((i) => i.id === itemId)?.name ?? "Unknown item";
+
+  const handleCreateSlot = async () => {
+    const name = prompt("Part name (e.g. Main, Side, Drink)");
+    if (name?.trim()) await onCreateSlot(name.trim());
+  };
+
+  const handleRenameSlot = async (slot: BundleSlot) => {
+    const name = prompt("Part name", slot.name);
+    if (name?.trim() && name.trim() !== slot.name) await onUpdateSlot(slot.id, { name: name.trim() });
+  };
+
+  const handleRemoveSlot = async (slot: BundleSlot) => {
+    if (!confirm(`Remove ${slot.name} from this bundle? Past orders keep it.`)) return;
+    await onDeactivateSlot(slot.id);
+  };
+
+  // Swap places with the neighbouring part, then renumber by position
+  const handleMoveSlot = async (index: number, direction: -1 | 1) => {
+    const reordered = [...sortedSlots];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+    for (const [position, slot] of reordered.entries()) {
+      if (slot.display_order !== position) {
+        await onUpdateSlot(slot.id, { display_order: position });
+      }
+    }
+  };
+
+  const handleAddChoice = async (slot: BundleSlot, itemId: number) => {
+    const priceDelta = promptPriceDelta(itemName(itemId));
+    if (priceDelta !== null) await onSetChoice(slot.id, itemId, priceDelta);
+  };
+
+  const handleEditChoice = async (choice: BundleSlotChoice) => {
+    const priceDelta = promptPriceDelta(itemName(choice.item_id), choice.price_delta);
+    if (priceDelta !== null) await onSetChoice(choice.slot_id, choice.item_id, priceDelta);
+  };
+
+  return (
+    <div className="space-y-3">
+      {sortedSlots.length === 0 && (
+        <p className="text-sm text-on-surface-variant">
+          Add the parts this bundle is made of, then the items each part can be.
+        </p>
+      )}
+      {sortedSlots.map((slot, index) => {
+        const choices = slot.choices ?? [];
+        const unofferedItems = offerableItems.filter((item) => !choices.some((c) => c.item_id === item.id));
+        return (
+          <div key={slot.id} className="rounded-lg bg-surface-container px-3 py-2 text-sm">
+            <div className="flex items-center justify-between">
+              <button
+                type="button"
+                onClick={() => handleRenameSlot(slot)}
+                className="text-left font-medium text-on-surface hover:text-primary"
+                title="Rename part"
+              >
+                {slot.name}
+              </button>
+              <div className="flex items-center">
+                <button
+                  type="button"
+                  onClick={() => handleMoveSlot(index, -1)}
+                  disabled={index === 0}
+                  className="rounded p-1 text-on-surface-variant hover:text-on-surface disabled:opacity-30"
+                  title="Move up"
+                >
+                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                  </svg>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleMoveSlot(index, 1)}
+                  disabled={index === sortedSlots.length - 1}
+                  className="rounded p-1 text-on-surface-variant hover:text-on-surface disabled:opacity-30"
+                  title="Move down"
+                >
+                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                  </svg>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveSlot(slot)}
+                  className="rounded p-1 text-on-surface-variant hover:text-error"
+                  title="Remove part"
+                >
+                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+
+            <div className="mt-2 flex flex-wrap gap-2">
+              {choices.map((choice) => (
+                <span
+                  key={choice.id}
+                  className="inline-flex items-center gap-1 rounded-full bg-surface-container-high px-3 py-1 text-on-surface"
+                >
+                  <button
+                    type="button"
+                    onClick={() => handleEditChoice(choice)}
+                    className="hover:text-primary"
+                    title="Change upcharge"
+                  >
+                    {itemName(choice.item_id)}
+                    {choice.price_delta > 0 && (
+                      <span className="ml-1 opacity-70">(+{formatPrice(choice.price_delta)})</span>
+                    )}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onRemoveChoice(choice.id)}
+                    className="text-on-surface-variant hover:text-error"
+                    title="Stop offering"
+                  >
+                    <svg className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </span>
+              ))}
+              {unofferedItems.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && handleAddChoice(slot, Number(e.target.value))}
+                  className="rounded-lg border border-outline bg-surface px-2 py-1 text-sm text-on-surface focus:border-primary focus:outline-none"
+                >
+                  <option value="">Add item...</option>
+                  {unofferedItems.map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={handleCreateSlot}
+        className="flex items-center gap-2 text-sm text-primary hover:underline"
+      >
+        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+        </svg>
+        Add Part
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,363 @@
+"use client";
+
+import { useState } from "react";
+import { Campaign, CampaignItem, CampaignModifierPrice, Category, Item, Modifier } from "../../types";
+
+export interface CampaignMenu {
+  items: Pick<CampaignItem, "item_id" | "price_override">[];
+  modifierPrices: Pick<CampaignModifierPrice, "modifier_id" | "price_delta">[];
+}
+
+interface CampaignMenuModalProps {
+  isOpen: boolean;
+  campaign: Campaign;
+  campaigns: Campaign[];
+  categories: Category[];
+  items: Item[];
+  modifiers: Modifier[];
+  menu: CampaignMenu;
+  onClose: () => void;
+  onSave: (menu: CampaignMenu) => Promise<void>;
+  onCopyFrom: (fromCampaignId: number) => Promise<CampaignMenu>;
+}
+
+// Price inputs are kept as text keyed by id; blank means "use the regular price"
+const itemPriceInputs = (menu: CampaignMenu): Record<number, string> =>
+  Object.fromEntries(
+    menu.items.map((ci) => [ci.item_id, ci.price_override === null ? "" : String(ci.price_override)])
+  );
+
+const modifierPriceInputs = (menu: CampaignMenu): Record<number, string> =>
+  Object.fromEntries(menu.modifierPrices.map((mp) => [mp.modifier_id, String(mp.price_delta)]));
+
+const parsePrice = (value: string | undefined) =>
+  value === undefined || value.trim() === "" ? null : parseFloat(value);
+
+// Pick which items are offered for a campaign, and optionally what they cost
+// there. Leaving every item unticked means the campaign has no menu and the
+// terminal offers all active items at their regular prices.
+export default function CampaignMenuModal({
+  isOpen,
+  campaign,
+  campaigns,
+  categories,
+  items,
+  modifiers,
+  menu,
+  onClose,
+  onSave,
+  onCopyFrom,
+}: CampaignMenuModalProps) {
+  const otherCampaigns = campaigns.filter((c) => c.id !== campaign.id);
+  // Campaigns are sorted newest first, so the first one that started earlier is the previous one
+  const previousCampaign =
+    otherCampaigns.find(
+      (c) => c.starts_at && campaign.starts_at && c.starts_at < campaign.starts_at
+    ) ?? otherCampaigns[0];
+
+  // Keyed by item id; an item is on the menu when it has an entry
+  const [itemPrices, setItemPrices] = useState(() => itemPriceInputs(menu));
+  const [modifierPrices, setModifierPrices] = useState(() => modifierPriceInputs(menu));
+  const [showModifierPrices, setShowModifierPrices] = useState(menu.modifierPrices.length > 0);
+  const [copyFromId, setCopyFromId] = useState<number | undefined>(previousCampaign?.id);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+    }).format(price);
+  };
+
+  const selectedIds = Object.keys(itemPrices).map(Number);
+
+  const invalidItemPrice = Object.values(itemPrices).some((value) => {
+    const price = parsePrice(value);
+    return price !== null && (isNaN(price) || price < 0);
+  });
+  const invalidModifierPrice = Object.values(modifierPrices).some((value) => {
+    const price = parsePrice(value);
+    return price !== null && isNaN(price);
+  });
+
+  const handleToggleItem = (itemId: number) => {
+    setItemPrices((prev) => {
+      const next = { ...prev };
+      if (itemId in next) {
+        delete next[itemId];
+      } else {
+        next[itemId] = "";
+      }
+      return next;
+    });
+  };
+
+  const handleToggleCategory = (categoryItems: Item[]) => {
+    const allSelected = categoryItems.every((item) => item.id in itemPrices);
+    setItemPrices((prev) => {
+      const next = { ...prev };
+      categoryItems.forEach((item) => {
+        if (allSelected) {
+          delete next[item.id];
+        } else if (!(item.id in next)) {
+          next[item.id] = "";
+        }
+      });
+      return next;
+    });
+  };
+
+  const handleCopy = async () => {
+    if (!copyFromId) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const copied = await onCopyFrom(copyFromId);
+      if (copied.items.length === 0 && copied.modifierPrices.length === 0) {
+        setError("That campaign has no menu to copy");
+        return;
+      }
+      setItemPrices(itemPriceInputs(copied));
+      setModifierPrices(modifierPriceInputs(copied));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to copy menu");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave({
+        items: selectedIds.map((itemId) => ({
+          item_id: itemId,
+          price_override: parsePrice(itemPrices[itemId]),
+        })),
+        modifierPrices: Object.entries(modifierPrices)
+          .filter(([, value]) => parsePrice(value) !== null)
+          .map(([modifierId, value]) => ({
+            modifier_id: Number(modifierId),
+            price_delta: parsePrice(value) as number,
+          })),
+      });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save menu");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const itemsByCategory = categories
+    .map((category) => ({
+      category,
+      items: items.filter((item) => item.category_id === category.id),
+    }))
+    .filter((group) => group.items.length > 0);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={handleBackdropClick}
+    >
+      <div className="w-full max-w-lg overflow-hidden rounded-2xl bg-surface-container-lowest shadow-[var(--md-elevation-3)]">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-outline-variant px-6 py-4">
+          <div>
+            <h2 className="text-xl font-semibold text-on-surface">Campaign Menu</h2>
+            <p className="text-sm text-on-surface-variant">
+              {campaign.name} ·{" "}
+              {selectedIds.length === 0 ? "All items offered" : `${selectedIds.length} items`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="flex h-10 w-10 items-center justify-center rounded-full text-on-surface-variant transition-colors hover:bg-surface-container-high"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-6 w-6"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Copy from another campaign */}
+        {otherCampaigns.length > 0 && (
+          <div className="flex items-center gap-2 border-b border-outline-variant px-6 py-3">
+            <span className="shrink-0 text-sm text-on-surface-variant">Copy from</span>
+            <select
+              value={copyFromId ?? ""}
+              onChange={(e) => setCopyFromId(Number(e.target.value))}
+              className="min-w-0 flex-1 rounded-lg border border-outline bg-surface px-2 py-1.5 text-sm text-on-surface focus:border-primary focus:outline-none"
+              disabled={isSaving}
+            >
+              {otherCampaigns.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                  {c.starts_at ? ` (${new Date(c.starts_at).toLocaleDateString()})` : ""}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={handleCopy}
+              disabled={isSaving || !copyFromId}
+              className="shrink-0 rounded-full bg-secondary-container px-4 py-1.5 text-sm font-medium text-on-secondary-container transition-colors hover:bg-secondary disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Copy
+            </button>
+          </div>
+        )}
+
+        {/* Items */}
+        <div className="max-h-[50vh] overflow-y-auto p-4">
+          {itemsByCategory.length === 0 ? (
+            <p className="py-8 text-center text-sm text-on-surface-variant">No items available</p>
+          ) : (
+            itemsByCategory.map(({ category, items: categoryItems }) => {
+              const selectedCount = categoryItems.filter((item) => item.id in itemPrices).length;
+              return (
+                <div key={category.id} className="mb-4 last:mb-0">
+                  <div className="mb-1 flex items-center justify-between px-2">
+                    <p className="text-xs font-medium uppercase tracking-wide text-on-surface-variant">
+                      {category.name}
+                    </p>
+                    <button
+                      type="button"
+                      onClick={() => handleToggleCategory(categoryItems)}
+                      className="text-xs text-primary hover:underline"
+                    >
+                      {selectedCount === categoryItems.length ? "Clear" : "Select all"}
+                    </button>
+                  </div>
+                  {categoryItems.map((item) => {
+                    const isSelected = item.id in itemPrices;
+                    return (
+                      <div key={item.id} className="flex items-center gap-2">
+                        <button
+                          type="button"
+                          onClick={() => handleToggleItem(item.id)}
+                          className={`flex min-w-0 flex-1 items-center justify-between rounded-md px-3 py-2 text-left text-sm transition-colors hover:bg-surface-container-high ${
+                            isSelected
+                              ? "bg-secondary-container text-on-secondary-container"
+                              : "text-on-surface"
+                          }`}
+                        >
+                          <span className="truncate">{item.name}</span>
+                          {isSelected && (
+                            <svg className="h-4 w-4 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                            </svg>
+                          )}
+                        </button>
+                        {isSelected && (
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={itemPrices[item.id]}
+                            onChange={(e) =>
+                              setItemPrices((prev) => ({ ...prev, [item.id]: e.target.value }))
+                            }
+                            placeholder={formatPrice(item.base_price)}
+                            title="Price for this campaign (blank uses the regular price)"
+                            className="w-24 shrink-0 rounded-lg border border-outline bg-transparent px-2 py-1.5 text-sm text-on-surface placeholder-on-surface-variant focus:border-primary focus:outline-none"
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })
+          )}
+
+          {/* Modifier prices */}
+          {modifiers.length > 0 && (
+            <div className="mt-4 border-t border-outline-variant pt-3">
+              <button
+                type="button"
+                onClick={() => setShowModifierPrices(!showModifierPrices)}
+                className="flex w-full items-center justify-between px-2 text-xs font-medium uppercase tracking-wide text-on-surface-variant hover:text-on-surface"
+              >
+                <span>Modifier prices</span>
+                <span>{showModifierPrices ? "Hide" : "Show"}</span>
+              </button>
+              {showModifierPrices &&
+                modifiers.map((modifier) => (
+                  <div key={modifier.id} className="flex items-center gap-2 px-3 py-1.5">
+                    <span className="min-w-0 flex-1 truncate text-sm text-on-surface">
+                      {modifier.name}
+                    </span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={modifierPrices[modifier.id] ?? ""}
+                      onChange={(e) =>
+                        setModifierPrices((prev) => ({ ...prev, [modifier.id]: e.target.value }))
+                      }
+                      placeholder={formatPrice(modifier.price_delta)}
+                      title="Price for this campaign (blank uses the regular price)"
+                      className="w-24 shrink-0 rounded-lg border border-outline bg-transparent px-2 py-1.5 text-sm text-on-surface placeholder-on-surface-variant focus:border-primary focus:outline-none"
+                    />
+                  </div>
+                ))}
+            </div>
+          )}
+
+          {error && (
+            <div className="mt-4 rounded-lg border border-error px-4 py-3 text-sm text-error">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center gap-3 border-t border-outline-variant bg-surface-container-low px-6 py-4">
+          <button
+            type="button"
+            onClick={() => setItemPrices({})}
+            disabled={isSaving || selectedIds.length === 0}
+            className="mr-auto text-sm text-on-surface-variant hover:text-on-surface disabled:opacity-50"
+          >
+            Offer all items
+          </button>
+          <button
+            onClick={onClose}
+            className="rounded-full border border-outline px-5 py-2.5 text-sm font-medium text-on-surface transition-colors hover:bg-surface-container-high"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || invalidItemPrice || invalidModifierPrice}
+            className="rounded-full bg-primary px-5 py-2.5 text-sm font-medium text-on-primary transition-colors hover:shadow-[var(--md-elevation-1)] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isSaving ? "Saving..." : "Save Menu"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
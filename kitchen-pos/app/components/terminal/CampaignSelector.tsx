@@ -9,6 +9,10 @@ interface CampaignSelectorProps {
   onSelectCampaign: (campaign: Campaign) => void;
   onCreateCampaign?: (name: string) => Promise<Campaign>;
   onToggleCampaignActive?: (campaignId: number, isActive: boolean) => Promise<void>;
+  onUpdateCampaignTaxRate?: (campaignId: number, taxRate: number) => Promise<void>;
+  onUpdateCampaignLeadTime?: (campaignId: number, minutes: number) => Promise<void>;
+  menuItemCount?: number;
+  onEditMenu?: () => void;
 }
 
 export default function CampaignSelector({
@@ -17,11 +21,17 @@ export default function CampaignSelector({
   onSelectCampaign,
   onCreateCampaign,
   onToggleCampaignActive,
+  onUpdateCampaignTaxRate,
+  onUpdateCampaignLeadTime,
+  menuItemCount = 0,
+  onEditMenu,
 }: CampaignSelectorProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [newCampaignName, setNewCampaignName] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isEditingTax, setIsEditingTax] = useState(false);
+  const [taxRateInput, setTaxRateInput] = useState("");
   const dropdownRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -64,6 +74,42 @@ export default function CampaignSelector({
     }
   };
 
+  // Tax rate is edited as a percentage and stored as a fraction
+  const parsedTaxPercent = parseFloat(taxRateInput);
+  const isTaxRateValid = !isNaN(parsedTaxPercent) && parsedTaxPercent >= 0 && parsedTaxPercent < 100;
+
+  const handleSaveTaxRate = async () => {
+    if (!selectedCampaign || !onUpdateCampaignTaxRate || !isTaxRateValid) return;
+
+    setIsSubmitting(true);
+    try {
+      await onUpdateCampaignTaxRate(
+        selectedCampaign.id,
+        Math.round(parsedTaxPercent * 100) / 10000
+      );
+      setIsEditingTax(false);
+    } catch (err) {
+      console.error("Error updating tax rate:", err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleEditLeadTime = async () => {
+    if (!selectedCampaign || !onUpdateCampaignLeadTime) return;
+    const input = prompt(
+      "Minutes before pickup that scheduled orders go to the kitchen",
+      String(selectedCampaign.fire_lead_minutes)
+    );
+    if (input === null) return;
+    const minutes = parseInt(input, 10);
+    if (isNaN(minutes) || minutes < 0) {
+      alert("Please enter 0 or more minutes");
+      return;
+    }
+    await onUpdateCampaignLeadTime(selectedCampaign.id, minutes);
+  };
+
   const handleToggleActive = async (e: React.MouseEvent, campaign: Campaign) => {
     e.stopPropagation();
     if (!onToggleCampaignActive) return;
@@ -297,6 +343,90 @@ export default function CampaignSelector({
                 ))}
               </>
             )}
+
+            {/* Menu for the selected campaign */}
+            {selectedCampaign && onEditMenu && (
+              <div className="mt-2 border-t border-outline-variant px-3 pt-3 pb-1">
+                <button
+                  type="button"
+                  onClick={() => {
+                    onEditMenu();
+                    setIsOpen(false);
+                  }}
+                  className="flex w-full items-center justify-between text-sm text-on-surface-variant hover:text-on-surface"
+                >
+                  <span>Menu</span>
+                  <span className="font-medium">
+                    {menuItemCount === 0 ? "All items" : `${menuItemCount} items`}
+                  </span>
+                </button>
+              </div>
+            )}
+
+            {/* Sales tax for the selected campaign */}
+            {selectedCampaign && onUpdateCampaignTaxRate && (
+              <div className="mt-2 border-t border-outline-variant px-3 pt-3 pb-1">
+                {isEditingTax ? (
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-on-surface-variant">Sales tax</span>
+                    <input
+                      type="number"
+                      min="0"
+                      max="99.99"
+                      step="0.01"
+                      value={taxRateInput}
+                      onChange={(e) => setTaxRateInput(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleSaveTaxRate();
+                        if (e.key === "Escape") setIsEditingTax(false);
+                      }}
+                      className="w-20 rounded-lg border border-outline bg-surface px-2 py-1 text-sm text-on-surface focus:border-primary focus:outline-none"
+                      disabled={isSubmitting}
+                      data-lpignore="true"
+                      data-form-type="other"
+                      autoComplete="off"
+                    />
+                    <span className="text-sm text-on-surface-variant">%</span>
+                    <button
+                      type="button"
+                      onClick={handleSaveTaxRate}
+                      disabled={isSubmitting || !isTaxRateValid}
+                      className="ml-auto rounded-lg bg-primary px-3 py-1 text-sm font-medium text-on-primary disabled:opacity-50"
+                    >
+                      {isSubmitting ? "..." : "Save"}
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setTaxRateInput(String(Math.round(selectedCampaign.tax_rate * 10000) / 100));
+                      setIsEditingTax(true);
+                    }}
+                    className="flex w-full items-center justify-between text-sm text-on-surface-variant hover:text-on-surface"
+                  >
+                    <span>Sales tax</span>
+                    <span className="font-medium">
+                      {Math.round(selectedCampaign.tax_rate * 10000) / 100}%
+                    </span>
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* How early scheduled orders reach the kitchen */}
+            {selectedCampaign && onUpdateCampaignLeadTime && (
+              <div className="mt-2 border-t border-outline-variant px-3 pt-3 pb-1">
+                <button
+                  type="button"
+                  onClick={handleEditLeadTime}
+                  className="flex w-full items-center justify-between text-sm text-on-surface-variant hover:text-on-surface"
+                >
+                  <span>Kitchen lead time</span>
+                  <span className="font-medium">{selectedCampaign.fire_lead_minutes} min</span>
+                </button>
+              </div>
+            )}
           </div>
         </div>
       )}
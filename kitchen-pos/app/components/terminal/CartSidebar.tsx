@@ -1,24 +1,43 @@
 "use client";
 
-import { useState } from "react";
-import { CartItem, Order, OrderItem, OrderStatus, OrderItemStatus } from "../../types";
+import { useRef, useState } from "react";
+import { CartDiscount, CartItem, Order, OrderItem, OrderStatus, OrderItemStatus, PendingOrder, Tender } from "../../types";
+import { CartTotals, cartLineDiscount, cartLineTotal } from "../../lib/pricing";
+import { describeModifiers } from "../../lib/modifierOptions";
 import RecentOrders from "./RecentOrders";
+import { AdjustmentRequest } from "./OrderCard";
+import DiscountEditor from "./DiscountEditor";
+import PaymentPanel, { remainingBalance } from "./PaymentPanel";
 
 type SidebarTab = "cart" | "orders";
+type CheckoutStep = "items" | "payment";
+
+const TIP_PERCENTAGES = [10, 15, 20];
 
 interface CartSidebarProps {
   cartItems: CartItem[];
   customerName: string;
   onCustomerNameChange: (name: string) => void;
+  // Staff-only features below are shown only when their callbacks are passed,
+  // so customer self-ordering can reuse the cart without them
+  scheduledFor?: string; // Pickup time as a datetime-local value; empty = make now
+  onScheduledForChange?: (scheduledFor: string) => void;
   onUpdateQuantity: (cartItemId: string, quantity: number) => void;
   onRemoveItem: (cartItemId: string) => void;
   onClearCart: () => void;
-  onPlaceOrder: () => void;
-  total: number;
+  onPlaceOrder: () => Promise<boolean>;
+  totals: CartTotals;
+  orderDiscount?: CartDiscount | null;
+  onOrderDiscountChange?: (discount: CartDiscount | null) => void;
+  onLineDiscountChange?: (cartItemId: string, discount: CartDiscount | undefined) => void;
+  onTipChange?: (tip: number) => void;
+  tenders?: Tender[];
+  onAddTender?: (tender: Omit<Tender, "id">) => void; // Without it, orders are placed unpaid
+  onRemoveTender?: (tenderId: string) => void;
   isOpen?: boolean;
   onClose?: () => void;
   // Recent orders props
-  recentOrders?: Order[];
+  campaignId?: number | null; // Whose recent orders to show
   isLoadingOrders?: boolean;
   hasMoreOrders?: boolean;
   onLoadMoreOrders?: () => void;
@@ -26,21 +45,34 @@ interface CartSidebarProps {
   onOrderStatusChange?: (orderId: number, newStatus: OrderStatus) => void;
   onItemStatusChange?: (orderItemId: number, newStatus: OrderItemStatus) => void;
   onEditOrderItem?: (orderItem: OrderItem) => void;
-  onDeleteOrderItem?: (orderItemId: number) => void;
+  onAdjustOrder?: (request: AdjustmentRequest) => void;
+  canRefundOrders?: boolean;
+  pendingOrders?: PendingOrder[]; // Taken offline and not sent yet
+  onDiscardPendingOrder?: (clientKey: string) => void;
+  onCollectPayment?: (order: Order) => void;
 }
 
 export default function CartSidebar({
   cartItems,
   customerName,
   onCustomerNameChange,
+  scheduledFor = "",
+  onScheduledForChange,
   onUpdateQuantity,
   onRemoveItem,
   onClearCart,
   onPlaceOrder,
-  total,
+  totals,
+  orderDiscount = null,
+  onOrderDiscountChange,
+  onLineDiscountChange,
+  onTipChange,
+  tenders = [],
+  onAddTender,
+  onRemoveTender,
   isOpen = false,
   onClose,
-  recentOrders = [],
+  campaignId = null,
   isLoadingOrders = false,
   hasMoreOrders = false,
   onLoadMoreOrders,
@@ -48,9 +80,19 @@ export default function CartSidebar({
   onOrderStatusChange,
   onItemStatusChange,
   onEditOrderItem,
-  onDeleteOrderItem,
+  onAdjustOrder,
+  canRefundOrders,
+  pendingOrders = [],
+  onDiscardPendingOrder,
+  onCollectPayment,
 }: CartSidebarProps) {
   const [activeTab, setActiveTab] = useState<SidebarTab>("cart");
+  // Cart item ID, "order", or null when no discount editor is open
+  const [editingDiscount, setEditingDiscount] = useState<string | null>(null);
+  const [customTip, setCustomTip] = useState("");
+  const [checkoutStep, setCheckoutStep] = useState<CheckoutStep>("items");
+  const [isPlacingOrder, setIsPlacingOrder] = useState(false);
+  const placingRef = useRef(false);
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -58,13 +100,42 @@ export default function CartSidebar({
     }).format(price);
   };
 
-  const calculateItemTotal = (cartItem: CartItem): number => {
-    const baseTotal = cartItem.item.base_price * cartItem.quantity;
-    const modifiersTotal = cartItem.modifiers.reduce(
-      (sum, mod) => sum + mod.price_delta * cartItem.quantity,
-      0
-    );
-    return baseTotal + modifiersTotal;
+  const formatDiscount = (discount: CartDiscount) =>
+    discount.kind === "percent" ? `${discount.value}%` : formatPrice(discount.value);
+
+  // Tip presets are a percentage of the discounted subtotal
+  const tipBase = totals.subtotal - totals.discountTotal;
+  const tipForPercent = (percent: number) => Math.round(tipBase * percent) / 100;
+
+  const isPaymentStep =
+    checkoutStep === "payment" && cartItems.length > 0 && !!onAddTender && !!onRemoveTender;
+  // Recent orders are a staff view; customers only see their cart
+  const showOrdersTab = !!onLoadMoreOrders;
+  const remaining = remainingBalance(totals.total, tenders);
+
+  const handlePlaceOrder = async () => {
+    // A second tap can land before the disabled button renders
+    if (placingRef.current) return;
+    placingRef.current = true;
+    setIsPlacingOrder(true);
+    let placed = false;
+    try {
+      placed = await onPlaceOrder();
+    } finally {
+      placingRef.current = false;
+      setIsPlacingOrder(false);
+    }
+    if (placed) {
+      setCheckoutStep("items");
+      setCustomTip("");
+      onClose?.();
+    }
+  };
+
+  const handleCustomTipChange = (value: string) => {
+    setCustomTip(value);
+    const parsed = parseFloat(value);
+    onTipChange?.(isNaN(parsed) || parsed < 0 ? 0 : parsed);
   };
 
   return (
@@ -108,33 +179,47 @@ export default function CartSidebar({
             </button>
 
             {/* Tab buttons */}
-            <div className="flex flex-1 justify-center gap-1 lg:justify-start">
-              <button
-                onClick={() => setActiveTab("cart")}
-                className={`relative rounded-full px-4 py-2 text-sm font-medium transition-colors ${
-                  activeTab === "cart"
-                    ? "bg-secondary-container text-on-secondary-container"
-                    : "text-on-surface-variant hover:bg-surface-container-high"
-                }`}
-              >
-                Current Order
-                {cartItems.length > 0 && (
-                  <span className="ml-1.5 inline-flex h-5 min-w-5 items-center justify-center rounded-full bg-primary px-1 text-xs font-bold text-on-primary">
-                    {cartItems.length}
-                  </span>
-                )}
-              </button>
-              <button
-                onClick={() => setActiveTab("orders")}
-                className={`rounded-full px-4 py-2 text-sm font-medium transition-colors ${
-                  activeTab === "orders"
-                    ? "bg-secondary-container text-on-secondary-container"
-                    : "text-on-surface-variant hover:bg-surface-container-high"
-                }`}
-              >
-                Recent Orders
-              </button>
-            </div>
+            {showOrdersTab ? (
+              <div className="flex flex-1 justify-center gap-1 lg:justify-start">
+                <button
+                  onClick={() => setActiveTab("cart")}
+                  className={`relative rounded-full px-4 py-2 text-sm font-medium transition-colors ${
+                    activeTab === "cart"
+                      ? "bg-secondary-container text-on-secondary-container"
+                      : "text-on-surface-variant hover:bg-surface-container-high"
+                  }`}
+                >
+                  Current Order
+                  {cartItems.length > 0 && (
+                    <span className="ml-1.5 inline-flex h-5 min-w-5 items-center justify-center rounded-full bg-primary px-1 text-xs font-bold text-on-primary">
+                      {cartItems.length}
+                    </span>
+                  )}
+                </button>
+                <button
+                  onClick={() => setActiveTab("orders")}
+                  className={`rounded-full px-4 py-2 text-sm font-medium transition-colors ${
+                    activeTab === "orders"
+                      ? "bg-secondary-container text-on-secondary-container"
+                      : "text-on-surface-variant hover:bg-surface-container-high"
+                  }`}
+                >
+                  Recent Orders
+                  {pendingOrders.length > 0 && (
+                    <span
+                      className="ml-1.5 inline-flex h-5 min-w-5 items-center justify-center rounded-full border border-outline px-1 text-xs font-bold text-on-surface-variant"
+                      title="Orders waiting to sync"
+                    >
+                      {pendingOrders.length}
+                    </span>
+                  )}
+                </button>
+              </div>
+            ) : (
+              <h2 className="flex-1 text-center text-lg font-medium text-on-surface lg:text-left">
+                Your Order
+              </h2>
+            )}
 
             {/* Clear button - only show on cart tab when there are items */}
             {activeTab === "cart" && cartItems.length > 0 && (
@@ -164,84 +249,123 @@ export default function CartSidebar({
                 placeholder="Enter name..."
                 className="mt-2 w-full rounded-lg border border-outline bg-transparent px-4 py-3 text-on-surface placeholder-on-surface-variant focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
               />
-            </div>
-
-            {/* Cart Items */}
-            <div className="flex-1 overflow-y-auto">
-              {cartItems.length === 0 ? (
-                <div className="flex h-64 flex-col items-center justify-center px-6 text-center">
-                  <svg
-                    xmlns="http://www.w3.org/2000/svg"
-                    className="h-16 w-16 text-outline-variant"
-                    fill="none"
-                    viewBox="0 0 24 24"
-                    stroke="currentColor"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={1.5}
-                      d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z"
+              {/* Pickup time - orders for later wait until shortly before it */}
+              {onScheduledForChange && (
+                <div className="mt-3 flex items-center gap-2">
+                  <span className="text-sm font-medium text-on-surface-variant">Pickup</span>
+                  <div className="flex rounded-full bg-surface-container-high p-0.5 text-sm">
+                    <button
+                      type="button"
+                      onClick={() => onScheduledForChange("")}
+                      className={`rounded-full px-3 py-1 ${
+                        !scheduledFor ? "bg-secondary-container text-on-secondary-container" : "text-on-surface-variant"
+                      }`}
+                    >
+                      Now
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        if (scheduledFor) return;
+                        // Default to an hour from now, rounded to the quarter hour
+                        const later = new Date(Date.now() + 60 * 60000);
+                        later.setMinutes(Math.ceil(later.getMinutes() / 15) * 15, 0, 0);
+                        const offset = later.getTimezoneOffset() * 60000;
+                        onScheduledForChange(new Date(later.getTime() - offset).toISOString().slice(0, 16));
+                      }}
+                      className={`rounded-full px-3 py-1 ${
+                        scheduledFor ? "bg-secondary-container text-on-secondary-container" : "text-on-surface-variant"
+                      }`}
+                    >
+                      Later
+                    </button>
+                  </div>
+                  {scheduledFor && (
+                    <input
+                      type="datetime-local"
+                      value={scheduledFor}
+                      onChange={(e) => onScheduledForChange(e.target.value)}
+                      className="min-w-0 flex-1 rounded-lg border border-outline bg-transparent px-2 py-1 text-sm text-on-surface focus:border-primary focus:outline-none"
                     />
-                  </svg>
-                  <p className="mt-4 text-on-surface-variant">Cart is empty</p>
-                  <p className="mt-1 text-sm text-on-surface-variant">
-                    Click on an item to add it
-                  </p>
+                  )}
                 </div>
-              ) : (
-                <div className="divide-y divide-outline-variant">
-                  {cartItems.map((cartItem) => (
-                    <div key={cartItem.id} className="p-4">
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          <h4 className="font-medium text-on-surface">
-                            {cartItem.item.name}
-                          </h4>
-                          {cartItem.modifiers.length > 0 && (
-                            <p className="mt-1 text-xs text-on-surface-variant">
-                              {cartItem.modifiers.map((m) => m.name).join(", ")}
-                            </p>
-                          )}
-                          {cartItem.notes && (
-                            <p className="mt-1 text-xs italic text-on-surface-variant">
-                              Note: {cartItem.notes}
-                            </p>
-                          )}
-                        </div>
-                        <button
-                          onClick={() => onRemoveItem(cartItem.id)}
-                          className="ml-2 text-on-surface-variant hover:text-error"
-                        >
-                          <svg
-                            xmlns="http://www.w3.org/2000/svg"
-                            className="h-5 w-5"
-                            fill="none"
-                            viewBox="0 0 24 24"
-                            stroke="currentColor"
-                          >
-                            <path
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth={2}
-                              d="M6 18L18 6M6 6l12 12"
-                            />
-                          </svg>
-                        </button>
-                      </div>
+              )}
+            </div>
 
-                      <div className="mt-3 flex items-center justify-between">
-                        {/* Quantity controls */}
-                        <div className="flex items-center gap-2">
+            {isPaymentStep ? (
+              /* Payment step */
+              <div className="flex-1 overflow-y-auto p-4">
+                <PaymentPanel
+                  amountDue={totals.total}
+                  tenders={tenders}
+                  onAddTender={onAddTender}
+                  onRemoveTender={onRemoveTender}
+                />
+              </div>
+            ) : (
+              /* Cart Items */
+              <div className="flex-1 overflow-y-auto">
+                {cartItems.length === 0 ? (
+                  <div className="flex h-64 flex-col items-center justify-center px-6 text-center">
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      className="h-16 w-16 text-outline-variant"
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={1.5}
+                        d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z"
+                      />
+                    </svg>
+                    <p className="mt-4 text-on-surface-variant">Cart is empty</p>
+                    <p className="mt-1 text-sm text-on-surface-variant">
+                      Click on an item to add it
+                    </p>
+                  </div>
+                ) : (
+                  <div className="divide-y divide-outline-variant">
+                    {cartItems.map((cartItem) => (
+                      <div key={cartItem.id} className="p-4">
+                        <div className="flex items-start justify-between">
+                          <div className="flex-1">
+                            <h4 className="font-medium text-on-surface">
+                              {cartItem.item.name}
+                              {cartItem.variant && (
+                                <span className="ml-1 text-on-surface-variant">({cartItem.variant.name})</span>
+                              )}
+                            </h4>
+                            {cartItem.components && cartItem.components.length > 0 && (
+                              <ul className="mt-1 text-xs text-on-surface-variant">
+                                {cartItem.components.map((component) => (
+                                  <li key={component.slot_id}>
+                                    {component.item.name}
+                                    {component.price_delta > 0 && ` (+${formatPrice(component.price_delta)})`}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                            {cartItem.modifiers.length > 0 && (
+                              <p className="mt-1 text-xs text-on-surface-variant">
+                                {describeModifiers(cartItem.modifiers, (m) => m.name).join("; ")}
+                              </p>
+                            )}
+                            {cartItem.notes && (
+                              <p className="mt-1 text-xs italic text-on-surface-variant">
+                                Note: {cartItem.notes}
+                              </p>
+                            )}
+                          </div>
                           <button
-                            onClick={() =>
-                              onUpdateQuantity(cartItem.id, cartItem.quantity - 1)
-                            }
-                            className="flex h-8 w-8 items-center justify-center rounded-full bg-surface-container-high text-on-surface transition-colors hover:bg-surface-container-highest"
+                            onClick={() => onRemoveItem(cartItem.id)}
+                            className="ml-2 text-on-surface-variant hover:text-error"
                           >
                             <svg
                               xmlns="http://www.w3.org/2000/svg"
-                              className="h-4 w-4"
+                              className="h-5 w-5"
                               fill="none"
                               viewBox="0 0 24 24"
                               stroke="currentColor"
@@ -250,64 +374,255 @@ export default function CartSidebar({
                                 strokeLinecap="round"
                                 strokeLinejoin="round"
                                 strokeWidth={2}
-                                d="M20 12H4"
+                                d="M6 18L18 6M6 6l12 12"
                               />
                             </svg>
                           </button>
-                          <span className="w-8 text-center font-medium text-on-surface">
-                            {cartItem.quantity}
-                          </span>
-                          <button
-                            onClick={() =>
-                              onUpdateQuantity(cartItem.id, cartItem.quantity + 1)
-                            }
-                            className="flex h-8 w-8 items-center justify-center rounded-full bg-surface-container-high text-on-surface transition-colors hover:bg-surface-container-highest"
-                          >
-                            <svg
-                              xmlns="http://www.w3.org/2000/svg"
-                              className="h-4 w-4"
-                              fill="none"
-                              viewBox="0 0 24 24"
-                              stroke="currentColor"
+                        </div>
+
+                        <div className="mt-3 flex items-center justify-between">
+                          {/* Quantity controls */}
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={() =>
+                                onUpdateQuantity(cartItem.id, cartItem.quantity - 1)
+                              }
+                              className="flex h-8 w-8 items-center justify-center rounded-full bg-surface-container-high text-on-surface transition-colors hover:bg-surface-container-highest"
                             >
-                              <path
-                                strokeLinecap="round"
-                                strokeLinejoin="round"
-                                strokeWidth={2}
-                                d="M12 4v16m8-8H4"
-                              />
-                            </svg>
-                          </button>
+                              <svg
+                                xmlns="http://www.w3.org/2000/svg"
+                                className="h-4 w-4"
+                                fill="none"
+                                viewBox="0 0 24 24"
+                                stroke="currentColor"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M20 12H4"
+                                />
+                              </svg>
+                            </button>
+                            <span className="w-8 text-center font-medium text-on-surface">
+                              {cartItem.quantity}
+                            </span>
+                            <button
+                              onClick={() =>
+                                onUpdateQuantity(cartItem.id, cartItem.quantity + 1)
+                              }
+                              className="flex h-8 w-8 items-center justify-center rounded-full bg-surface-container-high text-on-surface transition-colors hover:bg-surface-container-highest"
+                            >
+                              <svg
+                                xmlns="http://www.w3.org/2000/svg"
+                                className="h-4 w-4"
+                                fill="none"
+                                viewBox="0 0 24 24"
+                                stroke="currentColor"
+                              >
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M12 4v16m8-8H4"
+                                />
+                              </svg>
+                            </button>
+                          </div>
+
+                          <div className="text-right">
+                            {cartItem.discount && (
+                              <span className="block text-xs text-on-surface-variant line-through">
+                                {formatPrice(cartLineTotal(cartItem))}
+                              </span>
+                            )}
+                            <span className="font-semibold text-on-surface">
+                              {formatPrice(cartLineTotal(cartItem) - cartLineDiscount(cartItem))}
+                            </span>
+                          </div>
                         </div>
 
-                        <span className="font-semibold text-on-surface">
-                          {formatPrice(calculateItemTotal(cartItem))}
-                        </span>
+                        {/* Line discount */}
+                        {!onLineDiscountChange ? null : editingDiscount === cartItem.id ? (
+                          <DiscountEditor
+                            discount={cartItem.discount}
+                            onApply={(discount) => {
+                              onLineDiscountChange(cartItem.id, discount);
+                              setEditingDiscount(null);
+                            }}
+                            onRemove={() => {
+                              onLineDiscountChange(cartItem.id, undefined);
+                              setEditingDiscount(null);
+                            }}
+                            onCancel={() => setEditingDiscount(null)}
+                          />
+                        ) : (
+                          <button
+                            onClick={() => setEditingDiscount(cartItem.id)}
+                            className="mt-2 text-xs font-medium text-primary hover:underline"
+                          >
+                            {cartItem.discount
+                              ? `${formatDiscount(cartItem.discount)} off · ${cartItem.discount.reason}`
+                              : "Add discount"}
+                          </button>
+                        )}
                       </div>
-                    </div>
-                  ))}
-                </div>
-              )}
-            </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
 
             {/* Footer with Total and Place Order */}
             <div className="border-t border-outline-variant bg-surface-container-low p-4">
-              <div className="mb-4 flex items-center justify-between">
-                <span className="text-lg font-medium text-on-surface">Total</span>
-                <span className="text-2xl font-bold text-on-surface">
-                  {formatPrice(total)}
-                </span>
+              {!isPaymentStep && (
+                <>
+                  {/* Order discount */}
+                  {!onOrderDiscountChange ? null : editingDiscount === "order" ? (
+                    <div className="mb-3">
+                      <DiscountEditor
+                        discount={orderDiscount}
+                        onApply={(discount) => {
+                          onOrderDiscountChange(discount);
+                          setEditingDiscount(null);
+                        }}
+                        onRemove={() => {
+                          onOrderDiscountChange(null);
+                          setEditingDiscount(null);
+                        }}
+                        onCancel={() => setEditingDiscount(null)}
+                      />
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => setEditingDiscount("order")}
+                      disabled={cartItems.length === 0}
+                      className="mb-3 text-sm font-medium text-primary hover:underline disabled:opacity-50 disabled:no-underline"
+                    >
+                      {orderDiscount
+                        ? `Order discount: ${formatDiscount(orderDiscount)} · ${orderDiscount.reason}`
+                        : "Add order discount"}
+                    </button>
+                  )}
+
+                  {/* Tip */}
+                  {onTipChange && (
+                    <div className="mb-3 flex items-center gap-2">
+                      <span className="text-sm text-on-surface-variant">Tip</span>
+                      <button
+                        onClick={() => handleCustomTipChange("")}
+                        className={`rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+                          totals.tip === 0
+                            ? "bg-secondary-container text-on-secondary-container"
+                            : "bg-surface-container-high text-on-surface-variant"
+                        }`}
+                      >
+                        None
+                      </button>
+                      {TIP_PERCENTAGES.map((percent) => (
+                        <button
+                          key={percent}
+                          onClick={() => {
+                            setCustomTip("");
+                            onTipChange(tipForPercent(percent));
+                          }}
+                          disabled={tipBase <= 0}
+                          className={`rounded-full px-3 py-1 text-xs font-medium transition-colors disabled:opacity-50 ${
+                            !customTip && totals.tip > 0 && totals.tip === tipForPercent(percent)
+                              ? "bg-secondary-container text-on-secondary-container"
+                              : "bg-surface-container-high text-on-surface-variant"
+                          }`}
+                        >
+                          {percent}%
+                        </button>
+                      ))}
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={customTip}
+                        onChange={(e) => handleCustomTipChange(e.target.value)}
+                        placeholder="$"
+                        className="w-16 min-w-0 rounded-lg border border-outline bg-transparent px-2 py-1 text-xs text-on-surface focus:border-primary focus:outline-none"
+                      />
+                    </div>
+                  )}
+                </>
+              )}
+
+              {/* Breakdown */}
+              <div className="mb-4 space-y-1 text-sm text-on-surface-variant">
+                <div className="flex justify-between">
+                  <span>Subtotal</span>
+                  <span>{formatPrice(totals.subtotal)}</span>
+                </div>
+                {totals.discountTotal > 0 && (
+                  <div className="flex justify-between">
+                    <span>Discounts</span>
+                    <span>-{formatPrice(totals.discountTotal)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span>Tax</span>
+                  <span>{formatPrice(totals.tax)}</span>
+                </div>
+                {totals.tip > 0 && (
+                  <div className="flex justify-between">
+                    <span>Tip</span>
+                    <span>{formatPrice(totals.tip)}</span>
+                  </div>
+                )}
+                <div className="flex items-center justify-between pt-1">
+                  <span className="text-lg font-medium text-on-surface">Total</span>
+                  <span className="text-2xl font-bold text-on-surface">
+                    {formatPrice(totals.total)}
+                  </span>
+                </div>
               </div>
-              <button
-                onClick={() => {
-                  onPlaceOrder();
-                  onClose?.();
-                }}
-                disabled={cartItems.length === 0 || !customerName.trim()}
-                className="w-full rounded-full bg-primary py-4 text-base font-medium text-on-primary transition-all hover:shadow-[var(--md-elevation-1)] disabled:cursor-not-allowed disabled:opacity-50"
-              >
-                Place Order
-              </button>
+              {isPaymentStep ? (
+                <div className="space-y-2">
+                  <button
+                    onClick={handlePlaceOrder}
+                    disabled={isPlacingOrder || remaining !== 0}
+                    className="w-full rounded-full bg-primary py-4 text-base font-medium text-on-primary transition-all hover:shadow-[var(--md-elevation-1)] disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {isPlacingOrder ? "Placing..." : "Place Order"}
+                  </button>
+                  <div className="flex justify-between">
+                    <button
+                      onClick={() => setCheckoutStep("items")}
+                      disabled={isPlacingOrder}
+                      className="text-sm text-on-surface-variant hover:underline"
+                    >
+                      Back to order
+                    </button>
+                    {/* Pay-later orders (e.g. tabs) are flagged as unpaid */}
+                    <button
+                      onClick={handlePlaceOrder}
+                      disabled={isPlacingOrder || remaining <= 0}
+                      className="text-sm text-error hover:underline disabled:opacity-50 disabled:no-underline"
+                    >
+                      {tenders.length > 0 ? "Place partially paid" : "Place unpaid"}
+                    </button>
+                  </div>
+                </div>
+              ) : !onAddTender ? (
+                <button
+                  onClick={handlePlaceOrder}
+                  disabled={isPlacingOrder || cartItems.length === 0 || !customerName.trim()}
+                  className="w-full rounded-full bg-primary py-4 text-base font-medium text-on-primary transition-all hover:shadow-[var(--md-elevation-1)] disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {isPlacingOrder ? "Placing..." : "Place Order"}
+                </button>
+              ) : (
+                <button
+                  onClick={() => setCheckoutStep("payment")}
+                  disabled={cartItems.length === 0 || !customerName.trim()}
+                  className="w-full rounded-full bg-primary py-4 text-base font-medium text-on-primary transition-all hover:shadow-[var(--md-elevation-1)] disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  Take Payment
+                </button>
+              )}
             </div>
           </>
         )}
@@ -315,7 +630,7 @@ export default function CartSidebar({
         {/* Recent Orders Tab Content */}
         {activeTab === "orders" && (
           <RecentOrders
-            orders={recentOrders}
+            campaignId={campaignId}
             isLoading={isLoadingOrders}
             hasMore={hasMoreOrders}
             onLoadMore={onLoadMoreOrders || (() => {})}
@@ -323,7 +638,11 @@ export default function CartSidebar({
             onItemStatusChange={onItemStatusChange}
             onRefresh={onRefreshOrders}
             onEditItem={onEditOrderItem}
-            onDeleteItem={onDeleteOrderItem}
+            onAdjust={onAdjustOrder}
+            canRefund={canRefundOrders}
+            onCollectPayment={onCollectPayment}
+            pendingOrders={pendingOrders}
+            onDiscardPending={onDiscardPendingOrder}
             editable={!!onEditOrderItem}
           />
         )}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { CartDiscount, DiscountKind } from "../../types";
+
+interface DiscountEditorProps {
+  discount: CartDiscount | null | undefined;
+  onApply: (discount: CartDiscount) => void;
+  onRemove: () => void;
+  onCancel: () => void;
+}
+
+// Inline form for a percent or fixed discount; a reason is always required
+export default function DiscountEditor({
+  discount,
+  onApply,
+  onRemove,
+  onCancel,
+}: DiscountEditorProps) {
+  const [kind, setKind] = useState<DiscountKind>(discount?.kind ?? "percent");
+  const [value, setValue] = useState(discount ? String(discount.value) : "");
+  const [reason, setReason] = useState(discount?.reason ?? "");
+
+  const parsedValue = parseFloat(value);
+  const isValid =
+    !isNaN(parsedValue) &&
+    parsedValue > 0 &&
+    (kind !== "percent" || parsedValue <= 100) &&
+    reason.trim().length > 0;
+
+  const handleApply = () => {
+    if (!isValid) return;
+    onApply({ kind, value: parsedValue, reason: reason.trim() });
+  };
+
+  return (
+    <div className="mt-2 space-y-2 rounded-lg bg-surface-container p-3">
+      <div className="flex gap-2">
+        <div className="flex rounded-full bg-surface-container-high p-0.5">
+          {(["percent", "fixed"] as DiscountKind[]).map((k) => (
+            <button
+              key={k}
+              type="button"
+              onClick={() => setKind(k)}
+              className={`rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+                kind === k
+                  ? "bg-secondary-container text-on-secondary-container"
+                  : "text-on-surface-variant"
+              }`}
+            >
+              {k === "percent" ? "%" : "$"}
+            </button>
+          ))}
+        </div>
+        <input
+          type="number"
+          min="0"
+          max={kind === "percent" ? 100 : undefined}
+          step={kind === "percent" ? 1 : 0.01}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder={kind === "percent" ? "10" : "2.00"}
+          className="w-full min-w-0 flex-1 rounded-lg border border-outline bg-transparent px-3 py-1 text-sm text-on-surface focus:border-primary focus:outline-none"
+        />
+      </div>
+      <input
+        type="text"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Reason (e.g. Staff meal)"
+        className="w-full rounded-lg border border-outline bg-transparent px-3 py-1 text-sm text-on-surface placeholder-on-surface-variant focus:border-primary focus:outline-none"
+      />
+      <div className="flex justify-end gap-2">
+        {discount && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="mr-auto text-xs text-error hover:underline"
+          >
+            Remove
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-full px-3 py-1 text-xs font-medium text-on-surface-variant hover:bg-surface-container-high"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={!isValid}
+          className="rounded-full bg-primary px-3 py-1 text-xs font-medium text-on-primary disabled:opacity-50"
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+}
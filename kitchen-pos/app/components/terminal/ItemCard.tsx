@@ -4,10 +4,18 @@ import { Item } from "../../types";
 
 interface ItemCardProps {
   item: Item;
+  stockQuantity?: number; // undefined = not tracked
   onClick: () => void;
 }
 
-export default function ItemCard({ item, onClick }: ItemCardProps) {
+// Below this many left, the card shows the count so staff can warn customers
+const LOW_STOCK_THRESHOLD = 5;
+
+export default function ItemCard({ item, stockQuantity, onClick }: ItemCardProps) {
+  const isSoldOut = stockQuantity === 0;
+  const isLowStock =
+    stockQuantity !== undefined && stockQuantity > 0 && stockQuantity <= LOW_STOCK_THRESHOLD;
+
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat("en-US", {
       style: "currency",
@@ -18,7 +26,8 @@ export default function ItemCard({ item, onClick }: ItemCardProps) {
   return (
     <button
       onClick={onClick}
-      className="group flex flex-col overflow-hidden rounded-xl bg-surface-container-low transition-all hover:shadow-[var(--md-elevation-2)] active:scale-[0.98]"
+      disabled={isSoldOut}
+      className="group flex flex-col overflow-hidden rounded-xl bg-surface-container-low transition-all hover:shadow-[var(--md-elevation-2)] active:scale-[0.98] disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:shadow-none disabled:active:scale-100"
     >
       {/* Image placeholder */}
       <div className="relative aspect-square w-full bg-surface-container">
@@ -46,8 +55,18 @@ export default function ItemCard({ item, onClick }: ItemCardProps) {
             </svg>
           </div>
         )}
+        {/* Stock badge */}
+        {(isSoldOut || isLowStock) && (
+          <span
+            className={`absolute left-2 top-2 rounded-full px-2 py-0.5 text-xs font-medium ${
+              isSoldOut ? "bg-error text-on-primary" : "bg-surface-container-highest text-on-surface"
+            }`}
+          >
+            {isSoldOut ? "Sold out" : `${stockQuantity} left`}
+          </span>
+        )}
         {/* Quick add indicator */}
-        <div className="absolute bottom-2 right-2 flex h-8 w-8 items-center justify-center rounded-full bg-primary text-on-primary opacity-0 transition-opacity group-hover:opacity-100">
+        <div className={`absolute bottom-2 right-2 flex h-8 w-8 items-center justify-center rounded-full bg-primary text-on-primary opacity-0 transition-opacity ${isSoldOut ? "" : "group-hover:opacity-100"}`}>
           <svg
             xmlns="http://www.w3.org/2000/svg"
             className="h-5 w-5"
@@ -1,31 +1,96 @@
 "use client";
 
 import { useState } from "react";
-import { Item, Modifier } from "../../types";
+import {
+  BundleSlot,
+  CartBundleComponent,
+  CartModifier,
+  Item,
+  ItemVariant,
+  Modifier,
+  ModifierGroup,
+  ModifierSelection,
+} from "../../types";
+import type { StockTarget } from "../../lib/supabase";
+import {
+  defaultSelection,
+  findSelectionProblem,
+  groupModifiers,
+  selectionRuleLabel,
+} from "../../lib/modifierGroups";
+import { describeModifiers, modifiersTotal, toggleModifierWithOptions } from "../../lib/modifierOptions";
+import StockEditor from "./StockEditor";
+import SelectedModifierControls from "./SelectedModifierControls";
+import ModifierGroupManager, { ModifierGroupRules } from "./ModifierGroupManager";
+import VariantManager, { VariantFields } from "./VariantManager";
+import BundleManager from "./BundleManager";
 
 interface ItemDetailModalProps {
   item: Item;
-  modifiers: Modifier[];
+  variants?: ItemVariant[]; // The item's sizes at the campaign's prices
+  modifiers: Modifier[]; // Linked modifiers and their options
   allModifiers?: Modifier[]; // All modifiers available for linking
   isOpen: boolean;
   onClose: () => void;
   onAddToCart: (
     item: Item,
     quantity: number,
-    modifiers: Modifier[],
-    notes: string
+    modifiers: CartModifier[],
+    notes: string,
+    variant?: ItemVariant,
+    components?: CartBundleComponent[]
   ) => void;
   // Modifier management callbacks (optional - only shown if provided)
-  onCreateModifier?: (modifier: { name: string; price_delta: number }) => Promise<Modifier | null>;
+  onCreateModifier?: (modifier: {
+    name: string;
+    price_delta: number;
+    parent_id?: number | null;
+  }) => Promise<Modifier | null>;
   onLinkModifier?: (itemId: number, modifierId: number) => Promise<boolean>;
   onUnlinkModifier?: (itemId: number, modifierId: number) => Promise<boolean>;
   onDeleteModifier?: (modifierId: number) => Promise<boolean>;
+  // Modifier groups and their management (optional)
+  modifierGroups?: ModifierGroup[];
+  onCreateModifierGroup?: (rules: ModifierGroupRules) => Promise<void>;
+  onUpdateModifierGroup?: (
+    groupId: number,
+    updates: Partial<Pick<ModifierGroup, "name" | "min_select" | "max_select" | "display_order">>
+  ) => Promise<void>;
+  onUpdateModifier?: (
+    modifierId: number,
+    updates: Partial<Pick<Modifier, "group_id" | "is_default">>
+  ) => Promise<void>;
   // Item management
   onDeleteItem?: (itemId: number) => Promise<boolean>;
+  // Size management (optional); sizes are edited at their menu prices
+  editableVariants?: ItemVariant[];
+  onCreateVariant?: (itemId: number, fields: VariantFields) => Promise<void>;
+  onUpdateVariant?: (
+    variantId: number,
+    updates: Partial<Pick<ItemVariant, "name" | "price" | "display_order">>
+  ) => Promise<void>;
+  onDeactivateVariant?: (variantId: number) => Promise<void>;
+  // Bundle parts and the items that fill them; items are the campaign's menu
+  bundleSlots?: BundleSlot[];
+  items?: Item[];
+  canBundleItem?: (item: Item) => boolean; // Whether an item can fill a bundle part
+  onCreateBundleSlot?: (itemId: number, name: string) => Promise<void>;
+  onUpdateBundleSlot?: (
+    slotId: number,
+    updates: Partial<Pick<BundleSlot, "name" | "display_order">>
+  ) => Promise<void>;
+  onDeactivateBundleSlot?: (slotId: number) => Promise<void>;
+  onSetBundleSlotChoice?: (slotId: number, itemId: number, priceDelta: number) => Promise<void>;
+  onRemoveBundleSlotChoice?: (choiceId: number) => Promise<void>;
+  // Stock for the selected campaign; untracked items and modifiers have no entry
+  stockQuantity?: number;
+  modifierStock?: Map<number, number>;
+  onSetStock?: (target: StockTarget, quantity: number | null) => Promise<void>;
 }
 
 export default function ItemDetailModal({
   item,
+  variants = [],
   modifiers,
   allModifiers = [],
   isOpen,
@@ -35,14 +100,40 @@ export default function ItemDetailModal({
   onLinkModifier,
   onUnlinkModifier,
   onDeleteModifier,
+  modifierGroups = [],
+  onCreateModifierGroup,
+  onUpdateModifierGroup,
+  onUpdateModifier,
   onDeleteItem,
+  editableVariants = [],
+  onCreateVariant,
+  onUpdateVariant,
+  onDeactivateVariant,
+  bundleSlots = [],
+  items = [],
+  canBundleItem,
+  onCreateBundleSlot,
+  onUpdateBundleSlot,
+  onDeactivateBundleSlot,
+  onSetBundleSlotChoice,
+  onRemoveBundleSlotChoice,
+  stockQuantity,
+  modifierStock,
+  onSetStock,
 }: ItemDetailModalProps) {
   const [quantity, setQuantity] = useState(1);
-  const [selectedModifiers, setSelectedModifiers] = useState<Modifier[]>([]);
+  // null = the first size
+  const [pickedVariantId, setPickedVariantId] = useState<number | null>(null);
+  // Item picked per bundle slot; slots not in here take their first choice
+  const [pickedChoices, setPickedChoices] = useState<Record<number, number>>({});
+  // null until the cashier changes something, so the defaults apply once modifiers load
+  const [pickedModifiers, setSelectedModifiers] = useState<ModifierSelection[] | null>(null);
   const [notes, setNotes] = useState("");
   
   // Modifier management state
   const [showModifierManager, setShowModifierManager] = useState(false);
+  const [showVariantManager, setShowVariantManager] = useState(false);
+  const [showBundleManager, setShowBundleManager] = useState(false);
   const [isCreatingModifier, setIsCreatingModifier] = useState(false);
   const [newModifierName, setNewModifierName] = useState("");
   const [newModifierPrice, setNewModifierPrice] = useState("0");
@@ -64,36 +155,92 @@ export default function ItemDetailModal({
     }).format(price);
   };
 
+  const sortedVariants = [...variants].sort((a, b) => a.display_order - b.display_order);
+  const selectedVariant =
+    sortedVariants.find((v) => v.id === pickedVariantId) ?? sortedVariants[0];
+  const unitPrice = selectedVariant?.price ?? item.base_price;
+
+  // One component per slot, from the choices whose item is on the menu
+  const sortedSlots = [...bundleSlots].sort((a, b) => a.display_order - b.display_order);
+  const availableChoices = (slot: BundleSlot) =>
+    (slot.choices ?? []).filter((choice) => items.some((i) => i.id === choice.item_id));
+  const selectedComponents: CartBundleComponent[] = sortedSlots.flatMap((slot) => {
+    const choices = availableChoices(slot);
+    const choice = choices.find((c) => c.item_id === pickedChoices[slot.id]) ?? choices[0];
+    const choiceItem = choice && items.find((i) => i.id === choice.item_id);
+    return choice && choiceItem ? [{ slot_id: slot.id, item: choiceItem, price_delta: choice.price_delta }] : [];
+  });
+  const bundleProblem = !item.is_bundle
+    ? null
+    : sortedSlots.length === 0
+      ? "This bundle has no parts yet"
+      : selectedComponents.length < sortedSlots.length
+        ? `Nothing to choose for ${sortedSlots.find((slot) => availableChoices(slot).length === 0)?.name}`
+        : null;
+
+  // Options are offered under their modifier rather than in its group
+  const topLevelModifiers = modifiers.filter((m) => m.parent_id === null);
+  const optionsOf = (modifier: Modifier) => modifiers.filter((m) => m.parent_id === modifier.id);
+
+  const selection =
+    pickedModifiers ??
+    defaultSelection(topLevelModifiers, modifierGroups).map((m) => ({ modifier_id: m.id, quantity: 1 }));
+  const selectedModifiers: CartModifier[] = selection.flatMap((s) => {
+    const modifier = modifiers.find((m) => m.id === s.modifier_id);
+    return modifier ? [{ ...modifier, quantity: s.quantity }] : [];
+  });
+  const selectedModifierIds = selectedModifiers.map((m) => m.id);
+  const modifierSections = groupModifiers(topLevelModifiers, modifierGroups);
+  const selectionProblem = findSelectionProblem(topLevelModifiers, modifierGroups, selectedModifierIds);
+
+  const isSoldOut = stockQuantity === 0;
+  const atStockLimit = stockQuantity !== undefined && quantity >= stockQuantity;
+  // Whether there is too little stock to put the modifier on the line `count` times
+  const modifierShortfall = (modifier: Modifier, count = 1) => {
+    const left = modifierStock?.get(modifier.id);
+    return left !== undefined && left < quantity * count;
+  };
+  const hasModifierShortfall = selectedModifiers.some((m) => modifierShortfall(m, m.quantity));
+
   const calculateTotal = (): number => {
-    const baseTotal = item.base_price * quantity;
-    const modifiersTotal = selectedModifiers.reduce(
-      (sum, mod) => sum + mod.price_delta * quantity,
-      0
-    );
-    return baseTotal + modifiersTotal;
+    const upcharges = selectedComponents.reduce((sum, c) => sum + c.price_delta, 0);
+    return (unitPrice + modifiersTotal(selectedModifiers) + upcharges) * quantity;
   };
 
   const toggleModifier = (modifier: Modifier) => {
-    setSelectedModifiers((prev) => {
-      const isSelected = prev.some((m) => m.id === modifier.id);
-      if (isSelected) {
-        return prev.filter((m) => m.id !== modifier.id);
-      }
-      return [...prev, modifier];
-    });
+    setSelectedModifiers(toggleModifierWithOptions(selection, modifier, modifiers, modifierGroups));
+  };
+
+  const setModifierQuantity = (modifierId: number, next: number) => {
+    setSelectedModifiers(
+      selection.map((s) => (s.modifier_id === modifierId ? { ...s, quantity: next } : s))
+    );
   };
 
   const handleAddToCart = () => {
-    onAddToCart(item, quantity, selectedModifiers, notes);
+    onAddToCart(
+      item,
+      quantity,
+      selectedModifiers,
+      notes,
+      selectedVariant,
+      item.is_bundle ? selectedComponents : undefined
+    );
     // Reset state
     setQuantity(1);
-    setSelectedModifiers([]);
+    setPickedVariantId(null);
+    setPickedChoices({});
+    setSelectedModifiers(null);
     setNotes("");
   };
 
   const handleClose = () => {
     setQuantity(1);
-    setSelectedModifiers([]);
+    setPickedVariantId(null);
+    setShowVariantManager(false);
+    setPickedChoices({});
+    setShowBundleManager(false);
+    setSelectedModifiers(null);
     setNotes("");
     setShowModifierManager(false);
     setIsCreatingModifier(false);
@@ -119,7 +266,7 @@ export default function ItemDetailModal({
   
   // Get modifiers that are available to link (not already linked to this item)
   const availableModifiersToLink = allModifiers.filter(
-    (m) => !modifiers.some((linked) => linked.id === m.id)
+    (m) => m.parent_id === null && !modifiers.some((linked) => linked.id === m.id)
   );
   
   const handleCreateModifier = async () => {
@@ -147,6 +294,19 @@ export default function ItemDetailModal({
     }
   };
   
+  const handleAddOption = async (modifier: Modifier) => {
+    if (!onCreateModifier) return;
+    const name = prompt(`New option for ${modifier.name} (e.g. Scallion)`);
+    if (!name?.trim()) return;
+    const priceInput = prompt(`Price for ${name.trim()} (0 for no charge)`, "0");
+    if (priceInput === null) return;
+    await onCreateModifier({
+      name: name.trim(),
+      price_delta: parseFloat(priceInput) || 0,
+      parent_id: modifier.id,
+    });
+  };
+
   const handleLinkModifier = async (modifierId: number) => {
     if (!onLinkModifier) return;
     await onLinkModifier(item.id, modifierId);
@@ -156,7 +316,7 @@ export default function ItemDetailModal({
     if (!onUnlinkModifier) return;
     await onUnlinkModifier(item.id, modifierId);
     // Remove from selected if it was selected
-    setSelectedModifiers((prev) => prev.filter((m) => m.id !== modifierId));
+    setSelectedModifiers((prev) => prev && prev.filter((m) => m.modifier_id !== modifierId));
   };
   
   const handleDeleteModifier = async (modifierId: number) => {
@@ -174,7 +334,7 @@ export default function ItemDetailModal({
       const success = await onDeleteModifier(modifierId);
       if (success) {
         // Remove from selected if it was selected
-        setSelectedModifiers((prev) => prev.filter((m) => m.id !== modifierId));
+        setSelectedModifiers((prev) => prev && prev.filter((m) => m.modifier_id !== modifierId));
       }
     } finally {
       setDeletingModifierId(null);
@@ -256,8 +416,13 @@ export default function ItemDetailModal({
                   <p className="mt-2 text-on-surface-variant">{item.description}</p>
                 )}
                 <p className="mt-2 text-xl font-semibold text-primary">
-                  {formatPrice(item.base_price)}
+                  {formatPrice(unitPrice)}
                 </p>
+                {stockQuantity !== undefined && (
+                  <p className={`mt-1 text-sm ${isSoldOut ? "text-error" : "text-on-surface-variant"}`}>
+                    {isSoldOut ? "Sold out" : `${stockQuantity} left`}
+                  </p>
+                )}
               </div>
               
               {/* Delete Button */}
@@ -299,6 +464,72 @@ export default function ItemDetailModal({
             </div>
           </div>
 
+          {/* Size Selector */}
+          {sortedVariants.length > 0 && (
+            <div className="mb-6">
+              <label className="mb-2 block text-sm font-medium text-on-surface-variant">
+                Size
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {sortedVariants.map((variant) => {
+                  const isSelected = variant.id === selectedVariant?.id;
+                  return (
+                    <button
+                      key={variant.id}
+                      type="button"
+                      onClick={() => setPickedVariantId(variant.id)}
+                      className={`flex-1 rounded-xl border-2 px-4 py-3 text-center transition-all ${
+                        isSelected
+                          ? "border-secondary bg-secondary-container text-on-secondary-container"
+                          : "border-outline-variant bg-surface-container text-on-surface hover:border-outline hover:bg-surface-container-high"
+                      }`}
+                    >
+                      <span className="block font-medium">{variant.name}</span>
+                      <span className="block text-sm opacity-70">{formatPrice(variant.price)}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Bundle Parts */}
+          {item.is_bundle &&
+            sortedSlots.map((slot) => {
+              const selected = selectedComponents.find((c) => c.slot_id === slot.id);
+              return (
+                <div key={slot.id} className="mb-6">
+                  <label className="mb-2 block text-sm font-medium text-on-surface-variant">
+                    {slot.name}
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {availableChoices(slot).map((choice) => {
+                      const isSelected = selected?.item.id === choice.item_id;
+                      return (
+                        <button
+                          key={choice.id}
+                          type="button"
+                          onClick={() => setPickedChoices({ ...pickedChoices, [slot.id]: choice.item_id })}
+                          className={`rounded-xl border-2 px-4 py-2 text-left transition-all ${
+                            isSelected
+                              ? "border-secondary bg-secondary-container text-on-secondary-container"
+                              : "border-outline-variant bg-surface-container text-on-surface hover:border-outline hover:bg-surface-container-high"
+                          }`}
+                        >
+                          <span className="font-medium">
+                            {items.find((i) => i.id === choice.item_id)?.name}
+                          </span>
+                          {choice.price_delta > 0 && (
+                            <span className="ml-2 text-sm opacity-70">+{formatPrice(choice.price_delta)}</span>
+                          )}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+
           {/* Quantity Selector */}
           <div className="mb-6">
             <label className="mb-2 block text-sm font-medium text-on-surface-variant">
@@ -329,7 +560,8 @@ export default function ItemDetailModal({
               </span>
               <button
                 onClick={() => setQuantity(quantity + 1)}
-                className="flex h-12 w-12 items-center justify-center rounded-full bg-surface-container-high text-on-surface transition-colors hover:bg-surface-container-highest"
+                disabled={atStockLimit}
+                className="flex h-12 w-12 items-center justify-center rounded-full bg-surface-container-high text-on-surface transition-colors hover:bg-surface-container-highest disabled:cursor-not-allowed disabled:opacity-50"
               >
                 <svg
                   xmlns="http://www.w3.org/2000/svg"
@@ -366,64 +598,113 @@ export default function ItemDetailModal({
                   </button>
                 )}
               </div>
-              <div className="space-y-2">
-                {modifiers.map((modifier) => {
-                  const isSelected = selectedModifiers.some(
-                    (m) => m.id === modifier.id
-                  );
+              <div className="space-y-4">
+                {modifierSections.map((section) => {
+                  const selectedInSection = section.modifiers.filter((m) =>
+                    selectedModifierIds.includes(m.id)
+                  ).length;
+                  const maxSelect = section.group?.max_select ?? null;
+                  const isPickOne = maxSelect === 1;
+                  // Pick-one groups swap the choice instead of filling up
+                  const isFull = maxSelect !== null && maxSelect > 1 && selectedInSection >= maxSelect;
                   return (
-                    <button
-                      key={modifier.id}
-                      onClick={() => toggleModifier(modifier)}
-                      className={`flex w-full items-center justify-between rounded-xl border-2 px-4 py-3 text-left transition-all ${
-                        isSelected
-                          ? "border-secondary bg-secondary-container"
-                          : "border-outline-variant bg-surface-container hover:border-outline hover:bg-surface-container-high"
-                      }`}
-                    >
-                      <div className="flex items-center gap-3">
-                        {/* Checkbox indicator */}
-                        <div
-                          className={`flex h-6 w-6 items-center justify-center rounded-md transition-all ${
-                            isSelected
-                              ? "bg-secondary text-on-secondary"
-                              : "border-2 border-outline-variant bg-surface"
-                          }`}
-                        >
-                          {isSelected && (
-                            <svg
-                              xmlns="http://www.w3.org/2000/svg"
-                              className="h-4 w-4"
-                              fill="none"
-                              viewBox="0 0 24 24"
-                              stroke="currentColor"
-                              strokeWidth={3}
-                            >
-                              <path
-                                strokeLinecap="round"
-                                strokeLinejoin="round"
-                                d="M5 13l4 4L19 7"
-                              />
-                            </svg>
-                          )}
+                    <div key={section.group?.id ?? "ungrouped"}>
+                      {section.group && (
+                        <div className="mb-2 flex items-center justify-between">
+                          <span className="text-sm font-medium text-on-surface">{section.group.name}</span>
+                          <span className="text-xs text-on-surface-variant">
+                            {selectionRuleLabel(section.group)}
+                          </span>
                         </div>
-                        <span className={`font-medium ${isSelected ? "text-on-secondary-container" : "text-on-surface"}`}>
-                          {modifier.name}
-                        </span>
-                      </div>
-                      {modifier.price_delta !== 0 && (
-                        <span className={`text-sm font-medium ${
-                          isSelected 
-                            ? "text-on-secondary-container" 
-                            : modifier.price_delta > 0 
-                              ? "text-on-surface-variant" 
-                              : "text-primary"
-                        }`}>
-                          {modifier.price_delta > 0 ? "+" : ""}
-                          {formatPrice(modifier.price_delta)}
-                        </span>
                       )}
-                    </button>
+                      <div className="space-y-2">
+                        {section.modifiers.map((modifier) => {
+                          const isSelected = selectedModifierIds.includes(modifier.id);
+                          const isShort = modifierShortfall(modifier);
+                          const options = optionsOf(modifier);
+                          const modifierQuantity =
+                            selectedModifiers.find((m) => m.id === modifier.id)?.quantity ?? 1;
+                          return (
+                            <div key={modifier.id}>
+                              <button
+                                onClick={() => toggleModifier(modifier)}
+                                disabled={(isShort || isFull) && !isSelected}
+                                className={`flex w-full items-center justify-between rounded-xl border-2 px-4 py-3 text-left transition-all disabled:cursor-not-allowed disabled:opacity-50 ${
+                                  isSelected
+                                    ? "border-secondary bg-secondary-container"
+                                    : "border-outline-variant bg-surface-container hover:border-outline hover:bg-surface-container-high"
+                                }`}
+                              >
+                                <div className="flex items-center gap-3">
+                                  {/* Checkbox indicator */}
+                                  <div
+                                    className={`flex h-6 w-6 items-center justify-center transition-all ${
+                                      isPickOne ? "rounded-full" : "rounded-md"
+                                    } ${
+                                      isSelected
+                                        ? "bg-secondary text-on-secondary"
+                                        : "border-2 border-outline-variant bg-surface"
+                                    }`}
+                                  >
+                                    {isSelected && (
+                                      <svg
+                                        xmlns="http://www.w3.org/2000/svg"
+                                        className="h-4 w-4"
+                                        fill="none"
+                                        viewBox="0 0 24 24"
+                                        stroke="currentColor"
+                                        strokeWidth={3}
+                                      >
+                                        <path
+                                          strokeLinecap="round"
+                                          strokeLinejoin="round"
+                                          d="M5 13l4 4L19 7"
+                                        />
+                                      </svg>
+                                    )}
+                                  </div>
+                                  <span className={`font-medium ${isSelected ? "text-on-secondary-container" : "text-on-surface"}`}>
+                                    {modifier.name}
+                                  </span>
+                                  {isShort && (
+                                    <span className="text-xs text-error">
+                                      {modifierStock?.get(modifier.id) === 0
+                                        ? "Sold out"
+                                        : `${modifierStock?.get(modifier.id)} left`}
+                                    </span>
+                                  )}
+                                </div>
+                                {modifier.price_delta !== 0 && (
+                                  <span className={`text-sm font-medium ${
+                                    isSelected 
+                                      ? "text-on-secondary-container" 
+                                      : modifier.price_delta > 0 
+                                        ? "text-on-surface-variant" 
+                                        : "text-primary"
+                                  }`}>
+                                    {modifier.price_delta > 0 ? "+" : ""}
+                                    {formatPrice(modifier.price_delta)}
+                                  </span>
+                                )}
+                              </button>
+                              {isSelected && (
+                                <SelectedModifierControls
+                                  options={options}
+                                  selectedIds={selectedModifierIds}
+                                  quantity={modifierQuantity}
+                                  onToggleOption={toggleModifier}
+                                  onChangeQuantity={(next) => setModifierQuantity(modifier.id, next)}
+                                  canIncrease={!modifierShortfall(modifier, modifierQuantity + 1)}
+                                  unavailableOptionIds={options
+                                    .filter((option) => modifierShortfall(option))
+                                    .map((option) => option.id)}
+                                />
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
                   );
                 })}
               </div>
@@ -432,7 +713,7 @@ export default function ItemDetailModal({
                 <div className="mt-3 rounded-lg bg-secondary-container/50 px-3 py-2">
                   <p className="text-xs text-on-secondary-container">
                     <span className="font-medium">{selectedModifiers.length} modifier{selectedModifiers.length > 1 ? "s" : ""} selected:</span>{" "}
-                    {selectedModifiers.map((m) => m.name).join(", ")}
+                    {describeModifiers(selectedModifiers, (m) => m.name).join("; ")}
                   </p>
                 </div>
               )}
@@ -478,7 +759,7 @@ export default function ItemDetailModal({
                     <div>
                       <p className="text-xs text-on-surface-variant mb-2">Linked Modifiers</p>
                       <div className="flex flex-wrap gap-2">
-                        {modifiers.map((modifier) => (
+                        {topLevelModifiers.map((modifier) => (
                           <div
                             key={modifier.id}
                             className="flex items-center gap-1 rounded-full bg-tertiary-container px-3 py-1.5 text-sm text-on-tertiary-container"
@@ -489,6 +770,19 @@ export default function ItemDetailModal({
                                 ({modifier.price_delta > 0 ? "+" : ""}{formatPrice(modifier.price_delta)})
                               </span>
                             )}
+                            {/* Add option button */}
+                            {onCreateModifier && (
+                              <button
+                                type="button"
+                                onClick={() => handleAddOption(modifier)}
+                                className="ml-1 p-0.5 hover:bg-surface-container rounded-full transition-colors"
+                                title="Add option (e.g. Scallion for cream cheese)"
+                              >
+                                <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                                </svg>
+                              </button>
+                            )}
                             {/* Unlink button */}
                             <button
                               type="button"
@@ -531,6 +825,60 @@ export default function ItemDetailModal({
                     </div>
                   )}
                   
+                  {/* Options of linked modifiers */}
+                  {modifiers.some((m) => m.parent_id !== null) && (
+                    <div>
+                      <p className="text-xs text-on-surface-variant mb-2">Options</p>
+                      <div className="flex flex-wrap gap-2">
+                        {topLevelModifiers.flatMap((modifier) =>
+                          optionsOf(modifier).map((option) => (
+                            <div
+                              key={option.id}
+                              className="flex items-center gap-1 rounded-full bg-surface-container-high px-3 py-1.5 text-sm text-on-surface"
+                            >
+                              <span>
+                                {modifier.name} → {option.name}
+                              </span>
+                              {option.price_delta !== 0 && (
+                                <span className="opacity-70">
+                                  ({option.price_delta > 0 ? "+" : ""}{formatPrice(option.price_delta)})
+                                </span>
+                              )}
+                              {onDeleteModifier && (
+                                <button
+                                  type="button"
+                                  onClick={() => handleDeleteModifier(option.id)}
+                                  disabled={deletingModifierId === option.id}
+                                  className={`ml-1 p-0.5 rounded-full transition-colors ${
+                                    confirmDeleteModifierId === option.id
+                                      ? "bg-error text-on-error"
+                                      : "hover:bg-surface-container"
+                                  }`}
+                                  title={confirmDeleteModifierId === option.id ? "Click again to delete permanently" : "Delete option"}
+                                >
+                                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                                  </svg>
+                                </button>
+                              )}
+                            </div>
+                          ))
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Groups */}
+                  {onCreateModifierGroup && onUpdateModifierGroup && onUpdateModifier && (
+                    <ModifierGroupManager
+                      groups={modifierGroups}
+                      modifiers={topLevelModifiers}
+                      onCreateGroup={onCreateModifierGroup}
+                      onUpdateGroup={onUpdateModifierGroup}
+                      onUpdateModifier={onUpdateModifier}
+                    />
+                  )}
+
                   {/* Available modifiers to link */}
                   {availableModifiersToLink.length > 0 && (
                     <div>
@@ -625,6 +973,100 @@ export default function ItemDetailModal({
             </div>
           )}
 
+          {/* Size Management Section */}
+          {onCreateVariant && onUpdateVariant && onDeactivateVariant && (
+            <div className="mb-6">
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-on-surface-variant">
+                  Manage Sizes
+                </label>
+                <button
+                  type="button"
+                  onClick={() => setShowVariantManager(!showVariantManager)}
+                  className="text-sm text-primary hover:underline"
+                >
+                  {showVariantManager ? "Hide" : "Edit"}
+                </button>
+              </div>
+
+              {showVariantManager && (
+                <div className="rounded-lg border border-outline-variant p-4">
+                  <VariantManager
+                    variants={editableVariants}
+                    onCreateVariant={(fields) => onCreateVariant(item.id, fields)}
+                    onUpdateVariant={onUpdateVariant}
+                    onDeactivateVariant={async (variantId) => {
+                      await onDeactivateVariant(variantId);
+                      if (pickedVariantId === variantId) setPickedVariantId(null);
+                    }}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Bundle Management Section */}
+          {item.is_bundle &&
+            onCreateBundleSlot &&
+            onUpdateBundleSlot &&
+            onDeactivateBundleSlot &&
+            onSetBundleSlotChoice &&
+            onRemoveBundleSlotChoice && (
+              <div className="mb-6">
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-on-surface-variant">
+                    Manage Bundle
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setShowBundleManager(!showBundleManager)}
+                    className="text-sm text-primary hover:underline"
+                  >
+                    {showBundleManager ? "Hide" : "Edit"}
+                  </button>
+                </div>
+
+                {showBundleManager && (
+                  <div className="rounded-lg border border-outline-variant p-4">
+                    <BundleManager
+                      slots={bundleSlots}
+                      items={items.filter((i) => i.id !== item.id)}
+                      canOfferItem={canBundleItem}
+                      onCreateSlot={(name) => onCreateBundleSlot(item.id, name)}
+                      onUpdateSlot={onUpdateBundleSlot}
+                      onDeactivateSlot={onDeactivateBundleSlot}
+                      onSetChoice={onSetBundleSlotChoice}
+                      onRemoveChoice={onRemoveBundleSlotChoice}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+          {/* Stock */}
+          {onSetStock && (
+            <div className="mb-6">
+              <label className="mb-2 block text-sm font-medium text-on-surface-variant">
+                Stock
+              </label>
+              <div className="space-y-1 rounded-lg border border-outline-variant p-2">
+                <StockEditor
+                  label={item.name}
+                  quantity={stockQuantity}
+                  onSave={(next) => onSetStock({ itemId: item.id }, next)}
+                />
+                {modifiers.map((modifier) => (
+                  <StockEditor
+                    key={modifier.id}
+                    label={modifier.name}
+                    quantity={modifierStock?.get(modifier.id)}
+                    onSave={(next) => onSetStock({ modifierId: modifier.id }, next)}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Notes */}
           <div className="mb-6">
             <label className="mb-2 block text-sm font-medium text-on-surface-variant">
@@ -640,11 +1082,21 @@ export default function ItemDetailModal({
           </div>
 
           {/* Add to Cart Button */}
+          {(bundleProblem ?? selectionProblem) && !isSoldOut && (
+            <p className="mb-2 text-center text-sm text-error">{bundleProblem ?? selectionProblem}</p>
+          )}
           <button
             onClick={handleAddToCart}
-            className="flex w-full items-center justify-center gap-3 rounded-full bg-primary py-4 text-base font-medium text-on-primary transition-all hover:shadow-[var(--md-elevation-1)]"
+            disabled={
+              isSoldOut ||
+              (stockQuantity !== undefined && quantity > stockQuantity) ||
+              hasModifierShortfall ||
+              !!bundleProblem ||
+              !!selectionProblem
+            }
+            className="flex w-full items-center justify-center gap-3 rounded-full bg-primary py-4 text-base font-medium text-on-primary transition-all hover:shadow-[var(--md-elevation-1)] disabled:cursor-not-allowed disabled:opacity-50"
           >
-            <span>Add to Order</span>
+            <span>{isSoldOut ? "Sold Out" : "Add to Order"}</span>
             <span className="rounded-full bg-on-primary/20 px-3 py-1">
               {formatPrice(calculateTotal())}
             </span>
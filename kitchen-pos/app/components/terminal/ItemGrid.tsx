@@ -5,11 +5,12 @@ import ItemCard from "./ItemCard";
 
 interface ItemGridProps {
   items: Item[];
+  stockByItemId?: Map<number, number>; // Only tracked items have an entry
   onItemClick: (item: Item) => void;
   onAddItemClick?: () => void;
 }
 
-export default function ItemGrid({ items, onItemClick, onAddItemClick }: ItemGridProps) {
+export default function ItemGrid({ items, stockByItemId, onItemClick, onAddItemClick }: ItemGridProps) {
   if (items.length === 0 && !onAddItemClick) {
     return (
       <div className="flex h-64 items-center justify-center">
@@ -37,7 +38,12 @@ export default function ItemGrid({ items, onItemClick, onAddItemClick }: ItemGri
   return (
     <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 sm:gap-4 md:grid-cols-4 lg:grid-cols-4 xl:grid-cols-5">
       {items.map((item) => (
-        <ItemCard key={item.id} item={item} onClick={() => onItemClick(item)} />
+        <ItemCard
+          key={item.id}
+          item={item}
+          stockQuantity={stockByItemId?.get(item.id)}
+          onClick={() => onItemClick(item)}
+        />
       ))}
       
       {/* Add Item Card */}
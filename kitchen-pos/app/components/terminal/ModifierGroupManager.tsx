@@ -0,0 +1,178 @@
+"use client";
+
+import { Modifier, ModifierGroup } from "../../types";
+import { selectionRuleLabel } from "../../lib/modifierGroups";
+
+export type ModifierGroupRules = Pick<ModifierGroup, "name" | "min_select" | "max_select">;
+
+interface ModifierGroupManagerProps {
+  groups: ModifierGroup[];
+  modifiers: Modifier[]; // Modifiers linked to the item being edited
+  onCreateGroup: (rules: ModifierGroupRules) => Promise<void>;
+  onUpdateGroup: (
+    groupId: number,
+    updates: Partial<Pick<ModifierGroup, "name" | "min_select" | "max_select" | "display_order">>
+  ) => Promise<void>;
+  onUpdateModifier: (
+    modifierId: number,
+    updates: Partial<Pick<Modifier, "group_id" | "is_default">>
+  ) => Promise<void>;
+}
+
+// Asks for a group's name and how many choices it takes. Returns null if
+// cancelled or invalid.
+const promptRules = (current?: ModifierGroup): ModifierGroupRules | null => {
+  const name = prompt("Group name (e.g. Milk, Syrups, Size)", current?.name ?? "");
+  if (!name?.trim()) return null;
+
+  const minInput = prompt(
+    `Fewest choices for ${name.trim()} (0 = optional)`,
+    String(current?.min_select ?? 0)
+  );
+  if (minInput === null) return null;
+  const maxInput = prompt(
+    `Most choices for ${name.trim()} (leave blank for no limit)`,
+    current?.max_select === null || current === undefined ? "" : String(current.max_select)
+  );
+  if (maxInput === null) return null;
+
+  const min = parseInt(minInput, 10);
+  const max = maxInput.trim() === "" ? null : parseInt(maxInput, 10);
+  if (isNaN(min) || min < 0 || (max !== null && (isNaN(max) || max < 1 || max < min))) {
+    alert("Please enter a minimum of 0 or more and a maximum of at least 1 and no less than the minimum");
+    return null;
+  }
+  return { name: name.trim(), min_select: min, max_select: max };
+};
+
+// Group setup inside the item's modifier manager: create and order groups, edit
+// their rules, and choose each linked modifier's group and default
+export default function ModifierGroupManager({
+  groups,
+  modifiers,
+  onCreateGroup,
+  onUpdateGroup,
+  onUpdateModifier,
+}: ModifierGroupManagerProps) {
+  const sortedGroups = [...groups].sort((a, b) => a.display_order - b.display_order);
+
+  const handleCreateGroup = async () => {
+    const rules = promptRules();
+    if (rules) await onCreateGroup(rules);
+  };
+
+  const handleEditGroup = async (group: ModifierGroup) => {
+    const rules = promptRules(group);
+    if (rules) await onUpdateGroup(group.id, rules);
+  };
+
+  // Swap places with the neighbouring group, then renumber any group whose
+  // order doesn't match its position (so groups that shared an order move too)
+  const handleMoveGroup = async (index: number, direction: -1 | 1) => {
+    const reordered = [...sortedGroups];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+    for (const [position, group] of reordered.entries()) {
+      if (group.display_order !== position) {
+        await onUpdateGroup(group.id, { display_order: position });
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-xs text-on-surface-variant mb-2">Groups</p>
+        <div className="space-y-1">
+          {sortedGroups.map((group, index) => (
+            <div
+              key={group.id}
+              className="flex items-center justify-between rounded-lg bg-surface-container px-3 py-1.5 text-sm"
+            >
+              <button
+                type="button"
+                onClick={() => handleEditGroup(group)}
+                className="text-left text-on-surface hover:text-primary"
+                title="Edit group"
+              >
+                {group.name}
+                <span className="ml-2 text-xs text-on-surface-variant">{selectionRuleLabel(group)}</span>
+              </button>
+              <div className="flex items-center">
+                <button
+                  type="button"
+                  onClick={() => handleMoveGroup(index, -1)}
+                  disabled={index === 0}
+                  className="rounded p-1 text-on-surface-variant hover:text-on-surface disabled:opacity-30"
+                  title="Move up"
+                >
+                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                  </svg>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleMoveGroup(index, 1)}
+                  disabled={index === sortedGroups.length - 1}
+                  className="rounded p-1 text-on-surface-variant hover:text-on-surface disabled:opacity-30"
+                  title="Move down"
+                >
+                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={handleCreateGroup}
+          className="mt-2 flex items-center gap-2 text-sm text-primary hover:underline"
+        >
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+          New Group
+        </button>
+      </div>
+
+      {/* Group and default for each linked modifier */}
+      {modifiers.length > 0 && groups.length > 0 && (
+        <div>
+          <p className="text-xs text-on-surface-variant mb-2">Modifier Groups</p>
+          <div className="space-y-1">
+            {modifiers.map((modifier) => (
+              <div key={modifier.id} className="flex items-center gap-2 text-sm">
+                <span className="min-w-0 flex-1 truncate text-on-surface">{modifier.name}</span>
+                <select
+                  value={modifier.group_id ?? ""}
+                  onChange={(e) =>
+                    onUpdateModifier(modifier.id, {
+                      group_id: e.target.value ? Number(e.target.value) : null,
+                    })
+                  }
+                  className="rounded-lg border border-outline bg-surface px-2 py-1 text-sm text-on-surface focus:border-primary focus:outline-none"
+                >
+                  <option value="">No group</option>
+                  {sortedGroups.map((group) => (
+                    <option key={group.id} value={group.id}>
+                      {group.name}
+                    </option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-1 text-xs text-on-surface-variant">
+                  <input
+                    type="checkbox"
+                    checked={modifier.is_default}
+                    onChange={(e) => onUpdateModifier(modifier.id, { is_default: e.target.checked })}
+                  />
+                  Default
+                </label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,11 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Modifier } from "../../types";
+import { Modifier, ModifierGroup } from "../../types";
 
 interface ModifierPickerProps {
-  modifiers: Modifier[];
+  modifiers: Modifier[]; // Options are listed under the modifier they belong to
+  modifierGroups?: ModifierGroup[]; // Shown next to each modifier
   selectedModifierIds: number[];
   onToggleModifier: (modifierId: number) => void;
   onCreateModifier?: (data: { name: string; price_delta: number }) => Promise<Modifier | null>;
@@ -12,6 +13,7 @@ interface ModifierPickerProps {
 
 export default function ModifierPicker({
   modifiers,
+  modifierGroups = [],
   selectedModifierIds,
   onToggleModifier,
   onCreateModifier,
@@ -24,10 +26,20 @@ export default function ModifierPicker({
   const dropdownRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  const selectedModifiers = modifiers.filter((m) => selectedModifierIds.includes(m.id));
+  const topLevelModifiers = modifiers.filter((m) => m.parent_id === null);
+  const selectedModifiers = topLevelModifiers.filter((m) => selectedModifierIds.includes(m.id));
+
+  const groupName = (modifier: Modifier) =>
+    modifierGroups.find((g) => g.id === modifier.group_id)?.name;
+
+  const optionNames = (modifier: Modifier) =>
+    modifiers
+      .filter((m) => m.parent_id === modifier.id)
+      .map((m) => m.name)
+      .join(", ");
 
   // Filter modifiers based on search
-  const filteredModifiers = modifiers.filter((modifier) =>
+  const filteredModifiers = topLevelModifiers.filter((modifier) =>
     modifier.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
@@ -171,7 +183,17 @@ export default function ModifierPicker({
                         : "text-on-surface"
                     }`}
                   >
-                    <span className="truncate">{modifier.name}</span>
+                    <span className="truncate">
+                      {modifier.name}
+                      {groupName(modifier) && (
+                        <span className="ml-2 text-xs text-on-surface-variant">{groupName(modifier)}</span>
+                      )}
+                      {optionNames(modifier) && (
+                        <span className="block text-xs text-on-surface-variant">
+                          Options: {optionNames(modifier)}
+                        </span>
+                      )}
+                    </span>
                     <div className="flex items-center gap-2">
                       {modifier.price_delta !== 0 && (
                         <span className="text-on-surface-variant">
@@ -1,15 +1,27 @@
 "use client";
 
 import { useState } from "react";
-import { Order, OrderItem, OrderStatus, OrderItemStatus } from "../../types";
+import { useOrder } from "../../providers/OrderStoreProvider";
+import { AdjustmentKind, Order, OrderItem, OrderStatus, OrderItemStatus } from "../../types";
+import { describeModifiers, modifiersTotal, nestModifiers, quantityLabel } from "../../lib/modifierOptions";
+import { formatPickupTime } from "../../lib/scheduling";
 
-interface OrderCardProps {
+// A void or refund the user asked for; orderItem is omitted for the whole order
+export interface AdjustmentRequest {
+  kind: AdjustmentKind;
   order: Order;
+  orderItem?: OrderItem;
+}
+
+interface OrderCardProps {
+  orderId: number; // Read from the order store, so every view shows the same order
   onStatusChange?: (orderId: number, newStatus: OrderStatus) => void;
   onItemStatusChange?: (orderItemId: number, newStatus: OrderItemStatus) => void;
   onDismiss?: (orderId: number) => void;
   onEditItem?: (orderItem: OrderItem) => void;
-  onDeleteItem?: (orderItemId: number) => void;
+  onAdjust?: (request: AdjustmentRequest) => void;
+  canRefund?: boolean; // Voids are offered with onAdjust; refunds also need this
+  onCollectPayment?: (order: Order) => void;
   showActions?: boolean;
   compact?: boolean;
   editable?: boolean;
@@ -44,17 +56,22 @@ const STATUS_CONFIG: Record<OrderStatus, { label: string; bgClass: string; textC
 };
 
 export default function OrderCard({
-  order,
+  orderId,
   onStatusChange,
   onItemStatusChange,
   onDismiss,
   onEditItem,
-  onDeleteItem,
+  onAdjust,
+  canRefund = true,
+  onCollectPayment,
   showActions = false,
   compact = false,
   editable = false,
 }: OrderCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const order = useOrder(orderId);
+
+  if (!order) return null;
 
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat("en-US", {
@@ -85,25 +102,45 @@ export default function OrderCard({
     return formatTime(dateString);
   };
 
+  // "Latte (16oz)" for items ordered in a size
+  const itemLabel = (orderItem: OrderItem | undefined) =>
+    orderItem?.variant_name ? `${orderItem.item_name} (${orderItem.variant_name})` : orderItem?.item_name;
+
+  // A bundle's components are listed under it rather than as lines of their own
+  const orderLines = order.order_items?.filter((item) => item.bundle_line_id === null) || [];
+  const componentsOf = (orderItem: OrderItem) =>
+    order.order_items?.filter((item) => item.bundle_line_id === orderItem.id) || [];
+
+  // Includes the upcharges of a bundle's components
   const calculateItemPrice = (orderItem: OrderItem): number => {
-    const basePrice = orderItem.item?.base_price || 0;
-    const modifiersPrice = orderItem.modifiers?.reduce(
-      (sum, mod) => sum + mod.price_delta,
-      0
-    ) || 0;
-    return (basePrice + modifiersPrice) * orderItem.quantity;
+    const basePrice = orderItem.unit_price;
+    const modifiersPrice = modifiersTotal(orderItem.modifiers ?? []);
+    const componentsPrice = componentsOf(orderItem).reduce((sum, c) => sum + c.unit_price, 0);
+    return (basePrice + modifiersPrice + componentsPrice) * orderItem.quantity;
   };
 
   const statusConfig = STATUS_CONFIG[order.status];
+  const isUnpaid =
+    (order.payment_status === "unpaid" || order.payment_status === "partial") &&
+    order.status !== "cancelled";
+  const hasPayment = order.payment_status === "paid" || order.payment_status === "partial";
+  const billableItems = orderLines.filter(
+    (item) => item.status !== "cancelled" && !item.refunded_at
+  );
+  // Whole-order void is only possible before the kitchen starts anything
+  const canVoidOrder =
+    order.status !== "cancelled" && billableItems.length > 0 &&
+    billableItems.every((item) => item.status === "new");
+  const canRefundOrder = canRefund && hasPayment && billableItems.length > 0;
   const canEdit = editable && (order.status === "new" || order.status === "in_progress");
-  const itemCount = order.order_items?.length || 0;
+  const itemCount = orderLines.length;
   
   // For ready orders, show pickup interface by default
   const isReadyForPickup = order.status === "ready";
-  const doneItems = order.order_items?.filter((item) => item.status === "done") || [];
-  const pickedUpItems = order.order_items?.filter((item) => item.status === "picked_up") || [];
-  const pickupProgress = order.order_items?.length 
-    ? `${pickedUpItems.length}/${order.order_items.length}`
+  const doneItems = orderLines.filter((item) => item.status === "done");
+  const pickedUpItems = orderLines.filter((item) => item.status === "picked_up");
+  const pickupProgress = orderLines.length
+    ? `${pickedUpItems.length}/${orderLines.length}`
     : "0/0";
 
   return (
@@ -126,9 +163,20 @@ export default function OrderCard({
           </div>
           <p className="text-xs text-on-surface-variant">
             #{order.id} • {getTimeSince(order.created_at)}
+            {order.taken_by_staff && <> • {order.taken_by_staff.name}</>}
+            {order.scheduled_for && (
+              <span className="ml-1 font-medium text-on-surface">
+                • Pickup {formatPickupTime(order.scheduled_for)}
+              </span>
+            )}
           </p>
         </div>
         <div className="flex items-center gap-2">
+          {isUnpaid && (
+            <span className="shrink-0 rounded-full border border-error px-2.5 py-1 text-xs font-medium text-error">
+              {order.payment_status === "partial" ? "Part paid" : "Unpaid"}
+            </span>
+          )}
           <span
             className={`shrink-0 rounded-full px-2.5 py-1 text-xs font-medium ${statusConfig.bgClass} ${statusConfig.textClass}`}
           >
@@ -162,16 +210,18 @@ export default function OrderCard({
       </div>
 
       {/* Collapsed preview - show first 2 items (for non-ready orders) */}
-      {!compact && !isExpanded && !isReadyForPickup && order.order_items && order.order_items.length > 0 && (
+      {!compact && !isExpanded && !isReadyForPickup && orderLines.length > 0 && (
         <div className="border-t border-outline-variant px-4 py-2">
           <div className="space-y-1">
-            {order.order_items.slice(0, 2).map((orderItem) => {
+            {orderLines.slice(0, 2).map((orderItem) => {
               const isDone = orderItem.status === "done";
               const isPickedUp = orderItem.status === "picked_up";
+              const isVoided = orderItem.status === "cancelled";
+              const isRefunded = !!orderItem.refunded_at;
               return (
                 <div
                   key={orderItem.id}
-                  className={`flex items-center justify-between text-sm ${isPickedUp ? "line-through opacity-60" : ""}`}
+                  className={`flex items-center justify-between text-sm ${isPickedUp || isVoided || isRefunded ? "line-through opacity-60" : ""}`}
                 >
                   <span className={`truncate ${isDone ? "text-primary font-medium" : "text-on-surface-variant"}`}>
                     {isPickedUp ? (
@@ -182,7 +232,7 @@ export default function OrderCard({
                     <span className={`font-medium ${isDone ? "text-primary" : isPickedUp ? "text-on-surface-variant" : "text-on-surface"}`}>
                       {orderItem.quantity}×
                     </span>{" "}
-                    {orderItem.item?.name || "Unknown item"}
+                    {itemLabel(orderItem)}
                   </span>
                   <span className={`shrink-0 ${isDone ? "text-primary" : "text-on-surface-variant"}`}>
                     {formatPrice(calculateItemPrice(orderItem))}
@@ -190,9 +240,9 @@ export default function OrderCard({
                 </div>
               );
             })}
-            {order.order_items.length > 2 && (
+            {orderLines.length > 2 && (
               <p className="text-xs text-on-surface-variant">
-                +{order.order_items.length - 2} more...
+                +{orderLines.length - 2} more...
               </p>
             )}
           </div>
@@ -200,7 +250,7 @@ export default function OrderCard({
       )}
 
       {/* Pickup Interface - Always visible for ready orders */}
-      {!compact && isReadyForPickup && order.order_items && order.order_items.length > 0 && (
+      {!compact && isReadyForPickup && orderLines.length > 0 && (
         <div className="border-t border-outline-variant bg-primary-container/20">
           <div className="flex items-center justify-between border-b border-primary/20 px-4 py-2">
             <span className="text-sm font-medium text-on-surface">
@@ -211,14 +261,16 @@ export default function OrderCard({
             </span>
           </div>
           <div className="divide-y divide-outline-variant">
-            {order.order_items.map((orderItem) => {
+            {orderLines.map((orderItem) => {
               const isDone = orderItem.status === "done";
               const isPickedUp = orderItem.status === "picked_up";
+              const isVoided = orderItem.status === "cancelled";
+              const isRefunded = !!orderItem.refunded_at;
               
               return (
                 <div
                   key={orderItem.id}
-                  className={`flex items-center gap-3 px-4 py-3 ${isPickedUp ? "bg-surface-container opacity-60" : ""}`}
+                  className={`flex items-center gap-3 px-4 py-3 ${isPickedUp || isVoided || isRefunded ? "bg-surface-container opacity-60" : ""}`}
                 >
                   {/* Checkbox for marking picked up */}
                   {isDone && onItemStatusChange ? (
@@ -269,17 +321,25 @@ export default function OrderCard({
                   )}
                   
                   <div className="min-w-0 flex-1">
-                    <span className={`font-medium ${isPickedUp ? "text-on-surface-variant line-through" : isDone ? "text-primary" : "text-on-surface"}`}>
-                      {orderItem.item?.name || "Unknown item"}
+                    <span className={`font-medium ${isPickedUp || isVoided || isRefunded ? "text-on-surface-variant line-through" : isDone ? "text-primary" : "text-on-surface"}`}>
+                      {itemLabel(orderItem)}
                     </span>
+                    {(isVoided || isRefunded) && (
+                      <span className="ml-2 text-xs text-error">{isVoided ? "Voided" : "Refunded"}</span>
+                    )}
+                    {componentsOf(orderItem).length > 0 && (
+                      <div className={`text-xs ${isPickedUp ? "line-through" : ""} text-on-surface-variant`}>
+                        {componentsOf(orderItem).map((c) => itemLabel(c)).join(", ")}
+                      </div>
+                    )}
                     {orderItem.modifiers && orderItem.modifiers.length > 0 && (
                       <div className={`text-xs ${isPickedUp ? "line-through" : ""} text-on-surface-variant`}>
-                        {orderItem.modifiers.map((mod) => mod.label).join(", ")}
+                        {describeModifiers(orderItem.modifiers, (mod) => mod.label).join("; ")}
                       </div>
                     )}
                   </div>
                   
-                  <span className={`text-sm font-medium ${isPickedUp ? "text-on-surface-variant line-through" : "text-on-surface"}`}>
+                  <span className={`text-sm font-medium ${isPickedUp || isVoided || isRefunded ? "text-on-surface-variant line-through" : "text-on-surface"}`}>
                     {formatPrice(calculateItemPrice(orderItem))}
                   </span>
                 </div>
@@ -290,17 +350,19 @@ export default function OrderCard({
       )}
 
       {/* Expanded itemized list */}
-      {!compact && isExpanded && order.order_items && order.order_items.length > 0 && (
+      {!compact && isExpanded && orderLines.length > 0 && (
         <div className="border-t border-outline-variant">
           <div className="divide-y divide-outline-variant">
-            {order.order_items.map((orderItem) => {
+            {orderLines.map((orderItem) => {
               const isDone = orderItem.status === "done";
               const isPickedUp = orderItem.status === "picked_up";
+              const isVoided = orderItem.status === "cancelled";
+              const isRefunded = !!orderItem.refunded_at;
               
               return (
                 <div
                   key={orderItem.id}
-                  className={`p-4 ${canEdit ? "hover:bg-surface-container" : ""} ${isPickedUp ? "bg-surface-container opacity-60" : isDone ? "bg-primary-container/20" : ""}`}
+                  className={`p-4 ${canEdit ? "hover:bg-surface-container" : ""} ${isPickedUp || isVoided || isRefunded ? "bg-surface-container opacity-60" : isDone ? "bg-primary-container/20" : ""}`}
                 >
                   <div className="flex items-start justify-between gap-2">
                     <div className="flex items-start gap-3">
@@ -355,13 +417,15 @@ export default function OrderCard({
                       <div className="min-w-0 flex-1">
                         <div className="flex items-center gap-2">
                           <span className={`font-medium ${
-                            isDone 
-                              ? "text-primary" 
-                              : isPickedUp 
-                                ? "text-on-surface-variant line-through" 
-                                : "text-on-surface"
+                            isVoided || isRefunded
+                              ? "text-on-surface-variant line-through"
+                              : isDone 
+                                ? "text-primary" 
+                                : isPickedUp 
+                                  ? "text-on-surface-variant line-through" 
+                                  : "text-on-surface"
                           }`}>
-                            {orderItem.item?.name || "Unknown item"}
+                            {itemLabel(orderItem)}
                           </span>
                           {/* Item status indicator */}
                           {isDone && (
@@ -374,26 +438,56 @@ export default function OrderCard({
                               Picked Up
                             </span>
                           )}
+                          {(isVoided || isRefunded) && (
+                            <span className="rounded-full border border-error px-2 py-0.5 text-xs font-medium text-error">
+                              {isVoided ? "Voided" : "Refunded"}
+                            </span>
+                          )}
                         </div>
                     
-                    {/* Modifiers */}
-                    {orderItem.modifiers && orderItem.modifiers.length > 0 && (
-                      <div className={`mt-1 space-y-0.5 ${isPickedUp ? "line-through" : ""}`}>
-                        {orderItem.modifiers.map((mod) => (
+                    {/* Bundle components */}
+                    {componentsOf(orderItem).length > 0 && (
+                      <div className={`mt-1 space-y-0.5 ${isPickedUp || isVoided || isRefunded ? "line-through" : ""}`}>
+                        {componentsOf(orderItem).map((component) => (
                           <div
-                            key={mod.id}
+                            key={component.id}
                             className={`flex items-center justify-between text-xs ${
-                              isDone ? "text-primary/70" : "text-on-surface-variant"
+                              component.status === "done" || isDone ? "text-primary/70" : "text-on-surface-variant"
                             }`}
                           >
-                            <span>+ {mod.label}</span>
-                            {mod.price_delta !== 0 && (
-                              <span>{formatPrice(mod.price_delta)}</span>
+                            <span>
+                              {component.status === "done" && !isDone ? "✓" : "•"} {itemLabel(component)}
+                            </span>
+                            {component.unit_price !== 0 && (
+                              <span>{formatPrice(component.unit_price * component.quantity)}</span>
                             )}
                           </div>
                         ))}
                       </div>
                     )}
+
+                    {/* Modifiers */}
+                    {orderItem.modifiers && orderItem.modifiers.length > 0 && (
+                      <div className={`mt-1 space-y-0.5 ${isPickedUp || isVoided || isRefunded ? "line-through" : ""}`}>
+                        {nestModifiers(orderItem.modifiers).flatMap(({ modifier, options }) =>
+                          [modifier, ...options].map((mod) => (
+                            <div
+                              key={mod.id}
+                              className={`flex items-center justify-between text-xs ${
+                                isDone ? "text-primary/70" : "text-on-surface-variant"
+                              }`}
+                            >
+                              <span className={mod === modifier ? "" : "pl-3"}>
+                                {mod === modifier ? "+" : "→"} {quantityLabel(mod.label, mod.quantity)}
+                              </span>
+                              {mod.price_delta !== 0 && (
+                                <span>{formatPrice(mod.price_delta * mod.quantity)}</span>
+                              )}
+                            </div>
+                          ))
+                        )}
+                      </div>
+                    )}
                     
                     {/* Notes */}
                     {orderItem.notes && (
@@ -411,12 +505,12 @@ export default function OrderCard({
                 </div>
                   
                   <div className="flex flex-col items-end gap-1">
-                    <span className={`font-semibold ${isDone ? "text-primary" : "text-on-surface"} ${isPickedUp ? "line-through text-on-surface-variant" : ""}`}>
+                    <span className={`font-semibold ${isDone ? "text-primary" : "text-on-surface"} ${isPickedUp || isVoided || isRefunded ? "line-through text-on-surface-variant" : ""}`}>
                       {formatPrice(calculateItemPrice(orderItem))}
                     </span>
                     
-                    {/* Edit/Delete buttons */}
-                    {canEdit && !isDone && !isPickedUp && (
+                    {/* Edit/Void buttons */}
+                    {canEdit && !isDone && !isPickedUp && !isVoided && !isRefunded && (
                       <div className="flex gap-1">
                         {onEditItem && (
                           <button
@@ -443,16 +537,14 @@ export default function OrderCard({
                             </svg>
                           </button>
                         )}
-                        {onDeleteItem && (
+                        {onAdjust && orderItem.status === "new" && (
                           <button
                             onClick={(e) => {
                               e.stopPropagation();
-                              if (confirm("Remove this item from the order?")) {
-                                onDeleteItem(orderItem.id);
-                              }
+                              onAdjust({ kind: "void", order, orderItem });
                             }}
                             className="rounded p-1 text-on-surface-variant transition-colors hover:bg-error-container hover:text-on-error-container"
-                            title="Remove item"
+                            title="Void item"
                           >
                             <svg
                               xmlns="http://www.w3.org/2000/svg"
@@ -472,12 +564,68 @@ export default function OrderCard({
                         )}
                       </div>
                     )}
+                    {onAdjust && canRefund && hasPayment && !isVoided && !isRefunded && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onAdjust({ kind: "refund", order, orderItem });
+                        }}
+                        className="text-xs font-medium text-error hover:underline"
+                      >
+                        Refund
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
               );
             })}
           </div>
+
+          {/* Void / refund history */}
+          {order.adjustments && order.adjustments.length > 0 && (
+            <div className="space-y-1 border-t border-outline-variant px-4 py-3">
+              {order.adjustments.map((adjustment) => (
+                <p key={adjustment.id} className="text-xs text-on-surface-variant">
+                  <span className="font-medium text-error">
+                    {adjustment.kind === "void" ? "Voided" : "Refunded"}
+                  </span>{" "}
+                  {adjustment.order_item_id
+                    ? itemLabel(order.order_items?.find((item) => item.id === adjustment.order_item_id))
+                    : "order"}{" "}
+                  ({formatPrice(adjustment.amount)}) · {adjustment.reason} · {formatTime(adjustment.created_at)}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {/* Whole-order void / refund */}
+          {onAdjust && (canVoidOrder || canRefundOrder) && (
+            <div className="flex justify-end gap-2 border-t border-outline-variant px-4 py-3">
+              {canVoidOrder && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onAdjust({ kind: "void", order });
+                  }}
+                  className="rounded-full border border-error px-3 py-1.5 text-xs font-medium text-error transition-colors hover:bg-error hover:text-on-primary"
+                >
+                  Void Order
+                </button>
+              )}
+              {canRefundOrder && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onAdjust({ kind: "refund", order });
+                  }}
+                  className="rounded-full border border-error px-3 py-1.5 text-xs font-medium text-error transition-colors hover:bg-error hover:text-on-primary"
+                >
+                  Refund Order
+                </button>
+              )}
+            </div>
+          )}
         </div>
       )}
 
@@ -485,7 +633,7 @@ export default function OrderCard({
       {compact && order.order_items && (
         <div className="px-4 pb-4">
           <p className="text-sm text-on-surface-variant">
-            {order.order_items.length} item{order.order_items.length !== 1 ? "s" : ""}
+            {orderLines.length} item{orderLines.length !== 1 ? "s" : ""}
           </p>
         </div>
       )}
@@ -495,13 +643,53 @@ export default function OrderCard({
         <div>
           <p className="text-xs text-on-surface-variant">Total</p>
           <span className="text-lg font-bold text-on-surface">
-            {formatPrice(order.subtotal)}
+            {formatPrice(order.total)}
           </span>
+          <p className="text-xs text-on-surface-variant">
+            {formatPrice(order.subtotal)}
+            {order.discount_total > 0 && ` − ${formatPrice(order.discount_total)} disc.`}
+            {` + ${formatPrice(order.tax)} tax`}
+            {order.tip > 0 && ` + ${formatPrice(order.tip)} tip`}
+          </p>
+          {order.discounts
+            ?.filter((discount) => discount.order_item_id === null)
+            .map((discount) => (
+              <p key={discount.id} className="text-xs italic text-on-surface-variant">
+                Discount: {discount.reason}
+              </p>
+            ))}
         </div>
 
         {/* Status change actions */}
         {showActions && (
           <div className="flex gap-2">
+            {isUnpaid && onCollectPayment && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onCollectPayment(order);
+                }}
+                className="rounded-full border border-error px-3 py-1.5 text-xs font-medium text-error transition-colors hover:bg-error hover:text-on-primary"
+              >
+                Collect
+              </button>
+            )}
+            {(order.status === "new" || order.status === "in_progress") && (
+              <button
+                onClick={async (e) => {
+                  e.stopPropagation();
+                  // Customers can follow the order here without signing in
+                  await navigator.clipboard.writeText(
+                    `${window.location.origin}/order/status/${order.public_token}`
+                  );
+                  alert("Tracking link copied");
+                }}
+                className="rounded-full border border-outline px-3 py-1.5 text-xs font-medium text-on-surface-variant transition-colors hover:bg-surface-container-high"
+                title="Copy a link the customer can follow the order with"
+              >
+                Link
+              </button>
+            )}
             {order.status === "new" && onStatusChange && (
               <button
                 onClick={(e) => {
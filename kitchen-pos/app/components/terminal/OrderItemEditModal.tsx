@@ -1,30 +1,39 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { OrderItem, Modifier } from "../../types";
+import { OrderItem, Modifier, ModifierGroup, ModifierSelection } from "../../types";
+import {
+  findSelectionProblem,
+  groupModifiers,
+  selectionRuleLabel,
+} from "../../lib/modifierGroups";
+import { toggleModifierWithOptions } from "../../lib/modifierOptions";
+import SelectedModifierControls from "./SelectedModifierControls";
 
 interface OrderItemEditModalProps {
   orderItem: OrderItem | null;
-  availableModifiers: Modifier[];
+  availableModifiers: Modifier[]; // Linked modifiers and their options
+  modifierGroups?: ModifierGroup[];
   isOpen: boolean;
   onClose: () => void;
   onSave: (orderItemId: number, updates: {
     quantity: number;
     notes: string | null;
-    modifierIds: number[];
+    modifiers: ModifierSelection[];
   }) => Promise<void>;
 }
 
 export default function OrderItemEditModal({
   orderItem,
   availableModifiers,
+  modifierGroups = [],
   isOpen,
   onClose,
   onSave,
 }: OrderItemEditModalProps) {
   const [quantity, setQuantity] = useState(1);
   const [notes, setNotes] = useState("");
-  const [selectedModifierIds, setSelectedModifierIds] = useState<number[]>([]);
+  const [selection, setSelection] = useState<ModifierSelection[]>([]);
   const [isSaving, setIsSaving] = useState(false);
 
   // Reset form when orderItem changes
@@ -32,11 +41,11 @@ export default function OrderItemEditModal({
     if (orderItem) {
       setQuantity(orderItem.quantity);
       setNotes(orderItem.notes || "");
-      // Extract modifier IDs from the order item
-      const modIds = orderItem.modifiers
-        ?.map((m) => m.modifier_id)
-        .filter((id): id is number => id !== null) || [];
-      setSelectedModifierIds(modIds);
+      // Extract modifier IDs and quantities from the order item
+      const modSelection = orderItem.modifiers
+        ?.filter((m) => m.modifier_id !== null)
+        .map((m) => ({ modifier_id: m.modifier_id as number, quantity: m.quantity })) || [];
+      setSelection(modSelection);
     }
   }, [orderItem]);
 
@@ -49,19 +58,36 @@ export default function OrderItemEditModal({
     }).format(price);
   };
 
-  const toggleModifier = (modifierId: number) => {
-    setSelectedModifierIds((prev) =>
-      prev.includes(modifierId)
-        ? prev.filter((id) => id !== modifierId)
-        : [...prev, modifierId]
+  const toggleModifier = (modifier: Modifier) => {
+    setSelection((prev) =>
+      toggleModifierWithOptions(prev, modifier, availableModifiers, modifierGroups)
     );
   };
 
+  const setModifierQuantity = (modifierId: number, next: number) => {
+    setSelection((prev) =>
+      prev.map((s) => (s.modifier_id === modifierId ? { ...s, quantity: next } : s))
+    );
+  };
+
+  // Options are offered under their modifier rather than in its group
+  const topLevelModifiers = availableModifiers.filter((m) => m.parent_id === null);
+  const selectedModifierIds = selection.map((s) => s.modifier_id);
+  const modifierSections = groupModifiers(topLevelModifiers, modifierGroups);
+  const selectionProblem = findSelectionProblem(
+    topLevelModifiers,
+    modifierGroups,
+    selectedModifierIds
+  );
+
   const calculateTotal = () => {
-    const basePrice = orderItem.item?.base_price || 0;
-    const modifiersPrice = selectedModifierIds.reduce((sum, modId) => {
-      const modifier = availableModifiers.find((m) => m.id === modId);
-      return sum + (modifier?.price_delta || 0);
+    const basePrice = orderItem.unit_price;
+    const modifiersPrice = selection.reduce((sum, { modifier_id, quantity: modQuantity }) => {
+      // Modifiers already on the line keep the price they were ordered at
+      const existing = orderItem.modifiers?.find((m) => m.modifier_id === modifier_id);
+      if (existing) return sum + existing.price_delta * modQuantity;
+      const modifier = availableModifiers.find((m) => m.id === modifier_id);
+      return sum + (modifier?.price_delta || 0) * modQuantity;
     }, 0);
     return (basePrice + modifiersPrice) * quantity;
   };
@@ -72,7 +98,7 @@ export default function OrderItemEditModal({
       await onSave(orderItem.id, {
         quantity,
         notes: notes.trim() || null,
-        modifierIds: selectedModifierIds,
+        modifiers: selection,
       });
       onClose();
     } catch (error) {
@@ -123,10 +149,11 @@ export default function OrderItemEditModal({
           {/* Item name */}
           <div className="mb-6">
             <h3 className="text-lg font-medium text-on-surface">
-              {orderItem.item?.name || "Unknown item"}
+              {orderItem.item_name}
+              {orderItem.variant_name && ` (${orderItem.variant_name})`}
             </h3>
             <p className="text-sm text-on-surface-variant">
-              Base price: {formatPrice(orderItem.item?.base_price || 0)}
+              Base price: {formatPrice(orderItem.unit_price)}
             </p>
           </div>
 
@@ -186,65 +213,103 @@ export default function OrderItemEditModal({
               <label className="mb-2 block text-sm font-medium text-on-surface-variant">
                 Modifiers
               </label>
-              <div className="space-y-2">
-                {availableModifiers.map((modifier) => (
-                  <button
-                    key={modifier.id}
-                    onClick={() => toggleModifier(modifier.id)}
-                    className={`flex w-full items-center justify-between rounded-lg border p-3 text-left transition-colors ${
-                      selectedModifierIds.includes(modifier.id)
-                        ? "border-primary bg-primary-container"
-                        : "border-outline-variant bg-surface-container hover:bg-surface-container-high"
-                    }`}
-                  >
-                    <div className="flex items-center gap-3">
-                      <div
-                        className={`flex h-5 w-5 items-center justify-center rounded border ${
-                          selectedModifierIds.includes(modifier.id)
-                            ? "border-primary bg-primary"
-                            : "border-outline"
-                        }`}
-                      >
-                        {selectedModifierIds.includes(modifier.id) && (
-                          <svg
-                            xmlns="http://www.w3.org/2000/svg"
-                            className="h-3 w-3 text-on-primary"
-                            viewBox="0 0 20 20"
-                            fill="currentColor"
-                          >
-                            <path
-                              fillRule="evenodd"
-                              d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z"
-                              clipRule="evenodd"
-                            />
-                          </svg>
-                        )}
+              <div className="space-y-4">
+                {modifierSections.map((section) => {
+                  const maxSelect = section.group?.max_select ?? null;
+                  const isPickOne = maxSelect === 1;
+                  const isFull =
+                    maxSelect !== null &&
+                    maxSelect > 1 &&
+                    section.modifiers.filter((m) => selectedModifierIds.includes(m.id)).length >= maxSelect;
+                  return (
+                    <div key={section.group?.id ?? "ungrouped"}>
+                      {section.group && (
+                        <div className="mb-2 flex items-center justify-between">
+                          <span className="text-sm font-medium text-on-surface">{section.group.name}</span>
+                          <span className="text-xs text-on-surface-variant">
+                            {selectionRuleLabel(section.group)}
+                          </span>
+                        </div>
+                      )}
+                      <div className="space-y-2">
+                        {section.modifiers.map((modifier) => (
+                          <div key={modifier.id}>
+                            <button
+                              onClick={() => toggleModifier(modifier)}
+                              disabled={isFull && !selectedModifierIds.includes(modifier.id)}
+                              className={`flex w-full items-center justify-between rounded-lg border p-3 text-left transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+                                selectedModifierIds.includes(modifier.id)
+                                  ? "border-primary bg-primary-container"
+                                  : "border-outline-variant bg-surface-container hover:bg-surface-container-high"
+                              }`}
+                            >
+                              <div className="flex items-center gap-3">
+                                <div
+                                  className={`flex h-5 w-5 items-center justify-center border ${
+                                    isPickOne ? "rounded-full" : "rounded"
+                                  } ${
+                                    selectedModifierIds.includes(modifier.id)
+                                      ? "border-primary bg-primary"
+                                      : "border-outline"
+                                  }`}
+                                >
+                                  {selectedModifierIds.includes(modifier.id) && (
+                                    <svg
+                                      xmlns="http://www.w3.org/2000/svg"
+                                      className="h-3 w-3 text-on-primary"
+                                      viewBox="0 0 20 20"
+                                      fill="currentColor"
+                                    >
+                                      <path
+                                        fillRule="evenodd"
+                                        d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z"
+                                        clipRule="evenodd"
+                                      />
+                                    </svg>
+                                  )}
+                                </div>
+                                <span
+                                  className={
+                                    selectedModifierIds.includes(modifier.id)
+                                      ? "text-on-primary-container"
+                                      : "text-on-surface"
+                                  }
+                                >
+                                  {modifier.name}
+                                </span>
+                              </div>
+                              {modifier.price_delta !== 0 && (
+                                <span
+                                  className={`text-sm ${
+                                    selectedModifierIds.includes(modifier.id)
+                                      ? "text-on-primary-container"
+                                      : "text-on-surface-variant"
+                                  }`}
+                                >
+                                  {modifier.price_delta > 0 ? "+" : ""}
+                                  {formatPrice(modifier.price_delta)}
+                                </span>
+                              )}
+                            </button>
+                            {selectedModifierIds.includes(modifier.id) && (
+                              <SelectedModifierControls
+                                options={availableModifiers.filter((m) => m.parent_id === modifier.id)}
+                                selectedIds={selectedModifierIds}
+                                quantity={selection.find((s) => s.modifier_id === modifier.id)?.quantity ?? 1}
+                                onToggleOption={toggleModifier}
+                                onChangeQuantity={(next) => setModifierQuantity(modifier.id, next)}
+                              />
+                            )}
+                          </div>
+                        ))}
                       </div>
-                      <span
-                        className={
-                          selectedModifierIds.includes(modifier.id)
-                            ? "text-on-primary-container"
-                            : "text-on-surface"
-                        }
-                      >
-                        {modifier.name}
-                      </span>
                     </div>
-                    {modifier.price_delta !== 0 && (
-                      <span
-                        className={`text-sm ${
-                          selectedModifierIds.includes(modifier.id)
-                            ? "text-on-primary-container"
-                            : "text-on-surface-variant"
-                        }`}
-                      >
-                        {modifier.price_delta > 0 ? "+" : ""}
-                        {formatPrice(modifier.price_delta)}
-                      </span>
-                    )}
-                  </button>
-                ))}
+                  );
+                })}
               </div>
+              {selectionProblem && (
+                <p className="mt-2 text-sm text-error">{selectionProblem}</p>
+              )}
             </div>
           )}
 
@@ -280,7 +345,7 @@ export default function OrderItemEditModal({
             </button>
             <button
               onClick={handleSave}
-              disabled={isSaving || quantity < 1}
+              disabled={isSaving || quantity < 1 || !!selectionProblem}
               className="rounded-full bg-primary px-5 py-2.5 text-sm font-medium text-on-primary transition-colors hover:shadow-[var(--md-elevation-1)] disabled:cursor-not-allowed disabled:opacity-50"
             >
               {isSaving ? "Saving..." : "Save Changes"}
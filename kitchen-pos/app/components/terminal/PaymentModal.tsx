@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import { Order, Tender } from "../../types";
+import PaymentPanel, { remainingBalance } from "./PaymentPanel";
+
+interface PaymentModalProps {
+  order: Order | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (orderId: number, tenders: Tender[]) => Promise<void>;
+}
+
+// Settle the balance of an order that was placed unpaid or partially paid
+export default function PaymentModal({
+  order,
+  isOpen,
+  onClose,
+  onSubmit,
+}: PaymentModalProps) {
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen || !order) return null;
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+    }).format(price);
+  };
+
+  const alreadyPaid = order.payments?.reduce((sum, payment) => sum + payment.amount, 0) || 0;
+  const balance = Math.round((order.total - alreadyPaid) * 100) / 100;
+
+  const handleAddTender = (tender: Omit<Tender, "id">) => {
+    setTenders((prev) => [...prev, { ...tender, id: `tender-${Date.now()}` }]);
+  };
+
+  const handleClose = () => {
+    setTenders([]);
+    setError(null);
+    onClose();
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSubmit(order.id, tenders);
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to record payment");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      handleClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={handleBackdropClick}
+    >
+      <div className="w-full max-w-md overflow-hidden rounded-2xl bg-surface-container-lowest shadow-[var(--md-elevation-3)]">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-outline-variant px-6 py-4">
+          <div>
+            <h2 className="text-xl font-semibold text-on-surface">Collect Payment</h2>
+            <p className="text-sm text-on-surface-variant">
+              #{order.id} · {order.customer_name}
+            </p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="flex h-10 w-10 items-center justify-center rounded-full text-on-surface-variant transition-colors hover:bg-surface-container-high"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-6 w-6"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="max-h-[60vh] overflow-y-auto p-6">
+          <div className="mb-4 space-y-1 text-sm text-on-surface-variant">
+            <div className="flex justify-between">
+              <span>Order total</span>
+              <span>{formatPrice(order.total)}</span>
+            </div>
+            {alreadyPaid > 0 && (
+              <div className="flex justify-between">
+                <span>Already paid</span>
+                <span>-{formatPrice(alreadyPaid)}</span>
+              </div>
+            )}
+          </div>
+          <PaymentPanel
+            amountDue={balance}
+            tenders={tenders}
+            onAddTender={handleAddTender}
+            onRemoveTender={(tenderId) =>
+              setTenders((prev) => prev.filter((t) => t.id !== tenderId))
+            }
+          />
+          {error && (
+            <div className="mt-4 rounded-lg bg-error-container px-4 py-3 text-sm text-on-error-container">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-3 border-t border-outline-variant bg-surface-container-low px-6 py-4">
+          <button
+            onClick={handleClose}
+            className="rounded-full border border-outline px-5 py-2.5 text-sm font-medium text-on-surface transition-colors hover:bg-surface-container-high"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || tenders.length === 0 || remainingBalance(balance, tenders) < 0}
+            className="rounded-full bg-primary px-5 py-2.5 text-sm font-medium text-on-primary transition-colors hover:shadow-[var(--md-elevation-1)] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isSaving ? "Saving..." : "Record Payment"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import { useState } from "react";
+import { PaymentMethod, Tender } from "../../types";
+
+interface PaymentPanelProps {
+  amountDue: number;
+  tenders: Tender[];
+  onAddTender: (tender: Omit<Tender, "id">) => void;
+  onRemoveTender: (tenderId: string) => void;
+}
+
+const METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  card: "Card",
+  comp: "Comp",
+  voucher: "Voucher",
+};
+
+const REFERENCE_PLACEHOLDERS: Record<PaymentMethod, string> = {
+  cash: "",
+  card: "Approval code or last 4 (optional)",
+  comp: "Reason (required)",
+  voucher: "Voucher code (required)",
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Amount still owed after the given tenders
+ */
+export function remainingBalance(amountDue: number, tenders: Tender[]): number {
+  return round2(amountDue - tenders.reduce((sum, tender) => sum + tender.amount, 0));
+}
+
+// Collects one or more tenders (split payments) against an amount due.
+// Card payments are taken on an external reader and only recorded here.
+export default function PaymentPanel({
+  amountDue,
+  tenders,
+  onAddTender,
+  onRemoveTender,
+}: PaymentPanelProps) {
+  const [method, setMethod] = useState<PaymentMethod>("cash");
+  const [amount, setAmount] = useState("");
+  const [reference, setReference] = useState("");
+
+  const remaining = remainingBalance(amountDue, tenders);
+  const changeDue = round2(
+    tenders.reduce((sum, tender) => sum + (tender.tendered ?? tender.amount) - tender.amount, 0)
+  );
+
+  const formatPrice = (price: number) => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+    }).format(price);
+  };
+
+  // Blank amount means "the rest of the balance"
+  const parsedAmount = amount.trim() ? parseFloat(amount) : remaining;
+  const needsReference = method === "comp" || method === "voucher";
+  const canAdd =
+    remaining > 0 &&
+    !isNaN(parsedAmount) &&
+    parsedAmount > 0 &&
+    // Cash may exceed the balance (change is given); other tenders may not
+    (method === "cash" || parsedAmount <= remaining) &&
+    (!needsReference || reference.trim().length > 0);
+
+  const addTender = (value: number) => {
+    const applied = round2(Math.min(value, remaining));
+    onAddTender({
+      method,
+      amount: applied,
+      tendered: method === "cash" ? round2(value) : undefined,
+      reference: reference.trim() || undefined,
+    });
+    setAmount("");
+    setReference("");
+  };
+
+  // Common bills that cover the balance, for one-tap cash entry
+  const quickCash = [5, 10, 20, 50, 100].filter((bill) => bill > remaining).slice(0, 3);
+
+  return (
+    <div className="space-y-3">
+      {/* Tenders so far */}
+      {tenders.length > 0 && (
+        <div className="space-y-1">
+          {tenders.map((tender) => (
+            <div
+              key={tender.id}
+              className="flex items-center justify-between rounded-lg bg-surface-container px-3 py-2 text-sm"
+            >
+              <div className="min-w-0">
+                <span className="font-medium text-on-surface">{METHOD_LABELS[tender.method]}</span>
+                {tender.reference && (
+                  <span className="ml-2 truncate text-xs text-on-surface-variant">{tender.reference}</span>
+                )}
+                {tender.tendered !== undefined && tender.tendered > tender.amount && (
+                  <span className="ml-2 text-xs text-on-surface-variant">
+                    {formatPrice(tender.tendered)} given
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-on-surface">{formatPrice(tender.amount)}</span>
+                <button
+                  onClick={() => onRemoveTender(tender.id)}
+                  className="text-on-surface-variant hover:text-error"
+                  title="Remove payment"
+                >
+                  <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Balance */}
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-on-surface-variant">
+          {remaining < 0 ? "Overpaid" : "Remaining"}
+        </span>
+        <span className={`font-semibold ${remaining < 0 ? "text-error" : "text-on-surface"}`}>
+          {formatPrice(Math.abs(remaining))}
+        </span>
+      </div>
+      {changeDue > 0 && (
+        <div className="flex items-center justify-between rounded-lg bg-primary-container px-3 py-2 text-sm text-on-primary-container">
+          <span>Change due</span>
+          <span className="text-lg font-bold">{formatPrice(changeDue)}</span>
+        </div>
+      )}
+
+      {/* New tender */}
+      {remaining > 0 && (
+        <div className="space-y-2 rounded-lg border border-outline-variant p-3">
+          <div className="flex gap-1">
+            {(Object.keys(METHOD_LABELS) as PaymentMethod[]).map((m) => (
+              <button
+                key={m}
+                onClick={() => {
+                  setMethod(m);
+                  setReference("");
+                }}
+                className={`flex-1 rounded-full px-2 py-1.5 text-xs font-medium transition-colors ${
+                  method === m
+                    ? "bg-secondary-container text-on-secondary-container"
+                    : "bg-surface-container-high text-on-surface-variant hover:bg-surface-container-highest"
+                }`}
+              >
+                {METHOD_LABELS[m]}
+              </button>
+            ))}
+          </div>
+
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder={`${method === "cash" ? "Cash received" : "Amount"} (${remaining.toFixed(2)})`}
+            className="w-full rounded-lg border border-outline bg-transparent px-3 py-2 text-sm text-on-surface placeholder-on-surface-variant focus:border-primary focus:outline-none"
+          />
+
+          {method === "cash" && quickCash.length > 0 && (
+            <div className="flex gap-1">
+              {quickCash.map((bill) => (
+                <button
+                  key={bill}
+                  onClick={() => addTender(bill)}
+                  className="flex-1 rounded-full bg-surface-container-high px-2 py-1 text-xs font-medium text-on-surface hover:bg-surface-container-highest"
+                >
+                  {formatPrice(bill)}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {method !== "cash" && (
+            <input
+              type="text"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder={REFERENCE_PLACEHOLDERS[method]}
+              className="w-full rounded-lg border border-outline bg-transparent px-3 py-2 text-sm text-on-surface placeholder-on-surface-variant focus:border-primary focus:outline-none"
+            />
+          )}
+
+          <button
+            onClick={() => addTender(parsedAmount)}
+            disabled={!canAdd}
+            className="w-full rounded-full bg-secondary-container py-2 text-sm font-medium text-on-secondary-container transition-colors hover:bg-secondary disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Add {METHOD_LABELS[method]} {canAdd ? formatPrice(parsedAmount) : ""}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,12 @@
 "use client";
 
 import { useCallback } from "react";
-import { Order, OrderItem, OrderStatus, OrderItemStatus } from "../../types";
-import OrderCard from "./OrderCard";
+import { Order, OrderItem, OrderStatus, OrderItemStatus, PendingOrder } from "../../types";
+import { useRecentOrders } from "../../providers/OrderStoreProvider";
+import OrderCard, { AdjustmentRequest } from "./OrderCard";
 
 interface RecentOrdersProps {
-  orders: Order[];
+  campaignId: number | null; // Its orders are read from the order store
   isLoading: boolean;
   hasMore: boolean;
   onLoadMore: () => void;
@@ -13,12 +14,16 @@ interface RecentOrdersProps {
   onItemStatusChange?: (orderItemId: number, newStatus: OrderItemStatus) => void;
   onRefresh?: () => void;
   onEditItem?: (orderItem: OrderItem) => void;
-  onDeleteItem?: (orderItemId: number) => void;
+  onAdjust?: (request: AdjustmentRequest) => void;
+  canRefund?: boolean;
+  onCollectPayment?: (order: Order) => void;
   editable?: boolean;
+  pendingOrders?: PendingOrder[]; // Taken offline and not sent yet; shown first
+  onDiscardPending?: (clientKey: string) => void;
 }
 
 export default function RecentOrders({
-  orders,
+  campaignId,
   isLoading,
   hasMore,
   onLoadMore,
@@ -26,9 +31,15 @@ export default function RecentOrders({
   onItemStatusChange,
   onRefresh,
   onEditItem,
-  onDeleteItem,
+  onAdjust,
+  canRefund,
+  onCollectPayment,
   editable = false,
+  pendingOrders = [],
+  onDiscardPending,
 }: RecentOrdersProps) {
+  const orders = useRecentOrders(campaignId);
+
   // Handle scroll to bottom to load more
   const handleScroll = useCallback(
     (e: React.UIEvent<HTMLDivElement>) => {
@@ -43,7 +54,13 @@ export default function RecentOrders({
     [hasMore, isLoading, onLoadMore]
   );
 
-  if (orders.length === 0 && !isLoading) {
+  const unpaidCount = orders.filter(
+    (order) =>
+      (order.payment_status === "unpaid" || order.payment_status === "partial") &&
+      order.status !== "cancelled"
+  ).length;
+
+  if (orders.length === 0 && pendingOrders.length === 0 && !isLoading) {
     return (
       <div className="flex h-64 flex-col items-center justify-center px-6 text-center">
         <svg
@@ -80,7 +97,12 @@ export default function RecentOrders({
     <div className="flex h-full flex-col">
       {/* Refresh button */}
       {onRefresh && (
-        <div className="flex justify-end border-b border-outline-variant px-4 py-2">
+        <div className="flex items-center justify-end border-b border-outline-variant px-4 py-2">
+          {unpaidCount > 0 && (
+            <span className="mr-auto rounded-full border border-error px-2.5 py-1 text-xs font-medium text-error">
+              {unpaidCount} unpaid
+            </span>
+          )}
           <button
             onClick={onRefresh}
             disabled={isLoading}
@@ -110,14 +132,62 @@ export default function RecentOrders({
         className="flex-1 space-y-3 overflow-y-auto p-4"
         onScroll={handleScroll}
       >
+        {pendingOrders.map((pending) => (
+          <div
+            key={pending.client_key}
+            className={`rounded-xl border border-dashed p-4 ${
+              pending.error ? "border-error" : "border-outline"
+            }`}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0 flex-1">
+                <h3 className="truncate text-base font-semibold text-on-surface">
+                  {pending.customer_name}
+                </h3>
+                <p className="text-xs text-on-surface-variant">
+                  {pending.item_count} item{pending.item_count !== 1 ? "s" : ""} • $
+                  {pending.total.toFixed(2)} • taken{" "}
+                  {new Date(pending.queued_at).toLocaleTimeString("en-US", {
+                    hour: "numeric",
+                    minute: "2-digit",
+                  })}
+                </p>
+              </div>
+              {pending.error ? (
+                <span className="shrink-0 rounded-full border border-error px-2.5 py-1 text-xs font-medium text-error">
+                  Not sent
+                </span>
+              ) : (
+                <span className="shrink-0 rounded-full bg-surface-container-high px-2.5 py-1 text-xs font-medium text-on-surface-variant">
+                  Waiting to sync
+                </span>
+              )}
+            </div>
+            {pending.error && (
+              <div className="mt-2 flex items-center justify-between gap-2">
+                <p className="text-sm text-error">{pending.error}</p>
+                {onDiscardPending && (
+                  <button
+                    onClick={() => onDiscardPending(pending.client_key)}
+                    className="shrink-0 rounded-full px-3 py-1.5 text-xs font-medium text-error hover:bg-surface-container-high"
+                  >
+                    Discard
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
         {orders.map((order) => (
           <OrderCard
             key={order.id}
-            order={order}
+            orderId={order.id}
             onStatusChange={onStatusChange}
             onItemStatusChange={onItemStatusChange}
             onEditItem={onEditItem}
-            onDeleteItem={onDeleteItem}
+            onAdjust={onAdjust}
+            canRefund={canRefund}
+            onCollectPayment={onCollectPayment}
             showActions={!!onStatusChange}
             editable={editable}
           />
@@ -0,0 +1,88 @@
+"use client";
+
+import { Modifier } from "../../types";
+
+interface SelectedModifierControlsProps {
+  options: Modifier[]; // Options offered under the selected modifier
+  selectedIds: number[];
+  quantity: number;
+  onToggleOption: (option: Modifier) => void;
+  onChangeQuantity: (quantity: number) => void;
+  canIncrease?: boolean;
+  unavailableOptionIds?: number[]; // e.g. not enough stock left
+}
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(price);
+};
+
+// Shown under a selected modifier: how many of it, and its options
+export default function SelectedModifierControls({
+  options,
+  selectedIds,
+  quantity,
+  onToggleOption,
+  onChangeQuantity,
+  canIncrease = true,
+  unavailableOptionIds = [],
+}: SelectedModifierControlsProps) {
+  return (
+    <div className="ml-9 mt-2 space-y-2">
+      {options.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {options.map((option) => {
+            const isSelected = selectedIds.includes(option.id);
+            return (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => onToggleOption(option)}
+                disabled={!isSelected && unavailableOptionIds.includes(option.id)}
+                className={`rounded-full px-3 py-1 text-sm transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+                  isSelected
+                    ? "bg-secondary-container text-on-secondary-container"
+                    : "bg-surface-container-high text-on-surface hover:bg-surface-container-highest"
+                }`}
+              >
+                {option.name}
+                {option.price_delta !== 0 && (
+                  <span className="ml-1 opacity-70">
+                    ({option.price_delta > 0 ? "+" : ""}{formatPrice(option.price_delta)})
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+      <div className="flex items-center gap-2 text-sm text-on-surface-variant">
+        <button
+          type="button"
+          onClick={() => onChangeQuantity(quantity - 1)}
+          disabled={quantity <= 1}
+          className="flex h-7 w-7 items-center justify-center rounded-full bg-surface-container-high text-on-surface hover:bg-surface-container-highest disabled:opacity-30"
+          title="Fewer"
+        >
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 12H4" />
+          </svg>
+        </button>
+        <span className="w-6 text-center font-medium text-on-surface">{quantity}</span>
+        <button
+          type="button"
+          onClick={() => onChangeQuantity(quantity + 1)}
+          disabled={!canIncrease}
+          className="flex h-7 w-7 items-center justify-center rounded-full bg-surface-container-high text-on-surface hover:bg-surface-container-highest disabled:opacity-30"
+          title="More"
+        >
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+        </button>
+      </div>
+    </div>
+  );
+}
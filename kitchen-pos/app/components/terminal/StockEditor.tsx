@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+
+interface StockEditorProps {
+  label: string;
+  quantity: number | undefined; // undefined = not tracked
+  onSave: (quantity: number | null) => Promise<void>;
+}
+
+// One row of the stock section: shows the count left and lets staff set it,
+// or stop tracking so the item can be sold without limit
+export default function StockEditor({ label, quantity, onSave }: StockEditorProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [value, setValue] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const parsedValue = parseInt(value, 10);
+  const isValid = !isNaN(parsedValue) && parsedValue >= 0;
+
+  const save = async (next: number | null) => {
+    setIsSaving(true);
+    try {
+      await onSave(next);
+      setIsEditing(false);
+    } catch (err) {
+      console.error("Error saving stock:", err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!isEditing) {
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          setValue(quantity === undefined ? "" : String(quantity));
+          setIsEditing(true);
+        }}
+        className="flex w-full items-center justify-between rounded-lg px-3 py-2 text-sm hover:bg-surface-container-high"
+      >
+        <span className="truncate text-on-surface">{label}</span>
+        <span
+          className={`shrink-0 font-medium ${
+            quantity === 0 ? "text-error" : "text-on-surface-variant"
+          }`}
+        >
+          {quantity === undefined ? "Not tracked" : quantity === 0 ? "Sold out" : `${quantity} left`}
+        </span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 rounded-lg bg-surface-container px-3 py-2">
+      <span className="min-w-0 flex-1 truncate text-sm text-on-surface">{label}</span>
+      <input
+        type="number"
+        min="0"
+        step="1"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && isValid) save(parsedValue);
+          if (e.key === "Escape") setIsEditing(false);
+        }}
+        placeholder="Count"
+        className="w-20 rounded-lg border border-outline bg-transparent px-2 py-1 text-sm text-on-surface focus:border-primary focus:outline-none"
+        disabled={isSaving}
+        autoFocus
+      />
+      {quantity !== undefined && (
+        <button
+          type="button"
+          onClick={() => save(null)}
+          disabled={isSaving}
+          className="text-xs text-on-surface-variant hover:underline disabled:opacity-50"
+        >
+          Stop tracking
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={() => save(parsedValue)}
+        disabled={isSaving || !isValid}
+        className="rounded-lg bg-primary px-3 py-1 text-sm font-medium text-on-primary disabled:opacity-50"
+      >
+        {isSaving ? "..." : "Save"}
+      </button>
+    </div>
+  );
+}
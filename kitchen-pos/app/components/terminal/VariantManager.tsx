@@ -0,0 +1,144 @@
+"use client";
+
+import { ItemVariant } from "../../types";
+
+export type VariantFields = Pick<ItemVariant, "name" | "price">;
+
+interface VariantManagerProps {
+  variants: ItemVariant[]; // The item's sizes at their menu prices
+  onCreateVariant: (fields: VariantFields) => Promise<void>;
+  onUpdateVariant: (
+    variantId: number,
+    updates: Partial<Pick<ItemVariant, "name" | "price" | "display_order">>
+  ) => Promise<void>;
+  onDeactivateVariant: (variantId: number) => Promise<void>;
+}
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(price);
+};
+
+// Asks for a size's name and price. Returns null if cancelled or invalid.
+const promptFields = (current?: ItemVariant): VariantFields | null => {
+  const name = prompt("Size name (e.g. 12oz, Large)", current?.name ?? "");
+  if (!name?.trim()) return null;
+
+  const priceInput = prompt(`Price for ${name.trim()}`, current ? String(current.price) : "");
+  if (priceInput === null) return null;
+  const price = parseFloat(priceInput);
+  if (isNaN(price) || price < 0) {
+    alert("Please enter a price of 0 or more");
+    return null;
+  }
+  return { name: name.trim(), price };
+};
+
+// Size setup inside the item detail modal: add, rename, reprice, reorder and
+// remove the sizes an item is sold in
+export default function VariantManager({
+  variants,
+  onCreateVariant,
+  onUpdateVariant,
+  onDeactivateVariant,
+}: VariantManagerProps) {
+  const sortedVariants = [...variants].sort((a, b) => a.display_order - b.display_order);
+
+  const handleCreateVariant = async () => {
+    const fields = promptFields();
+    if (fields) await onCreateVariant(fields);
+  };
+
+  const handleEditVariant = async (variant: ItemVariant) => {
+    const fields = promptFields(variant);
+    if (fields) await onUpdateVariant(variant.id, fields);
+  };
+
+  const handleRemoveVariant = async (variant: ItemVariant) => {
+    if (!confirm(`Remove the ${variant.name} size? Past orders keep it.`)) return;
+    await onDeactivateVariant(variant.id);
+  };
+
+  // Swap places with the neighbouring size, then renumber by position
+  const handleMoveVariant = async (index: number, direction: -1 | 1) => {
+    const reordered = [...sortedVariants];
+    [reordered[index], reordered[index + direction]] = [reordered[index + direction], reordered[index]];
+    for (const [position, variant] of reordered.entries()) {
+      if (variant.display_order !== position) {
+        await onUpdateVariant(variant.id, { display_order: position });
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {sortedVariants.length === 0 && (
+        <p className="text-sm text-on-surface-variant">
+          Sold in one size at its base price.
+        </p>
+      )}
+      {sortedVariants.map((variant, index) => (
+        <div
+          key={variant.id}
+          className="flex items-center justify-between rounded-lg bg-surface-container px-3 py-1.5 text-sm"
+        >
+          <button
+            type="button"
+            onClick={() => handleEditVariant(variant)}
+            className="text-left text-on-surface hover:text-primary"
+            title="Edit size"
+          >
+            {variant.name}
+            <span className="ml-2 text-xs text-on-surface-variant">{formatPrice(variant.price)}</span>
+          </button>
+          <div className="flex items-center">
+            <button
+              type="button"
+              onClick={() => handleMoveVariant(index, -1)}
+              disabled={index === 0}
+              className="rounded p-1 text-on-surface-variant hover:text-on-surface disabled:opacity-30"
+              title="Move up"
+            >
+              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+              </svg>
+            </button>
+            <button
+              type="button"
+              onClick={() => handleMoveVariant(index, 1)}
+              disabled={index === sortedVariants.length - 1}
+              className="rounded p-1 text-on-surface-variant hover:text-on-surface disabled:opacity-30"
+              title="Move down"
+            >
+              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+            </button>
+            <button
+              type="button"
+              onClick={() => handleRemoveVariant(variant)}
+              className="rounded p-1 text-on-surface-variant hover:text-error"
+              title="Remove size"
+            >
+              <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={handleCreateVariant}
+        className="flex items-center gap-2 text-sm text-primary hover:underline"
+      >
+        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+        </svg>
+        Add Size
+      </button>
+    </div>
+  );
+}
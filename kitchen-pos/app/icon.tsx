@@ -0,0 +1,18 @@
+import { renderAppIcon } from "./lib/appIcon";
+
+// The sizes the web app manifest asks for, served at /icon/<size>
+const ICON_SIZES = [192, 512];
+
+export const contentType = "image/png";
+
+export function generateImageMetadata() {
+  return ICON_SIZES.map((size) => ({
+    id: String(size),
+    size: { width: size, height: size },
+    contentType,
+  }));
+}
+
+export default async function Icon({ id }: { id: Promise<string> }) {
+  return renderAppIcon(Number(await id));
+}
@@ -0,0 +1,297 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "../providers/AuthProvider";
+import {
+  Campaign,
+  Ingredient,
+  IngredientLevel,
+  IngredientUsage,
+  Item,
+  Modifier,
+  RecipeIngredient,
+} from "../types";
+import {
+  getCampaigns,
+  getItems,
+  getModifiers,
+  getIngredients,
+  createIngredient,
+  updateIngredient,
+  deactivateIngredient,
+  getRecipeIngredients,
+  setRecipeIngredient,
+  getIngredientLevels,
+  getIngredientUsage,
+  setIngredientOnHand,
+} from "../lib/supabase";
+import type { StockTarget } from "../lib/supabase";
+import ThemeToggle from "../components/ThemeToggle";
+import StaffSwitcher from "../components/StaffSwitcher";
+import CampaignSelector from "../components/terminal/CampaignSelector";
+import IngredientTable from "../components/inventory/IngredientTable";
+import RecipeEditor from "../components/inventory/RecipeEditor";
+import Link from "next/link";
+
+export default function InventoryPage() {
+  const router = useRouter();
+  const { user, isLoading: authLoading, can } = useAuth();
+
+  // Data state
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [items, setItems] = useState<Item[]>([]);
+  const [modifiers, setModifiers] = useState<Modifier[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [recipes, setRecipes] = useState<RecipeIngredient[]>([]);
+  const [levels, setLevels] = useState<IngredientLevel[]>([]);
+  const [usage, setUsage] = useState<IngredientUsage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // UI state
+  const [selectedCampaign, setSelectedCampaign] = useState<Campaign | null>(null);
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push("/");
+    }
+  }, [authLoading, user, router]);
+
+  // Load campaigns, menu and recipes on mount
+  useEffect(() => {
+    if (!user) return;
+
+    async function loadInventoryData() {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const [campaignsData, itemsData, modifiersData, ingredientsData, recipesData] =
+          await Promise.all([
+            getCampaigns(),
+            getItems(),
+            getModifiers(),
+            getIngredients(),
+            getRecipeIngredients(),
+          ]);
+        setCampaigns(campaignsData);
+        setItems(itemsData);
+        setModifiers(modifiersData);
+        setIngredients(ingredientsData);
+        setRecipes(recipesData);
+
+        // Select first active campaign by default
+        const activeCampaign = campaignsData.find((c) => c.is_active);
+        if (activeCampaign) {
+          setSelectedCampaign(activeCampaign);
+        }
+      } catch (err) {
+        console.error("Error loading inventory:", err);
+        setError("Failed to load inventory. Please check your connection.");
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadInventoryData();
+  }, [user]);
+
+  const refreshLevels = useCallback(async (campaignId: number) => {
+    const [levelsData, usageData] = await Promise.all([
+      getIngredientLevels(campaignId),
+      getIngredientUsage(campaignId),
+    ]);
+    setLevels(levelsData);
+    setUsage(usageData);
+  }, []);
+
+  // Load prepped amounts and usage when campaign changes
+  useEffect(() => {
+    if (!selectedCampaign) return;
+
+    refreshLevels(selectedCampaign.id).catch((err) => {
+      console.error("Error loading ingredient levels:", err);
+      setError("Failed to load ingredient levels. Please try again.");
+    });
+  }, [selectedCampaign, refreshLevels]);
+
+  const handleCreateIngredient = useCallback(async (name: string, unit: string) => {
+    const ingredient = await createIngredient({
+      name,
+      unit,
+      low_stock_threshold: null,
+      is_active: true,
+    });
+    setIngredients((prev) =>
+      [...prev, ingredient].sort((a, b) => a.name.localeCompare(b.name))
+    );
+  }, []);
+
+  const handleUpdateIngredient = useCallback(
+    async (id: number, updates: Partial<Pick<Ingredient, "unit" | "low_stock_threshold">>) => {
+      try {
+        const ingredient = await updateIngredient(id, updates);
+        setIngredients((prev) => prev.map((i) => (i.id === id ? ingredient : i)));
+        // Units and thresholds are shown through the levels view too
+        if (selectedCampaign) await refreshLevels(selectedCampaign.id);
+      } catch (err) {
+        console.error("Error updating ingredient:", err);
+        alert("Failed to update ingredient");
+      }
+    },
+    [selectedCampaign, refreshLevels]
+  );
+
+  const handleDeactivateIngredient = useCallback(async (id: number) => {
+    try {
+      await deactivateIngredient(id);
+      setIngredients((prev) => prev.filter((i) => i.id !== id));
+    } catch (err) {
+      console.error("Error removing ingredient:", err);
+      alert("Failed to remove ingredient");
+    }
+  }, []);
+
+  const handleSetOnHand = useCallback(
+    async (ingredientId: number, onHand: number | null) => {
+      if (!selectedCampaign) return;
+      try {
+        await setIngredientOnHand(selectedCampaign.id, ingredientId, onHand);
+        await refreshLevels(selectedCampaign.id);
+      } catch (err) {
+        console.error("Error saving prepped amount:", err);
+        alert("Failed to save prepped amount");
+      }
+    },
+    [selectedCampaign, refreshLevels]
+  );
+
+  const handleSetRecipeIngredient = useCallback(
+    async (target: StockTarget, ingredientId: number, quantity: number | null) => {
+      await setRecipeIngredient(target, ingredientId, quantity);
+      const [recipesData] = await Promise.all([
+        getRecipeIngredients(),
+        selectedCampaign ? refreshLevels(selectedCampaign.id) : undefined,
+      ]);
+      setRecipes(recipesData);
+    },
+    [selectedCampaign, refreshLevels]
+  );
+
+  // Loading state
+  if (authLoading || isLoading || !user) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-surface">
+        <div className="text-center">
+          <div className="mb-4 h-12 w-12 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto"></div>
+          <p className="text-on-surface-variant">Loading inventory...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!can("manage_stock")) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-surface">
+        <div className="text-center">
+          {/* Someone else may sign in here; auto-lock still applies */}
+          <div className="mb-6 flex justify-center">
+            <StaffSwitcher />
+          </div>
+          <p className="text-on-surface mb-4">Only managers can look after inventory.</p>
+          <Link href="/" className="rounded-full bg-primary px-6 py-2 text-on-primary">
+            Back to stations
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  // Error state
+  if (error) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-surface">
+        <div className="text-center">
+          <p className="text-error mb-4">{error}</p>
+          <button
+            onClick={() => window.location.reload()}
+            className="rounded-full bg-primary px-6 py-2 text-on-primary"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col bg-surface">
+      {/* Header */}
+      <header className="flex items-center justify-between border-b border-outline-variant bg-surface-container-low px-4 py-3 sm:px-6 sm:py-4">
+        <div className="flex items-center gap-3 sm:gap-4">
+          <Link
+            href="/"
+            className="rounded-full p-2 text-on-surface-variant transition-colors hover:bg-surface-container-high hover:text-on-surface"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5 sm:h-6 sm:w-6"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M10 19l-7-7m0 0l7-7m-7 7h18"
+              />
+            </svg>
+          </Link>
+          <div>
+            <h1 className="text-lg font-medium text-on-surface sm:text-2xl">Inventory</h1>
+            <p className="text-xs text-on-surface-variant sm:text-sm">
+              {ingredients.length} ingredient{ingredients.length !== 1 ? "s" : ""}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 sm:gap-4">
+          <StaffSwitcher />
+          <ThemeToggle />
+          <CampaignSelector
+            campaigns={campaigns}
+            selectedCampaign={selectedCampaign}
+            onSelectCampaign={setSelectedCampaign}
+          />
+        </div>
+      </header>
+
+      <main className="grid flex-1 gap-4 p-4 lg:grid-cols-[2fr_1fr]">
+        {selectedCampaign ? (
+          <IngredientTable
+            ingredients={ingredients}
+            levels={levels}
+            usage={usage}
+            campaignName={selectedCampaign.name}
+            onCreateIngredient={handleCreateIngredient}
+            onUpdateIngredient={handleUpdateIngredient}
+            onDeactivateIngredient={handleDeactivateIngredient}
+            onSetOnHand={handleSetOnHand}
+          />
+        ) : (
+          <div className="flex items-center justify-center rounded-2xl bg-surface-container-low p-8 text-on-surface-variant">
+            <p>Select a campaign to track ingredients</p>
+          </div>
+        )}
+        <RecipeEditor
+          items={items}
+          modifiers={modifiers}
+          ingredients={ingredients}
+          recipes={recipes}
+          onSetRecipeIngredient={handleSetRecipeIngredient}
+        />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+import SelfOrder from "../order/SelfOrder";
+
+// Self-service ordering on a shared tablet at the counter
+export default function KioskPage() {
+  return <SelfOrder kiosk />;
+}
@@ -3,33 +3,68 @@
 import { useState, useEffect, useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { useAuth } from "../providers/AuthProvider";
-import { Campaign, Category, Order, OrderItemStatus } from "../types";
+import { useKitchenOrders, useOrderFeed, useOrderStore } from "../providers/OrderStoreProvider";
+import { Campaign, Category, IngredientLevel, Order, OrderItem, OrderItemStatus } from "../types";
 import {
   getCampaigns,
   getCategories,
   getKitchenOrders,
-  updateMultipleOrderItemsStatus,
-  subscribeToKitchenOrders,
+  getScheduledOrders,
+  getIngredientLevels,
 } from "../lib/supabase";
 import ThemeToggle from "../components/ThemeToggle";
+import StaffSwitcher from "../components/StaffSwitcher";
 import CampaignSelector from "../components/terminal/CampaignSelector";
 import KitchenOrderCard from "../components/kitchen/KitchenOrderCard";
+import { fireTime, isOrderFired } from "../lib/scheduling";
 import Link from "next/link";
 
+// A bundle line is made by making its components, so it never shows in the kitchen
+const isBundleLine = (order: Order, orderItem: OrderItem) =>
+  !!order.order_items?.some((item) => item.bundle_line_id === orderItem.id);
+
+const byPickupTime = (a: Order, b: Order) =>
+  new Date(a.scheduled_for ?? a.created_at).getTime() - new Date(b.scheduled_for ?? b.created_at).getTime();
+
+// How often scheduled orders are checked for their fire time
+const FIRE_CHECK_INTERVAL_MS = 15000;
+
+// Ingredient levels are re-checked once orders settle, not on every change
+const LEVELS_REFRESH_DELAY_MS = 2000;
+
+// Every order the kitchen has, with scheduled ones that haven't fired yet
+async function loadOrders(campaign: Campaign): Promise<Order[]> {
+  const [kitchenOrders, scheduledOrders] = await Promise.all([
+    getKitchenOrders(campaign.id, campaign.fire_lead_minutes),
+    getScheduledOrders(campaign.id, campaign.fire_lead_minutes),
+  ]);
+  return [...kitchenOrders, ...scheduledOrders];
+}
+
 export default function KitchenPage() {
   const router = useRouter();
   const { user, isLoading: authLoading } = useAuth();
+  const { addOrders, changeOrderItemStatus } = useOrderStore();
 
   // Data state
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
-  const [orders, setOrders] = useState<Order[]>([]);
+  const [ingredientLevels, setIngredientLevels] = useState<IngredientLevel[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   // UI state
   const [selectedCampaign, setSelectedCampaign] = useState<Campaign | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
+  // Ticks so scheduled orders fire without waiting for a refetch
+  const [now, setNow] = useState(() => Date.now());
+
+  const campaignId = selectedCampaign?.id ?? null;
+  // Kept current by the realtime feed; includes scheduled orders not yet fired
+  const isLive = useOrderFeed(campaignId);
+  const orders = useKitchenOrders(campaignId);
+
+  const leadMinutes = selectedCampaign?.fire_lead_minutes ?? 0;
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -71,13 +106,15 @@ export default function KitchenPage() {
 
     async function loadKitchenData() {
       try {
-        const [categoriesData, ordersData] = await Promise.all([
+        const [categoriesData, ordersData, levelsData] = await Promise.all([
           getCategories(),
-          getKitchenOrders(selectedCampaign!.id),
+          loadOrders(selectedCampaign!),
+          getIngredientLevels(selectedCampaign!.id),
         ]);
 
         setCategories(categoriesData);
-        setOrders(ordersData);
+        addOrders(ordersData);
+        setIngredientLevels(levelsData);
       } catch (err) {
         console.error("Error loading kitchen data:", err);
         setError("Failed to load orders. Please try again.");
@@ -85,125 +122,90 @@ export default function KitchenPage() {
     }
 
     loadKitchenData();
-  }, [user, selectedCampaign]);
+  }, [user, selectedCampaign, addOrders]);
 
-  // Subscribe to real-time order updates
+  // Orders use up ingredients, so re-check the levels once they settle
   useEffect(() => {
     if (!selectedCampaign) return;
+    const timer = setTimeout(() => {
+      getIngredientLevels(selectedCampaign.id)
+        .then(setIngredientLevels)
+        .catch((err) => console.error("Error refreshing ingredient levels:", err));
+    }, LEVELS_REFRESH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [orders, selectedCampaign]);
+
+  // Fire scheduled orders as their time comes
+  useEffect(() => {
+    const fireCheck = setInterval(() => setNow(Date.now()), FIRE_CHECK_INTERVAL_MS);
+    return () => clearInterval(fireCheck);
+  }, []);
 
-    const unsubscribe = subscribeToKitchenOrders(
-      selectedCampaign.id,
-      (eventType, order) => {
-        setOrders((prev) => {
-          // Check if order should be visible in kitchen (new, in_progress, ready)
-          const isKitchenVisible = ["new", "in_progress", "ready"].includes(order.status);
-
-          if (eventType === "INSERT") {
-            // Add new order if it's kitchen-visible
-            if (isKitchenVisible && !prev.find((o) => o.id === order.id)) {
-              // Insert in correct position (oldest first)
-              const newOrders = [...prev, order].sort(
-                (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-              );
-              return newOrders;
-            }
-            return prev;
-          } else if (eventType === "UPDATE") {
-            if (isKitchenVisible) {
-              // Update or add if now visible
-              const exists = prev.find((o) => o.id === order.id);
-              if (exists) {
-                return prev.map((o) => (o.id === order.id ? order : o));
-              } else {
-                return [...prev, order].sort(
-                  (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
-                );
-              }
-            } else {
-              // Remove if no longer kitchen-visible (e.g., picked_up, cancelled)
-              return prev.filter((o) => o.id !== order.id);
-            }
-          } else if (eventType === "DELETE") {
-            return prev.filter((o) => o.id !== order.id);
-          }
-          return prev;
-        });
-      }
-    );
-
-    // Light backup polling every 30 seconds (in case of missed realtime events)
-    const pollInterval = setInterval(async () => {
-      try {
-        const freshOrders = await getKitchenOrders(selectedCampaign.id);
-        setOrders(freshOrders);
-      } catch (err) {
-        console.error("Error polling orders:", err);
-      }
-    }, 30000);
-
-    return () => {
-      unsubscribe();
-      clearInterval(pollInterval);
-    };
-  }, [selectedCampaign]);
-
-  // Handle item status change (for category-filtered items)
+  // Handle item status change (for category-filtered items); shown straight
+  // away and put back if it can't be saved
   const handleItemStatusChange = useCallback(async (orderItemIds: number[], newStatus: OrderItemStatus) => {
     try {
-      // Optimistic update - update item statuses in the UI
-      setOrders((prev) => 
-        prev.map((order) => ({
-          ...order,
-          order_items: order.order_items?.map((item) =>
-            orderItemIds.includes(item.id) ? { ...item, status: newStatus } : item
-          ),
-        }))
-      );
-
-      // Then persist to database
-      await updateMultipleOrderItemsStatus(orderItemIds, newStatus);
-      // Real-time subscription will also fire and sync any other changes
+      await changeOrderItemStatus(orderItemIds, newStatus);
     } catch (err) {
       console.error("Error updating item status:", err);
-      // On error, reload orders to get correct state
-      if (selectedCampaign) {
-        const ordersData = await getKitchenOrders(selectedCampaign.id);
-        setOrders(ordersData);
-      }
     }
-  }, [selectedCampaign]);
+  }, [changeOrderItemStatus]);
 
   // Manual refresh handler
   const handleRefresh = useCallback(async () => {
     if (!selectedCampaign) return;
     try {
-      const freshOrders = await getKitchenOrders(selectedCampaign.id);
-      setOrders(freshOrders);
+      addOrders(await loadOrders(selectedCampaign));
     } catch (err) {
       console.error("Error refreshing orders:", err);
     }
-  }, [selectedCampaign]);
+  }, [selectedCampaign, addOrders]);
 
   // Category selection handler
   const handleCategorySelect = useCallback((category: Category | null) => {
     setSelectedCategory(category);
   }, []);
 
-  // Filter orders that have items in the selected category
+  // Scheduled orders whose fire time has come join the kitchen's orders
+  // straight away; the rest wait in the Scheduled lane
+  const kitchenOrders = useMemo(
+    () => orders.filter((order) => order.status !== "new" || isOrderFired(order, leadMinutes, now)),
+    [orders, leadMinutes, now]
+  );
+
+  const upcomingOrders = useMemo(
+    () =>
+      orders
+        .filter((order) => order.status === "new" && !isOrderFired(order, leadMinutes, now))
+        .sort(byPickupTime),
+    [orders, leadMinutes, now]
+  );
+
   // An order is relevant if it has at least one item that matches the category
   // and that item is not yet "picked_up" (still visible in kitchen)
-  const filteredOrders = useMemo(() => {
-    if (!selectedCategory) return orders;
-
-    return orders.filter((order) =>
-      order.order_items?.some((item) => {
-        const matchesCategory = item.item?.category_id === selectedCategory.id;
+  const inSelectedCategory = useCallback(
+    (order: Order) =>
+      !selectedCategory ||
+      !!order.order_items?.some((item) => {
+        const matchesCategory =
+          item.item?.category_id === selectedCategory.id && !isBundleLine(order, item);
         // Include items that are not picked_up or cancelled (done items should show in Ready column)
-        const isVisible = item.status !== "picked_up" && item.status !== "cancelled";
+        const isVisible =
+          item.status !== "picked_up" && item.status !== "cancelled" && !item.refunded_at;
         return matchesCategory && isVisible;
-      })
-    );
-  }, [orders, selectedCategory]);
+      }),
+    [selectedCategory]
+  );
+
+  // Filter orders that have items in the selected category
+  const filteredOrders = useMemo(
+    () => kitchenOrders.filter(inSelectedCategory),
+    [kitchenOrders, inSelectedCategory]
+  );
+  const filteredUpcomingOrders = useMemo(
+    () => upcomingOrders.filter(inSelectedCategory),
+    [upcomingOrders, inSelectedCategory]
+  );
 
   // Group orders by the aggregate status of items in the selected category
   // If no category selected, group by aggregate status of ALL items (not order status)
@@ -215,13 +217,19 @@ export default function KitchenPage() {
     };
 
     filteredOrders.forEach((order) => {
-      // Get items to consider - all items if no category, or just category items
+      // Get items to consider - all items if no category, or just category items.
+      // Voided and refunded lines are shown struck through but don't affect grouping.
       const relevantItems = selectedCategory
         ? order.order_items?.filter(
-            (item) => item.item?.category_id === selectedCategory.id
+            (item) =>
+              item.item?.category_id === selectedCategory.id &&
+              !isBundleLine(order, item) &&
+              item.status !== "cancelled" &&
+              !item.refunded_at
           ) || []
         : order.order_items?.filter(
-            (item) => item.status !== "picked_up" && item.status !== "cancelled"
+            (item) =>
+              item.status !== "picked_up" && item.status !== "cancelled" && !item.refunded_at
           ) || [];
 
       if (relevantItems.length === 0) return;
@@ -245,6 +253,11 @@ export default function KitchenPage() {
     return grouped;
   }, [filteredOrders, selectedCategory]);
 
+  const lowIngredients = useMemo(
+    () => ingredientLevels.filter((level) => level.is_low),
+    [ingredientLevels]
+  );
+
   // Count items for each status (used in column headers)
   const statusCounts = useMemo(() => {
     return {
@@ -312,7 +325,8 @@ export default function KitchenPage() {
               Kitchen Display
             </h1>
             <p className="text-xs text-on-surface-variant sm:text-sm">
-              {filteredOrders.length} active order{filteredOrders.length !== 1 ? "s" : ""} • Live
+              {filteredOrders.length} active order{filteredOrders.length !== 1 ? "s" : ""} •{" "}
+              {isLive ? "Live" : "Reconnecting..."}
             </p>
           </div>
         </div>
@@ -337,6 +351,7 @@ export default function KitchenPage() {
               />
             </svg>
           </button>
+          <StaffSwitcher autoLockMinutes={10} />
           <ThemeToggle />
           <CampaignSelector
             campaigns={campaigns}
@@ -346,6 +361,21 @@ export default function KitchenPage() {
         </div>
       </header>
 
+      {/* Low ingredient warning */}
+      {lowIngredients.length > 0 && (
+        <div className="flex items-center gap-2 overflow-x-auto border-b border-error bg-surface-container-low px-4 py-2">
+          <span className="shrink-0 text-sm font-medium text-error">Running low:</span>
+          {lowIngredients.map((level) => (
+            <span
+              key={level.ingredient_id}
+              className="shrink-0 rounded-full border border-error px-3 py-0.5 text-sm text-error"
+            >
+              {level.name} · {Math.max(level.remaining, 0)} {level.unit} left
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Category Tabs */}
       <div className="border-b border-outline-variant bg-surface-container-low">
         <div className="flex items-center gap-2 overflow-x-auto px-4 py-3">
@@ -379,6 +409,33 @@ export default function KitchenPage() {
 
       {/* Main Content - Order Columns by Item Status */}
       <main className="flex flex-1 gap-4 overflow-x-auto p-4">
+        {/* Scheduled Column - only while there are orders waiting to fire */}
+        {filteredUpcomingOrders.length > 0 && (
+          <div className="flex min-w-[300px] flex-1 flex-col rounded-xl bg-surface-container sm:min-w-[320px]">
+            <div className="flex items-center justify-between border-b border-outline-variant px-4 py-3">
+              <h2 className="font-semibold text-on-surface">Scheduled</h2>
+              <span className="rounded-full bg-surface-container-highest px-2.5 py-0.5 text-sm font-medium text-on-surface">
+                {filteredUpcomingOrders.length}
+              </span>
+            </div>
+            <div className="flex-1 space-y-3 overflow-y-auto p-3">
+              {filteredUpcomingOrders.map((order) => (
+                <div key={order.id} className="opacity-75">
+                  <p className="mb-1 text-xs text-on-surface-variant">
+                    Starts at{" "}
+                    {fireTime(order, leadMinutes)?.toLocaleTimeString("en-US", {
+                      hour: "numeric",
+                      minute: "2-digit",
+                      hour12: true,
+                    })}
+                  </p>
+                  <KitchenOrderCard order={order} filterCategoryId={selectedCategory?.id} />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* New Items Column */}
         <div className="flex min-w-[300px] flex-1 flex-col rounded-xl bg-tertiary-container/30 sm:min-w-[320px]">
           <div className="flex items-center justify-between border-b border-tertiary/20 px-4 py-3">
@@ -1,8 +1,11 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import localFont from "next/font/local";
 import "./globals.css";
 import { ThemeProvider } from "./providers/ThemeProvider";
 import { AuthProvider } from "./providers/AuthProvider";
+import { OrderStoreProvider } from "./providers/OrderStoreProvider";
+import UpdatePrompt from "./components/UpdatePrompt";
+import { APP_NAME, BRAND_COLOR } from "./lib/appIcon";
 
 const programme = localFont({
   src: [
@@ -18,8 +21,18 @@ const programme = localFont({
 });
 
 export const metadata: Metadata = {
-  title: "Kitchen POS",
+  title: APP_NAME,
   description: "Point of Sale for Kitchen Operations",
+  // Installed on a tablet's home screen, open full screen like an app
+  appleWebApp: {
+    capable: true,
+    title: APP_NAME,
+    statusBarStyle: "default",
+  },
+};
+
+export const viewport: Viewport = {
+  themeColor: BRAND_COLOR,
 };
 
 export default function RootLayout({
@@ -47,7 +60,12 @@ export default function RootLayout({
       </head>
       <body className={`${programme.variable} font-sans antialiased`}>
         <AuthProvider>
-          <ThemeProvider>{children}</ThemeProvider>
+          <OrderStoreProvider>
+            <ThemeProvider>
+              {children}
+              <UpdatePrompt />
+            </ThemeProvider>
+          </OrderStoreProvider>
         </AuthProvider>
       </body>
     </html>
@@ -0,0 +1,37 @@
+import { ImageResponse } from "next/og";
+
+// The app's icon, drawn at build time: the first letter of the organisation's
+// name on the brand green. It fills the whole square, so it also works as a
+// maskable icon that launchers crop to their own shape.
+
+export const APP_NAME = `${process.env.NEXT_PUBLIC_ORG_NAME || "Kitchen"} POS`;
+export const BRAND_COLOR = "#7CB474"; // --md-primary
+export const BACKGROUND_COLOR = "#FDFCF9"; // --md-surface
+
+/**
+ * Render the app icon as a square PNG
+ */
+export function renderAppIcon(size: number): ImageResponse {
+  const initial = APP_NAME.charAt(0).toUpperCase();
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          background: BRAND_COLOR,
+          color: "#FFFFFF",
+          fontSize: size * 0.5,
+          fontWeight: 700,
+        }}
+      >
+        {initial}
+      </div>
+    ),
+    { width: size, height: size }
+  );
+}
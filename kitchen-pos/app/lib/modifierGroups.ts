@@ -0,0 +1,115 @@
+import type { Modifier, ModifierGroup } from "@/app/types";
+
+// Client-side modifier selection rules. Mirrors validate_modifier_selection in
+// the database, which rejects orders and line edits that break them.
+
+export interface ModifierSection {
+  group: ModifierGroup | null; // null = ungrouped modifiers
+  modifiers: Modifier[];
+}
+
+/**
+ * Split an item's modifiers into their groups, in display order.
+ * Ungrouped modifiers (and ones in inactive groups) come last.
+ */
+export function groupModifiers(modifiers: Modifier[], groups: ModifierGroup[]): ModifierSection[] {
+  const sections: ModifierSection[] = [...groups]
+    .sort((a, b) => a.display_order - b.display_order)
+    .map((group) => ({
+      group,
+      modifiers: modifiers.filter((m) => m.group_id === group.id),
+    }))
+    .filter((section) => section.modifiers.length > 0);
+
+  const groupIds = new Set(groups.map((group) => group.id));
+  const ungrouped = modifiers.filter((m) => m.group_id === null || !groupIds.has(m.group_id));
+  if (ungrouped.length > 0) {
+    sections.push({ group: null, modifiers: ungrouped });
+  }
+  return sections;
+}
+
+/**
+ * Fewest choices the item needs from a group. A group can't require more
+ * than the item offers from it.
+ */
+function minimumFor(section: ModifierSection): number {
+  return Math.min(section.group?.min_select ?? 0, section.modifiers.length);
+}
+
+/**
+ * Short description of a group's rule, e.g. "Choose 1" or "Up to 3"
+ */
+export function selectionRuleLabel(group: ModifierGroup): string {
+  const { min_select: min, max_select: max } = group;
+  if (min > 0 && max === min) return `Choose ${min}`;
+  if (min > 0 && max !== null) return `Choose ${min}-${max}`;
+  if (min > 0) return min === 1 ? "Required" : `Choose at least ${min}`;
+  if (max !== null) return `Up to ${max}`;
+  return "Optional";
+}
+
+/**
+ * Returns a message if the selection breaks a group's rules, or null if it is valid
+ */
+export function findSelectionProblem(
+  modifiers: Modifier[],
+  groups: ModifierGroup[],
+  selectedIds: number[]
+): string | null {
+  for (const section of groupModifiers(modifiers, groups)) {
+    if (!section.group) continue;
+    const { name, max_select: max } = section.group;
+    const selected = section.modifiers.filter((m) => selectedIds.includes(m.id)).length;
+    const min = minimumFor(section);
+
+    if (selected < min) {
+      return max === min ? `Choose ${min} ${name}` : `Choose at least ${min} ${name}`;
+    }
+    if (max !== null && selected > max) {
+      return `Choose at most ${max} ${name}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * The modifiers to preselect for an item: its defaults, within each group's limit
+ */
+export function defaultSelection(modifiers: Modifier[], groups: ModifierGroup[]): Modifier[] {
+  return groupModifiers(modifiers, groups).flatMap((section) => {
+    const defaults = section.modifiers.filter((m) => m.is_default);
+    const max = section.group?.max_select;
+    return max === null || max === undefined ? defaults : defaults.slice(0, max);
+  });
+}
+
+/**
+ * Select or deselect a modifier. In a pick-one group the new choice replaces
+ * the old one; in a group that is already full the selection is unchanged.
+ */
+export function toggleModifierSelection(
+  selectedIds: number[],
+  modifier: Modifier,
+  modifiers: Modifier[],
+  groups: ModifierGroup[]
+): number[] {
+  if (selectedIds.includes(modifier.id)) {
+    return selectedIds.filter((id) => id !== modifier.id);
+  }
+
+  const group = groups.find((g) => g.id === modifier.group_id);
+  if (!group || group.max_select === null) {
+    return [...selectedIds, modifier.id];
+  }
+
+  const groupIds = modifiers.filter((m) => m.group_id === group.id).map((m) => m.id);
+  const selectedInGroup = selectedIds.filter((id) => groupIds.includes(id));
+  if (group.max_select === 1) {
+    return [...selectedIds.filter((id) => !groupIds.includes(id)), modifier.id];
+  }
+  if (selectedInGroup.length >= group.max_select) {
+    return selectedIds;
+  }
+  return [...selectedIds, modifier.id];
+}
@@ -0,0 +1,87 @@
+import type { Modifier, ModifierGroup, ModifierSelection } from "@/app/types";
+import { toggleModifierSelection } from "./modifierGroups";
+
+// Modifier quantities and options. An option is a modifier nested one level
+// under another ("Add cream cheese" -> "Scallion") and can only be chosen with
+// it. Mirrors write_order_item_modifiers in the database, where each modifier's
+// price_delta counts once per quantity.
+
+export interface NestedModifier<T> {
+  modifier: T;
+  options: T[];
+}
+
+/**
+ * Top-level modifiers, each with the options chosen under it. Works on cart
+ * modifiers (parent_id is a modifier id) and on order line modifiers
+ * (parent_id is the parent row's id).
+ */
+export function nestModifiers<T extends { id: number; parent_id: number | null }>(
+  modifiers: T[]
+): NestedModifier<T>[] {
+  const ids = new Set(modifiers.map((m) => m.id));
+  return modifiers
+    .filter((m) => m.parent_id === null || !ids.has(m.parent_id))
+    .map((modifier) => ({
+      modifier,
+      options: modifiers.filter((m) => m.parent_id === modifier.id),
+    }));
+}
+
+/**
+ * A modifier's name with its quantity, e.g. "2× Extra Shot"
+ */
+export function quantityLabel(name: string, quantity: number): string {
+  return quantity > 1 ? `${quantity}× ${name}` : name;
+}
+
+/**
+ * One line per top-level modifier, e.g. "2× Add cream cheese → Scallion, Chive"
+ */
+export function describeModifiers<T extends { id: number; parent_id: number | null; quantity: number }>(
+  modifiers: T[],
+  nameOf: (modifier: T) => string
+): string[] {
+  return nestModifiers(modifiers).map(({ modifier, options }) => {
+    const label = quantityLabel(nameOf(modifier), modifier.quantity);
+    if (options.length === 0) return label;
+    return `${label} → ${options.map((o) => quantityLabel(nameOf(o), o.quantity)).join(", ")}`;
+  });
+}
+
+/**
+ * What a set of modifiers adds to one unit of a line
+ */
+export function modifiersTotal(modifiers: { price_delta: number; quantity: number }[]): number {
+  return modifiers.reduce((sum, mod) => sum + mod.price_delta * mod.quantity, 0);
+}
+
+/**
+ * Select or deselect a modifier, keeping the quantities of what stays selected.
+ * Top-level modifiers follow their group's rules; deselecting one drops the
+ * options chosen under it.
+ */
+export function toggleModifierWithOptions(
+  selection: ModifierSelection[],
+  modifier: Modifier,
+  modifiers: Modifier[],
+  groups: ModifierGroup[]
+): ModifierSelection[] {
+  const selectedIds = selection.map((s) => s.modifier_id);
+  let nextIds: number[];
+  if (modifier.parent_id !== null) {
+    nextIds = selectedIds.includes(modifier.id)
+      ? selectedIds.filter((id) => id !== modifier.id)
+      : [...selectedIds, modifier.id];
+  } else {
+    const topLevel = modifiers.filter((m) => m.parent_id === null);
+    nextIds = toggleModifierSelection(selectedIds, modifier, topLevel, groups);
+  }
+
+  return nextIds
+    .filter((id) => {
+      const parentId = modifiers.find((m) => m.id === id)?.parent_id ?? null;
+      return parentId === null || nextIds.includes(parentId);
+    })
+    .map((id) => selection.find((s) => s.modifier_id === id) ?? { modifier_id: id, quantity: 1 });
+}
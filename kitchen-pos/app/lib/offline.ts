@@ -0,0 +1,164 @@
+import type { Order, PendingOrder } from "@/app/types";
+import { createOrder, PlaceOrderError } from "./supabase";
+import type { CreateOrderInput } from "./supabase";
+
+// The terminal keeps working when the network drops. The menu it last loaded
+// is kept in IndexedDB, and orders it couldn't send wait in a queue there
+// until they can be. Every order carries a client key, so sending one again
+// after a lost response never places it twice.
+
+const DB_NAME = "kitchen-pos";
+const DB_VERSION = 1;
+const MENU_STORE = "menu_cache";
+const ORDER_STORE = "pending_orders";
+
+// A queued order with what it takes to send it
+interface QueuedOrder extends PendingOrder {
+  input: CreateOrderInput;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MENU_STORE)) {
+        db.createObjectStore(MENU_STORE);
+      }
+      if (!db.objectStoreNames.contains(ORDER_STORE)) {
+        db.createObjectStore(ORDER_STORE, { keyPath: "client_key" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run one request against a store and resolve once its transaction commits
+ */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = run(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// ============ Menu Cache ============
+
+/**
+ * Keep a copy of menu data for when the terminal is offline
+ */
+export async function cacheMenuData<T>(key: string, data: T): Promise<void> {
+  await withStore(MENU_STORE, "readwrite", (store) => store.put(data, key));
+}
+
+/**
+ * The menu data last cached under a key, or null
+ */
+export async function getCachedMenuData<T>(key: string): Promise<T | null> {
+  const data = await withStore<T | undefined>(MENU_STORE, "readonly", (store) => store.get(key));
+  return data ?? null;
+}
+
+// ============ Order Queue ============
+
+/**
+ * Whether sending an order failed because the server couldn't be reached,
+ * rather than because it answered with an error. Only those are queued.
+ */
+export function isOfflineError(err: unknown): boolean {
+  return (
+    (err instanceof PlaceOrderError && err.code === "offline") ||
+    // fetch rejects with a TypeError when the request can't be made
+    err instanceof TypeError ||
+    (typeof navigator !== "undefined" && !navigator.onLine)
+  );
+}
+
+/**
+ * Put an order in the queue to be sent later
+ * The input should say who took it (taken_by), since whoever is signed in
+ * when it is sent may be someone else.
+ */
+export async function queueOrder(input: CreateOrderInput, total: number): Promise<PendingOrder> {
+  const queued: QueuedOrder = {
+    client_key: input.client_key,
+    customer_name: input.customer_name,
+    item_count: input.items.reduce((sum, item) => sum + item.quantity, 0),
+    total,
+    queued_at: new Date().toISOString(),
+    error: null,
+    input,
+  };
+  await withStore(ORDER_STORE, "readwrite", (store) => store.put(queued));
+  return queued;
+}
+
+/**
+ * Orders waiting in the queue, oldest first
+ */
+export async function getPendingOrders(): Promise<PendingOrder[]> {
+  const queued = await withStore<QueuedOrder[]>(ORDER_STORE, "readonly", (store) => store.getAll());
+  return queued.sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+}
+
+/**
+ * Drop an order from the queue without sending it
+ */
+export async function discardPendingOrder(clientKey: string): Promise<void> {
+  await withStore(ORDER_STORE, "readwrite", (store) => store.delete(clientKey));
+}
+
+let sending: Promise<Order[]> | null = null;
+
+/**
+ * Send queued orders in the order they were taken
+ * Stops at the first one that can't reach the server, to try again later.
+ * One the server rejects, for whatever reason, stays in the queue marked with
+ * the reason for staff to deal with, and the rest carry on. Returns the
+ * orders placed.
+ */
+export function sendPendingOrders(): Promise<Order[]> {
+  // Online events, timers and new orders can all ask at once; send once
+  if (!sending) {
+    sending = sendQueue().finally(() => {
+      sending = null;
+    });
+  }
+  return sending;
+}
+
+async function sendQueue(): Promise<Order[]> {
+  const placed: Order[] = [];
+  const queued = (await getPendingOrders()) as QueuedOrder[];
+
+  for (const order of queued) {
+    if (order.error) continue;
+
+    try {
+      placed.push(await createOrder(order.input));
+      await discardPendingOrder(order.client_key);
+    } catch (err) {
+      // Still offline
+      if (isOfflineError(err)) break;
+
+      const error = err instanceof PlaceOrderError ? err.message : "Failed to place order.";
+      await withStore(ORDER_STORE, "readwrite", (store) => store.put({ ...order, error }));
+    }
+  }
+
+  return placed;
+}
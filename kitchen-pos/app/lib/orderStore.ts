@@ -0,0 +1,277 @@
+import type {
+  Item,
+  Order,
+  OrderItem,
+  OrderItemModifier,
+  OrderItemStatus,
+  OrderStatus,
+} from "@/app/types";
+import type { OrderRowChange } from "./supabase";
+
+// Orders as the terminal and kitchen hold them: orders, their lines and the
+// lines' modifiers, each kept once by id. Fetched orders are split up into
+// the store, changed rows from the realtime feed are applied to it as they
+// arrive, and the selectors put orders back together for display.
+//
+// Everything here is pure; OrderStoreProvider holds the state.
+
+export interface OrderStoreState {
+  orders: Record<number, Order>; // Without order_items; other joins are kept
+  orderItems: Record<number, OrderItem>; // Without modifiers
+  modifiers: Record<number, OrderItemModifier>;
+}
+
+export const emptyOrderStore: OrderStoreState = { orders: {}, orderItems: {}, modifiers: {} };
+
+const KITCHEN_STATUSES: OrderStatus[] = ["new", "in_progress", "ready"];
+
+const byId = (a: { id: number }, b: { id: number }) => a.id - b.id;
+
+const byCreatedAt = (a: Order, b: Order) =>
+  new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+
+// Copy of a record without some keys
+function omitIds<T>(record: Record<number, T>, ids: Set<number>): Record<number, T> {
+  return Object.fromEntries(Object.entries(record).filter(([id]) => !ids.has(Number(id))));
+}
+
+// ============ Updates ============
+
+/**
+ * Put fetched orders in the store in place of the copies held, along with
+ * their lines and modifiers. Lines and modifiers no longer on them go.
+ */
+export function storeOrders(state: OrderStoreState, fetched: Order[]): OrderStoreState {
+  if (fetched.length === 0) return state;
+
+  const fetchedIds = new Set(fetched.map((order) => order.id));
+  const staleLineIds = new Set(
+    Object.values(state.orderItems)
+      .filter((line) => fetchedIds.has(line.order_id))
+      .map((line) => line.id)
+  );
+  const staleModifierIds = new Set(
+    Object.values(state.modifiers)
+      .filter((mod) => staleLineIds.has(mod.order_item_id))
+      .map((mod) => mod.id)
+  );
+
+  const orders = { ...state.orders };
+  const orderItems = omitIds(state.orderItems, staleLineIds);
+  const modifiers = omitIds(state.modifiers, staleModifierIds);
+
+  for (const { order_items: lines, ...order } of fetched) {
+    orders[order.id] = order;
+    for (const { modifiers: lineModifiers, ...line } of lines ?? []) {
+      orderItems[line.id] = line;
+      for (const mod of lineModifiers ?? []) {
+        modifiers[mod.id] = mod;
+      }
+    }
+  }
+
+  return { orders, orderItems, modifiers };
+}
+
+/**
+ * Apply one realtime change. A new line gets its menu item from
+ * `menuItems`, since the changed row doesn't carry it.
+ */
+export function applyOrderChange(
+  state: OrderStoreState,
+  change: OrderRowChange,
+  menuItems: Map<number, Item>
+): OrderStoreState {
+  if (change.eventType === "DELETE") {
+    switch (change.table) {
+      case "orders":
+        return { ...state, orders: omitIds(state.orders, new Set([change.id])) };
+      case "order_items":
+        return { ...state, orderItems: omitIds(state.orderItems, new Set([change.id])) };
+      case "order_item_modifiers":
+        return { ...state, modifiers: omitIds(state.modifiers, new Set([change.id])) };
+    }
+  }
+
+  switch (change.table) {
+    case "orders": {
+      const held = state.orders[change.row.id];
+      // Updates for orders not held are fetched whole; see needsFullOrder
+      if (!held && change.eventType === "UPDATE") return state;
+      // The row has no joined fields, so those held are kept
+      return { ...state, orders: { ...state.orders, [change.row.id]: { ...held, ...change.row } } };
+    }
+
+    case "order_items": {
+      const { row } = change;
+      // Lines of orders not held would have nothing to show under
+      if (!state.orders[row.order_id]) return state;
+      const held = state.orderItems[row.id];
+      const item =
+        held?.item ??
+        menuItems.get(row.item_id) ??
+        Object.values(state.orderItems).find((line) => line.item_id === row.item_id)?.item;
+      return { ...state, orderItems: { ...state.orderItems, [row.id]: { ...held, ...row, item } } };
+    }
+
+    case "order_item_modifiers": {
+      const { row } = change;
+      if (!state.orderItems[row.order_item_id]) return state;
+      return { ...state, modifiers: { ...state.modifiers, [row.id]: row } };
+    }
+  }
+}
+
+/**
+ * Whether a change can't be applied as a patch and needs its order fetched
+ * whole: an order not held that is back in the kitchen, or a payment taken
+ * on an order held, whose payments the changed row doesn't carry
+ */
+export function needsFullOrder(state: OrderStoreState, change: OrderRowChange): boolean {
+  if (change.table !== "orders" || change.eventType !== "UPDATE") return false;
+  const held = state.orders[change.row.id];
+  if (!held) return KITCHEN_STATUSES.includes(change.row.status);
+  return held.payment_status !== change.row.payment_status;
+}
+
+/**
+ * Set the status of some lines ahead of the server, for optimistic updates
+ */
+export function setOrderItemStatuses(
+  state: OrderStoreState,
+  orderItemIds: number[],
+  status: OrderItemStatus
+): OrderStoreState {
+  const orderItems = { ...state.orderItems };
+  for (const id of orderItemIds) {
+    if (orderItems[id]) orderItems[id] = { ...orderItems[id], status };
+  }
+  return { ...state, orderItems };
+}
+
+/**
+ * Set the status of an order ahead of the server, for optimistic updates
+ */
+export function setOrderStatus(
+  state: OrderStoreState,
+  orderId: number,
+  status: OrderStatus
+): OrderStoreState {
+  const held = state.orders[orderId];
+  if (!held) return state;
+  return { ...state, orders: { ...state.orders, [orderId]: { ...held, status } } };
+}
+
+// ============ Selectors ============
+
+// Lines by order and modifiers by line, worked out once per state
+const linesByOrderCache = new WeakMap<Record<number, OrderItem>, Map<number, OrderItem[]>>();
+const modifiersByLineCache = new WeakMap<
+  Record<number, OrderItemModifier>,
+  Map<number, OrderItemModifier[]>
+>();
+
+function groupBy<T extends { id: number }>(rows: T[], key: (row: T) => number): Map<number, T[]> {
+  const groups = new Map<number, T[]>();
+  for (const row of [...rows].sort(byId)) {
+    const group = groups.get(key(row));
+    if (group) group.push(row);
+    else groups.set(key(row), [row]);
+  }
+  return groups;
+}
+
+function linesByOrder(state: OrderStoreState): Map<number, OrderItem[]> {
+  let lines = linesByOrderCache.get(state.orderItems);
+  if (!lines) {
+    lines = groupBy(Object.values(state.orderItems), (line) => line.order_id);
+    linesByOrderCache.set(state.orderItems, lines);
+  }
+  return lines;
+}
+
+function modifiersByLine(state: OrderStoreState): Map<number, OrderItemModifier[]> {
+  let modifiers = modifiersByLineCache.get(state.modifiers);
+  if (!modifiers) {
+    modifiers = groupBy(Object.values(state.modifiers), (mod) => mod.order_item_id);
+    modifiersByLineCache.set(state.modifiers, modifiers);
+  }
+  return modifiers;
+}
+
+// An order with its lines and their modifiers, as the queries return it
+function assemble(state: OrderStoreState, order: Order): Order {
+  const modifiers = modifiersByLine(state);
+  return {
+    ...order,
+    order_items: (linesByOrder(state).get(order.id) ?? []).map((line) => ({
+      ...line,
+      modifiers: modifiers.get(line.id) ?? [],
+    })),
+  };
+}
+
+/**
+ * One order with its lines and modifiers, or null if it isn't held
+ */
+export function selectOrder(state: OrderStoreState, orderId: number): Order | null {
+  const order = state.orders[orderId];
+  return order ? assemble(state, order) : null;
+}
+
+/**
+ * A campaign's orders that match, oldest first
+ */
+export function selectCampaignOrders(
+  state: OrderStoreState,
+  campaignId: number,
+  matches: (order: Order) => boolean = () => true
+): Order[] {
+  return Object.values(state.orders)
+    .filter((order) => order.campaign_id === campaignId && matches(order))
+    .sort(byCreatedAt)
+    .map((order) => assemble(state, order));
+}
+
+/**
+ * The orders on the kitchen display (new, in_progress, ready), oldest first,
+ * with scheduled ones that haven't fired yet
+ */
+export function selectKitchenOrders(state: OrderStoreState, campaignId: number): Order[] {
+  return selectCampaignOrders(state, campaignId, (order) => KITCHEN_STATUSES.includes(order.status));
+}
+
+/**
+ * Orders waiting for pickup, oldest first
+ */
+export function selectReadyOrders(state: OrderStoreState, campaignId: number): Order[] {
+  return selectCampaignOrders(state, campaignId, (order) => order.status === "ready");
+}
+
+/**
+ * All the campaign's orders held, newest first
+ */
+export function selectRecentOrders(state: OrderStoreState, campaignId: number): Order[] {
+  return selectCampaignOrders(state, campaignId).reverse();
+}
+
+// The later of two timestamps
+function later(a: string | null, b: string): string {
+  if (!a) return b;
+  return new Date(b).getTime() > new Date(a).getTime() ? b : a;
+}
+
+/**
+ * The latest change held for a campaign's orders and lines. Anything changed
+ * after it may be missing, so it's where catching up starts.
+ */
+export function selectWatermark(state: OrderStoreState, campaignId: number): string | null {
+  let watermark: string | null = null;
+  for (const order of Object.values(state.orders)) {
+    if (order.campaign_id === campaignId) watermark = later(watermark, order.updated_at);
+  }
+  for (const line of Object.values(state.orderItems)) {
+    if (line.campaign_id === campaignId) watermark = later(watermark, line.updated_at);
+  }
+  return watermark;
+}
@@ -0,0 +1,27 @@
+import type { StaffRole } from "@/app/types";
+
+// What each staff role may do. Mirrors the RLS policies in the staff roles
+// migration, which are what actually enforce it; the UI uses this to hide
+// actions a role can't take.
+
+export type Permission =
+  | "take_orders" // Place orders, take payments, void unstarted lines
+  | "refund" // Refund paid lines and orders
+  | "manage_menu" // Items, modifiers, sizes, bundles, categories and campaign menus
+  | "manage_campaigns" // Create campaigns, change tax rates, lead times and active state
+  | "manage_stock"; // Stock counts, ingredients and recipes
+
+const ROLE_PERMISSIONS: Record<StaffRole, Permission[]> = {
+  cashier: ["take_orders"],
+  kitchen: [],
+  manager: ["take_orders", "refund", "manage_menu", "manage_campaigns", "manage_stock"],
+  // Admins can also assign roles, which is done in the database
+  admin: ["take_orders", "refund", "manage_menu", "manage_campaigns", "manage_stock"],
+};
+
+/**
+ * Whether a role may do something. Accounts without a role may do nothing.
+ */
+export function hasPermission(role: StaffRole | null, permission: Permission): boolean {
+  return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+}
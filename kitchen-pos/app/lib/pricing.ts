@@ -0,0 +1,190 @@
+import type {
+  Campaign,
+  CampaignItem,
+  CampaignModifierPrice,
+  CartDiscount,
+  CartItem,
+  Item,
+  ItemVariant,
+  Modifier,
+  Order,
+} from "@/app/types";
+import { modifiersTotal } from "./modifierOptions";
+
+// Client-side preview of order totals. Mirrors compute_order_totals in the
+// database, which remains the source of truth once the order is placed.
+
+export interface CartTotals {
+  subtotal: number;
+  discountTotal: number;
+  tax: number;
+  tip: number;
+  total: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Campaign price overrides keyed by item and modifier id
+export interface CampaignPricing {
+  itemPrices: Map<number, number>;
+  modifierPrices: Map<number, number>;
+}
+
+/**
+ * Collect a campaign's price overrides for lookup
+ */
+export function buildCampaignPricing(
+  menu: CampaignItem[],
+  modifierPrices: CampaignModifierPrice[]
+): CampaignPricing {
+  return {
+    itemPrices: new Map(
+      menu
+        .filter((ci) => ci.price_override !== null)
+        .map((ci) => [ci.item_id, ci.price_override as number])
+    ),
+    modifierPrices: new Map(modifierPrices.map((cmp) => [cmp.modifier_id, cmp.price_delta])),
+  };
+}
+
+/**
+ * The item as sold under the campaign: base_price is replaced by any override.
+ * Mirrors campaign_item_price in the database.
+ */
+export function priceItem(item: Item, pricing: CampaignPricing): Item {
+  const override = pricing.itemPrices.get(item.id);
+  return override === undefined ? item : { ...item, base_price: override };
+}
+
+/**
+ * The size as sold under the campaign. An item price override moves every
+ * size by the same amount. Mirrors campaign_variant_price in the database.
+ */
+export function priceVariant(variant: ItemVariant, item: Item, pricing: CampaignPricing): ItemVariant {
+  const override = pricing.itemPrices.get(item.id);
+  return override === undefined
+    ? variant
+    : { ...variant, price: round2(variant.price + override - item.base_price) };
+}
+
+/**
+ * The modifier as sold under the campaign: price_delta is replaced by any override.
+ * Mirrors campaign_modifier_price in the database.
+ */
+export function priceModifier(modifier: Modifier, pricing: CampaignPricing): Modifier {
+  const override = pricing.modifierPrices.get(modifier.id);
+  return override === undefined ? modifier : { ...modifier, price_delta: override };
+}
+
+/**
+ * Dollar amount a discount takes off a base amount (never more than the base)
+ */
+export function discountAmount(discount: CartDiscount | null | undefined, base: number): number {
+  if (!discount || base <= 0) return 0;
+  if (discount.kind === "percent") {
+    return round2((base * discount.value) / 100);
+  }
+  return Math.min(discount.value, base);
+}
+
+/**
+ * Tax rate for an item: exempt items are 0, then category override, then campaign
+ */
+export function itemTaxRate(item: Item, campaign: Campaign | null): number {
+  if (item.is_tax_exempt) return 0;
+  return item.category?.tax_rate ?? campaign?.tax_rate ?? 0;
+}
+
+/**
+ * Upcharges for the items chosen in a bundle's slots
+ */
+function componentsTotal(cartItem: CartItem): number {
+  return (cartItem.components ?? []).reduce((sum, c) => sum + c.price_delta, 0) * cartItem.quantity;
+}
+
+/**
+ * Price of a cart line before discounts, including any bundle upcharges
+ */
+export function cartLineTotal(cartItem: CartItem): number {
+  const unitPrice = cartItem.variant?.price ?? cartItem.item.base_price;
+  return (unitPrice + modifiersTotal(cartItem.modifiers)) * cartItem.quantity + componentsTotal(cartItem);
+}
+
+/**
+ * A cart line's discount. It comes off the line itself, not its bundle upcharges.
+ */
+export function cartLineDiscount(cartItem: CartItem): number {
+  return discountAmount(cartItem.discount, cartLineTotal(cartItem) - componentsTotal(cartItem));
+}
+
+/**
+ * Subtotal, discounts, tax, tip and total for a cart.
+ * The order discount is taken off after line discounts, and tax is charged on
+ * what remains, spread across lines in proportion to their net price.
+ */
+export function calculateCartTotals(
+  cart: CartItem[],
+  campaign: Campaign | null,
+  orderDiscount: CartDiscount | null,
+  tip: number
+): CartTotals {
+  const lines = cart.flatMap((cartItem) => {
+    // A bundle's components are lines of their own, taxed at their own rate.
+    // A line discount only applies to the bundle line.
+    const components = (cartItem.components ?? []).map((component) => {
+      const gross = component.price_delta * cartItem.quantity;
+      return { gross, lineDiscount: 0, net: gross, taxRate: itemTaxRate(component.item, campaign) };
+    });
+    const gross = cartLineTotal(cartItem) - componentsTotal(cartItem);
+    const lineDiscount = cartLineDiscount(cartItem);
+    return [
+      {
+        gross,
+        lineDiscount,
+        net: gross - lineDiscount,
+        taxRate: itemTaxRate(cartItem.item, campaign),
+      },
+      ...components,
+    ];
+  });
+
+  const subtotal = lines.reduce((sum, line) => sum + line.gross, 0);
+  const lineDiscounts = lines.reduce((sum, line) => sum + line.lineDiscount, 0);
+  const net = lines.reduce((sum, line) => sum + line.net, 0);
+  const orderDiscountAmount = discountAmount(orderDiscount, net);
+  const orderShare = net > 0 ? orderDiscountAmount / net : 0;
+
+  const tax = round2(
+    lines.reduce((sum, line) => sum + line.net * (1 - orderShare) * line.taxRate, 0)
+  );
+  const discountTotal = round2(lineDiscounts + orderDiscountAmount);
+  const safeTip = Math.max(tip, 0);
+
+  return {
+    subtotal: round2(subtotal),
+    discountTotal,
+    tax,
+    tip: safeTip,
+    total: round2(subtotal - discountTotal + tax + safeTip),
+  };
+}
+
+/**
+ * The totals where a placed order and the cart preview disagree, e.g.
+ * ["tax", "total"]. Empty when they match to the cent.
+ */
+export function totalsMismatch(
+  order: Pick<Order, "subtotal" | "discount_total" | "tax" | "tip" | "total">,
+  totals: CartTotals
+): string[] {
+  const pairs: [string, number, number][] = [
+    ["subtotal", order.subtotal, totals.subtotal],
+    ["discount", order.discount_total, totals.discountTotal],
+    ["tax", order.tax, totals.tax],
+    ["tip", order.tip, totals.tip],
+    ["total", order.total, totals.total],
+  ];
+  return pairs
+    .filter(([, placed, preview]) => Math.abs(Number(placed) - preview) >= 0.005)
+    .map(([name]) => name);
+}
@@ -0,0 +1,37 @@
+import type { Order } from "@/app/types";
+
+// Scheduled orders are taken now and picked up later. They reach the kitchen a
+// campaign's fire_lead_minutes before pickup; until then they wait under
+// "Scheduled" on the kitchen display.
+
+/**
+ * When a scheduled order is due in the kitchen, or null for orders made right away
+ */
+export function fireTime(order: Pick<Order, "scheduled_for">, leadMinutes: number): Date | null {
+  if (!order.scheduled_for) return null;
+  return new Date(new Date(order.scheduled_for).getTime() - leadMinutes * 60000);
+}
+
+/**
+ * Whether the kitchen should be making the order by `now`
+ */
+export function isOrderFired(
+  order: Pick<Order, "scheduled_for">,
+  leadMinutes: number,
+  now: number
+): boolean {
+  const fireAt = fireTime(order, leadMinutes);
+  return fireAt === null || fireAt.getTime() <= now;
+}
+
+/**
+ * A pickup time for display, e.g. "Fri 3:30 PM"
+ */
+export function formatPickupTime(scheduledFor: string): string {
+  return new Date(scheduledFor).toLocaleString("en-US", {
+    weekday: "short",
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+  });
+}
@@ -0,0 +1,147 @@
+import { supabase } from "./client";
+import type { Order, PaymentMethod } from "@/app/types";
+import type { PostgrestError } from "@supabase/supabase-js";
+
+// Voids and refunds never delete anything: the database marks the lines,
+// recalculates totals, returns any overpayment as a negative payment and
+// records the change in order_adjustments.
+
+// ============ Errors ============
+
+export type AdjustmentErrorCode =
+  | "reason_required"
+  | "order_not_found"
+  | "order_item_not_found"
+  | "already_adjusted"
+  | "already_prepared"
+  | "not_paid"
+  | "invalid_payment"
+  | "not_allowed"
+  | "unknown";
+
+const ADJUSTMENT_ERROR_CODES: AdjustmentErrorCode[] = [
+  "reason_required",
+  "order_not_found",
+  "order_item_not_found",
+  "already_adjusted",
+  "already_prepared",
+  "not_paid",
+  "invalid_payment",
+  "not_allowed",
+];
+
+/**
+ * Error thrown when a void or refund is rejected.
+ * `code` identifies the reason; `message` is safe to show to staff.
+ */
+export class AdjustmentError extends Error {
+  code: AdjustmentErrorCode;
+
+  constructor(code: AdjustmentErrorCode, message: string) {
+    super(message);
+    this.name = "AdjustmentError";
+    this.code = code;
+  }
+}
+
+function toAdjustmentError(error: PostgrestError): AdjustmentError {
+  const code = ADJUSTMENT_ERROR_CODES.find((c) => c === error.message) ?? "unknown";
+  const message =
+    code === "unknown"
+      ? "Failed to update the order. Please try again."
+      : error.details || error.message;
+  return new AdjustmentError(code, message);
+}
+
+// ============ Voids ============
+
+/**
+ * Void a line the kitchen has not started yet
+ * Any payment beyond the new total is refunded (by default to the last tender used)
+ */
+export async function voidOrderItem(
+  orderItemId: number,
+  reason: string,
+  refundMethod?: PaymentMethod
+): Promise<Order> {
+  const { data, error } = await supabase.rpc("void_order_item", {
+    p_order_item_id: orderItemId,
+    p_reason: reason,
+    p_refund_method: refundMethod ?? null,
+  });
+
+  if (error) {
+    console.error("Error voiding order item:", error);
+    throw toAdjustmentError(error);
+  }
+
+  return data as Order;
+}
+
+/**
+ * Void a whole order before the kitchen has started any of it
+ */
+export async function voidOrder(
+  orderId: number,
+  reason: string,
+  refundMethod?: PaymentMethod
+): Promise<Order> {
+  const { data, error } = await supabase.rpc("void_order", {
+    p_order_id: orderId,
+    p_reason: reason,
+    p_refund_method: refundMethod ?? null,
+  });
+
+  if (error) {
+    console.error("Error voiding order:", error);
+    throw toAdjustmentError(error);
+  }
+
+  return data as Order;
+}
+
+// ============ Refunds ============
+
+/**
+ * Refund a single line of a paid order
+ */
+export async function refundOrderItem(
+  orderItemId: number,
+  reason: string,
+  refundMethod?: PaymentMethod
+): Promise<Order> {
+  const { data, error } = await supabase.rpc("refund_order_item", {
+    p_order_item_id: orderItemId,
+    p_reason: reason,
+    p_refund_method: refundMethod ?? null,
+  });
+
+  if (error) {
+    console.error("Error refunding order item:", error);
+    throw toAdjustmentError(error);
+  }
+
+  return data as Order;
+}
+
+/**
+ * Refund everything left on a paid order, including the tip
+ */
+export async function refundOrder(
+  orderId: number,
+  reason: string,
+  refundMethod?: PaymentMethod
+): Promise<Order> {
+  const { data, error } = await supabase.rpc("refund_order", {
+    p_order_id: orderId,
+    p_reason: reason,
+    p_refund_method: refundMethod ?? null,
+  });
+
+  if (error) {
+    console.error("Error refunding order:", error);
+    throw toAdjustmentError(error);
+  }
+
+  return data as Order;
+}
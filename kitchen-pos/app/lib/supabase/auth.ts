@@ -1,5 +1,6 @@
 import { supabase } from "./client";
 import type { User, Session } from "@supabase/supabase-js";
+import type { StaffRole } from "@/app/types";
 
 export type { User, Session };
 
@@ -77,6 +78,29 @@ export async function getUser(): Promise<User | null> {
   return data.user;
 }
 
+/**
+ * Get a user's staff role
+ * Returns null if the account has no staff profile
+ */
+export async function getStaffRole(userId: string): Promise<StaffRole | null> {
+  const { data, error } = await supabase
+    .from("staff_profiles")
+    .select("role")
+    .eq("user_id", userId)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") {
+      // No rows returned
+      return null;
+    }
+    console.error("Error fetching staff role:", error);
+    throw error;
+  }
+
+  return data.role;
+}
+
 /**
  * Subscribe to auth state changes
  * Returns an unsubscribe function
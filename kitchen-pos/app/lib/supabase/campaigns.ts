@@ -1,5 +1,5 @@
 import { supabase } from "./client";
-import type { Campaign } from "@/app/types";
+import type { Campaign, CampaignItem, CampaignModifierPrice, PublicMenu } from "@/app/types";
 
 /**
  * Fetch all active campaigns, ordered by start date (most recent first)
@@ -97,3 +97,184 @@ export async function deactivateCampaign(id: number): Promise<void> {
     throw error;
   }
 }
+
+/**
+ * Fetch the menu for a campaign. An empty list means no menu has been
+ * defined and every active item is offered.
+ */
+export async function getCampaignItems(campaignId: number): Promise<CampaignItem[]> {
+  const { data, error } = await supabase
+    .from("campaign_items")
+    .select("*")
+    .eq("campaign_id", campaignId);
+
+  if (error) {
+    console.error("Error fetching campaign items:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Add items to a campaign's menu (items already on the menu are skipped)
+ */
+export async function addItemsToCampaign(
+  campaignId: number,
+  itemIds: number[]
+): Promise<void> {
+  if (itemIds.length === 0) return;
+
+  const { error } = await supabase
+    .from("campaign_items")
+    .upsert(
+      itemIds.map((itemId) => ({ campaign_id: campaignId, item_id: itemId })),
+      { onConflict: "campaign_id,item_id", ignoreDuplicates: true }
+    );
+
+  if (error) {
+    console.error("Error adding items to campaign:", error);
+    throw error;
+  }
+}
+
+/**
+ * Remove items from a campaign's menu
+ */
+export async function removeItemsFromCampaign(
+  campaignId: number,
+  itemIds: number[]
+): Promise<void> {
+  if (itemIds.length === 0) return;
+
+  const { error } = await supabase
+    .from("campaign_items")
+    .delete()
+    .eq("campaign_id", campaignId)
+    .in("item_id", itemIds);
+
+  if (error) {
+    console.error("Error removing items from campaign:", error);
+    throw error;
+  }
+}
+
+/**
+ * Replace a campaign's menu with the given items and price overrides.
+ * Passing an empty list clears the menu so the campaign offers every active
+ * item again at its base price.
+ */
+export async function setCampaignItems(
+  campaignId: number,
+  entries: Pick<CampaignItem, "item_id" | "price_override">[]
+): Promise<CampaignItem[]> {
+  const current = await getCampaignItems(campaignId);
+  const nextIds = new Set(entries.map((entry) => entry.item_id));
+
+  await removeItemsFromCampaign(
+    campaignId,
+    current.map((ci) => ci.item_id).filter((id) => !nextIds.has(id))
+  );
+
+  if (entries.length > 0) {
+    const { error } = await supabase
+      .from("campaign_items")
+      .upsert(
+        entries.map((entry) => ({
+          campaign_id: campaignId,
+          item_id: entry.item_id,
+          price_override: entry.price_override,
+        })),
+        { onConflict: "campaign_id,item_id" }
+      );
+
+    if (error) {
+      console.error("Error saving campaign items:", error);
+      throw error;
+    }
+  }
+
+  return getCampaignItems(campaignId);
+}
+
+/**
+ * Fetch the modifier price overrides for a campaign
+ */
+export async function getCampaignModifierPrices(
+  campaignId: number
+): Promise<CampaignModifierPrice[]> {
+  const { data, error } = await supabase
+    .from("campaign_modifier_prices")
+    .select("*")
+    .eq("campaign_id", campaignId);
+
+  if (error) {
+    console.error("Error fetching campaign modifier prices:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Replace a campaign's modifier price overrides. Modifiers left out of the
+ * list go back to their own price_delta.
+ */
+export async function setCampaignModifierPrices(
+  campaignId: number,
+  entries: Pick<CampaignModifierPrice, "modifier_id" | "price_delta">[]
+): Promise<CampaignModifierPrice[]> {
+  const current = await getCampaignModifierPrices(campaignId);
+  const nextIds = new Set(entries.map((entry) => entry.modifier_id));
+  const removedIds = current
+    .map((cmp) => cmp.modifier_id)
+    .filter((id) => !nextIds.has(id));
+
+  if (removedIds.length > 0) {
+    const { error } = await supabase
+      .from("campaign_modifier_prices")
+      .delete()
+      .eq("campaign_id", campaignId)
+      .in("modifier_id", removedIds);
+
+    if (error) {
+      console.error("Error removing campaign modifier prices:", error);
+      throw error;
+    }
+  }
+
+  if (entries.length > 0) {
+    const { error } = await supabase
+      .from("campaign_modifier_prices")
+      .upsert(
+        entries.map((entry) => ({
+          campaign_id: campaignId,
+          modifier_id: entry.modifier_id,
+          price_delta: entry.price_delta,
+        })),
+        { onConflict: "campaign_id,modifier_id" }
+      );
+
+    if (error) {
+      console.error("Error saving campaign modifier prices:", error);
+      throw error;
+    }
+  }
+
+  return getCampaignModifierPrices(campaignId);
+}
+
+/**
+ * Fetch the active campaign's menu for customer self-ordering
+ * Returns null when no campaign is running, i.e. ordering is closed
+ */
+export async function getPublicMenu(): Promise<PublicMenu | null> {
+  const { data, error } = await supabase.rpc("get_public_menu");
+
+  if (error) {
+    console.error("Error fetching public menu:", error);
+    throw error;
+  }
+
+  return (data as PublicMenu | null) ?? null;
+}
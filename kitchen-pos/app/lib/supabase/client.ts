@@ -7,5 +7,22 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error("Missing Supabase environment variables");
 }
 
+// Token of the staff member signed in with a PIN on this device. Sent with
+// every request so the database knows who is acting.
+let staffSessionToken: string | null = null;
+
+export function setStaffSessionToken(token: string | null) {
+  staffSessionToken = token;
+}
+
 // Browser-side Supabase client (singleton)
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+  global: {
+    fetch: (input, init) => {
+      if (!staffSessionToken) return fetch(input, init);
+      const headers = new Headers(init?.headers);
+      headers.set("x-staff-session", staffSessionToken);
+      return fetch(input, { ...init, headers });
+    },
+  },
+});
@@ -9,10 +9,20 @@ export {
   signOut,
   getSession,
   getUser,
+  getStaffRole,
   onAuthStateChange,
 } from "./auth";
 export type { User, Session } from "./auth";
 
+// Re-export staff PIN sign-in functions
+export {
+  getStaffMembers,
+  startStaffSession,
+  endStaffSession,
+  StaffSessionError,
+} from "./staff";
+export type { StaffSessionErrorCode } from "./staff";
+
 // Re-export campaign functions
 export {
   getCampaigns,
@@ -20,6 +30,13 @@ export {
   createCampaign,
   updateCampaign,
   deactivateCampaign,
+  getCampaignItems,
+  addItemsToCampaign,
+  removeItemsFromCampaign,
+  setCampaignItems,
+  getCampaignModifierPrices,
+  setCampaignModifierPrices,
+  getPublicMenu,
 } from "./campaigns";
 
 // Re-export category functions
@@ -38,32 +55,95 @@ export {
   createItem,
   updateItem,
   deactivateItem,
+  getItemVariants,
+  createItemVariant,
+  updateItemVariant,
+  deactivateItemVariant,
+  getBundleSlots,
+  createBundleSlot,
+  updateBundleSlot,
+  deactivateBundleSlot,
+  setBundleSlotChoice,
+  removeBundleSlotChoice,
   getModifiers,
   getModifiersForItem,
+  getItemModifierLinks,
   createModifier,
   updateModifier,
   deactivateModifier,
   linkModifierToItem,
   unlinkModifierFromItem,
+  getModifierGroups,
+  createModifierGroup,
+  updateModifierGroup,
+  deactivateModifierGroup,
 } from "./items";
 
+// Re-export inventory functions
+export {
+  getStockLevels,
+  setStockLevel,
+  subscribeToStockLevels,
+} from "./inventory";
+export type { StockTarget } from "./inventory";
+
+// Re-export ingredient and recipe functions
+export {
+  getIngredients,
+  createIngredient,
+  updateIngredient,
+  deactivateIngredient,
+  getRecipeIngredients,
+  setRecipeIngredient,
+  getIngredientLevels,
+  getIngredientUsage,
+  setIngredientOnHand,
+} from "./ingredients";
+
 // Re-export order functions
 export {
   createOrder,
+  PlaceOrderError,
   getOrders,
   getOrderById,
   getReadyOrders,
   getRecentOrders,
   getKitchenOrders,
+  getScheduledOrders,
+  getOrdersChangedSince,
   updateOrderStatus,
   updateOrderItemStatus,
   updateMultipleOrderItemsStatus,
   updateOrderStatusFromItems,
   updateOrderItem,
-  deleteOrderItem,
   markOrderPickedUp,
-  subscribeToReadyOrders,
-  subscribeToOrders,
-  subscribeToKitchenOrders,
+  subscribeToOrderChanges,
+  placePublicOrder,
+  getPublicOrder,
+  getPublicBoard,
 } from "./orders";
-export type { CreateOrderInput, PaginatedOrdersResult, UpdateOrderItemInput } from "./orders";
+export type {
+  CreateOrderInput,
+  PlaceOrderErrorCode,
+  PaginatedOrdersResult,
+  UpdateOrderItemInput,
+  OrderRowChange,
+} from "./orders";
+
+// Re-export void and refund functions
+export {
+  voidOrderItem,
+  voidOrder,
+  refundOrderItem,
+  refundOrder,
+  AdjustmentError,
+} from "./adjustments";
+export type { AdjustmentErrorCode } from "./adjustments";
+
+// Re-export payment functions
+export {
+  recordPayments,
+  getPaymentsForOrder,
+  PaymentError,
+} from "./payments";
+export type { PaymentErrorCode } from "./payments";
@@ -0,0 +1,220 @@
+import { supabase } from "./client";
+import type {
+  Ingredient,
+  IngredientLevel,
+  IngredientUsage,
+  RecipeIngredient,
+} from "@/app/types";
+import type { StockTarget } from "./inventory";
+
+/**
+ * Fetch all active ingredients, ordered by name
+ */
+export async function getIngredients(): Promise<Ingredient[]> {
+  const { data, error } = await supabase
+    .from("ingredients")
+    .select("*")
+    .eq("is_active", true)
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching ingredients:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Create a new ingredient
+ */
+export async function createIngredient(
+  ingredient: Omit<Ingredient, "id" | "created_at">
+): Promise<Ingredient> {
+  const { data, error } = await supabase
+    .from("ingredients")
+    .insert(ingredient)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating ingredient:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Update an existing ingredient
+ */
+export async function updateIngredient(
+  id: number,
+  updates: Partial<Omit<Ingredient, "id" | "created_at">>
+): Promise<Ingredient> {
+  const { data, error } = await supabase
+    .from("ingredients")
+    .update(updates)
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error updating ingredient:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Deactivate an ingredient (soft delete). Past usage is kept.
+ */
+export async function deactivateIngredient(id: number): Promise<void> {
+  const { error } = await supabase
+    .from("ingredients")
+    .update({ is_active: false })
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error deactivating ingredient:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch every recipe line for items and modifiers
+ */
+export async function getRecipeIngredients(): Promise<RecipeIngredient[]> {
+  const { data, error } = await supabase
+    .from("recipe_ingredients")
+    .select("*");
+
+  if (error) {
+    console.error("Error fetching recipes:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Set how much of an ingredient an item or modifier uses.
+ * Passing null removes the ingredient from the recipe.
+ */
+export async function setRecipeIngredient(
+  target: StockTarget,
+  ingredientId: number,
+  quantity: number | null
+): Promise<RecipeIngredient | null> {
+  const column = "itemId" in target ? "item_id" : "modifier_id";
+  const targetId = "itemId" in target ? target.itemId : target.modifierId;
+
+  if (quantity === null) {
+    const { error } = await supabase
+      .from("recipe_ingredients")
+      .delete()
+      .eq(column, targetId)
+      .eq("ingredient_id", ingredientId);
+
+    if (error) {
+      console.error("Error removing recipe ingredient:", error);
+      throw error;
+    }
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("recipe_ingredients")
+    .upsert(
+      { [column]: targetId, ingredient_id: ingredientId, quantity },
+      { onConflict: `${column},ingredient_id` }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error saving recipe ingredient:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Fetch prepped amount, usage and what is left for each ingredient tracked
+ * in a campaign
+ */
+export async function getIngredientLevels(campaignId: number): Promise<IngredientLevel[]> {
+  const { data, error } = await supabase
+    .from("campaign_ingredient_levels")
+    .select("*")
+    .eq("campaign_id", campaignId)
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching ingredient levels:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Fetch how much of each ingredient a campaign's orders used, whether or not
+ * a prepped amount was recorded
+ */
+export async function getIngredientUsage(campaignId: number): Promise<IngredientUsage[]> {
+  const { data, error } = await supabase
+    .from("campaign_ingredient_usage")
+    .select("*")
+    .eq("campaign_id", campaignId);
+
+  if (error) {
+    console.error("Error fetching ingredient usage:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Record how much of an ingredient was prepped for a campaign.
+ * Passing null stops tracking it for the campaign.
+ */
+export async function setIngredientOnHand(
+  campaignId: number,
+  ingredientId: number,
+  onHand: number | null
+): Promise<void> {
+  if (onHand === null) {
+    const { error } = await supabase
+      .from("campaign_ingredients")
+      .delete()
+      .eq("campaign_id", campaignId)
+      .eq("ingredient_id", ingredientId);
+
+    if (error) {
+      console.error("Error clearing ingredient stock:", error);
+      throw error;
+    }
+    return;
+  }
+
+  const { error } = await supabase
+    .from("campaign_ingredients")
+    .upsert(
+      {
+        campaign_id: campaignId,
+        ingredient_id: ingredientId,
+        on_hand: onHand,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "campaign_id,ingredient_id" }
+    );
+
+  if (error) {
+    console.error("Error setting ingredient stock:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,103 @@
+import { supabase } from "./client";
+import type { StockLevel } from "@/app/types";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+
+// What a stock count is kept for: an item or a modifier
+export type StockTarget = { itemId: number } | { modifierId: number };
+
+/**
+ * Fetch the stock counts for a campaign. Items and modifiers without a
+ * count are not tracked.
+ */
+export async function getStockLevels(campaignId: number): Promise<StockLevel[]> {
+  const { data, error } = await supabase
+    .from("stock_levels")
+    .select("*")
+    .eq("campaign_id", campaignId);
+
+  if (error) {
+    console.error("Error fetching stock levels:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Set the stock count for an item or modifier in a campaign.
+ * Passing null stops tracking it, so it can be sold without limit.
+ */
+export async function setStockLevel(
+  campaignId: number,
+  target: StockTarget,
+  quantity: number | null
+): Promise<StockLevel | null> {
+  const column = "itemId" in target ? "item_id" : "modifier_id";
+  const targetId = "itemId" in target ? target.itemId : target.modifierId;
+
+  if (quantity === null) {
+    const { error } = await supabase
+      .from("stock_levels")
+      .delete()
+      .eq("campaign_id", campaignId)
+      .eq(column, targetId);
+
+    if (error) {
+      console.error("Error clearing stock level:", error);
+      throw error;
+    }
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from("stock_levels")
+    .upsert(
+      {
+        campaign_id: campaignId,
+        [column]: targetId,
+        quantity,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: `campaign_id,${column}` }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error setting stock level:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Subscribe to stock count changes for a campaign, so every terminal sees
+ * items sell out as it happens
+ */
+export function subscribeToStockLevels(
+  campaignId: number,
+  onStockChange: (eventType: "INSERT" | "UPDATE" | "DELETE", level: StockLevel) => void
+): () => void {
+  const channel: RealtimeChannel = supabase
+    .channel(`stock-levels-${campaignId}`)
+    .on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "stock_levels",
+        filter: `campaign_id=eq.${campaignId}`,
+      },
+      (payload) => {
+        const eventType = payload.eventType as "INSERT" | "UPDATE" | "DELETE";
+        const level = (eventType === "DELETE" ? payload.old : payload.new) as StockLevel;
+        onStockChange(eventType, level);
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
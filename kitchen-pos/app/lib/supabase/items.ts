@@ -1,5 +1,13 @@
 import { supabase } from "./client";
-import type { Item, Modifier, ItemModifier } from "@/app/types";
+import type {
+  BundleSlot,
+  BundleSlotChoice,
+  Item,
+  ItemVariant,
+  Modifier,
+  ModifierGroup,
+  ItemModifier,
+} from "@/app/types";
 
 /**
  * Fetch all active items, optionally filtered by category
@@ -103,6 +111,200 @@ export async function deactivateItem(id: number): Promise<void> {
   }
 }
 
+// ============ Item Variants ============
+
+/**
+ * Fetch all active item variants (sizes), in display order
+ */
+export async function getItemVariants(): Promise<ItemVariant[]> {
+  const { data, error } = await supabase
+    .from("item_variants")
+    .select("*")
+    .eq("is_active", true)
+    .order("display_order", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching item variants:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Create a new item variant
+ */
+export async function createItemVariant(
+  variant: Omit<ItemVariant, "id" | "created_at" | "updated_at">
+): Promise<ItemVariant> {
+  const { data, error } = await supabase
+    .from("item_variants")
+    .insert(variant)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating item variant:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Update an existing item variant
+ */
+export async function updateItemVariant(
+  id: number,
+  updates: Partial<Omit<ItemVariant, "id" | "item_id" | "created_at" | "updated_at">>
+): Promise<ItemVariant> {
+  const { data, error } = await supabase
+    .from("item_variants")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error updating item variant:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Deactivate an item variant (soft delete). Past orders keep its name.
+ */
+export async function deactivateItemVariant(id: number): Promise<void> {
+  const { error } = await supabase
+    .from("item_variants")
+    .update({ is_active: false, updated_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error deactivating item variant:", error);
+    throw error;
+  }
+}
+
+// ============ Bundles ============
+
+/**
+ * Fetch all active bundle slots with their choices, in display order
+ */
+export async function getBundleSlots(): Promise<BundleSlot[]> {
+  const { data, error } = await supabase
+    .from("bundle_slots")
+    .select("*, choices:bundle_slot_choices(*)")
+    .eq("is_active", true)
+    .order("display_order", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching bundle slots:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Create a new bundle slot
+ */
+export async function createBundleSlot(
+  slot: Omit<BundleSlot, "id" | "created_at" | "updated_at" | "choices">
+): Promise<BundleSlot> {
+  const { data, error } = await supabase
+    .from("bundle_slots")
+    .insert(slot)
+    .select("*, choices:bundle_slot_choices(*)")
+    .single();
+
+  if (error) {
+    console.error("Error creating bundle slot:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Update an existing bundle slot
+ */
+export async function updateBundleSlot(
+  id: number,
+  updates: Partial<Pick<BundleSlot, "name" | "display_order">>
+): Promise<BundleSlot> {
+  const { data, error } = await supabase
+    .from("bundle_slots")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select("*, choices:bundle_slot_choices(*)")
+    .single();
+
+  if (error) {
+    console.error("Error updating bundle slot:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Deactivate a bundle slot (soft delete). Past orders keep their components.
+ */
+export async function deactivateBundleSlot(id: number): Promise<void> {
+  const { error } = await supabase
+    .from("bundle_slots")
+    .update({ is_active: false, updated_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error deactivating bundle slot:", error);
+    throw error;
+  }
+}
+
+/**
+ * Offer an item in a bundle slot, or change its upcharge if already offered
+ */
+export async function setBundleSlotChoice(
+  slotId: number,
+  itemId: number,
+  priceDelta: number
+): Promise<BundleSlotChoice> {
+  const { data, error } = await supabase
+    .from("bundle_slot_choices")
+    .upsert(
+      { slot_id: slotId, item_id: itemId, price_delta: priceDelta },
+      { onConflict: "slot_id,item_id" }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error setting bundle slot choice:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Stop offering an item in a bundle slot
+ */
+export async function removeBundleSlotChoice(id: number): Promise<void> {
+  const { error } = await supabase
+    .from("bundle_slot_choices")
+    .delete()
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error removing bundle slot choice:", error);
+    throw error;
+  }
+}
+
 // ============ Modifiers ============
 
 /**
@@ -124,7 +326,22 @@ export async function getModifiers(): Promise<Modifier[]> {
 }
 
 /**
- * Fetch modifiers for a specific item (via item_modifiers junction table)
+ * Fetch which modifiers are offered on which items
+ */
+export async function getItemModifierLinks(): Promise<ItemModifier[]> {
+  const { data, error } = await supabase.from("item_modifiers").select("*");
+
+  if (error) {
+    console.error("Error fetching item modifier links:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Fetch modifiers for a specific item (via item_modifiers junction table),
+ * along with the options of each
  */
 export async function getModifiersForItem(itemId: number): Promise<Modifier[]> {
   const { data, error } = await supabase
@@ -138,9 +355,25 @@ export async function getModifiersForItem(itemId: number): Promise<Modifier[]> {
   }
 
   // Extract modifiers from the joined result and filter active ones
-  return (data || [])
+  const linked = (data || [])
     .map((im) => im.modifier as unknown as Modifier)
     .filter((m) => m && m.is_active);
+  if (linked.length === 0) return linked;
+
+  // Options come with the modifier they belong to
+  const { data: options, error: optionsError } = await supabase
+    .from("modifiers")
+    .select("*")
+    .in("parent_id", linked.map((m) => m.id))
+    .eq("is_active", true)
+    .order("name");
+
+  if (optionsError) {
+    console.error("Error fetching modifier options:", optionsError);
+    throw optionsError;
+  }
+
+  return [...linked, ...(options || [])];
 }
 
 /**
@@ -239,3 +472,81 @@ export async function unlinkModifierFromItem(
     throw error;
   }
 }
+
+// ============ Modifier Groups ============
+
+/**
+ * Fetch all active modifier groups, in display order
+ */
+export async function getModifierGroups(): Promise<ModifierGroup[]> {
+  const { data, error } = await supabase
+    .from("modifier_groups")
+    .select("*")
+    .eq("is_active", true)
+    .order("display_order", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching modifier groups:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Create a new modifier group
+ */
+export async function createModifierGroup(
+  group: Omit<ModifierGroup, "id" | "created_at" | "updated_at">
+): Promise<ModifierGroup> {
+  const { data, error } = await supabase
+    .from("modifier_groups")
+    .insert(group)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating modifier group:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Update an existing modifier group
+ */
+export async function updateModifierGroup(
+  id: number,
+  updates: Partial<Omit<ModifierGroup, "id" | "created_at" | "updated_at">>
+): Promise<ModifierGroup> {
+  const { data, error } = await supabase
+    .from("modifier_groups")
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error updating modifier group:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Deactivate a modifier group (soft delete). Its modifiers become ungrouped
+ * as far as selection rules are concerned.
+ */
+export async function deactivateModifierGroup(id: number): Promise<void> {
+  const { error } = await supabase
+    .from("modifier_groups")
+    .update({ is_active: false, updated_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) {
+    console.error("Error deactivating modifier group:", error);
+    throw error;
+  }
+}
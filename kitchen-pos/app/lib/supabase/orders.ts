@@ -4,10 +4,17 @@ import type {
   OrderItem,
   OrderItemModifier,
   CartItem,
+  CartDiscount,
+  ModifierSelection,
   OrderStatus,
   OrderItemStatus,
+  Tender,
+  PublicOrder,
+  PublicOrderReceipt,
+  BoardOrder,
 } from "@/app/types";
-import type { RealtimeChannel } from "@supabase/supabase-js";
+import type { PostgrestError, RealtimeChannel } from "@supabase/supabase-js";
+import { toPaymentsPayload } from "./payments";
 
 // ============ Order Creation ============
 
@@ -16,115 +23,196 @@ export interface CreateOrderInput {
   customer_name: string;
   notes?: string;
   items: CartItem[];
+  discount?: CartDiscount | null; // Order-level discount
+  tip?: number;
+  payments?: Tender[]; // Tenders collected before submitting; omit to leave the order unpaid
+  scheduled_for?: string | null; // Pickup time (ISO) for orders taken in advance
+  client_key: string; // Generated per order; placing the same key again returns the first order
+  taken_by?: number | null; // Staff member who took it, kept for orders sent later from the queue
 }
 
+export type PlaceOrderErrorCode =
+  | "customer_name_required"
+  | "empty_order"
+  | "invalid_quantity"
+  | "item_unavailable"
+  | "invalid_variant"
+  | "invalid_bundle"
+  | "modifier_unavailable"
+  | "invalid_modifiers"
+  | "invalid_discount"
+  | "invalid_tip"
+  | "invalid_schedule"
+  | "invalid_payment"
+  | "overpayment"
+  | "sold_out"
+  | "rate_limited"
+  | "ordering_closed"
+  | "not_allowed"
+  | "invalid_client_key"
+  | "offline" // The request never reached the server
+  | "unknown";
+
+const PLACE_ORDER_ERROR_CODES: PlaceOrderErrorCode[] = [
+  "customer_name_required",
+  "empty_order",
+  "invalid_quantity",
+  "item_unavailable",
+  "invalid_variant",
+  "invalid_bundle",
+  "modifier_unavailable",
+  "invalid_modifiers",
+  "invalid_discount",
+  "invalid_tip",
+  "invalid_schedule",
+  "invalid_payment",
+  "overpayment",
+  "sold_out",
+  "rate_limited",
+  "ordering_closed",
+  "not_allowed",
+  "invalid_client_key",
+];
+
 /**
- * Create a new order with all its items and modifiers
- * This performs multiple inserts but Supabase doesn't support true transactions
- * in the client SDK, so we do our best to maintain consistency
+ * Error thrown when the place_order RPC rejects an order.
+ * `code` identifies the reason; `message` is safe to show to staff.
  */
-export async function createOrder(input: CreateOrderInput): Promise<Order> {
-  const { campaign_id, customer_name, notes, items } = input;
-
-  // Calculate subtotal
-  const subtotal = items.reduce((total, cartItem) => {
-    const itemTotal = cartItem.item.base_price * cartItem.quantity;
-    const modifiersTotal = cartItem.modifiers.reduce(
-      (sum, mod) => sum + mod.price_delta * cartItem.quantity,
-      0
-    );
-    return total + itemTotal + modifiersTotal;
-  }, 0);
-
-  // 1. Create the order
-  const { data: order, error: orderError } = await supabase
-    .from("orders")
-    .insert({
-      campaign_id,
-      customer_name,
-      notes: notes || null,
-      subtotal,
-      status: "new" as OrderStatus,
-    })
-    .select()
-    .single();
+export class PlaceOrderError extends Error {
+  code: PlaceOrderErrorCode;
 
-  if (orderError) {
-    console.error("Error creating order:", orderError);
-    throw orderError;
+  constructor(code: PlaceOrderErrorCode, message: string) {
+    super(message);
+    this.name = "PlaceOrderError";
+    this.code = code;
   }
+}
 
-  // 2. Create order items
-  // Items with no_prep_needed=true are created with status 'done' (ready immediately)
-  const orderItemsToInsert = items.map((cartItem) => ({
-    order_id: order.id,
+/**
+ * Map a PostgREST error from place_order to a PlaceOrderError.
+ * The database function raises with the code as the message and a readable detail.
+ */
+function toPlaceOrderError(error: PostgrestError): PlaceOrderError {
+  // supabase-js reports a failed fetch as an error too, with the TypeError
+  // fetch rejected with as its message and no code
+  if (!error.code && error.message.startsWith("TypeError")) {
+    return new PlaceOrderError("offline", "Couldn't reach the server.");
+  }
+  const code = PLACE_ORDER_ERROR_CODES.find((c) => c === error.message) ?? "unknown";
+  const message =
+    code === "unknown"
+      ? `Failed to place order: ${error.message}`
+      : error.details || error.message;
+  return new PlaceOrderError(code, message);
+}
+
+/**
+ * Shape cart lines the way place_order expects them
+ */
+function toItemsPayload(items: CartItem[]) {
+  return items.map((cartItem) => ({
     item_id: cartItem.item.id,
+    variant_id: cartItem.variant?.id ?? null,
+    components: (cartItem.components ?? []).map((component) => ({
+      slot_id: component.slot_id,
+      item_id: component.item.id,
+    })),
     quantity: cartItem.quantity,
     notes: cartItem.notes || null,
-    status: (cartItem.item.no_prep_needed ? "done" : "new") as OrderItemStatus,
+    modifiers: cartItem.modifiers.map((modifier) => ({
+      modifier_id: modifier.id,
+      quantity: modifier.quantity,
+    })),
+    discount: cartItem.discount ?? null,
   }));
+}
 
-  const { data: orderItems, error: itemsError } = await supabase
-    .from("order_items")
-    .insert(orderItemsToInsert)
-    .select();
-
-  if (itemsError) {
-    console.error("Error creating order items:", itemsError);
-    // Try to clean up the order we just created
-    await supabase.from("orders").delete().eq("id", order.id);
-    throw itemsError;
-  }
-
-  // 3. Create order item modifiers
-  const orderItemModifiersToInsert: Array<{
-    order_item_id: number;
-    modifier_id: number;
-    label: string;
-    price_delta: number;
-  }> = [];
-
-  items.forEach((cartItem, index) => {
-    const orderItem = orderItems[index];
-    cartItem.modifiers.forEach((modifier) => {
-      orderItemModifiersToInsert.push({
-        order_item_id: orderItem.id,
-        modifier_id: modifier.id,
-        label: modifier.name,
-        price_delta: modifier.price_delta,
-      });
-    });
+/**
+ * Create a new order with all its items and modifiers
+ * Runs as a single transaction in the place_order database function, which
+ * also prices the order from the current menu, applies tax and discounts and
+ * records any payments taken
+ * Goes through place_order_once, so sending the same order again (a double
+ * tap, or a retry after a lost response) returns the order already placed
+ */
+export async function createOrder(input: CreateOrderInput): Promise<Order> {
+  const {
+    campaign_id,
+    customer_name,
+    notes,
+    items,
+    discount,
+    tip,
+    payments,
+    scheduled_for,
+    client_key,
+    taken_by,
+  } = input;
+
+  const { data, error } = await supabase.rpc("place_order_once", {
+    p_client_key: client_key,
+    p_campaign_id: campaign_id,
+    p_customer_name: customer_name,
+    p_notes: notes || null,
+    p_items: toItemsPayload(items),
+    p_discount: discount ?? null,
+    p_tip: tip ?? 0,
+    p_payments: payments?.length ? toPaymentsPayload(payments) : null,
+    p_scheduled_for: scheduled_for ?? null,
+    p_taken_by: taken_by ?? null,
   });
 
-  if (orderItemModifiersToInsert.length > 0) {
-    const { error: modifiersError } = await supabase
-      .from("order_item_modifiers")
-      .insert(orderItemModifiersToInsert);
+  if (error) {
+    console.error("Error creating order:", error);
+    throw toPlaceOrderError(error);
+  }
 
-    if (modifiersError) {
-      console.error("Error creating order item modifiers:", modifiersError);
-      // Continue anyway - the order exists, just without modifiers recorded
-    }
+  return data as Order;
+}
+
+// ============ Customer Self-Ordering ============
+
+/**
+ * Place a customer's own order on the active campaign
+ * Goes through the place_public_order database function, which only accepts
+ * items on the current menu and limits how often one device can order.
+ * The order is left unpaid for the customer to pay at the counter.
+ * Sending the same client key again returns the order already placed.
+ */
+export async function placePublicOrder(
+  customerName: string,
+  items: CartItem[],
+  clientKey: string
+): Promise<PublicOrderReceipt> {
+  const { data, error } = await supabase.rpc("place_public_order", {
+    p_customer_name: customerName,
+    p_items: toItemsPayload(items),
+    p_client_key: clientKey,
+  });
+
+  if (error) {
+    console.error("Error placing public order:", error);
+    throw toPlaceOrderError(error);
   }
 
-  // 4. Create initial status events for each order item
-  // Use the actual status that was set (done for no_prep_needed items, new otherwise)
-  const statusEventsToInsert = orderItems.map((orderItem, index) => ({
-    order_item_id: orderItem.id,
-    old_status: null,
-    new_status: items[index].item.no_prep_needed ? "done" : "new",
-  }));
+  return data as PublicOrderReceipt;
+}
 
-  const { error: statusError } = await supabase
-    .from("order_item_status_events")
-    .insert(statusEventsToInsert);
+/**
+ * Fetch an order's progress for the customer status page
+ * Returns null if no order has this token
+ */
+export async function getPublicOrder(token: string): Promise<PublicOrder | null> {
+  const { data, error } = await supabase.rpc("get_public_order", {
+    p_token: token,
+  });
 
-  if (statusError) {
-    console.error("Error creating status events:", statusError);
-    // Continue anyway - tracking is optional
+  if (error) {
+    console.error("Error fetching public order:", error);
+    throw error;
   }
 
-  return order;
+  return (data as PublicOrder | null) ?? null;
 }
 
 // ============ Order Queries ============
@@ -141,11 +229,15 @@ export async function getOrders(
     .select(
       `
       *,
+      taken_by_staff:staff_members!orders_taken_by_fkey(name),
       order_items (
         *,
         item:items(*),
         modifiers:order_item_modifiers(*)
-      )
+      ),
+      discounts:order_discounts(*),
+      payments(*),
+      adjustments:order_adjustments(*)
     `
     )
     .order("created_at", { ascending: false })
@@ -216,11 +308,15 @@ export async function getRecentOrders(
     .select(
       `
       *,
+      taken_by_staff:staff_members!orders_taken_by_fkey(name),
       order_items (
         *,
         item:items(*),
         modifiers:order_item_modifiers(*)
-      )
+      ),
+      discounts:order_discounts(*),
+      payments(*),
+      adjustments:order_adjustments(*)
     `
     )
     .eq("campaign_id", campaignId)
@@ -259,11 +355,15 @@ export async function getOrderById(id: number): Promise<Order | null> {
     .select(
       `
       *,
+      taken_by_staff:staff_members!orders_taken_by_fkey(name),
       order_items (
         *,
         item:items(*),
         modifiers:order_item_modifiers(*)
-      )
+      ),
+      discounts:order_discounts(*),
+      payments(*),
+      adjustments:order_adjustments(*)
     `
     )
     .eq("id", id)
@@ -517,95 +617,33 @@ export async function updateOrderStatusFromItems(orderId: number): Promise<void>
 export interface UpdateOrderItemInput {
   quantity: number;
   notes: string | null;
-  modifierIds: number[];
+  modifiers: ModifierSelection[];
 }
 
 /**
  * Update an order item's quantity, notes, and modifiers
- * Also recalculates the order subtotal
+ * Runs in the update_order_item database function; the order subtotal
+ * is recalculated server-side by triggers
  */
 export async function updateOrderItem(
   orderItemId: number,
   updates: UpdateOrderItemInput
 ): Promise<OrderItem> {
-  const { quantity, notes, modifierIds } = updates;
-
-  // 1. Get the current order item with its order info
-  const { data: currentItem, error: fetchError } = await supabase
-    .from("order_items")
-    .select(`
-      *,
-      item:items(*),
-      modifiers:order_item_modifiers(*)
-    `)
-    .eq("id", orderItemId)
-    .single();
+  const { quantity, notes, modifiers } = updates;
 
-  if (fetchError) {
-    console.error("Error fetching order item:", fetchError);
-    throw fetchError;
-  }
-
-  // 2. Update the order item
-  const { data: updatedItem, error: updateError } = await supabase
-    .from("order_items")
-    .update({
-      quantity,
-      notes,
-      updated_at: new Date().toISOString(),
-    })
-    .eq("id", orderItemId)
-    .select()
-    .single();
+  const { error: updateError } = await supabase.rpc("update_order_item", {
+    p_order_item_id: orderItemId,
+    p_quantity: quantity,
+    p_notes: notes,
+    p_modifiers: modifiers,
+  });
 
   if (updateError) {
     console.error("Error updating order item:", updateError);
     throw updateError;
   }
 
-  // 3. Delete existing modifiers for this order item
-  const { error: deleteModError } = await supabase
-    .from("order_item_modifiers")
-    .delete()
-    .eq("order_item_id", orderItemId);
-
-  if (deleteModError) {
-    console.error("Error deleting order item modifiers:", deleteModError);
-    // Continue anyway
-  }
-
-  // 4. Insert new modifiers
-  if (modifierIds.length > 0) {
-    // Fetch modifier details
-    const { data: modifiers, error: modFetchError } = await supabase
-      .from("modifiers")
-      .select("*")
-      .in("id", modifierIds);
-
-    if (modFetchError) {
-      console.error("Error fetching modifiers:", modFetchError);
-    } else if (modifiers) {
-      const newModifiers = modifiers.map((mod) => ({
-        order_item_id: orderItemId,
-        modifier_id: mod.id,
-        label: mod.name,
-        price_delta: mod.price_delta,
-      }));
-
-      const { error: insertModError } = await supabase
-        .from("order_item_modifiers")
-        .insert(newModifiers);
-
-      if (insertModError) {
-        console.error("Error inserting order item modifiers:", insertModError);
-      }
-    }
-  }
-
-  // 5. Recalculate and update order subtotal
-  await recalculateOrderSubtotal(currentItem.order_id);
-
-  // 6. Fetch and return the updated item with all relations
+  // Fetch and return the updated item with all relations
   const { data: finalItem, error: finalError } = await supabase
     .from("order_items")
     .select(`
@@ -625,163 +663,118 @@ export async function updateOrderItem(
 }
 
 /**
- * Delete an order item and recalculate the order subtotal
+ * Mark an order as picked up
  */
-export async function deleteOrderItem(orderItemId: number): Promise<void> {
-  // 1. Get the order ID first
-  const { data: item, error: fetchError } = await supabase
-    .from("order_items")
-    .select("order_id")
-    .eq("id", orderItemId)
-    .single();
-
-  if (fetchError) {
-    console.error("Error fetching order item:", fetchError);
-    throw fetchError;
-  }
-
-  const orderId = item.order_id;
-
-  // 2. Delete the order item (modifiers will cascade delete due to FK)
-  const { error: deleteError } = await supabase
-    .from("order_items")
-    .delete()
-    .eq("id", orderItemId);
-
-  if (deleteError) {
-    console.error("Error deleting order item:", deleteError);
-    throw deleteError;
-  }
-
-  // 3. Recalculate order subtotal
-  await recalculateOrderSubtotal(orderId);
+export async function markOrderPickedUp(orderId: number): Promise<Order> {
+  return updateOrderStatus(orderId, "picked_up");
 }
 
+// ============ Real-time Subscriptions ============
+
 /**
- * Recalculate and update the order subtotal based on its items
+ * Fetch a campaign's orders that changed after `since`, with all their items
+ * and modifiers. Includes orders where only a line changed, and orders that
+ * have since left the kitchen, so a display can catch up after losing its
+ * connection without reloading everything.
  */
-async function recalculateOrderSubtotal(orderId: number): Promise<void> {
-  // Fetch all items for this order
-  const { data: items, error: fetchError } = await supabase
-    .from("order_items")
-    .select(`
-      quantity,
-      item:items(base_price),
-      modifiers:order_item_modifiers(price_delta)
-    `)
-    .eq("order_id", orderId);
-
-  if (fetchError) {
-    console.error("Error fetching order items for subtotal:", fetchError);
-    return;
-  }
-
-  // Calculate new subtotal
-  const subtotal = (items || []).reduce((total, orderItem) => {
-    // Supabase returns single relations as arrays, so we need to handle that
-    const itemData = orderItem.item as unknown;
-    const basePrice = Array.isArray(itemData) 
-      ? (itemData[0] as { base_price: number } | undefined)?.base_price || 0
-      : (itemData as { base_price: number } | null)?.base_price || 0;
-    const modifiersPrice = ((orderItem.modifiers as { price_delta: number }[] | null) || [])
-      .reduce((sum, mod) => sum + mod.price_delta, 0);
-    return total + (basePrice + modifiersPrice) * orderItem.quantity;
-  }, 0);
+export async function getOrdersChangedSince(campaignId: number, since: string): Promise<Order[]> {
+  const [ordersResult, itemsResult] = await Promise.all([
+    supabase
+      .from("orders")
+      .select("id")
+      .eq("campaign_id", campaignId)
+      .gt("updated_at", since),
+    supabase
+      .from("order_items")
+      .select("order_id")
+      .eq("campaign_id", campaignId)
+      .gt("updated_at", since),
+  ]);
+
+  const changedError = ordersResult.error ?? itemsResult.error;
+  if (changedError) {
+    console.error("Error fetching changed orders:", changedError);
+    throw changedError;
+  }
+
+  const orderIds = [
+    ...new Set([
+      ...(ordersResult.data || []).map((order) => order.id as number),
+      ...(itemsResult.data || []).map((item) => item.order_id as number),
+    ]),
+  ];
+  if (orderIds.length === 0) return [];
 
-  // Update the order
-  const { error: updateError } = await supabase
+  const { data, error } = await supabase
     .from("orders")
-    .update({
-      subtotal,
-      updated_at: new Date().toISOString(),
-    })
-    .eq("id", orderId);
+    .select(
+      `
+      *,
+      taken_by_staff:staff_members!orders_taken_by_fkey(name),
+      order_items (
+        *,
+        item:items(*),
+        modifiers:order_item_modifiers(*)
+      ),
+      discounts:order_discounts(*),
+      payments(*),
+      adjustments:order_adjustments(*)
+    `
+    )
+    .in("id", orderIds)
+    .order("created_at", { ascending: true })
+    .order("id", { referencedTable: "order_items", ascending: true });
 
-  if (updateError) {
-    console.error("Error updating order subtotal:", updateError);
+  if (error) {
+    console.error("Error fetching changed orders:", error);
+    throw error;
   }
+
+  return data || [];
 }
 
 /**
- * Mark an order as picked up
+ * A changed row from a campaign's realtime order feed. Deletes only carry the id.
  */
-export async function markOrderPickedUp(orderId: number): Promise<Order> {
-  return updateOrderStatus(orderId, "picked_up");
-}
+export type OrderRowChange =
+  | { table: "orders"; eventType: "INSERT" | "UPDATE"; row: Order }
+  | { table: "order_items"; eventType: "INSERT" | "UPDATE"; row: OrderItem }
+  | { table: "order_item_modifiers"; eventType: "INSERT" | "UPDATE"; row: OrderItemModifier }
+  | { table: OrderRowTable; eventType: "DELETE"; id: number };
 
-// ============ Real-time Subscriptions ============
+type OrderRowTable = "orders" | "order_items" | "order_item_modifiers";
+
+const ORDER_TABLES: OrderRowTable[] = ["orders", "order_items", "order_item_modifiers"];
 
 /**
- * Subscribe to orders that become "ready" status for a campaign
- * Returns an unsubscribe function
+ * Subscribe to a campaign's changed orders, lines and modifiers
+ * Hands over each changed row as-is; see lib/orderStore for applying them.
+ * `onConnectionChange` reports when the feed goes live or drops. Changes
+ * made while it was down aren't replayed, so catch up each time it goes live.
  */
-export function subscribeToReadyOrders(
+export function subscribeToOrderChanges(
   campaignId: number,
-  onOrderReady: (order: Order) => void
+  onChange: (change: OrderRowChange) => void,
+  onConnectionChange: (isLive: boolean) => void
 ): () => void {
-  const channel: RealtimeChannel = supabase
-    .channel(`ready-orders-${campaignId}`)
-    .on(
-      "postgres_changes",
-      {
-        event: "UPDATE",
-        schema: "public",
-        table: "orders",
-        filter: `campaign_id=eq.${campaignId}`,
-      },
-      async (payload) => {
-        const newOrder = payload.new as Order;
-        // Only notify if the order just became "ready"
-        if (newOrder.status === "ready") {
-          // Fetch the full order with items
-          const fullOrder = await getOrderById(newOrder.id);
-          if (fullOrder) {
-            onOrderReady(fullOrder);
-          }
-        }
-      }
-    )
-    .subscribe();
+  const channel: RealtimeChannel = supabase.channel(`order-changes-${campaignId}`);
+  const filter = `campaign_id=eq.${campaignId}`;
 
-  // Return unsubscribe function
-  return () => {
-    supabase.removeChannel(channel);
-  };
-}
+  for (const table of ORDER_TABLES) {
+    channel
+      .on("postgres_changes", { event: "INSERT", schema: "public", table, filter }, (payload) =>
+        onChange({ table, eventType: "INSERT", row: payload.new } as OrderRowChange)
+      )
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table, filter }, (payload) =>
+        onChange({ table, eventType: "UPDATE", row: payload.new } as OrderRowChange)
+      )
+      // Realtime can't filter deletes, and only sends the deleted row's id
+      .on("postgres_changes", { event: "DELETE", schema: "public", table }, (payload) =>
+        onChange({ table, eventType: "DELETE", id: (payload.old as { id: number }).id })
+      );
+  }
 
-/**
- * Subscribe to all order changes for a campaign
- */
-export function subscribeToOrders(
-  campaignId: number,
-  onOrderChange: (eventType: "INSERT" | "UPDATE" | "DELETE", order: Order) => void
-): () => void {
-  const channel: RealtimeChannel = supabase
-    .channel(`orders-${campaignId}`)
-    .on(
-      "postgres_changes",
-      {
-        event: "*",
-        schema: "public",
-        table: "orders",
-        filter: `campaign_id=eq.${campaignId}`,
-      },
-      async (payload) => {
-        const order = (payload.new || payload.old) as Order;
-        const eventType = payload.eventType as "INSERT" | "UPDATE" | "DELETE";
-
-        if (eventType === "DELETE") {
-          onOrderChange(eventType, payload.old as Order);
-        } else {
-          // Fetch full order with items for INSERT/UPDATE
-          const fullOrder = await getOrderById(order.id);
-          if (fullOrder) {
-            onOrderChange(eventType, fullOrder);
-          }
-        }
-      }
-    )
-    .subscribe();
+  channel.subscribe((status) => onConnectionChange(status === "SUBSCRIBED"));
 
   return () => {
     supabase.removeChannel(channel);
@@ -792,23 +785,30 @@ export function subscribeToOrders(
 
 /**
  * Fetch active orders for kitchen display (new, in_progress, ready)
- * These are orders that kitchen staff need to see and work on
+ * These are orders that kitchen staff need to see and work on. Scheduled
+ * orders are left out until `leadMinutes` before their pickup time.
  */
-export async function getKitchenOrders(campaignId: number): Promise<Order[]> {
+export async function getKitchenOrders(campaignId: number, leadMinutes = 0): Promise<Order[]> {
+  const fireBy = new Date(Date.now() + leadMinutes * 60000).toISOString();
   const { data, error } = await supabase
     .from("orders")
     .select(
       `
       *,
+      taken_by_staff:staff_members!orders_taken_by_fkey(name),
       order_items (
         *,
         item:items(*),
         modifiers:order_item_modifiers(*)
-      )
+      ),
+      discounts:order_discounts(*),
+      payments(*),
+      adjustments:order_adjustments(*)
     `
     )
     .eq("campaign_id", campaignId)
     .in("status", ["new", "in_progress", "ready"])
+    .or(`scheduled_for.is.null,scheduled_for.lte.${fireBy}`)
     .order("created_at", { ascending: true }) // Oldest first for kitchen
     .order("id", { referencedTable: "order_items", ascending: true });
 
@@ -821,63 +821,54 @@ export async function getKitchenOrders(campaignId: number): Promise<Order[]> {
 }
 
 /**
- * Subscribe to kitchen order changes (new, in_progress, ready orders)
- * This is optimized for the kitchen display which needs real-time updates
+ * Fetch scheduled orders the kitchen hasn't been sent yet, soonest pickup first
  */
-export function subscribeToKitchenOrders(
-  campaignId: number,
-  onOrderChange: (eventType: "INSERT" | "UPDATE" | "DELETE", order: Order) => void
-): () => void {
-  const orderChannel: RealtimeChannel = supabase
-    .channel(`kitchen-orders-${campaignId}`)
-    .on(
-      "postgres_changes",
-      {
-        event: "*",
-        schema: "public",
-        table: "orders",
-        filter: `campaign_id=eq.${campaignId}`,
-      },
-      async (payload) => {
-        const order = (payload.new || payload.old) as Order;
-        const eventType = payload.eventType as "INSERT" | "UPDATE" | "DELETE";
-
-        if (eventType === "DELETE") {
-          onOrderChange(eventType, payload.old as Order);
-        } else {
-          // Fetch full order with items for INSERT/UPDATE
-          const fullOrder = await getOrderById(order.id);
-          if (fullOrder) {
-            onOrderChange(eventType, fullOrder);
-          }
-        }
-      }
-    )
-    .subscribe();
-
-  // Also subscribe to order_items changes to catch item-level status updates
-  const itemsChannel: RealtimeChannel = supabase
-    .channel(`kitchen-order-items-${campaignId}`)
-    .on(
-      "postgres_changes",
-      {
-        event: "UPDATE",
-        schema: "public",
-        table: "order_items",
-      },
-      async (payload) => {
-        const orderItem = payload.new as { order_id: number };
-        // Fetch the full order to get updated item statuses
-        const fullOrder = await getOrderById(orderItem.order_id);
-        if (fullOrder && fullOrder.campaign_id === campaignId) {
-          onOrderChange("UPDATE", fullOrder);
-        }
-      }
+export async function getScheduledOrders(campaignId: number, leadMinutes = 0): Promise<Order[]> {
+  const fireBy = new Date(Date.now() + leadMinutes * 60000).toISOString();
+  const { data, error } = await supabase
+    .from("orders")
+    .select(
+      `
+      *,
+      taken_by_staff:staff_members!orders_taken_by_fkey(name),
+      order_items (
+        *,
+        item:items(*),
+        modifiers:order_item_modifiers(*)
+      ),
+      discounts:order_discounts(*),
+      payments(*),
+      adjustments:order_adjustments(*)
+    `
     )
-    .subscribe();
+    .eq("campaign_id", campaignId)
+    .eq("status", "new")
+    .gt("scheduled_for", fireBy)
+    .order("scheduled_for", { ascending: true })
+    .order("id", { referencedTable: "order_items", ascending: true });
 
-  return () => {
-    supabase.removeChannel(orderChannel);
-    supabase.removeChannel(itemsChannel);
-  };
+  if (error) {
+    console.error("Error fetching scheduled orders:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+// ============ Order Board Functions ============
+
+/**
+ * Fetch the orders shown on the customer-facing board (new, in_progress, ready)
+ * for the active campaign. Works without signing in and returns names and
+ * status only; scheduled orders are left out until the kitchen fires them.
+ */
+export async function getPublicBoard(): Promise<BoardOrder[]> {
+  const { data, error } = await supabase.rpc("get_public_board");
+
+  if (error) {
+    console.error("Error fetching board orders:", error);
+    throw error;
+  }
+
+  return (data as BoardOrder[] | null) ?? [];
 }
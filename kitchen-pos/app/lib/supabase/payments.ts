@@ -0,0 +1,90 @@
+import { supabase } from "./client";
+import type { Order, Payment, Tender } from "@/app/types";
+import type { PostgrestError } from "@supabase/supabase-js";
+
+// ============ Errors ============
+
+export type PaymentErrorCode =
+  | "invalid_payment"
+  | "overpayment"
+  | "order_not_found"
+  | "unknown";
+
+const PAYMENT_ERROR_CODES: PaymentErrorCode[] = [
+  "invalid_payment",
+  "overpayment",
+  "order_not_found",
+];
+
+/**
+ * Error thrown when the record_payments RPC rejects a payment.
+ * `code` identifies the reason; `message` is safe to show to staff.
+ */
+export class PaymentError extends Error {
+  code: PaymentErrorCode;
+
+  constructor(code: PaymentErrorCode, message: string) {
+    super(message);
+    this.name = "PaymentError";
+    this.code = code;
+  }
+}
+
+function toPaymentError(error: PostgrestError): PaymentError {
+  const code = PAYMENT_ERROR_CODES.find((c) => c === error.message) ?? "unknown";
+  const message =
+    code === "unknown"
+      ? "Failed to record payment. Please try again."
+      : error.details || error.message;
+  return new PaymentError(code, message);
+}
+
+/**
+ * Shape tenders the way record_payments and place_order expect them
+ */
+export function toPaymentsPayload(tenders: Tender[]) {
+  return tenders.map((tender) => ({
+    method: tender.method,
+    amount: tender.amount,
+    tendered: tender.method === "cash" ? tender.tendered ?? tender.amount : null,
+    reference: tender.reference || null,
+  }));
+}
+
+// ============ Payments ============
+
+/**
+ * Record one or more tenders against an existing order
+ * Returns the order with its updated payment_status
+ */
+export async function recordPayments(orderId: number, tenders: Tender[]): Promise<Order> {
+  const { data, error } = await supabase.rpc("record_payments", {
+    p_order_id: orderId,
+    p_payments: toPaymentsPayload(tenders),
+  });
+
+  if (error) {
+    console.error("Error recording payments:", error);
+    throw toPaymentError(error);
+  }
+
+  return data as Order;
+}
+
+/**
+ * Fetch all payments for an order, oldest first
+ */
+export async function getPaymentsForOrder(orderId: number): Promise<Payment[]> {
+  const { data, error } = await supabase
+    .from("payments")
+    .select("*")
+    .eq("order_id", orderId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching payments:", error);
+    throw error;
+  }
+
+  return data || [];
+}
@@ -0,0 +1,99 @@
+import { supabase, setStaffSessionToken } from "./client";
+import type { StaffMember } from "@/app/types";
+import type { PostgrestError } from "@supabase/supabase-js";
+
+// Staff sign in on a shared device with a PIN. The device account stays
+// signed in; a staff session only says who is using it right now.
+
+// ============ Errors ============
+
+export type StaffSessionErrorCode = "invalid_pin" | "pin_locked" | "staff_not_found" | "unknown";
+
+const STAFF_SESSION_ERROR_CODES: StaffSessionErrorCode[] = ["invalid_pin", "pin_locked", "staff_not_found"];
+
+/**
+ * Error thrown when a staff member can't sign in.
+ * `code` identifies the reason; `message` is safe to show to staff.
+ */
+export class StaffSessionError extends Error {
+  code: StaffSessionErrorCode;
+
+  constructor(code: StaffSessionErrorCode, message: string) {
+    super(message);
+    this.name = "StaffSessionError";
+    this.code = code;
+  }
+}
+
+function toStaffSessionError(error: PostgrestError): StaffSessionError {
+  const code = STAFF_SESSION_ERROR_CODES.find((c) => c === error.message) ?? "unknown";
+  const message =
+    code === "unknown"
+      ? "Couldn't sign in. Please try again."
+      : error.details || error.message;
+  return new StaffSessionError(code, message);
+}
+
+// ============ Staff ============
+
+/**
+ * Fetch the staff members who can sign in with a PIN
+ */
+export async function getStaffMembers(): Promise<StaffMember[]> {
+  const { data, error } = await supabase
+    .from("staff_members")
+    .select("id, name, role, is_active")
+    .eq("is_active", true)
+    .order("name");
+
+  if (error) {
+    console.error("Error fetching staff members:", error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+// ============ Sessions ============
+
+/**
+ * Sign a staff member in on this device with their PIN
+ * Every request after this is made on their behalf until endStaffSession
+ */
+export async function startStaffSession(
+  staffId: number,
+  pin: string
+): Promise<{ token: string; staff: StaffMember }> {
+  const { data, error } = await supabase.rpc("start_staff_session", {
+    p_staff_id: staffId,
+    p_pin: pin,
+  });
+
+  if (error) {
+    console.error("Error starting staff session:", error);
+    throw toStaffSessionError(error);
+  }
+
+  if (!data) {
+    throw new StaffSessionError("invalid_pin", "Wrong PIN. Please try again.");
+  }
+
+  const session = data as { token: string; staff: StaffMember };
+  setStaffSessionToken(session.token);
+  return session;
+}
+
+/**
+ * Sign the current staff member out of this device
+ */
+export async function endStaffSession(token: string): Promise<void> {
+  // Stop acting as them straight away, even if the request fails
+  setStaffSessionToken(null);
+
+  const { error } = await supabase.rpc("end_staff_session", { p_token: token });
+
+  if (error) {
+    console.error("Error ending staff session:", error);
+    throw error;
+  }
+}
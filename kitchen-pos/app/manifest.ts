@@ -1,25 +1,35 @@
 import type { MetadataRoute } from 'next'
- 
+import { APP_NAME, BACKGROUND_COLOR, BRAND_COLOR } from './lib/appIcon'
+
 export default function manifest(): MetadataRoute.Manifest {
   return {
-    name: 'Next.js PWA',
-    short_name: 'NextPWA',
-    description: 'A Progressive Web App built with Next.js',
+    name: APP_NAME,
+    short_name: process.env.NEXT_PUBLIC_ORG_NAME || 'Kitchen',
+    description: 'Order terminal, kitchen display and order board',
     start_url: '/',
     display: 'standalone',
-    background_color: '#ffffff',
-    theme_color: '#000000',
+    orientation: 'any',
+    background_color: BACKGROUND_COLOR,
+    theme_color: BRAND_COLOR,
     icons: [
       {
-        src: '/icon-192x192.png',
+        src: '/icon/192',
         sizes: '192x192',
         type: 'image/png',
+        purpose: 'any',
       },
       {
-        src: '/icon-512x512.png',
+        src: '/icon/512',
         sizes: '512x512',
         type: 'image/png',
+        purpose: 'any',
+      },
+      {
+        src: '/icon/512',
+        sizes: '512x512',
+        type: 'image/png',
+        purpose: 'maskable',
       },
     ],
   }
-}
\ No newline at end of file
+}
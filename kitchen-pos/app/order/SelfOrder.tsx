@@ -0,0 +1,373 @@
+"use client";
+
+import { useState, useMemo, useEffect, useCallback, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { CartBundleComponent, CartItem, CartModifier, Category, Item, ItemVariant, PublicMenu } from "../types";
+import CategoryTabs from "../components/terminal/CategoryTabs";
+import ItemGrid from "../components/terminal/ItemGrid";
+import CartSidebar from "../components/terminal/CartSidebar";
+import ItemDetailModal from "../components/terminal/ItemDetailModal";
+import ThemeToggle from "../components/ThemeToggle";
+import { getPublicMenu, placePublicOrder, PlaceOrderError } from "../lib/supabase";
+import { buildCampaignPricing, calculateCartTotals, priceItem, priceModifier, priceVariant } from "../lib/pricing";
+
+// Picks up price, stock and menu changes while the page is left open
+const MENU_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+// How long the kiosk shows the order number before it is ready for the next customer
+const KIOSK_CONFIRMATION_MS = 15 * 1000;
+
+interface SelfOrderProps {
+  // Kiosks are shared: after ordering they show the order number and reset.
+  // On a customer's own phone we open the order's status page instead.
+  kiosk: boolean;
+}
+
+// Customer self-ordering from the active campaign's menu. Customers aren't
+// signed in, so everything goes through the public menu and order functions.
+export default function SelfOrder({ kiosk }: SelfOrderProps) {
+  const router = useRouter();
+
+  const [menu, setMenu] = useState<PublicMenu | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
+  const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const [customerName, setCustomerName] = useState("");
+  const [selectedItem, setSelectedItem] = useState<Item | null>(null);
+  const [isCartOpen, setIsCartOpen] = useState(false);
+  const [placedOrderId, setPlacedOrderId] = useState<number | null>(null);
+  // Key for the order in the cart, kept until it is placed so a repeat tap or
+  // retry returns the same order
+  const orderKeyRef = useRef<string | null>(null);
+
+  const loadMenu = useCallback(async () => {
+    try {
+      setMenu(await getPublicMenu());
+      setError(null);
+    } catch (err) {
+      console.error("Error loading menu:", err);
+      setError("Failed to load the menu. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMenu();
+    const interval = setInterval(loadMenu, MENU_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadMenu]);
+
+  const campaignPricing = useMemo(
+    () => buildCampaignPricing(menu?.campaign_items ?? [], menu?.modifier_prices ?? []),
+    [menu]
+  );
+
+  // The menu only has the campaign's items; show them at the campaign's prices
+  const menuItems = useMemo(
+    () => (menu?.items ?? []).map((item) => priceItem(item, campaignPricing)),
+    [menu, campaignPricing]
+  );
+
+  // Customers only learn what has sold out, so everything else has no count
+  const stockByItemId = useMemo(
+    () =>
+      new Map(
+        (menu?.sold_out ?? [])
+          .filter((level) => level.item_id !== null)
+          .map((level) => [level.item_id as number, 0])
+      ),
+    [menu]
+  );
+  const stockByModifierId = useMemo(
+    () =>
+      new Map(
+        (menu?.sold_out ?? [])
+          .filter((level) => level.modifier_id !== null)
+          .map((level) => [level.modifier_id as number, 0])
+      ),
+    [menu]
+  );
+
+  // Returns a message if the cart asks for more than is left in stock
+  const findStockShortfall = (cart: CartItem[]): string | null => {
+    const wantedItems = new Map<number, number>();
+    const wantedModifiers = new Map<number, number>();
+    cart.forEach((cartItem) => {
+      wantedItems.set(cartItem.item.id, (wantedItems.get(cartItem.item.id) || 0) + cartItem.quantity);
+      cartItem.components?.forEach((component) => {
+        wantedItems.set(component.item.id, (wantedItems.get(component.item.id) || 0) + cartItem.quantity);
+      });
+      cartItem.modifiers.forEach((mod) => {
+        wantedModifiers.set(mod.id, (wantedModifiers.get(mod.id) || 0) + cartItem.quantity * mod.quantity);
+      });
+    });
+
+    for (const [itemId, wanted] of wantedItems) {
+      const left = stockByItemId.get(itemId);
+      if (left !== undefined && wanted > left) {
+        const name = menuItems.find((item) => item.id === itemId)?.name ?? "This item";
+        return left === 0 ? `Sorry, ${name} is sold out` : `Sorry, only ${left} ${name} left`;
+      }
+    }
+    for (const [modifierId, wanted] of wantedModifiers) {
+      const left = stockByModifierId.get(modifierId);
+      if (left !== undefined && wanted > left) {
+        const name = menu?.modifiers.find((mod) => mod.id === modifierId)?.name ?? "This option";
+        return left === 0 ? `Sorry, ${name} is sold out` : `Sorry, only ${left} ${name} left`;
+      }
+    }
+    return null;
+  };
+
+  // An item's linked modifiers and their options, at the campaign's prices
+  const modifiersForItem = (itemId: number) => {
+    const linkedIds = new Set(
+      (menu?.item_modifiers ?? []).filter((link) => link.item_id === itemId).map((link) => link.modifier_id)
+    );
+    return (menu?.modifiers ?? [])
+      .filter((m) => linkedIds.has(m.id) || (m.parent_id !== null && linkedIds.has(m.parent_id)))
+      .map((modifier) => priceModifier(modifier, campaignPricing));
+  };
+
+  // An item's sizes at the campaign's prices
+  const variantsForItem = (item: Item) =>
+    (menu?.variants ?? [])
+      .filter((variant) => variant.item_id === item.id)
+      .map((variant) => priceVariant(variant, item, campaignPricing));
+
+  const filteredItems = useMemo(() => {
+    if (!selectedCategory) return menuItems;
+    return menuItems.filter((item) => item.category_id === selectedCategory.id);
+  }, [selectedCategory, menuItems]);
+
+  const handleAddToCart = (
+    item: Item,
+    quantity: number,
+    modifiers: CartModifier[],
+    notes: string,
+    variant?: ItemVariant,
+    components?: CartBundleComponent[]
+  ) => {
+    const newCartItem: CartItem = {
+      id: `${item.id}-${Date.now()}`,
+      item,
+      variant,
+      components,
+      quantity,
+      modifiers,
+      notes,
+    };
+    const shortfall = findStockShortfall([...cartItems, newCartItem]);
+    if (shortfall) {
+      alert(shortfall);
+      return;
+    }
+    setCartItems((prev) => [...prev, newCartItem]);
+    setSelectedItem(null);
+  };
+
+  const handleUpdateCartItem = (cartItemId: string, quantity: number) => {
+    if (quantity <= 0) {
+      setCartItems((prev) => prev.filter((item) => item.id !== cartItemId));
+      return;
+    }
+    const shortfall = findStockShortfall(
+      cartItems.map((item) => (item.id === cartItemId ? { ...item, quantity } : item))
+    );
+    if (shortfall) {
+      alert(shortfall);
+      return;
+    }
+    setCartItems((prev) =>
+      prev.map((item) => (item.id === cartItemId ? { ...item, quantity } : item))
+    );
+  };
+
+  const handleClearCart = () => {
+    orderKeyRef.current = null;
+    setCartItems([]);
+    setCustomerName("");
+  };
+
+  // Preview only - the database prices the order from the current menu when it is placed
+  const cartTotals = calculateCartTotals(cartItems, menu?.campaign ?? null, null, 0);
+
+  const handlePlaceOrder = async (): Promise<boolean> => {
+    if (!customerName.trim()) {
+      alert("Please enter your name so we can call you when it's ready");
+      return false;
+    }
+    if (cartItems.length === 0) {
+      alert("Your order is empty");
+      return false;
+    }
+
+    try {
+      const receipt = await placePublicOrder(
+        customerName.trim(),
+        cartItems,
+        (orderKeyRef.current ??= crypto.randomUUID())
+      );
+      handleClearCart();
+
+      if (kiosk) {
+        setPlacedOrderId(receipt.id);
+        setTimeout(() => setPlacedOrderId(null), KIOSK_CONFIRMATION_MS);
+        // Stock went down with this order
+        loadMenu();
+      } else {
+        router.push(`/order/status/${receipt.token}`);
+      }
+      return true;
+    } catch (err) {
+      console.error("Error placing order:", err);
+      alert(
+        err instanceof PlaceOrderError && err.code !== "unknown"
+          ? err.message
+          : "Failed to place your order. Please try again."
+      );
+      // The menu may have changed under the customer, e.g. an item sold out
+      loadMenu();
+      return false;
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-surface">
+        <div className="text-center">
+          <div className="mb-4 h-12 w-12 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto"></div>
+          <p className="text-on-surface-variant">Loading menu...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-surface">
+        <div className="text-center">
+          <p className="text-error mb-4">{error}</p>
+          <button
+            onClick={() => window.location.reload()}
+            className="rounded-full bg-primary px-6 py-2 text-on-primary"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!menu) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-surface px-4">
+        <div className="text-center">
+          <h1 className="text-2xl font-medium text-on-surface mb-2">Ordering is closed</h1>
+          <p className="text-on-surface-variant">Please check back later or order at the counter.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex h-screen overflow-hidden bg-surface">
+      {/* Kiosk order confirmation - tap to start the next order */}
+      {placedOrderId !== null && (
+        <button
+          onClick={() => setPlacedOrderId(null)}
+          className="fixed inset-0 z-[60] flex flex-col items-center justify-center bg-surface px-6 text-center"
+        >
+          <p className="text-on-surface-variant">Thanks! Your order number is</p>
+          <p className="my-4 text-7xl font-bold text-primary">#{placedOrderId}</p>
+          <p className="text-lg text-on-surface">Please pay at the counter.</p>
+          <p className="mt-1 text-on-surface-variant">We&apos;ll call your name when it&apos;s ready.</p>
+          <span className="mt-10 rounded-full bg-primary px-8 py-3 font-medium text-on-primary">
+            Start a new order
+          </span>
+        </button>
+      )}
+
+      <div className="flex flex-1 flex-col overflow-hidden">
+        <header className="flex items-center justify-between border-b border-outline-variant bg-surface-container-low px-3 py-3 sm:px-6 sm:py-4">
+          <h1 className="text-lg font-medium text-on-surface sm:text-2xl">
+            {process.env.NEXT_PUBLIC_ORG_NAME || "Kitchen"} · {menu.campaign.name}
+          </h1>
+          <ThemeToggle />
+        </header>
+
+        <CategoryTabs
+          categories={menu.categories}
+          selectedCategory={selectedCategory}
+          onSelectCategory={setSelectedCategory}
+        />
+
+        <main className="flex-1 overflow-y-auto p-3 pb-24 sm:p-6 sm:pb-6">
+          <ItemGrid
+            items={filteredItems}
+            stockByItemId={stockByItemId}
+            onItemClick={setSelectedItem}
+          />
+        </main>
+      </div>
+
+      {/* Mobile Cart FAB */}
+      <button
+        onClick={() => setIsCartOpen(true)}
+        className="fixed bottom-6 right-6 z-40 flex h-14 items-center gap-2 rounded-full bg-primary px-5 text-on-primary shadow-[var(--md-elevation-3)] transition-transform active:scale-95 lg:hidden"
+      >
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className="h-6 w-6"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M3 3h2l.4 2M7 13h10l4-8H5.4M7 13L5.4 5M7 13l-2.293 2.293c-.63.63-.184 1.707.707 1.707H17m0 0a2 2 0 100 4 2 2 0 000-4zm-8 2a2 2 0 11-4 0 2 2 0 014 0z"
+          />
+        </svg>
+        {cartItems.length > 0 && (
+          <span className="font-medium">
+            {cartItems.length} · ${cartTotals.total.toFixed(2)}
+          </span>
+        )}
+      </button>
+
+      {/* No discounts, tips or payments here - customers pay at the counter */}
+      <CartSidebar
+        cartItems={cartItems}
+        customerName={customerName}
+        onCustomerNameChange={setCustomerName}
+        onUpdateQuantity={handleUpdateCartItem}
+        onRemoveItem={(cartItemId) => handleUpdateCartItem(cartItemId, 0)}
+        onClearCart={handleClearCart}
+        onPlaceOrder={handlePlaceOrder}
+        totals={cartTotals}
+        isOpen={isCartOpen}
+        onClose={() => setIsCartOpen(false)}
+      />
+
+      {selectedItem && (
+        <ItemDetailModal
+          item={selectedItem}
+          variants={variantsForItem(selectedItem)}
+          modifiers={modifiersForItem(selectedItem.id)}
+          modifierGroups={menu.modifier_groups}
+          bundleSlots={menu.bundle_slots.filter((s) => s.bundle_item_id === selectedItem.id)}
+          items={menuItems}
+          isOpen
+          onClose={() => setSelectedItem(null)}
+          onAddToCart={handleAddToCart}
+          stockQuantity={stockByItemId.get(selectedItem.id)}
+          modifierStock={stockByModifierId}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+import SelfOrder from "./SelfOrder";
+
+// Customers order from their own phone, e.g. from a QR code on the table
+export default function OrderPage() {
+  return <SelfOrder kiosk={false} />;
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { use, useEffect, useState } from "react";
+import Link from "next/link";
+import { OrderStatus, PublicOrder, PublicOrderItem } from "../../../types";
+import { getPublicOrder } from "../../../lib/supabase";
+import { formatPickupTime } from "../../../lib/scheduling";
+
+// Customers aren't signed in, so there's no realtime feed; poll often instead
+const STATUS_POLL_INTERVAL_MS = 5 * 1000;
+
+const STATUS_STEPS: { status: OrderStatus; label: string }[] = [
+  { status: "new", label: "Received" },
+  { status: "in_progress", label: "Being made" },
+  { status: "ready", label: "Ready for pickup" },
+];
+
+const STATUS_MESSAGES: Record<OrderStatus, string> = {
+  new: "We've got your order.",
+  in_progress: "The kitchen is making your order.",
+  ready: "Your order is ready! Come and pick it up.",
+  picked_up: "Picked up. Enjoy!",
+  cancelled: "This order was cancelled. Please ask at the counter.",
+};
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+
+// Where one line of the order is up to
+const itemProgress = (item: PublicOrderItem): string => {
+  if (item.refunded_at) return "Refunded";
+  switch (item.status) {
+    case "cancelled":
+      return "Cancelled";
+    case "picked_up":
+      return "Picked up";
+    case "done":
+      return item.done_at ? `Done at ${formatTime(item.done_at)}` : "Done";
+    case "in_progress":
+      return item.started_at ? `Making since ${formatTime(item.started_at)}` : "Making";
+    default:
+      return "Waiting";
+  }
+};
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+  }).format(price);
+};
+
+// A customer's view of their order, opened from the link they get after
+// ordering or that staff copy for them. Looked up by the order's public token.
+export default function OrderStatusPage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = use(params);
+  const [order, setOrder] = useState<PublicOrder | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Poll until the order is finished with
+  const isFinished = order?.status === "picked_up" || order?.status === "cancelled";
+
+  useEffect(() => {
+    if (isFinished) return;
+
+    async function loadOrder() {
+      try {
+        setOrder(await getPublicOrder(token));
+        setError(null);
+      } catch (err) {
+        console.error("Error loading order:", err);
+        setError("Couldn't check on your order. Retrying...");
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadOrder();
+    const interval = setInterval(loadOrder, STATUS_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [token, isFinished]);
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-surface">
+        <div className="mb-4 h-12 w-12 animate-spin rounded-full border-4 border-primary border-t-transparent mx-auto"></div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-surface px-4">
+        <div className="text-center">
+          <p className="text-on-surface mb-4">{error ?? "We couldn't find this order."}</p>
+          <Link href="/order" className="rounded-full bg-primary px-6 py-2 text-on-primary">
+            Back to menu
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const currentStep = STATUS_STEPS.findIndex((step) => step.status === order.status);
+
+  return (
+    <div className="min-h-screen bg-surface px-4 py-8">
+      <div className="mx-auto max-w-md">
+        <div className="mb-6 text-center">
+          <p className="text-on-surface-variant">Order for {order.customer_name}</p>
+          <h1 className="text-5xl font-bold text-primary">#{order.id}</h1>
+        </div>
+
+        {/* Progress */}
+        {currentStep >= 0 && (
+          <ol className="mb-4 flex gap-2">
+            {STATUS_STEPS.map((step, index) => (
+              <li key={step.status} className="flex-1 text-center">
+                <div
+                  className={`mb-1 h-2 rounded-full ${
+                    index <= currentStep ? "bg-primary" : "bg-surface-container-high"
+                  }`}
+                />
+                <span
+                  className={`text-xs ${
+                    index === currentStep ? "font-medium text-on-surface" : "text-on-surface-variant"
+                  }`}
+                >
+                  {step.label}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <p
+          className={`mb-6 rounded-lg p-4 text-center ${
+            order.status === "ready"
+              ? "bg-primary text-on-primary"
+              : order.status === "cancelled"
+              ? "border border-error text-error"
+              : "bg-surface-container text-on-surface"
+          }`}
+        >
+          {STATUS_MESSAGES[order.status]}
+        </p>
+
+        {/* Estimated ready time */}
+        {order.estimated_ready_at && (
+          <p className="mb-6 text-center text-on-surface-variant">
+            {order.scheduled_for ? (
+              <>Pickup at {formatPickupTime(order.scheduled_for)}</>
+            ) : new Date(order.estimated_ready_at).getTime() > Date.now() ? (
+              <>Ready around <span className="font-medium text-on-surface">{formatTime(order.estimated_ready_at)}</span></>
+            ) : (
+              "Ready any minute now"
+            )}
+          </p>
+        )}
+
+        {/* Items */}
+        <ul className="divide-y divide-outline-variant rounded-lg border border-outline-variant">
+          {order.items.map((item) => (
+            <li key={item.id} className="flex items-center justify-between px-4 py-3">
+              <span className={item.refunded_at ? "text-on-surface-variant line-through" : "text-on-surface"}>
+                {item.quantity}× {item.item_name}
+                {item.variant_name && <span className="text-on-surface-variant"> ({item.variant_name})</span>}
+              </span>
+              <span
+                className={`text-xs ${
+                  item.status === "done" ? "font-medium text-primary" : "text-on-surface-variant"
+                }`}
+              >
+                {itemProgress(item)}
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        <div className="mt-4 flex justify-between text-on-surface">
+          <span>Total</span>
+          <span className="font-semibold">{formatPrice(order.total)}</span>
+        </div>
+        {(order.payment_status === "unpaid" || order.payment_status === "partial") && order.status !== "cancelled" && (
+          <p className="mt-1 text-right text-sm text-on-surface-variant">Pay at the counter</p>
+        )}
+
+        {error && <p className="mt-4 text-center text-sm text-error">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -45,8 +45,68 @@ function KitchenIcon() {
   );
 }
 
+// Inventory icon (clipboard list)
+function InventoryIcon() {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      className="h-8 w-8"
+      fill="none"
+      viewBox="0 0 24 24"
+      stroke="currentColor"
+      strokeWidth={1.5}
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01"
+      />
+    </svg>
+  );
+}
+
+// Kiosk icon (tablet)
+function KioskIcon() {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      className="h-8 w-8"
+      fill="none"
+      viewBox="0 0 24 24"
+      stroke="currentColor"
+      strokeWidth={1.5}
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M12 18h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z"
+      />
+    </svg>
+  );
+}
+
+// Order board icon (TV screen)
+function BoardIcon() {
+  return (
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      className="h-8 w-8"
+      fill="none"
+      viewBox="0 0 24 24"
+      stroke="currentColor"
+      strokeWidth={1.5}
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
+      />
+    </svg>
+  );
+}
+
 export default function Home() {
-  const { user, isLoading, signOut } = useAuth();
+  const { user, isLoading, signOut, can } = useAuth();
 
   // Loading state
   if (isLoading) {
@@ -103,18 +163,40 @@ export default function Home() {
       </div>
 
       <div className="grid w-full max-w-2xl gap-6 sm:grid-cols-2">
-        <StationCard
-          title="Order Terminal"
-          description="Take customer orders and manage the queue"
-          href="/terminal"
-          icon={<TerminalIcon />}
-        />
+        {can("take_orders") && (
+          <StationCard
+            title="Order Terminal"
+            description="Take customer orders and manage the queue"
+            href="/terminal"
+            icon={<TerminalIcon />}
+          />
+        )}
         <StationCard
           title="Kitchen Display"
           description="View and manage order preparation"
           href="/kitchen"
           icon={<KitchenIcon />}
         />
+        {can("manage_stock") && (
+          <StationCard
+            title="Inventory"
+            description="Set up recipes, prep ingredients and see usage"
+            href="/inventory"
+            icon={<InventoryIcon />}
+          />
+        )}
+        <StationCard
+          title="Customer Kiosk"
+          description="Let customers order for themselves; phones can use /order"
+          href="/kiosk"
+          icon={<KioskIcon />}
+        />
+        <StationCard
+          title="Order Board"
+          description="Show customers which orders are preparing and ready"
+          href="/board"
+          icon={<BoardIcon />}
+        />
       </div>
     </div>
   );
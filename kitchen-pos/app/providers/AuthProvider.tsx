@@ -12,17 +12,33 @@ import {
   User,
   Session,
   getSession,
+  getStaffRole,
+  getStaffMembers,
+  startStaffSession,
+  endStaffSession,
   onAuthStateChange,
   signIn as authSignIn,
   signOut as authSignOut,
 } from "../lib/supabase";
+import { StaffMember, StaffRole } from "../types";
+import { Permission, hasPermission } from "../lib/permissions";
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  // The acting staff member's role, else the account's until the device has
+  // staff PINs; null until loaded, while locked, or without a staff profile
+  role: StaffRole | null;
+  can: (permission: Permission) => boolean;
   isLoading: boolean;
   signIn: (email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
+  // Shared devices: staff who can sign in with a PIN, and who is signed in now
+  staffMembers: StaffMember[];
+  staff: StaffMember | null;
+  isStaffLocked: boolean; // The device has staff PINs and nobody is signed in
+  unlockStaff: (staffId: number, pin: string) => Promise<void>;
+  lockStaff: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -31,6 +47,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // The role that was loaded, and whose it is
+  const [loadedRole, setLoadedRole] = useState<{
+    userId: string;
+    role: StaffRole | null;
+    staffMembers: StaffMember[];
+  } | null>(null);
+  const [staffSession, setStaffSession] = useState<{ token: string; staff: StaffMember } | null>(null);
 
   useEffect(() => {
     // Get initial session
@@ -60,6 +83,47 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     };
   }, []);
 
+  // Load the staff role, and who can sign in on this device, whenever a
+  // different user signs in
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+
+    async function loadRole(id: string) {
+      try {
+        const [role, staffMembers] = await Promise.all([getStaffRole(id), getStaffMembers()]);
+        setLoadedRole({ userId: id, role, staffMembers });
+      } catch (error) {
+        console.error("Error loading staff role:", error);
+        setLoadedRole({ userId: id, role: null, staffMembers: [] });
+      }
+    }
+
+    loadRole(userId);
+  }, [userId]);
+
+  const isRoleLoaded = !!userId && loadedRole?.userId === userId;
+  const staffMembers = isRoleLoaded ? loadedRole.staffMembers : [];
+  const staff = isRoleLoaded ? staffSession?.staff ?? null : null;
+  const isStaffLocked = staffMembers.length > 0 && !staff;
+  const role = staff ? staff.role : isRoleLoaded && !isStaffLocked ? loadedRole.role : null;
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
+  const unlockStaff = useCallback(async (staffId: number, pin: string) => {
+    setStaffSession(await startStaffSession(staffId, pin));
+  }, []);
+
+  const lockStaff = useCallback(async () => {
+    if (!staffSession) return;
+    setStaffSession(null);
+    try {
+      await endStaffSession(staffSession.token);
+    } catch (error) {
+      // The session expires on its own
+      console.error("Error signing staff out:", error);
+    }
+  }, [staffSession]);
+
   const signIn = useCallback(async (email: string, password: string) => {
     setIsLoading(true);
     try {
@@ -72,14 +136,31 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const signOut = useCallback(async () => {
     setIsLoading(true);
     try {
+      await lockStaff();
       await authSignOut();
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [lockStaff]);
 
   return (
-    <AuthContext.Provider value={{ user, session, isLoading, signIn, signOut }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        session,
+        role,
+        can,
+        // Signed-in users aren't ready until their role is known
+        isLoading: isLoading || (!!userId && !isRoleLoaded),
+        signIn,
+        signOut,
+        staffMembers,
+        staff,
+        isStaffLocked,
+        unlockStaff,
+        lockStaff,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,266 @@
+"use client";
+
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useCallback,
+  ReactNode,
+} from "react";
+import {
+  getItems,
+  getOrderById,
+  getOrdersChangedSince,
+  subscribeToOrderChanges,
+  updateMultipleOrderItemsStatus,
+  updateOrderStatus,
+} from "../lib/supabase";
+import type { OrderRowChange } from "../lib/supabase";
+import {
+  OrderStoreState,
+  applyOrderChange,
+  emptyOrderStore,
+  needsFullOrder,
+  selectKitchenOrders,
+  selectOrder,
+  selectReadyOrders,
+  selectRecentOrders,
+  selectWatermark,
+  setOrderItemStatuses,
+  setOrderStatus,
+  storeOrders,
+} from "../lib/orderStore";
+import { Item, Order, OrderItemStatus, OrderStatus } from "../types";
+
+// Catching up re-reads a little before the watermark, for changes committed
+// after later ones had already arrived
+const CATCH_UP_OVERLAP_MS = 60000;
+
+interface OrderStoreContextType {
+  state: OrderStoreState;
+  liveCampaignIds: number[]; // Campaigns whose realtime feed is connected
+  // Keep a campaign's orders current from the realtime feed until the
+  // returned function is called
+  watchCampaign: (campaignId: number) => () => void;
+  // Orders fetched by a page, e.g. a page of recent orders
+  addOrders: (orders: Order[]) => void;
+  refreshOrder: (orderId: number) => Promise<void>;
+  // Shown straight away; put back if the server refuses
+  changeOrderStatus: (orderId: number, status: OrderStatus) => Promise<void>;
+  changeOrderItemStatus: (orderItemIds: number[], status: OrderItemStatus) => Promise<void>;
+}
+
+const OrderStoreContext = createContext<OrderStoreContextType | undefined>(undefined);
+
+export function OrderStoreProvider({ children }: { children: ReactNode }) {
+  const [state, setState] = useState<OrderStoreState>(emptyOrderStore);
+  const [liveCampaignIds, setLiveCampaignIds] = useState<number[]>([]);
+
+  // The state as last rendered, for deciding how to apply a change
+  const stateRef = useRef(state);
+  // Menu items for lines that arrive over the realtime feed
+  const menuItemsRef = useRef<Map<number, Item> | null>(null);
+  // One feed per campaign, however many views watch it
+  const watchesRef = useRef(
+    new Map<number, { count: number; startedAt: string; stop: () => void }>()
+  );
+
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
+  const addOrders = useCallback((orders: Order[]) => {
+    setState((prev) => storeOrders(prev, orders));
+  }, []);
+
+  const refreshOrder = useCallback(
+    async (orderId: number) => {
+      const order = await getOrderById(orderId);
+      if (order) {
+        addOrders([order]);
+      } else {
+        // Deleted since it was fetched
+        setState((prev) =>
+          applyOrderChange(prev, { table: "orders", eventType: "DELETE", id: orderId }, new Map())
+        );
+      }
+    },
+    [addOrders]
+  );
+
+  const watchCampaign = useCallback(
+    (campaignId: number) => {
+      const watches = watchesRef.current;
+      const existing = watches.get(campaignId);
+
+      if (existing) {
+        existing.count += 1;
+      } else {
+        if (!menuItemsRef.current) {
+          menuItemsRef.current = new Map();
+          getItems()
+            .then((items) => {
+              menuItemsRef.current = new Map(items.map((item) => [item.id, item]));
+            })
+            .catch((err) => console.error("Error loading menu items:", err));
+        }
+
+        const handleChange = (change: OrderRowChange) => {
+          if (needsFullOrder(stateRef.current, change) && change.eventType !== "DELETE") {
+            refreshOrder(change.row.id).catch((err) => console.error("Error fetching order:", err));
+            return;
+          }
+          setState((prev) => applyOrderChange(prev, change, menuItemsRef.current ?? new Map()));
+        };
+
+        // Changes made while the feed was down are never sent, so fetch them
+        const catchUp = async () => {
+          const watermark =
+            selectWatermark(stateRef.current, campaignId) ?? watches.get(campaignId)?.startedAt;
+          if (!watermark) return;
+          const since = new Date(new Date(watermark).getTime() - CATCH_UP_OVERLAP_MS).toISOString();
+          try {
+            addOrders(await getOrdersChangedSince(campaignId, since));
+          } catch (err) {
+            console.error("Error catching up on orders:", err);
+          }
+        };
+
+        const stop = subscribeToOrderChanges(campaignId, handleChange, (live) => {
+          setLiveCampaignIds((prev) => {
+            const others = prev.filter((id) => id !== campaignId);
+            return live ? [...others, campaignId] : others;
+          });
+          if (live) catchUp();
+        });
+        watches.set(campaignId, { count: 1, startedAt: new Date().toISOString(), stop });
+      }
+
+      return () => {
+        const watch = watches.get(campaignId);
+        if (!watch) return;
+        watch.count -= 1;
+        if (watch.count > 0) return;
+        watch.stop();
+        watches.delete(campaignId);
+        setLiveCampaignIds((prev) => prev.filter((id) => id !== campaignId));
+      };
+    },
+    [addOrders, refreshOrder]
+  );
+
+  const changeOrderStatus = useCallback(
+    async (orderId: number, status: OrderStatus) => {
+      setState((prev) => setOrderStatus(prev, orderId, status));
+      try {
+        await updateOrderStatus(orderId, status);
+      } catch (err) {
+        await refreshOrder(orderId).catch(() => {});
+        throw err;
+      }
+    },
+    [refreshOrder]
+  );
+
+  const changeOrderItemStatus = useCallback(
+    async (orderItemIds: number[], status: OrderItemStatus) => {
+      const orderIds = new Set(
+        orderItemIds.flatMap((id) => stateRef.current.orderItems[id]?.order_id ?? [])
+      );
+      setState((prev) => setOrderItemStatuses(prev, orderItemIds, status));
+      try {
+        // The order's own status follows from its lines'; the feed brings it
+        await updateMultipleOrderItemsStatus(orderItemIds, status);
+      } catch (err) {
+        await Promise.all([...orderIds].map((id) => refreshOrder(id))).catch(() => {});
+        throw err;
+      }
+    },
+    [refreshOrder]
+  );
+
+  return (
+    <OrderStoreContext.Provider
+      value={{
+        state,
+        liveCampaignIds,
+        watchCampaign,
+        addOrders,
+        refreshOrder,
+        changeOrderStatus,
+        changeOrderItemStatus,
+      }}
+    >
+      {children}
+    </OrderStoreContext.Provider>
+  );
+}
+
+export function useOrderStore() {
+  const context = useContext(OrderStoreContext);
+  if (context === undefined) {
+    throw new Error("useOrderStore must be used within an OrderStoreProvider");
+  }
+  return context;
+}
+
+/**
+ * Keep a campaign's orders current while the calling view is mounted
+ * Returns whether the realtime feed is connected.
+ */
+export function useOrderFeed(campaignId: number | null): boolean {
+  const { watchCampaign, liveCampaignIds } = useOrderStore();
+
+  useEffect(() => {
+    if (campaignId === null) return;
+    return watchCampaign(campaignId);
+  }, [campaignId, watchCampaign]);
+
+  return campaignId !== null && liveCampaignIds.includes(campaignId);
+}
+
+const NO_ORDERS: Order[] = [];
+
+/**
+ * One order with its lines and modifiers, or null if it isn't held
+ */
+export function useOrder(orderId: number | null): Order | null {
+  const { state } = useOrderStore();
+  return useMemo(() => (orderId === null ? null : selectOrder(state, orderId)), [state, orderId]);
+}
+
+/**
+ * The orders on the kitchen display, oldest first
+ */
+export function useKitchenOrders(campaignId: number | null): Order[] {
+  const { state } = useOrderStore();
+  return useMemo(
+    () => (campaignId === null ? NO_ORDERS : selectKitchenOrders(state, campaignId)),
+    [state, campaignId]
+  );
+}
+
+/**
+ * Orders waiting for pickup, oldest first
+ */
+export function useReadyOrders(campaignId: number | null): Order[] {
+  const { state } = useOrderStore();
+  return useMemo(
+    () => (campaignId === null ? NO_ORDERS : selectReadyOrders(state, campaignId)),
+    [state, campaignId]
+  );
+}
+
+/**
+ * The campaign's orders held, newest first
+ */
+export function useRecentOrders(campaignId: number | null): Order[] {
+  const { state } = useOrderStore();
+  return useMemo(
+    () => (campaignId === null ? NO_ORDERS : selectRecentOrders(state, campaignId)),
+    [state, campaignId]
+  );
+}
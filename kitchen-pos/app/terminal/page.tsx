@@ -1,75 +1,163 @@
 "use client";
 
-import { useState, useMemo, useEffect, useCallback } from "react";
+import { useState, useMemo, useEffect, useCallback, useRef } from "react";
 import { useRouter } from "next/navigation";
-import { Campaign, Category, Item, CartItem, Modifier, Order, OrderItem, OrderStatus, OrderItemStatus } from "../types";
+import Link from "next/link";
+import { Campaign, CampaignItem, CampaignModifierPrice, BundleSlot, Category, Item, ItemModifier, ItemVariant, CartBundleComponent, CartItem, CartDiscount, CartModifier, Modifier, ModifierGroup, ModifierSelection, OrderItem, OrderStatus, OrderItemStatus, PendingOrder, StockLevel, Tender } from "../types";
 import CampaignSelector from "../components/terminal/CampaignSelector";
 import CategoryTabs from "../components/terminal/CategoryTabs";
 import ItemGrid from "../components/terminal/ItemGrid";
 import CartSidebar from "../components/terminal/CartSidebar";
 import ItemDetailModal from "../components/terminal/ItemDetailModal";
 import OrderItemEditModal from "../components/terminal/OrderItemEditModal";
+import PaymentModal from "../components/terminal/PaymentModal";
+import CampaignMenuModal, { CampaignMenu } from "../components/terminal/CampaignMenuModal";
+import { AdjustmentRequest } from "../components/terminal/OrderCard";
 import ThemeToggle from "../components/ThemeToggle";
+import StaffSwitcher from "../components/StaffSwitcher";
 import { useAuth } from "../providers/AuthProvider";
+import { useOrder, useOrderFeed, useOrderStore, useReadyOrders } from "../providers/OrderStoreProvider";
 import {
   getCampaigns,
+  getCampaignItems,
+  setCampaignItems,
+  addItemsToCampaign,
+  getCampaignModifierPrices,
+  setCampaignModifierPrices,
   getCategories,
   getItems,
   getModifiersForItem,
+  getItemModifierLinks,
   getModifiers,
+  getStockLevels,
+  setStockLevel,
+  subscribeToStockLevels,
   createOrder,
+  PlaceOrderError,
   getReadyOrders,
   getRecentOrders,
-  subscribeToReadyOrders,
-  subscribeToOrders,
-  updateOrderStatus,
-  updateOrderItemStatus,
   updateOrderItem,
-  deleteOrderItem,
-  getOrderById,
+  voidOrderItem,
+  voidOrder,
+  refundOrderItem,
+  refundOrder,
+  AdjustmentError,
   createCampaign,
   updateCampaign,
   createCategory,
   deleteCategory,
   createItem,
   deactivateItem,
+  getItemVariants,
+  createItemVariant,
+  updateItemVariant,
+  deactivateItemVariant,
+  getBundleSlots,
+  createBundleSlot,
+  updateBundleSlot,
+  deactivateBundleSlot,
+  setBundleSlotChoice,
+  removeBundleSlotChoice,
   createModifier,
+  updateModifier,
+  getModifierGroups,
+  createModifierGroup,
+  updateModifierGroup,
   linkModifierToItem,
   unlinkModifierFromItem,
   deactivateModifier,
+  recordPayments,
 } from "../lib/supabase";
+import type { CreateOrderInput, StockTarget } from "../lib/supabase";
+import {
+  cacheMenuData,
+  getCachedMenuData,
+  queueOrder,
+  getPendingOrders,
+  discardPendingOrder,
+  sendPendingOrders,
+  isOfflineError,
+} from "../lib/offline";
 import AddItemModal from "../components/terminal/AddItemModal";
+import { ModifierGroupRules } from "../components/terminal/ModifierGroupManager";
+import { VariantFields } from "../components/terminal/VariantManager";
+import {
+  buildCampaignPricing,
+  calculateCartTotals,
+  priceItem,
+  priceModifier,
+  priceVariant,
+  totalsMismatch,
+} from "../lib/pricing";
+
+// How often queued offline orders are retried, on top of when the browser
+// says it is back online
+const PENDING_ORDER_RETRY_MS = 30 * 1000;
+
+// Everything the terminal needs to take orders for a campaign, kept on the
+// device for when it is offline
+interface CachedMenu {
+  categories: Category[];
+  items: Item[];
+  modifiers: Modifier[];
+  modifierGroups: ModifierGroup[];
+  variants: ItemVariant[];
+  bundleSlots: BundleSlot[];
+  itemModifierLinks: ItemModifier[];
+  campaignItems: CampaignItem[];
+  modifierPrices: CampaignModifierPrice[];
+  stockLevels: StockLevel[];
+  savedAt: string;
+}
 
 export default function TerminalPage() {
   const router = useRouter();
-  const { user, isLoading: authLoading } = useAuth();
+  const { user, staff, isLoading: authLoading, can } = useAuth();
+  const { addOrders, refreshOrder, changeOrderStatus, changeOrderItemStatus } = useOrderStore();
 
   // Data from Supabase
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [items, setItems] = useState<Item[]>([]);
+  const [campaignMenu, setCampaignMenu] = useState<CampaignItem[]>([]);
+  const [modifierPriceOverrides, setModifierPriceOverrides] = useState<CampaignModifierPrice[]>([]);
+  const [stockLevels, setStockLevels] = useState<StockLevel[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // When the menu on screen was saved, if it came from the offline cache
+  const [cachedMenuSavedAt, setCachedMenuSavedAt] = useState<string | null>(null);
+
+  // Orders taken offline, waiting to be sent
+  const [pendingOrders, setPendingOrders] = useState<PendingOrder[]>([]);
 
   // UI state
   const [selectedCampaign, setSelectedCampaign] = useState<Campaign | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
   const [customerName, setCustomerName] = useState("");
+  // Pickup time for an order taken in advance, as a datetime-local value
+  const [scheduledFor, setScheduledFor] = useState("");
+  const [orderDiscount, setOrderDiscount] = useState<CartDiscount | null>(null);
+  const [tip, setTip] = useState(0);
+  const [tenders, setTenders] = useState<Tender[]>([]);
   const [selectedItem, setSelectedItem] = useState<Item | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isCartOpen, setIsCartOpen] = useState(false);
   const [itemModifiers, setItemModifiers] = useState<Modifier[]>([]);
 
-  // Ready orders for pickup announcements
-  const [readyOrders, setReadyOrders] = useState<Order[]>([]);
+  // Ready orders already called out
+  const [dismissedReadyIds, setDismissedReadyIds] = useState<number[]>([]);
   const [lastOrderConfirmation, setLastOrderConfirmation] = useState<{
-    id: number;
+    id: number | null; // null = saved offline, not sent yet
     customerName: string;
+    total: number;
   } | null>(null);
 
-  // Recent orders state (for sidebar view)
-  const [recentOrders, setRecentOrders] = useState<Order[]>([]);
+  // Key for the order in the cart, kept until it is placed so that sending it
+  // again can't place it twice
+  const orderKeyRef = useRef<string | null>(null);
+
+  // Recent orders paging (for sidebar view); the orders are in the order store
   const [isLoadingOrders, setIsLoadingOrders] = useState(false);
   const [ordersPage, setOrdersPage] = useState(1);
   const [hasMoreOrders, setHasMoreOrders] = useState(true);
@@ -79,11 +167,26 @@ export default function TerminalPage() {
   const [editingOrderItemModifiers, setEditingOrderItemModifiers] = useState<Modifier[]>([]);
   const [isOrderItemEditModalOpen, setIsOrderItemEditModalOpen] = useState(false);
 
+  // Collecting payment for an unpaid order
+  const [payingOrderId, setPayingOrderId] = useState<number | null>(null);
+  const payingOrder = useOrder(payingOrderId);
+
   // Add Item modal state
   const [isAddItemModalOpen, setIsAddItemModalOpen] = useState(false);
+  const [isMenuModalOpen, setIsMenuModalOpen] = useState(false);
 
   // All available modifiers (for linking to items)
   const [allModifiers, setAllModifiers] = useState<Modifier[]>([]);
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>([]);
+
+  // Which modifiers each item offers, for picking modifiers offline
+  const [itemModifierLinks, setItemModifierLinks] = useState<ItemModifier[]>([]);
+
+  // Sizes of every item, at their menu prices
+  const [itemVariants, setItemVariants] = useState<ItemVariant[]>([]);
+
+  // Parts of every bundle, with the items that can fill them
+  const [bundleSlots, setBundleSlots] = useState<BundleSlot[]>([]);
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -100,7 +203,18 @@ export default function TerminalPage() {
       try {
         setIsLoading(true);
         setError(null);
-        const campaignsData = await getCampaigns();
+        let campaignsData: Campaign[];
+        try {
+          campaignsData = await getCampaigns();
+          cacheMenuData("campaigns", campaignsData).catch((err) =>
+            console.error("Error caching campaigns:", err)
+          );
+        } catch (err) {
+          // Offline: carry on with the campaigns saved last time
+          const cached = await getCachedMenuData<Campaign[]>("campaigns").catch(() => null);
+          if (!cached) throw err;
+          campaignsData = cached;
+        }
         setCampaigns(campaignsData);
 
         // Select first campaign by default if none selected
@@ -121,63 +235,196 @@ export default function TerminalPage() {
   // Load categories and items when a campaign is selected
   useEffect(() => {
     if (!user || !selectedCampaign) return;
+    const cacheKey = `menu-${selectedCampaign.id}`;
+
+    const showMenu = (menu: CachedMenu) => {
+      setCategories(menu.categories);
+      setItems(menu.items);
+      setCampaignMenu(menu.campaignItems);
+      setModifierPriceOverrides(menu.modifierPrices);
+      setStockLevels(menu.stockLevels);
+      setAllModifiers(menu.modifiers);
+      setModifierGroups(menu.modifierGroups);
+      setItemVariants(menu.variants);
+      setBundleSlots(menu.bundleSlots);
+      setItemModifierLinks(menu.itemModifierLinks);
+    };
 
     async function loadMenuData() {
       try {
-        const [categoriesData, itemsData, modifiersData] = await Promise.all([
+        const [
+          categoriesData,
+          itemsData,
+          modifiersData,
+          modifierGroupsData,
+          variantsData,
+          bundleSlotsData,
+          itemModifierLinksData,
+          campaignItemsData,
+          modifierPricesData,
+          stockLevelsData,
+        ] = await Promise.all([
           getCategories(),
           getItems(),
           getModifiers(),
+          getModifierGroups(),
+          getItemVariants(),
+          getBundleSlots(),
+          getItemModifierLinks(),
+          getCampaignItems(selectedCampaign!.id),
+          getCampaignModifierPrices(selectedCampaign!.id),
+          getStockLevels(selectedCampaign!.id),
         ]);
 
-        setCategories(categoriesData);
-        setItems(itemsData);
-        setAllModifiers(modifiersData);
+        const menu: CachedMenu = {
+          categories: categoriesData,
+          items: itemsData,
+          modifiers: modifiersData,
+          modifierGroups: modifierGroupsData,
+          variants: variantsData,
+          bundleSlots: bundleSlotsData,
+          itemModifierLinks: itemModifierLinksData,
+          campaignItems: campaignItemsData,
+          modifierPrices: modifierPricesData,
+          stockLevels: stockLevelsData,
+          savedAt: new Date().toISOString(),
+        };
+        showMenu(menu);
+        setCachedMenuSavedAt(null);
+        cacheMenuData(cacheKey, menu).catch((err) => console.error("Error caching menu:", err));
       } catch (err) {
         console.error("Error loading menu data:", err);
-        setError("Failed to load menu. Please try again.");
+        // Offline: take orders from the menu saved last time
+        const cached = await getCachedMenuData<CachedMenu>(cacheKey).catch(() => null);
+        if (cached) {
+          showMenu(cached);
+          setCachedMenuSavedAt(cached.savedAt);
+        } else {
+          setError("Failed to load menu. Please try again.");
+        }
       }
     }
 
     loadMenuData();
   }, [user, selectedCampaign]);
 
+  // Keep the campaign's orders current, for the ready banner and recent orders
+  const campaignId = selectedCampaign?.id ?? null;
+  useOrderFeed(campaignId);
+  const allReadyOrders = useReadyOrders(campaignId);
+  const readyOrders = useMemo(
+    () => allReadyOrders.filter((order) => !dismissedReadyIds.includes(order.id)),
+    [allReadyOrders, dismissedReadyIds]
+  );
+
   // Load ready orders when campaign changes
   useEffect(() => {
     if (!selectedCampaign || !user) return;
 
     async function loadReadyOrders() {
       try {
-        const orders = await getReadyOrders(selectedCampaign!.id);
-        setReadyOrders(orders);
+        addOrders(await getReadyOrders(selectedCampaign!.id));
       } catch (err) {
         console.error("Error loading ready orders:", err);
       }
     }
 
     loadReadyOrders();
+  }, [selectedCampaign, addOrders]);
 
-    // Subscribe to real-time updates for ready orders
-    const unsubscribe = subscribeToReadyOrders(selectedCampaign.id, (order) => {
-      setReadyOrders((prev) => {
-        // Add to list if not already present
-        if (!prev.find((o) => o.id === order.id)) {
-          return [...prev, order];
-        }
-        return prev;
+  const campaignPricing = useMemo(
+    () => buildCampaignPricing(campaignMenu, modifierPriceOverrides),
+    [campaignMenu, modifierPriceOverrides]
+  );
+
+  // Limit items to the campaign's menu, if it has one, at the campaign's prices
+  const menuItems = useMemo(() => {
+    const menuItemIds = new Set(campaignMenu.map((ci) => ci.item_id));
+    return items
+      .filter((item) => campaignMenu.length === 0 || menuItemIds.has(item.id))
+      .map((item) => priceItem(item, campaignPricing));
+  }, [campaignMenu, campaignPricing, items]);
+
+  // Stock counts for tracked items and modifiers; anything missing is unlimited
+  const stockByItemId = useMemo(
+    () =>
+      new Map(
+        stockLevels
+          .filter((level) => level.item_id !== null)
+          .map((level) => [level.item_id as number, level.quantity])
+      ),
+    [stockLevels]
+  );
+  const stockByModifierId = useMemo(
+    () =>
+      new Map(
+        stockLevels
+          .filter((level) => level.modifier_id !== null)
+          .map((level) => [level.modifier_id as number, level.quantity])
+      ),
+    [stockLevels]
+  );
+
+  // Returns a message if the cart asks for more than is left in stock
+  const findStockShortfall = (cart: CartItem[]): string | null => {
+    const wantedItems = new Map<number, number>();
+    const wantedModifiers = new Map<number, number>();
+    cart.forEach((cartItem) => {
+      wantedItems.set(cartItem.item.id, (wantedItems.get(cartItem.item.id) || 0) + cartItem.quantity);
+      cartItem.components?.forEach((component) => {
+        wantedItems.set(component.item.id, (wantedItems.get(component.item.id) || 0) + cartItem.quantity);
+      });
+      cartItem.modifiers.forEach((mod) => {
+        wantedModifiers.set(mod.id, (wantedModifiers.get(mod.id) || 0) + cartItem.quantity * mod.quantity);
       });
     });
 
-    return () => {
-      unsubscribe();
-    };
-  }, [selectedCampaign]);
+    for (const [itemId, wanted] of wantedItems) {
+      const left = stockByItemId.get(itemId);
+      if (left !== undefined && wanted > left) {
+        const name = items.find((item) => item.id === itemId)?.name ?? "This item";
+        return left === 0 ? `${name} is sold out` : `Only ${left} ${name} left`;
+      }
+    }
+    for (const [modifierId, wanted] of wantedModifiers) {
+      const left = stockByModifierId.get(modifierId);
+      if (left !== undefined && wanted > left) {
+        const name = allModifiers.find((mod) => mod.id === modifierId)?.name ?? "This modifier";
+        return left === 0 ? `${name} is sold out` : `Only ${left} ${name} left`;
+      }
+    }
+    return null;
+  };
+
+  const priceModifiers = useCallback(
+    (modifiers: Modifier[]) => modifiers.map((modifier) => priceModifier(modifier, campaignPricing)),
+    [campaignPricing]
+  );
+
+  // An item's sizes at the campaign's prices
+  const variantsForItem = (itemId: number) => {
+    const item = items.find((i) => i.id === itemId);
+    return itemVariants
+      .filter((variant) => variant.item_id === itemId)
+      .map((variant) => (item ? priceVariant(variant, item, campaignPricing) : variant));
+  };
+
+  // Bundle components are ordered without a size or options, so items that
+  // need one chosen can't fill a bundle part
+  const canBundleItem = (item: Item) =>
+    !itemVariants.some((variant) => variant.item_id === item.id && variant.is_active) &&
+    !itemModifierLinks.some((link) => {
+      if (link.item_id !== item.id) return false;
+      const modifier = allModifiers.find((m) => m.id === link.modifier_id && m.is_active);
+      const group = modifierGroups.find((g) => g.id === modifier?.group_id);
+      return !!group?.is_active && group.min_select > 0;
+    });
 
   // Filter items by category
   const filteredItems = useMemo(() => {
-    if (!selectedCategory) return items;
-    return items.filter((item) => item.category_id === selectedCategory.id);
-  }, [selectedCategory, items]);
+    if (!selectedCategory) return menuItems;
+    return menuItems.filter((item) => item.category_id === selectedCategory.id);
+  }, [selectedCategory, menuItems]);
 
   // Compute item count per category for delete button visibility
   const itemCountByCategory = useMemo(() => {
@@ -198,18 +445,40 @@ export default function TerminalPage() {
       setItemModifiers(modifiers);
     } catch (err) {
       console.error("Error loading modifiers:", err);
-      setItemModifiers([]);
+      // Offline: work them out from the menu already loaded
+      const linkedIds = new Set(
+        itemModifierLinks.filter((link) => link.item_id === item.id).map((link) => link.modifier_id)
+      );
+      setItemModifiers(
+        allModifiers.filter(
+          (m) => linkedIds.has(m.id) || (m.parent_id !== null && linkedIds.has(m.parent_id))
+        )
+      );
     }
-  }, []);
-
-  const handleAddToCart = (item: Item, quantity: number, modifiers: Modifier[], notes: string) => {
+  }, [itemModifierLinks, allModifiers]);
+
+  const handleAddToCart = (
+    item: Item,
+    quantity: number,
+    modifiers: CartModifier[],
+    notes: string,
+    variant?: ItemVariant,
+    components?: CartBundleComponent[]
+  ) => {
     const newCartItem: CartItem = {
       id: `${item.id}-${Date.now()}`,
       item,
+      variant,
+      components,
       quantity,
       modifiers,
       notes,
     };
+    const shortfall = findStockShortfall([...cartItems, newCartItem]);
+    if (shortfall) {
+      alert(shortfall);
+      return;
+    }
     setCartItems((prev) => [...prev, newCartItem]);
     setIsModalOpen(false);
     setSelectedItem(null);
@@ -221,6 +490,13 @@ export default function TerminalPage() {
       handleRemoveFromCart(cartItemId);
       return;
     }
+    const shortfall = findStockShortfall(
+      cartItems.map((item) => (item.id === cartItemId ? { ...item, quantity } : item))
+    );
+    if (shortfall) {
+      alert(shortfall);
+      return;
+    }
     setCartItems((prev) =>
       prev.map((item) =>
         item.id === cartItemId ? { ...item, quantity } : item
@@ -232,44 +508,62 @@ export default function TerminalPage() {
     setCartItems((prev) => prev.filter((item) => item.id !== cartItemId));
   };
 
+  const handleLineDiscountChange = (cartItemId: string, discount: CartDiscount | undefined) => {
+    setCartItems((prev) =>
+      prev.map((item) =>
+        item.id === cartItemId ? { ...item, discount } : item
+      )
+    );
+  };
+
+  const handleAddTender = (tender: Omit<Tender, "id">) => {
+    setTenders((prev) => [...prev, { ...tender, id: `tender-${Date.now()}` }]);
+  };
+
   const handleClearCart = () => {
+    orderKeyRef.current = null;
     setCartItems([]);
     setCustomerName("");
+    setScheduledFor("");
+    setOrderDiscount(null);
+    setTip(0);
+    setTenders([]);
   };
 
-  const calculateTotal = (): number => {
-    return cartItems.reduce((total, cartItem) => {
-      const itemTotal = cartItem.item.base_price * cartItem.quantity;
-      const modifiersTotal = cartItem.modifiers.reduce(
-        (sum, mod) => sum + mod.price_delta * cartItem.quantity,
-        0
-      );
-      return total + itemTotal + modifiersTotal;
-    }, 0);
-  };
+  // Preview only - the database prices the order from the current menu when it is placed
+  const cartTotals = calculateCartTotals(cartItems, selectedCampaign, orderDiscount, tip);
 
-  const handlePlaceOrder = async () => {
+  // Returns whether the order was placed, so the cart can leave the payment step
+  const handlePlaceOrder = async (): Promise<boolean> => {
     if (!customerName.trim()) {
       alert("Please enter a customer name");
-      return;
+      return false;
     }
     if (cartItems.length === 0) {
       alert("Cart is empty");
-      return;
+      return false;
+    }
+    // datetime-local values are in the terminal's time zone
+    const pickupAt = scheduledFor ? new Date(scheduledFor) : null;
+    if (pickupAt && (isNaN(pickupAt.getTime()) || pickupAt.getTime() <= Date.now())) {
+      alert("Please choose a pickup time in the future");
+      return false;
     }
 
-    try {
-      const order = await createOrder({
-        campaign_id: selectedCampaign?.id ?? null,
-        customer_name: customerName.trim(),
-        items: cartItems,
-      });
+    const input: CreateOrderInput = {
+      campaign_id: selectedCampaign?.id ?? null,
+      customer_name: customerName.trim(),
+      items: cartItems,
+      discount: orderDiscount,
+      tip,
+      payments: tenders,
+      scheduled_for: pickupAt?.toISOString() ?? null,
+      client_key: (orderKeyRef.current ??= crypto.randomUUID()),
+      taken_by: staff?.id ?? null,
+    };
 
-      // Show confirmation
-      setLastOrderConfirmation({
-        id: order.id,
-        customerName: order.customer_name,
-      });
+    const confirmOrder = (id: number | null, name: string, total: number) => {
+      setLastOrderConfirmation({ id, customerName: name, total });
 
       // Clear cart after successful order
       handleClearCart();
@@ -278,15 +572,57 @@ export default function TerminalPage() {
       setTimeout(() => {
         setLastOrderConfirmation(null);
       }, 5000);
+    };
+
+    try {
+      const order = await createOrder(input);
+      confirmOrder(order.id, order.customer_name, order.total);
+      // The server prices the order itself; the cart only previews it
+      const mismatched = totalsMismatch(order, cartTotals);
+      if (mismatched.length > 0) {
+        console.error("Order totals differ from the cart:", mismatched, order, cartTotals);
+        alert(
+          `Order #${order.id} was placed at $${order.total.toFixed(2)}, not the ` +
+            `$${cartTotals.total.toFixed(2)} shown in the cart. Please check it before taking payment.`
+        );
+      }
+      return true;
     } catch (err) {
       console.error("Error placing order:", err);
+      if (!isOfflineError(err)) {
+        // The server answered and refused the order (e.g. an item was
+        // deactivated, or the sign-in has expired) - nothing was saved
+        alert(err instanceof PlaceOrderError ? err.message : "Failed to place order. Please try again.");
+        return false;
+      }
+    }
+
+    // Couldn't reach the server: keep the order on the device and send it
+    // when we're back online
+    try {
+      const pending = await queueOrder(input, cartTotals.total);
+      setPendingOrders((prev) => [...prev, pending]);
+      confirmOrder(null, pending.customer_name, pending.total);
+      return true;
+    } catch (err) {
+      console.error("Error queueing order:", err);
       alert("Failed to place order. Please try again.");
+      return false;
+    }
+  };
+
+  const handleDiscardPendingOrder = async (clientKey: string) => {
+    try {
+      await discardPendingOrder(clientKey);
+      setPendingOrders((prev) => prev.filter((order) => order.client_key !== clientKey));
+    } catch (err) {
+      console.error("Error discarding queued order:", err);
     }
   };
 
   // Dismiss a ready order (mark as called out)
   const handleDismissReadyOrder = (orderId: number) => {
-    setReadyOrders((prev) => prev.filter((o) => o.id !== orderId));
+    setDismissedReadyIds((prev) => [...prev, orderId]);
   };
 
   // Recent orders handlers
@@ -301,11 +637,9 @@ export default function TerminalPage() {
         pageSize: 10,
       });
       
+      addOrders(result.orders);
       if (reset) {
-        setRecentOrders(result.orders);
         setOrdersPage(1);
-      } else {
-        setRecentOrders((prev) => [...prev, ...result.orders]);
       }
       setHasMoreOrders(result.hasMore);
     } catch (err) {
@@ -313,7 +647,7 @@ export default function TerminalPage() {
     } finally {
       setIsLoadingOrders(false);
     }
-  }, [selectedCampaign, ordersPage]);
+  }, [selectedCampaign, ordersPage, addOrders]);
 
   const handleLoadMoreOrders = useCallback(() => {
     if (!isLoadingOrders && hasMoreOrders) {
@@ -327,52 +661,21 @@ export default function TerminalPage() {
 
   const handleOrderStatusChange = useCallback(async (orderId: number, newStatus: OrderStatus) => {
     try {
-      await updateOrderStatus(orderId, newStatus);
-      // Update local state
-      setRecentOrders((prev) =>
-        prev.map((order) =>
-          order.id === orderId ? { ...order, status: newStatus } : order
-        )
-      );
+      await changeOrderStatus(orderId, newStatus);
     } catch (err) {
       console.error("Error updating order status:", err);
     }
-  }, []);
+  }, [changeOrderStatus]);
 
-  // Handle individual item status change (for marking items as picked up)
+  // Handle individual item status change (for marking items as picked up).
+  // The order's status follows on its own.
   const handleItemStatusChange = useCallback(async (orderItemId: number, newStatus: OrderItemStatus) => {
     try {
-      // Optimistic update
-      setRecentOrders((prev) =>
-        prev.map((order) => ({
-          ...order,
-          order_items: order.order_items?.map((item) =>
-            item.id === orderItemId ? { ...item, status: newStatus } : item
-          ),
-        }))
-      );
-
-      // Persist to database (this will also update order status automatically)
-      await updateOrderItemStatus(orderItemId, newStatus);
-      
-      // Refresh to get updated order status
-      const orderWithItem = recentOrders.find((o) =>
-        o.order_items?.some((item) => item.id === orderItemId)
-      );
-      if (orderWithItem) {
-        const updatedOrder = await getOrderById(orderWithItem.id);
-        if (updatedOrder) {
-          setRecentOrders((prev) =>
-            prev.map((o) => (o.id === updatedOrder.id ? updatedOrder : o))
-          );
-        }
-      }
+      await changeOrderItemStatus([orderItemId], newStatus);
     } catch (err) {
       console.error("Error updating item status:", err);
-      // Refresh orders to get correct state
-      loadRecentOrders(true);
     }
-  }, [recentOrders, loadRecentOrders]);
+  }, [changeOrderItemStatus]);
 
   // Handle editing an order item
   const handleEditOrderItem = useCallback(async (orderItem: OrderItem) => {
@@ -394,52 +697,49 @@ export default function TerminalPage() {
   // Handle saving order item edits
   const handleSaveOrderItem = useCallback(async (
     orderItemId: number,
-    updates: { quantity: number; notes: string | null; modifierIds: number[] }
+    updates: { quantity: number; notes: string | null; modifiers: ModifierSelection[] }
   ) => {
     try {
       await updateOrderItem(orderItemId, updates);
       
       // Refresh the order that contains this item
       if (editingOrderItem) {
-        const updatedOrder = await getOrderById(editingOrderItem.order_id);
-        if (updatedOrder) {
-          setRecentOrders((prev) =>
-            prev.map((o) => (o.id === updatedOrder.id ? updatedOrder : o))
-          );
-        }
+        await refreshOrder(editingOrderItem.order_id);
       }
     } catch (err) {
       console.error("Error saving order item:", err);
       throw err;
     }
-  }, [editingOrderItem]);
+  }, [editingOrderItem, refreshOrder]);
+
+  const handleRecordPayment = useCallback(async (orderId: number, orderTenders: Tender[]) => {
+    await recordPayments(orderId, orderTenders);
+    await refreshOrder(orderId);
+  }, [refreshOrder]);
+
+  // Void or refund a line or a whole order; the server records the reason in the audit trail
+  const handleAdjustOrder = useCallback(async ({ kind, order, orderItem }: AdjustmentRequest) => {
+    const target = orderItem ? orderItem.item_name : `order #${order.id}`;
+    const reason = prompt(`Reason to ${kind} ${target}:`);
+    if (!reason?.trim()) return;
 
-  // Handle deleting an order item
-  const handleDeleteOrderItem = useCallback(async (orderItemId: number) => {
     try {
-      // Find which order this item belongs to
-      const orderWithItem = recentOrders.find((o) =>
-        o.order_items?.some((item) => item.id === orderItemId)
-      );
-      
-      await deleteOrderItem(orderItemId);
-      
-      // Refresh the affected order
-      if (orderWithItem) {
-        const updatedOrder = await getOrderById(orderWithItem.id);
-        if (updatedOrder) {
-          setRecentOrders((prev) =>
-            prev.map((o) => (o.id === updatedOrder.id ? updatedOrder : o))
-          );
-        } else {
-          // Order was deleted (no items left)
-          setRecentOrders((prev) => prev.filter((o) => o.id !== orderWithItem.id));
-        }
+      if (kind === "void") {
+        await (orderItem ? voidOrderItem(orderItem.id, reason) : voidOrder(order.id, reason));
+      } else {
+        await (orderItem ? refundOrderItem(orderItem.id, reason) : refundOrder(order.id, reason));
       }
+
+      await refreshOrder(order.id);
     } catch (err) {
-      console.error("Error deleting order item:", err);
+      console.error(`Error during ${kind}:`, err);
+      alert(
+        err instanceof AdjustmentError
+          ? err.message
+          : `Failed to ${kind} ${target}. Please try again.`
+      );
     }
-  }, [recentOrders]);
+  }, [refreshOrder]);
 
   // Load recent orders when campaign changes
   useEffect(() => {
@@ -455,23 +755,38 @@ export default function TerminalPage() {
     }
   }, [ordersPage]);
 
-  // Subscribe to order updates for real-time updates
+  // Send orders taken offline once we're back online. Placed orders reach
+  // the recent orders list through the order store's realtime feed.
   useEffect(() => {
-    if (!selectedCampaign) return;
+    if (!user) return;
 
-    const unsubscribe = subscribeToOrders(selectedCampaign.id, (eventType, order) => {
-      if (eventType === "INSERT") {
-        // Add new order to the top
-        setRecentOrders((prev) => [order, ...prev]);
-      } else if (eventType === "UPDATE") {
-        // Update existing order
-        setRecentOrders((prev) =>
-          prev.map((o) => (o.id === order.id ? order : o))
-        );
-      } else if (eventType === "DELETE") {
-        // Remove deleted order
-        setRecentOrders((prev) => prev.filter((o) => o.id !== order.id));
+    async function syncPendingOrders() {
+      try {
+        await sendPendingOrders();
+        setPendingOrders(await getPendingOrders());
+      } catch (err) {
+        console.error("Error sending queued orders:", err);
       }
+    }
+
+    syncPendingOrders();
+    window.addEventListener("online", syncPendingOrders);
+    const interval = setInterval(syncPendingOrders, PENDING_ORDER_RETRY_MS);
+    return () => {
+      window.removeEventListener("online", syncPendingOrders);
+      clearInterval(interval);
+    };
+  }, [user]);
+
+  // Keep stock counts live so items sell out on every terminal at once
+  useEffect(() => {
+    if (!selectedCampaign) return;
+
+    const unsubscribe = subscribeToStockLevels(selectedCampaign.id, (eventType, level) => {
+      setStockLevels((prev) => {
+        const others = prev.filter((l) => l.id !== level.id);
+        return eventType === "DELETE" ? others : [...others, level];
+      });
     });
 
     return () => {
@@ -479,6 +794,22 @@ export default function TerminalPage() {
     };
   }, [selectedCampaign]);
 
+  const handleSetStock = async (target: StockTarget, quantity: number | null) => {
+    if (!selectedCampaign) return;
+    try {
+      const level = await setStockLevel(selectedCampaign.id, target, quantity);
+      setStockLevels((prev) => {
+        const others = prev.filter((l) =>
+          "itemId" in target ? l.item_id !== target.itemId : l.modifier_id !== target.modifierId
+        );
+        return level ? [...others, level] : others;
+      });
+    } catch (err) {
+      console.error("Error setting stock:", err);
+      throw err;
+    }
+  };
+
   // Campaign management handlers
   const handleCreateCampaign = async (name: string) => {
     try {
@@ -491,6 +822,8 @@ export default function TerminalPage() {
         starts_at: now.toISOString(),
         ends_at: endOfDay.toISOString(),
         is_active: true,
+        tax_rate: selectedCampaign?.tax_rate ?? 0,
+        fire_lead_minutes: selectedCampaign?.fire_lead_minutes ?? 20,
       });
 
       setCampaigns((prev) => [newCampaign, ...prev]);
@@ -520,6 +853,54 @@ export default function TerminalPage() {
     }
   };
 
+  const handleUpdateCampaignTaxRate = async (campaignId: number, taxRate: number) => {
+    try {
+      const updated = await updateCampaign(campaignId, { tax_rate: taxRate });
+      setCampaigns((prev) =>
+        prev.map((c) => (c.id === campaignId ? updated : c))
+      );
+      if (selectedCampaign?.id === campaignId) {
+        setSelectedCampaign(updated);
+      }
+    } catch (err) {
+      console.error("Error updating campaign:", err);
+      throw err;
+    }
+  };
+
+  const handleUpdateCampaignLeadTime = async (campaignId: number, minutes: number) => {
+    try {
+      const updated = await updateCampaign(campaignId, { fire_lead_minutes: minutes });
+      setCampaigns((prev) =>
+        prev.map((c) => (c.id === campaignId ? updated : c))
+      );
+      if (selectedCampaign?.id === campaignId) {
+        setSelectedCampaign(updated);
+      }
+    } catch (err) {
+      console.error("Error updating campaign:", err);
+      alert("Failed to update kitchen lead time");
+    }
+  };
+
+  const handleSaveCampaignMenu = async (menu: CampaignMenu) => {
+    if (!selectedCampaign) return;
+    const [updatedItems, updatedModifierPrices] = await Promise.all([
+      setCampaignItems(selectedCampaign.id, menu.items),
+      setCampaignModifierPrices(selectedCampaign.id, menu.modifierPrices),
+    ]);
+    setCampaignMenu(updatedItems);
+    setModifierPriceOverrides(updatedModifierPrices);
+  };
+
+  const handleCopyCampaignMenu = async (fromCampaignId: number): Promise<CampaignMenu> => {
+    const [sourceItems, sourceModifierPrices] = await Promise.all([
+      getCampaignItems(fromCampaignId),
+      getCampaignModifierPrices(fromCampaignId),
+    ]);
+    return { items: sourceItems, modifierPrices: sourceModifierPrices };
+  };
+
   // Item creation handler
   const handleCreateItem = async (itemData: {
     name: string;
@@ -528,6 +909,8 @@ export default function TerminalPage() {
     category_id: number;
     image_url?: string | null;
     no_prep_needed?: boolean;
+    is_tax_exempt?: boolean;
+    is_bundle?: boolean;
   }) => {
     try {
       const newItem = await createItem({
@@ -535,8 +918,16 @@ export default function TerminalPage() {
         image_url: itemData.image_url ?? null,
         is_active: true,
         no_prep_needed: itemData.no_prep_needed ?? false,
+        is_tax_exempt: itemData.is_tax_exempt ?? false,
+        is_bundle: itemData.is_bundle ?? false,
       });
       setItems((prev) => [...prev, newItem]);
+
+      // Items added while a campaign menu is defined go on that menu, or they'd be hidden
+      if (selectedCampaign && campaignMenu.length > 0) {
+        await addItemsToCampaign(selectedCampaign.id, [newItem.id]);
+        setCampaignMenu(await getCampaignItems(selectedCampaign.id));
+      }
       return newItem;
     } catch (err) {
       console.error("Error creating item:", err);
@@ -545,14 +936,27 @@ export default function TerminalPage() {
   };
 
   // Modifier management handlers
-  const handleCreateModifier = async (modifierData: { name: string; price_delta: number }): Promise<Modifier | null> => {
+  const handleCreateModifier = async (modifierData: {
+    name: string;
+    price_delta: number;
+    parent_id?: number | null;
+  }): Promise<Modifier | null> => {
     try {
       const newModifier = await createModifier({
         ...modifierData,
         description: null,
+        group_id: null,
+        is_default: false,
+        parent_id: modifierData.parent_id ?? null,
         is_active: true,
       });
       setAllModifiers((prev) => [...prev, newModifier]);
+      // An option shows up straight away under its modifier on the open item
+      if (newModifier.parent_id !== null) {
+        setItemModifiers((prev) =>
+          prev.some((m) => m.id === newModifier.parent_id) ? [...prev, newModifier] : prev
+        );
+      }
       return newModifier;
     } catch (err) {
       console.error("Error creating modifier:", err);
@@ -590,6 +994,161 @@ export default function TerminalPage() {
     }
   };
 
+  const handleUpdateModifier = async (
+    modifierId: number,
+    updates: Partial<Pick<Modifier, "group_id" | "is_default">>
+  ) => {
+    try {
+      const modifier = await updateModifier(modifierId, updates);
+      setAllModifiers((prev) => prev.map((m) => (m.id === modifierId ? modifier : m)));
+      setItemModifiers((prev) => prev.map((m) => (m.id === modifierId ? modifier : m)));
+    } catch (err) {
+      console.error("Error updating modifier:", err);
+      alert("Failed to update modifier");
+    }
+  };
+
+  // Modifier group handlers
+  const handleCreateModifierGroup = async (rules: ModifierGroupRules) => {
+    try {
+      const maxOrder = modifierGroups.reduce((max, g) => Math.max(max, g.display_order), 0);
+      const group = await createModifierGroup({
+        ...rules,
+        display_order: maxOrder + 1,
+        is_active: true,
+      });
+      setModifierGroups((prev) => [...prev, group]);
+    } catch (err) {
+      console.error("Error creating modifier group:", err);
+      alert("Failed to create group");
+    }
+  };
+
+  const handleUpdateModifierGroup = async (
+    groupId: number,
+    updates: Partial<Pick<ModifierGroup, "name" | "min_select" | "max_select" | "display_order">>
+  ) => {
+    try {
+      const group = await updateModifierGroup(groupId, updates);
+      setModifierGroups((prev) => prev.map((g) => (g.id === groupId ? group : g)));
+    } catch (err) {
+      console.error("Error updating modifier group:", err);
+      alert("Failed to update group");
+    }
+  };
+
+  // Size handlers
+  const handleCreateVariant = async (itemId: number, fields: VariantFields) => {
+    try {
+      const maxOrder = itemVariants
+        .filter((v) => v.item_id === itemId)
+        .reduce((max, v) => Math.max(max, v.display_order), 0);
+      const variant = await createItemVariant({
+        ...fields,
+        item_id: itemId,
+        display_order: maxOrder + 1,
+        is_active: true,
+      });
+      setItemVariants((prev) => [...prev, variant]);
+    } catch (err) {
+      console.error("Error creating size:", err);
+      alert("Failed to add size");
+    }
+  };
+
+  const handleUpdateVariant = async (
+    variantId: number,
+    updates: Partial<Pick<ItemVariant, "name" | "price" | "display_order">>
+  ) => {
+    try {
+      const variant = await updateItemVariant(variantId, updates);
+      setItemVariants((prev) => prev.map((v) => (v.id === variantId ? variant : v)));
+    } catch (err) {
+      console.error("Error updating size:", err);
+      alert("Failed to update size");
+    }
+  };
+
+  const handleDeactivateVariant = async (variantId: number) => {
+    try {
+      await deactivateItemVariant(variantId);
+      setItemVariants((prev) => prev.filter((v) => v.id !== variantId));
+    } catch (err) {
+      console.error("Error removing size:", err);
+      alert("Failed to remove size");
+    }
+  };
+
+  // Bundle handlers
+  const handleCreateBundleSlot = async (itemId: number, name: string) => {
+    try {
+      const maxOrder = bundleSlots
+        .filter((s) => s.bundle_item_id === itemId)
+        .reduce((max, s) => Math.max(max, s.display_order), 0);
+      const slot = await createBundleSlot({
+        bundle_item_id: itemId,
+        name,
+        display_order: maxOrder + 1,
+        is_active: true,
+      });
+      setBundleSlots((prev) => [...prev, slot]);
+    } catch (err) {
+      console.error("Error creating bundle part:", err);
+      alert("Failed to add part");
+    }
+  };
+
+  const handleUpdateBundleSlot = async (
+    slotId: number,
+    updates: Partial<Pick<BundleSlot, "name" | "display_order">>
+  ) => {
+    try {
+      const slot = await updateBundleSlot(slotId, updates);
+      setBundleSlots((prev) => prev.map((s) => (s.id === slotId ? slot : s)));
+    } catch (err) {
+      console.error("Error updating bundle part:", err);
+      alert("Failed to update part");
+    }
+  };
+
+  const handleDeactivateBundleSlot = async (slotId: number) => {
+    try {
+      await deactivateBundleSlot(slotId);
+      setBundleSlots((prev) => prev.filter((s) => s.id !== slotId));
+    } catch (err) {
+      console.error("Error removing bundle part:", err);
+      alert("Failed to remove part");
+    }
+  };
+
+  const handleSetBundleSlotChoice = async (slotId: number, itemId: number, priceDelta: number) => {
+    try {
+      const choice = await setBundleSlotChoice(slotId, itemId, priceDelta);
+      setBundleSlots((prev) =>
+        prev.map((s) =>
+          s.id === slotId
+            ? { ...s, choices: [...(s.choices ?? []).filter((c) => c.id !== choice.id), choice] }
+            : s
+        )
+      );
+    } catch (err) {
+      console.error("Error setting bundle choice:", err);
+      alert("Failed to save choice");
+    }
+  };
+
+  const handleRemoveBundleSlotChoice = async (choiceId: number) => {
+    try {
+      await removeBundleSlotChoice(choiceId);
+      setBundleSlots((prev) =>
+        prev.map((s) => ({ ...s, choices: (s.choices ?? []).filter((c) => c.id !== choiceId) }))
+      );
+    } catch (err) {
+      console.error("Error removing bundle choice:", err);
+      alert("Failed to remove choice");
+    }
+  };
+
   // Category creation handler
   const handleCreateCategory = async (name: string): Promise<Category | null> => {
     try {
@@ -602,6 +1161,7 @@ export default function TerminalPage() {
         name,
         slug,
         display_order: maxOrder + 1,
+        tax_rate: null,
       });
       setCategories((prev) => [...prev, newCategory]);
       return newCategory;
@@ -654,6 +1214,11 @@ export default function TerminalPage() {
     }
   };
 
+  // Management actions are only offered to roles allowed to use them
+  const canManageMenu = can("manage_menu");
+  const canManageCampaigns = can("manage_campaigns");
+  const canManageStock = can("manage_stock");
+
   // Auth loading or data loading state
   if (authLoading || isLoading || !user) {
     return (
@@ -666,6 +1231,23 @@ export default function TerminalPage() {
     );
   }
 
+  if (!can("take_orders")) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-surface">
+        <div className="text-center">
+          {/* Someone else may sign in here; auto-lock still applies */}
+          <div className="mb-6 flex justify-center">
+            <StaffSwitcher />
+          </div>
+          <p className="text-on-surface mb-4">Your account can&apos;t take orders. Ask a manager if you need access.</p>
+          <Link href="/" className="rounded-full bg-primary px-6 py-2 text-on-primary">
+            Back to stations
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   // Error state
   if (error) {
     return (
@@ -690,7 +1272,10 @@ export default function TerminalPage() {
         <div className="fixed top-4 left-1/2 z-50 -translate-x-1/2 transform">
           <div className="rounded-lg bg-primary px-6 py-3 text-on-primary shadow-lg">
             <p className="font-medium">
-              Order #{lastOrderConfirmation.id} for {lastOrderConfirmation.customerName} submitted!
+              {lastOrderConfirmation.id !== null
+                ? `Order #${lastOrderConfirmation.id} for ${lastOrderConfirmation.customerName} submitted!`
+                : `Offline - order for ${lastOrderConfirmation.customerName} saved and will be sent when back online`}
+              {" "}(${lastOrderConfirmation.total.toFixed(2)})
             </p>
           </div>
         </div>
@@ -721,23 +1306,36 @@ export default function TerminalPage() {
         <header className={`flex items-center justify-between border-b border-outline-variant bg-surface-container-low px-3 py-3 sm:px-6 sm:py-4 ${readyOrders.length > 0 ? 'mt-10' : ''}`}>
           <h1 className="text-lg font-medium text-on-surface sm:text-2xl">{process.env.NEXT_PUBLIC_ORG_NAME} Terminal</h1>
           <div className="flex items-center gap-2 sm:gap-4">
+            <StaffSwitcher />
             <ThemeToggle />
             <CampaignSelector
               campaigns={campaigns}
               selectedCampaign={selectedCampaign}
               onSelectCampaign={setSelectedCampaign}
-              onCreateCampaign={handleCreateCampaign}
-              onToggleCampaignActive={handleToggleCampaignActive}
+              onCreateCampaign={canManageCampaigns ? handleCreateCampaign : undefined}
+              onToggleCampaignActive={canManageCampaigns ? handleToggleCampaignActive : undefined}
+              onUpdateCampaignTaxRate={canManageCampaigns ? handleUpdateCampaignTaxRate : undefined}
+              onUpdateCampaignLeadTime={canManageCampaigns ? handleUpdateCampaignLeadTime : undefined}
+              menuItemCount={campaignMenu.length}
+              onEditMenu={canManageMenu ? () => setIsMenuModalOpen(true) : undefined}
             />
           </div>
         </header>
 
+        {cachedMenuSavedAt && (
+          <p className="border-b border-outline-variant bg-surface-container px-3 py-2 text-sm text-on-surface-variant sm:px-6">
+            Offline - showing the menu saved at{" "}
+            {new Date(cachedMenuSavedAt).toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" })}.
+            Orders will be sent when the connection is back.
+          </p>
+        )}
+
         {/* Category Tabs */}
         <CategoryTabs
           categories={categories}
           selectedCategory={selectedCategory}
           onSelectCategory={setSelectedCategory}
-          onDeleteCategory={handleDeleteCategory}
+          onDeleteCategory={canManageMenu ? handleDeleteCategory : undefined}
           itemCountByCategory={itemCountByCategory}
         />
 
@@ -745,8 +1343,9 @@ export default function TerminalPage() {
         <main className="flex-1 overflow-y-auto p-3 pb-24 sm:p-6 sm:pb-6">
           <ItemGrid 
             items={filteredItems} 
+            stockByItemId={stockByItemId}
             onItemClick={handleItemClick}
-            onAddItemClick={() => setIsAddItemModalOpen(true)} 
+            onAddItemClick={canManageMenu ? () => setIsAddItemModalOpen(true) : undefined}
           />
         </main>
       </div>
@@ -772,7 +1371,7 @@ export default function TerminalPage() {
         </svg>
         {cartItems.length > 0 && (
           <span className="font-medium">
-            {cartItems.length} · ${calculateTotal().toFixed(2)}
+            {cartItems.length} · ${cartTotals.total.toFixed(2)}
           </span>
         )}
       </button>
@@ -782,14 +1381,25 @@ export default function TerminalPage() {
         cartItems={cartItems}
         customerName={customerName}
         onCustomerNameChange={setCustomerName}
+        scheduledFor={scheduledFor}
+        onScheduledForChange={setScheduledFor}
         onUpdateQuantity={handleUpdateCartItem}
         onRemoveItem={handleRemoveFromCart}
         onClearCart={handleClearCart}
         onPlaceOrder={handlePlaceOrder}
-        total={calculateTotal()}
+        totals={cartTotals}
+        orderDiscount={orderDiscount}
+        onOrderDiscountChange={setOrderDiscount}
+        onLineDiscountChange={handleLineDiscountChange}
+        onTipChange={setTip}
+        tenders={tenders}
+        onAddTender={handleAddTender}
+        onRemoveTender={(tenderId) =>
+          setTenders((prev) => prev.filter((t) => t.id !== tenderId))
+        }
         isOpen={isCartOpen}
         onClose={() => setIsCartOpen(false)}
-        recentOrders={recentOrders}
+        campaignId={campaignId}
         isLoadingOrders={isLoadingOrders}
         hasMoreOrders={hasMoreOrders}
         onLoadMoreOrders={handleLoadMoreOrders}
@@ -797,15 +1407,20 @@ export default function TerminalPage() {
         onOrderStatusChange={handleOrderStatusChange}
         onItemStatusChange={handleItemStatusChange}
         onEditOrderItem={handleEditOrderItem}
-        onDeleteOrderItem={handleDeleteOrderItem}
+        onAdjustOrder={handleAdjustOrder}
+        canRefundOrders={can("refund")}
+        pendingOrders={pendingOrders}
+        onDiscardPendingOrder={handleDiscardPendingOrder}
+        onCollectPayment={(order) => setPayingOrderId(order.id)}
       />
 
       {/* Item Detail Modal */}
       {selectedItem && (
         <ItemDetailModal
           item={selectedItem}
-          modifiers={itemModifiers}
-          allModifiers={allModifiers}
+          variants={variantsForItem(selectedItem.id)}
+          modifiers={priceModifiers(itemModifiers)}
+          allModifiers={priceModifiers(allModifiers)}
           isOpen={isModalOpen}
           onClose={() => {
             setIsModalOpen(false);
@@ -813,11 +1428,30 @@ export default function TerminalPage() {
             setItemModifiers([]);
           }}
           onAddToCart={handleAddToCart}
-          onCreateModifier={handleCreateModifier}
-          onLinkModifier={handleLinkModifier}
-          onUnlinkModifier={handleUnlinkModifier}
-          onDeleteModifier={handleDeleteModifier}
-          onDeleteItem={handleDeleteItem}
+          onCreateModifier={canManageMenu ? handleCreateModifier : undefined}
+          onLinkModifier={canManageMenu ? handleLinkModifier : undefined}
+          onUnlinkModifier={canManageMenu ? handleUnlinkModifier : undefined}
+          onDeleteModifier={canManageMenu ? handleDeleteModifier : undefined}
+          modifierGroups={modifierGroups}
+          onCreateModifierGroup={canManageMenu ? handleCreateModifierGroup : undefined}
+          onUpdateModifierGroup={canManageMenu ? handleUpdateModifierGroup : undefined}
+          onUpdateModifier={canManageMenu ? handleUpdateModifier : undefined}
+          onDeleteItem={canManageMenu ? handleDeleteItem : undefined}
+          editableVariants={itemVariants.filter((v) => v.item_id === selectedItem.id)}
+          onCreateVariant={canManageMenu ? handleCreateVariant : undefined}
+          onUpdateVariant={canManageMenu ? handleUpdateVariant : undefined}
+          onDeactivateVariant={canManageMenu ? handleDeactivateVariant : undefined}
+          bundleSlots={bundleSlots.filter((s) => s.bundle_item_id === selectedItem.id)}
+          items={menuItems}
+          canBundleItem={canBundleItem}
+          onCreateBundleSlot={canManageMenu ? handleCreateBundleSlot : undefined}
+          onUpdateBundleSlot={canManageMenu ? handleUpdateBundleSlot : undefined}
+          onDeactivateBundleSlot={canManageMenu ? handleDeactivateBundleSlot : undefined}
+          onSetBundleSlotChoice={canManageMenu ? handleSetBundleSlotChoice : undefined}
+          onRemoveBundleSlotChoice={canManageMenu ? handleRemoveBundleSlotChoice : undefined}
+          stockQuantity={stockByItemId.get(selectedItem.id)}
+          modifierStock={stockByModifierId}
+          onSetStock={canManageStock ? handleSetStock : undefined}
         />
       )}
 
@@ -825,6 +1459,7 @@ export default function TerminalPage() {
       <AddItemModal
         categories={categories}
         modifiers={allModifiers}
+        modifierGroups={modifierGroups}
         isOpen={isAddItemModalOpen}
         selectedCategoryId={selectedCategory?.id}
         onClose={() => setIsAddItemModalOpen(false)}
@@ -836,6 +1471,8 @@ export default function TerminalPage() {
             category_id: itemData.category_id,
             image_url: itemData.image_url,
             no_prep_needed: itemData.no_prep_needed,
+            is_tax_exempt: itemData.is_tax_exempt,
+            is_bundle: itemData.is_bundle,
           });
           // Link modifiers to the new item
           if (itemData.modifierIds.length > 0 && newItem) {
@@ -852,7 +1489,8 @@ export default function TerminalPage() {
       {/* Order Item Edit Modal */}
       <OrderItemEditModal
         orderItem={editingOrderItem}
-        availableModifiers={editingOrderItemModifiers}
+        availableModifiers={priceModifiers(editingOrderItemModifiers)}
+        modifierGroups={modifierGroups}
         isOpen={isOrderItemEditModalOpen}
         onClose={() => {
           setIsOrderItemEditModalOpen(false);
@@ -861,6 +1499,30 @@ export default function TerminalPage() {
         }}
         onSave={handleSaveOrderItem}
       />
+
+      {/* Campaign Menu Modal */}
+      {isMenuModalOpen && selectedCampaign && (
+        <CampaignMenuModal
+          isOpen={isMenuModalOpen}
+          campaign={selectedCampaign}
+          campaigns={campaigns}
+          categories={categories}
+          items={items}
+          modifiers={allModifiers}
+          menu={{ items: campaignMenu, modifierPrices: modifierPriceOverrides }}
+          onClose={() => setIsMenuModalOpen(false)}
+          onSave={handleSaveCampaignMenu}
+          onCopyFrom={handleCopyCampaignMenu}
+        />
+      )}
+
+      {/* Payment Modal */}
+      <PaymentModal
+        order={payingOrder}
+        isOpen={!!payingOrder}
+        onClose={() => setPayingOrderId(null)}
+        onSubmit={handleRecordPayment}
+      />
     </div>
   );
 }
@@ -1,19 +1,111 @@
 // Types based on the database schema
 
+// What a staff account may do; see lib/permissions
+export type StaffRole = 'cashier' | 'kitchen' | 'manager' | 'admin';
+
+export interface StaffProfile {
+  user_id: string;
+  role: StaffRole;
+  created_at: string;
+  updated_at: string;
+}
+
+// A person using a shared device, who signs in on it with their PIN
+export interface StaffMember {
+  id: number;
+  name: string;
+  role: StaffRole;
+  is_active: boolean;
+}
+
 export interface Campaign {
   id: number;
   name: string;
   starts_at: string | null;
   ends_at: string | null;
   is_active: boolean;
+  tax_rate: number; // Default sales tax rate as a fraction (0.0825 = 8.25%)
+  fire_lead_minutes: number; // How long before pickup a scheduled order reaches the kitchen
   created_at: string;
 }
 
+// An item offered on a campaign's menu. A campaign with no rows offers every active item.
+export interface CampaignItem {
+  id: number;
+  campaign_id: number;
+  item_id: number;
+  price_override: number | null; // Replaces the item's base_price for this campaign
+  created_at: string;
+}
+
+// Replaces a modifier's price_delta for one campaign
+export interface CampaignModifierPrice {
+  id: number;
+  campaign_id: number;
+  modifier_id: number;
+  price_delta: number;
+  created_at: string;
+}
+
+// Units left to sell for an item or a modifier within a campaign.
+// Exactly one of item_id / modifier_id is set; no row means unlimited.
+export interface StockLevel {
+  id: number;
+  campaign_id: number;
+  item_id: number | null;
+  modifier_id: number | null;
+  quantity: number;
+  updated_at: string;
+}
+
+// Raw stock shared between items, e.g. espresso beans or milk
+export interface Ingredient {
+  id: number;
+  name: string;
+  unit: string; // e.g. "g", "ml", "each"
+  low_stock_threshold: number | null; // Warn at or below this much left
+  is_active: boolean;
+  created_at: string;
+}
+
+// How much of an ingredient one item, or one application of a modifier, uses.
+// Exactly one of item_id / modifier_id is set.
+export interface RecipeIngredient {
+  id: number;
+  item_id: number | null;
+  modifier_id: number | null;
+  ingredient_id: number;
+  quantity: number;
+  created_at: string;
+}
+
+// Ingredient used by a campaign's orders (from the campaign_ingredient_usage view)
+export interface IngredientUsage {
+  campaign_id: number;
+  ingredient_id: number;
+  used: number;
+}
+
+// Prepped amount vs. usage for an ingredient tracked in a campaign
+// (from the campaign_ingredient_levels view)
+export interface IngredientLevel {
+  campaign_id: number;
+  ingredient_id: number;
+  name: string;
+  unit: string;
+  on_hand: number;
+  used: number;
+  remaining: number;
+  low_stock_threshold: number | null;
+  is_low: boolean;
+}
+
 export interface Category {
   id: number;
   name: string;
   slug: string;
   display_order: number;
+  tax_rate: number | null; // Overrides the campaign tax rate when set
   created_at: string;
 }
 
@@ -26,17 +118,67 @@ export interface Item {
   base_price: number;
   is_active: boolean;
   no_prep_needed: boolean; // When true, items are created as 'done' (ready) immediately
+  is_tax_exempt: boolean;
+  is_bundle: boolean; // A deal made of other items, chosen in its bundle slots
   created_at: string;
   updated_at: string;
   // Joined fields
   category?: Category;
 }
 
+// A part of a bundle ("Bagel", "Drink") and the items that can fill it
+export interface BundleSlot {
+  id: number;
+  bundle_item_id: number;
+  name: string;
+  display_order: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+  // Joined fields
+  choices?: BundleSlotChoice[];
+}
+
+export interface BundleSlotChoice {
+  id: number;
+  slot_id: number;
+  item_id: number;
+  price_delta: number; // Upcharge for choosing this item
+  created_at: string;
+}
+
+// A size an item is sold in, e.g. "12oz" or "16oz"
+export interface ItemVariant {
+  id: number;
+  item_id: number;
+  name: string;
+  price: number; // Replaces the item's base_price
+  display_order: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Modifier {
   id: number;
   name: string;
   description: string | null;
   price_delta: number;
+  group_id: number | null; // null = not in a group, free to add or leave off
+  is_default: boolean; // Preselected when the item is added
+  parent_id: number | null; // Set on options, e.g. "Scallion" under "Add cream cheese"
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Modifiers chosen together, e.g. "Milk: exactly 1" or "Syrups: up to 3"
+export interface ModifierGroup {
+  id: number;
+  name: string;
+  min_select: number; // > 0 makes the group required
+  max_select: number | null; // null = no limit
+  display_order: number;
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -59,19 +201,52 @@ export interface Order {
   customer_name: string;
   status: OrderStatus;
   subtotal: number;
+  discount_total: number;
+  tax: number;
+  tip: number;
+  total: number; // subtotal - discount_total + tax + tip
+  payment_status: PaymentStatus; // Derived from payments vs. total
   notes: string | null;
+  scheduled_for: string | null; // Pickup time for orders taken in advance; null = make now
+  public_token: string; // Unguessable key for the customer's tracking page
+  client_key: string | null; // Idempotency key from the terminal that placed it
+  taken_by: number | null; // Staff member who placed it; null for customer orders
+  updated_by: number | null; // Staff member behind the latest change
   created_at: string;
   updated_at: string;
+  // Joined fields
+  taken_by_staff?: Pick<StaffMember, "name"> | null;
   order_items?: OrderItem[];
+  discounts?: OrderDiscount[];
+  payments?: Payment[];
+  adjustments?: OrderAdjustment[];
+}
+
+// What the customer-facing order board shows of an order: no items or prices
+export interface BoardOrder {
+  id: number;
+  customer_name: string;
+  status: OrderStatus;
+  ready_at: string | null; // When the last line was done; set once the order is ready
 }
 
 export interface OrderItem {
   id: number;
   order_id: number;
   item_id: number;
+  item_name: string; // Snapshot of the item name at order time
+  variant_id: number | null;
+  variant_name: string | null; // Snapshot of the size ordered, if the item has sizes
+  campaign_id: number | null; // Copy of the order's campaign, for realtime filters
+  bundle_line_id: number | null; // Set on components: the bundle line they belong to
+  bundle_slot_id: number | null;
+  unit_price: number; // Snapshot of the unit price (before modifiers) at order time
+  tax_rate: number; // Snapshot of the tax rate that applied at order time
+  refunded_at: string | null; // Refunded lines no longer count towards totals
   quantity: number;
   status: OrderItemStatus;
   notes: string | null;
+  updated_by: number | null; // Staff member behind the latest status change or edit
   created_at: string;
   updated_at: string;
   // Joined fields
@@ -84,20 +259,161 @@ export interface OrderItemModifier {
   order_item_id: number;
   modifier_id: number | null;
   label: string;
-  price_delta: number;
+  price_delta: number; // Per one; the line carries it quantity times
+  quantity: number;
+  parent_id: number | null; // Row of the modifier this option was ordered under
+  campaign_id: number | null; // Copy of the order's campaign, for realtime filters
+  created_at: string;
+}
+
+export type DiscountKind = 'percent' | 'fixed';
+
+export interface OrderDiscount {
+  id: number;
+  order_id: number;
+  order_item_id: number | null; // null = applies to the whole order
+  kind: DiscountKind;
+  value: number; // Percentage (0-100) or dollar amount
+  reason: string;
+  amount: number; // Dollar amount actually taken off
+  created_at: string;
+}
+
+export type PaymentMethod = 'cash' | 'card' | 'comp' | 'voucher';
+
+// 'no_charge': nothing is owed and nothing was taken (a free or fully voided order)
+export type PaymentStatus = 'unpaid' | 'partial' | 'paid' | 'no_charge' | 'refunded';
+
+export interface Payment {
+  id: number;
+  order_id: number;
+  method: PaymentMethod;
+  amount: number; // Applied to the order (excludes change)
+  tendered: number | null; // Cash handed over (cash only)
+  change_due: number;
+  reference: string | null; // Card approval, voucher code or comp reason
+  adjustment_id: number | null; // Set on refunds (negative amounts)
+  staff_id: number | null; // Staff member who took it
+  created_at: string;
+}
+
+export type AdjustmentKind = 'void' | 'refund';
+
+// Audit trail entry for a void or refund
+export interface OrderAdjustment {
+  id: number;
+  order_id: number;
+  order_item_id: number | null; // null = whole order
+  kind: AdjustmentKind;
+  reason: string;
+  amount: number; // How much the order total went down
+  performed_by: string | null;
+  staff_id: number | null; // Staff member who made it
+  created_at: string;
+}
+
+// An order taken while the terminal was offline, waiting on the device to be
+// sent. Totals are as the terminal priced them; the server prices it again.
+export interface PendingOrder {
+  client_key: string; // Sent with the order so a repeat can't place it twice
+  customer_name: string;
+  item_count: number;
+  total: number;
+  queued_at: string;
+  error: string | null; // Why the server rejected it; rejected orders aren't retried
+}
+
+// The active campaign's menu for customer self-ordering (from get_public_menu).
+// Items carry their category; prices are the menu prices before campaign overrides.
+export interface PublicMenu {
+  campaign: Campaign;
+  categories: Category[];
+  items: Item[];
+  campaign_items: CampaignItem[];
+  modifier_prices: CampaignModifierPrice[];
+  modifiers: Modifier[]; // Modifiers linked to menu items, and their options
+  item_modifiers: ItemModifier[];
+  modifier_groups: ModifierGroup[];
+  variants: ItemVariant[];
+  bundle_slots: BundleSlot[];
+  sold_out: Pick<StockLevel, "item_id" | "modifier_id">[]; // Stock counts aren't public
+}
+
+// What a customer sees of their order on the tracking page (from get_public_order)
+export interface PublicOrder {
+  id: number;
+  customer_name: string;
+  status: OrderStatus;
+  payment_status: PaymentStatus;
+  total: number;
+  scheduled_for: string | null;
   created_at: string;
+  estimated_ready_at: string | null; // Only while the order is still being made
+  items: PublicOrderItem[];
+}
+
+export interface PublicOrderItem {
+  id: number;
+  item_name: string;
+  variant_name: string | null;
+  quantity: number;
+  status: OrderItemStatus;
+  refunded_at: string | null;
+  started_at: string | null; // When the kitchen started on it
+  done_at: string | null; // When it was finished, once it is done
+}
+
+// Returned when a customer places an order; the token opens its tracking page
+export interface PublicOrderReceipt {
+  id: number;
+  token: string;
 }
 
 // Cart types for the terminal UI
+export interface CartDiscount {
+  kind: DiscountKind;
+  value: number;
+  reason: string;
+}
+
+// How many of a modifier go on each unit of a line
+export interface ModifierSelection {
+  modifier_id: number;
+  quantity: number;
+}
+
+export interface CartModifier extends Modifier {
+  quantity: number;
+}
+
+// The item chosen for one slot of a bundle in the cart
+export interface CartBundleComponent {
+  slot_id: number;
+  item: Item;
+  price_delta: number;
+}
+
 export interface CartItem {
   id: string; // Temporary client-side ID
   item: Item;
+  variant?: ItemVariant; // Required when the item has sizes
+  components?: CartBundleComponent[]; // One per slot when the item is a bundle
   quantity: number;
-  modifiers: Modifier[];
+  modifiers: CartModifier[];
   notes: string;
+  discount?: CartDiscount;
 }
 
 export interface Cart {
   items: CartItem[];
   customerName: string;
 }
+
+// A payment collected at the terminal, before it is recorded
+export interface Tender {
+  id: string; // Temporary client-side ID
+  method: PaymentMethod;
+  amount: number;
+  tendered?: number; // Cash handed over, when more than the amount
+  reference?: string;
+}
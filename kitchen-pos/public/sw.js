@@ -0,0 +1,110 @@
+// Service worker for the station devices.
+//
+// Keeps the app shell for the terminal and kitchen display cached so a
+// station can reload without a connection. Orders and menus still come from
+// Supabase; the terminal keeps its own offline copies of those.
+//
+// Each deployment registers this file with its own ?v= version. The new
+// worker installs alongside the old one and waits until the station accepts
+// the update prompt, so nobody's screen reloads in the middle of an order.
+
+const VERSION = new URL(self.location.href).searchParams.get("v") || "dev";
+const CACHE_PREFIX = "kitchen-pos-shell-";
+const CACHE_NAME = CACHE_PREFIX + VERSION;
+
+// Pages that must open offline
+const APP_SHELL = ["/", "/terminal", "/kitchen"];
+
+// Hashed build assets never change under the same URL
+const isBuildAsset = (url) => url.pathname.startsWith("/_next/static/") || url.pathname.startsWith("/fonts/");
+
+// The build assets a cached page loads
+function findBuildAssets(html) {
+  const assets = new Set();
+  for (const match of html.matchAll(/\/_next\/static\/[^"'\s)\\]+/g)) {
+    assets.add(match[0]);
+  }
+  return [...assets];
+}
+
+async function precacheAppShell() {
+  const cache = await caches.open(CACHE_NAME);
+  for (const path of APP_SHELL) {
+    const response = await fetch(path, { cache: "reload" });
+    if (!response.ok) {
+      throw new Error(`Couldn't cache ${path}: ${response.status}`);
+    }
+    const html = await response.clone().text();
+    await cache.put(path, response);
+    await cache.addAll(findBuildAssets(html));
+  }
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheAppShell());
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+          .map((name) => caches.delete(name))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+// The update prompt asks the waiting worker to take over
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "SKIP_WAITING") {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Supabase and anything else off-site goes straight to the network
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (isBuildAsset(url)) {
+    event.respondWith(
+      (async () => {
+        const cached = await caches.match(request);
+        if (cached) return cached;
+        const response = await fetch(request);
+        if (response.ok) {
+          const cache = await caches.open(CACHE_NAME);
+          await cache.put(request, response.clone());
+        }
+        return response;
+      })()
+    );
+    return;
+  }
+
+  // Pages: always the latest when online, the cached shell when not
+  if (request.mode === "navigate") {
+    event.respondWith(
+      (async () => {
+        try {
+          const response = await fetch(request);
+          if (response.ok && APP_SHELL.includes(url.pathname)) {
+            const cache = await caches.open(CACHE_NAME);
+            await cache.put(url.pathname, response.clone());
+          }
+          return response;
+        } catch (err) {
+          const cached = (await caches.match(url.pathname)) || (await caches.match("/"));
+          if (cached) return cached;
+          throw err;
+        }
+      })()
+    );
+  }
+});
@@ -0,0 +1,125 @@
+-- Transactional order creation
+-- place_order writes the order, its items, their modifiers and the initial
+-- status events in a single transaction: either everything lands or nothing does.
+-- Prices are read from items.base_price and modifiers.price_delta, so the
+-- subtotal is computed server-side instead of being trusted from the client.
+--
+-- p_items is a jsonb array of cart lines:
+--   [{ "item_id": 1, "quantity": 2, "notes": "extra hot", "modifier_ids": [3, 4] }]
+--
+-- Errors are raised with a machine-readable message (e.g. 'item_unavailable')
+-- and a human-readable detail, which the client maps to PlaceOrderError.
+
+create or replace function public.place_order(
+  p_campaign_id     bigint,
+  p_customer_name   text,
+  p_notes           text,
+  p_items           jsonb
+)
+returns public.orders
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order           public.orders;
+  v_line            jsonb;
+  v_item            public.items;
+  v_quantity        integer;
+  v_status          text;
+  v_modifier_ids    bigint[];
+  v_modifier_count  integer;
+  v_order_item_id   bigint;
+  v_line_total      numeric(10,2);
+  v_subtotal        numeric(10,2) := 0;
+begin
+  if coalesce(trim(p_customer_name), '') = '' then
+    raise exception 'customer_name_required'
+      using detail = 'A customer name is required to place an order';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_order'
+      using detail = 'An order must contain at least one item';
+  end if;
+
+  -- 1. Create the order with a zero subtotal; it is filled in once all lines are priced
+  insert into public.orders (campaign_id, customer_name, notes, status, subtotal)
+  values (p_campaign_id, trim(p_customer_name), nullif(trim(p_notes), ''), 'new', 0)
+  returning * into v_order;
+
+  for v_line in select * from jsonb_array_elements(p_items)
+  loop
+    v_quantity := coalesce((v_line->>'quantity')::integer, 0);
+    if v_quantity < 1 then
+      raise exception 'invalid_quantity'
+        using detail = format('Quantity must be at least 1 (got %s)', v_quantity);
+    end if;
+
+    select * into v_item
+    from public.items
+    where id = (v_line->>'item_id')::bigint
+      and is_active;
+
+    if not found then
+      raise exception 'item_unavailable'
+        using detail = format('Item %s does not exist or is no longer available', v_line->>'item_id');
+    end if;
+
+    -- Distinct modifier ids requested for this line
+    select coalesce(array_agg(distinct value::bigint), '{}')
+    into v_modifier_ids
+    from jsonb_array_elements_text(coalesce(v_line->'modifier_ids', '[]'::jsonb));
+
+    -- Every modifier must be active and linked to the item
+    select count(*)
+    into v_modifier_count
+    from public.modifiers m
+    join public.item_modifiers im on im.modifier_id = m.id and im.item_id = v_item.id
+    where m.id = any (v_modifier_ids)
+      and m.is_active;
+
+    if v_modifier_count <> coalesce(array_length(v_modifier_ids, 1), 0) then
+      raise exception 'modifier_unavailable'
+        using detail = format('One or more modifiers are not available for %s', v_item.name);
+    end if;
+
+    -- Items with no_prep_needed skip the kitchen and are ready immediately
+    v_status := case when v_item.no_prep_needed then 'done' else 'new' end;
+
+    -- 2. Order item
+    insert into public.order_items (order_id, item_id, quantity, notes, status)
+    values (v_order.id, v_item.id, v_quantity, nullif(trim(v_line->>'notes'), ''), v_status)
+    returning id into v_order_item_id;
+
+    -- 3. Modifiers, snapshotting the label and price at order time
+    insert into public.order_item_modifiers (order_item_id, modifier_id, label, price_delta)
+    select v_order_item_id, m.id, m.name, m.price_delta
+    from public.modifiers m
+    where m.id = any (v_modifier_ids);
+
+    -- 4. Initial status event
+    insert into public.order_item_status_events (order_item_id, old_status, new_status)
+    values (v_order_item_id, null, v_status);
+
+    select (v_item.base_price + coalesce(sum(m.price_delta), 0)) * v_quantity
+    into v_line_total
+    from public.modifiers m
+    where m.id = any (v_modifier_ids);
+
+    v_subtotal := v_subtotal + v_line_total;
+  end loop;
+
+  update public.orders
+  set subtotal = v_subtotal
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+comment on function public.place_order(bigint, text, text, jsonb) is
+  'Atomically creates an order with its items, modifiers and initial status events. Subtotal is computed from current menu prices.';
+
+revoke execute on function public.place_order(bigint, text, text, jsonb) from public, anon;
+grant execute on function public.place_order(bigint, text, text, jsonb) to authenticated;
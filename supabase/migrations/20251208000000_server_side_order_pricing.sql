@@ -0,0 +1,300 @@
+-- Server-authoritative order pricing
+-- The browser no longer decides what an order costs:
+--   * order_item_modifiers.label/price_delta are snapshotted from the modifiers
+--     catalog on insert (ad-hoc modifiers without a modifier_id are free)
+--   * orders.subtotal is always recomputed from the order's lines, so any value
+--     written by a client is ignored
+--   * changes to order_items / order_item_modifiers recalculate the parent order
+--   * update_order_item replaces a line's quantity, notes and modifiers in one
+--     transaction (previously done with several client-side requests)
+
+-- ============================================
+-- Subtotal computation
+-- ============================================
+
+create or replace function public.compute_order_subtotal(p_order_id bigint)
+returns numeric(10,2)
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(sum((i.base_price + coalesce(m.price_delta, 0)) * oi.quantity), 0)::numeric(10,2)
+  from public.order_items oi
+  join public.items i on i.id = oi.item_id
+  left join lateral (
+    select sum(oim.price_delta) as price_delta
+    from public.order_item_modifiers oim
+    where oim.order_item_id = oi.id
+  ) m on true
+  where oi.order_id = p_order_id;
+$$;
+
+-- Orders: subtotal is derived, never trusted from the client
+create or replace function public.orders_enforce_subtotal()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.subtotal := public.compute_order_subtotal(new.id);
+  return new;
+end;
+$$;
+
+create trigger orders_enforce_subtotal
+  before insert or update on public.orders
+  for each row execute function public.orders_enforce_subtotal();
+
+-- Touch the parent order so orders_enforce_subtotal recomputes it
+create or replace function public.recalculate_order_subtotal(p_order_id bigint)
+returns void
+language sql
+set search_path = public
+as $$
+  update public.orders
+  set updated_at = now()
+  where id = p_order_id;
+$$;
+
+-- ============================================
+-- Recalculate when lines change
+-- ============================================
+
+create or replace function public.order_items_recalculate_subtotal()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    perform public.recalculate_order_subtotal(old.order_id);
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') and (tg_op = 'INSERT' or new.order_id <> old.order_id) then
+    perform public.recalculate_order_subtotal(new.order_id);
+  end if;
+  return null;
+end;
+$$;
+
+create trigger order_items_recalculate_subtotal
+  after insert or delete or update of quantity, item_id, order_id on public.order_items
+  for each row execute function public.order_items_recalculate_subtotal();
+
+create or replace function public.order_item_modifiers_recalculate_subtotal()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order_item_id bigint;
+begin
+  v_order_item_id := case when tg_op = 'DELETE' then old.order_item_id else new.order_item_id end;
+
+  perform public.recalculate_order_subtotal(order_id)
+  from public.order_items
+  where id = v_order_item_id;
+
+  return null;
+end;
+$$;
+
+create trigger order_item_modifiers_recalculate_subtotal
+  after insert or delete or update of price_delta, order_item_id on public.order_item_modifiers
+  for each row execute function public.order_item_modifiers_recalculate_subtotal();
+
+-- ============================================
+-- Modifier price snapshot
+-- ============================================
+
+create or replace function public.order_item_modifiers_snapshot_price()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_modifier public.modifiers;
+begin
+  if new.modifier_id is null then
+    -- Ad-hoc modifiers are labels only and never change the price
+    new.price_delta := 0;
+    return new;
+  end if;
+
+  select * into v_modifier from public.modifiers where id = new.modifier_id;
+  new.label := v_modifier.name;
+  new.price_delta := v_modifier.price_delta;
+  return new;
+end;
+$$;
+
+create trigger order_item_modifiers_snapshot_price
+  before insert or update of modifier_id, price_delta on public.order_item_modifiers
+  for each row execute function public.order_item_modifiers_snapshot_price();
+
+-- ============================================
+-- place_order: lines are priced by the triggers above
+-- ============================================
+
+create or replace function public.place_order(
+  p_campaign_id     bigint,
+  p_customer_name   text,
+  p_notes           text,
+  p_items           jsonb
+)
+returns public.orders
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order           public.orders;
+  v_line            jsonb;
+  v_item            public.items;
+  v_quantity        integer;
+  v_status          text;
+  v_modifier_ids    bigint[];
+  v_modifier_count  integer;
+  v_order_item_id   bigint;
+begin
+  if coalesce(trim(p_customer_name), '') = '' then
+    raise exception 'customer_name_required'
+      using detail = 'A customer name is required to place an order';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_order'
+      using detail = 'An order must contain at least one item';
+  end if;
+
+  insert into public.orders (campaign_id, customer_name, notes, status)
+  values (p_campaign_id, trim(p_customer_name), nullif(trim(p_notes), ''), 'new')
+  returning * into v_order;
+
+  for v_line in select * from jsonb_array_elements(p_items)
+  loop
+    v_quantity := coalesce((v_line->>'quantity')::integer, 0);
+    if v_quantity < 1 then
+      raise exception 'invalid_quantity'
+        using detail = format('Quantity must be at least 1 (got %s)', v_quantity);
+    end if;
+
+    select * into v_item
+    from public.items
+    where id = (v_line->>'item_id')::bigint
+      and is_active;
+
+    if not found then
+      raise exception 'item_unavailable'
+        using detail = format('Item %s does not exist or is no longer available', v_line->>'item_id');
+    end if;
+
+    select coalesce(array_agg(distinct value::bigint), '{}')
+    into v_modifier_ids
+    from jsonb_array_elements_text(coalesce(v_line->'modifier_ids', '[]'::jsonb));
+
+    select count(*)
+    into v_modifier_count
+    from public.modifiers m
+    join public.item_modifiers im on im.modifier_id = m.id and im.item_id = v_item.id
+    where m.id = any (v_modifier_ids)
+      and m.is_active;
+
+    if v_modifier_count <> coalesce(array_length(v_modifier_ids, 1), 0) then
+      raise exception 'modifier_unavailable'
+        using detail = format('One or more modifiers are not available for %s', v_item.name);
+    end if;
+
+    v_status := case when v_item.no_prep_needed then 'done' else 'new' end;
+
+    insert into public.order_items (order_id, item_id, quantity, notes, status)
+    values (v_order.id, v_item.id, v_quantity, nullif(trim(v_line->>'notes'), ''), v_status)
+    returning id into v_order_item_id;
+
+    -- label and price_delta are filled in by order_item_modifiers_snapshot_price
+    insert into public.order_item_modifiers (order_item_id, modifier_id, label)
+    select v_order_item_id, m.id, m.name
+    from public.modifiers m
+    where m.id = any (v_modifier_ids);
+
+    insert into public.order_item_status_events (order_item_id, old_status, new_status)
+    values (v_order_item_id, null, v_status);
+  end loop;
+
+  select * into v_order from public.orders where id = v_order.id;
+  return v_order;
+end;
+$$;
+
+-- ============================================
+-- update_order_item: edit a line atomically
+-- ============================================
+
+create or replace function public.update_order_item(
+  p_order_item_id   bigint,
+  p_quantity        integer,
+  p_notes           text,
+  p_modifier_ids    bigint[]
+)
+returns public.order_items
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order_item      public.order_items;
+  v_modifier_ids    bigint[];
+  v_modifier_count  integer;
+begin
+  if coalesce(p_quantity, 0) < 1 then
+    raise exception 'invalid_quantity'
+      using detail = format('Quantity must be at least 1 (got %s)', p_quantity);
+  end if;
+
+  select * into v_order_item
+  from public.order_items
+  where id = p_order_item_id
+  for update;
+
+  if not found then
+    raise exception 'order_item_not_found'
+      using detail = format('Order item %s does not exist', p_order_item_id);
+  end if;
+
+  select coalesce(array_agg(distinct id), '{}')
+  into v_modifier_ids
+  from unnest(coalesce(p_modifier_ids, '{}')) as id;
+
+  select count(*)
+  into v_modifier_count
+  from public.modifiers m
+  join public.item_modifiers im on im.modifier_id = m.id and im.item_id = v_order_item.item_id
+  where m.id = any (v_modifier_ids)
+    and m.is_active;
+
+  if v_modifier_count <> coalesce(array_length(v_modifier_ids, 1), 0) then
+    raise exception 'modifier_unavailable'
+      using detail = 'One or more modifiers are not available for this item';
+  end if;
+
+  update public.order_items
+  set quantity = p_quantity,
+      notes = nullif(trim(p_notes), ''),
+      updated_at = now()
+  where id = p_order_item_id
+  returning * into v_order_item;
+
+  delete from public.order_item_modifiers
+  where order_item_id = p_order_item_id;
+
+  insert into public.order_item_modifiers (order_item_id, modifier_id, label)
+  select p_order_item_id, m.id, m.name
+  from public.modifiers m
+  where m.id = any (v_modifier_ids);
+
+  return v_order_item;
+end;
+$$;
+
+comment on function public.update_order_item(bigint, integer, text, bigint[]) is
+  'Replaces an order line''s quantity, notes and modifiers in one transaction. The order subtotal is recalculated by triggers.';
+
+revoke execute on function public.update_order_item(bigint, integer, text, bigint[]) from public, anon;
+grant execute on function public.update_order_item(bigint, integer, text, bigint[]) to authenticated;
@@ -0,0 +1,161 @@
+-- Snapshot item name and price on order_items
+-- Like order_item_modifiers.label/price_delta, each line now keeps the name and
+-- unit price the customer was charged, so editing items.base_price (or renaming
+-- an item) mid-campaign never reprices or relabels historical orders.
+
+alter table public.order_items
+  add column unit_price numeric(10,2),
+  add column item_name text;
+
+-- Backfill existing lines from the current menu (best we can do for old orders)
+update public.order_items oi
+set unit_price = i.base_price,
+    item_name = i.name
+from public.items i
+where i.id = oi.item_id;
+
+alter table public.order_items
+  alter column unit_price set not null,
+  alter column unit_price set default 0.00,
+  alter column item_name set not null;
+
+comment on column public.order_items.unit_price is
+  'Price of one unit (before modifiers) at the time the line was ordered';
+comment on column public.order_items.item_name is
+  'Name of the item at the time the line was ordered';
+
+-- Snapshot is always taken from the menu, never from the client
+create or replace function public.order_items_snapshot_item()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_item public.items;
+begin
+  if tg_op = 'UPDATE' and new.item_id = old.item_id then
+    -- Keep the original snapshot when editing quantity, notes or status
+    new.unit_price := old.unit_price;
+    new.item_name := old.item_name;
+    return new;
+  end if;
+
+  select * into v_item from public.items where id = new.item_id;
+  new.unit_price := v_item.base_price;
+  new.item_name := v_item.name;
+  return new;
+end;
+$$;
+
+create trigger order_items_snapshot_item
+  before insert or update of item_id, unit_price, item_name on public.order_items
+  for each row execute function public.order_items_snapshot_item();
+
+-- Subtotals use the snapshot instead of the live items join
+create or replace function public.compute_order_subtotal(p_order_id bigint)
+returns numeric(10,2)
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(sum((oi.unit_price + coalesce(m.price_delta, 0)) * oi.quantity), 0)::numeric(10,2)
+  from public.order_items oi
+  left join lateral (
+    select sum(oim.price_delta) as price_delta
+    from public.order_item_modifiers oim
+    where oim.order_item_id = oi.id
+  ) m on true
+  where oi.order_id = p_order_id;
+$$;
+
+-- Also recalculate when a line's snapshot price changes
+drop trigger order_items_recalculate_subtotal on public.order_items;
+
+create trigger order_items_recalculate_subtotal
+  after insert or delete or update of quantity, item_id, unit_price, order_id on public.order_items
+  for each row execute function public.order_items_recalculate_subtotal();
+
+-- update_order_item: keep the snapshot of modifiers that stay selected so an
+-- edit only prices newly added modifiers at the current menu price
+create or replace function public.update_order_item(
+  p_order_item_id   bigint,
+  p_quantity        integer,
+  p_notes           text,
+  p_modifier_ids    bigint[]
+)
+returns public.order_items
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order_item      public.order_items;
+  v_modifier_ids    bigint[];
+  v_modifier_count  integer;
+begin
+  if coalesce(p_quantity, 0) < 1 then
+    raise exception 'invalid_quantity'
+      using detail = format('Quantity must be at least 1 (got %s)', p_quantity);
+  end if;
+
+  select * into v_order_item
+  from public.order_items
+  where id = p_order_item_id
+  for update;
+
+  if not found then
+    raise exception 'order_item_not_found'
+      using detail = format('Order item %s does not exist', p_order_item_id);
+  end if;
+
+  select coalesce(array_agg(distinct id), '{}')
+  into v_modifier_ids
+  from unnest(coalesce(p_modifier_ids, '{}')) as id;
+
+  -- Newly added modifiers must be available; ones already on the line may since
+  -- have been deactivated and are kept as-is
+  select count(*)
+  into v_modifier_count
+  from public.modifiers m
+  join public.item_modifiers im on im.modifier_id = m.id and im.item_id = v_order_item.item_id
+  where m.id = any (v_modifier_ids)
+    and m.is_active
+    and not exists (
+      select 1 from public.order_item_modifiers oim
+      where oim.order_item_id = p_order_item_id and oim.modifier_id = m.id
+    );
+
+  if v_modifier_count <> (
+    select count(*) from unnest(v_modifier_ids) as s(modifier_id)
+    where not exists (
+      select 1 from public.order_item_modifiers oim
+      where oim.order_item_id = p_order_item_id and oim.modifier_id = s.modifier_id
+    )
+  ) then
+    raise exception 'modifier_unavailable'
+      using detail = 'One or more modifiers are not available for this item';
+  end if;
+
+  update public.order_items
+  set quantity = p_quantity,
+      notes = nullif(trim(p_notes), ''),
+      updated_at = now()
+  where id = p_order_item_id
+  returning * into v_order_item;
+
+  delete from public.order_item_modifiers
+  where order_item_id = p_order_item_id
+    and modifier_id is not null
+    and modifier_id <> all (v_modifier_ids);
+
+  insert into public.order_item_modifiers (order_item_id, modifier_id, label)
+  select p_order_item_id, m.id, m.name
+  from public.modifiers m
+  where m.id = any (v_modifier_ids)
+    and not exists (
+      select 1 from public.order_item_modifiers oim
+      where oim.order_item_id = p_order_item_id and oim.modifier_id = m.id
+    );
+
+  return v_order_item;
+end;
+$$;
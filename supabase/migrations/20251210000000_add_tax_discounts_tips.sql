@@ -0,0 +1,472 @@
+-- Sales tax, discounts and tips
+--   * campaigns.tax_rate is the default sales tax rate for an event
+--   * categories.tax_rate optionally overrides it (e.g. prepared food vs. packaged)
+--   * items.is_tax_exempt opts an item out of tax entirely
+--   * order_items.tax_rate snapshots the rate that applied when the line was ordered
+--   * order_discounts holds at most one discount per line and one for the whole order,
+--     either a percentage or a fixed amount, always with a reason
+--   * orders gain tax, discount_total, tip and total, all computed server-side
+--     (tip is the only value the client chooses)
+--
+-- Math (mirrored in app/lib/pricing.ts):
+--   line gross      = (unit_price + modifiers) * quantity
+--   line net        = line gross - line discount
+--   order discount  = applied to the sum of line nets
+--   tax             = sum(line net, less its share of the order discount, * line tax_rate)
+--   total           = subtotal - discount_total + tax + tip
+
+-- ============================================
+-- Tax configuration
+-- ============================================
+
+alter table public.campaigns
+  add column tax_rate numeric(6,4) not null default 0
+    constraint campaigns_tax_rate_check check (tax_rate >= 0 and tax_rate < 1);
+
+alter table public.categories
+  add column tax_rate numeric(6,4)
+    constraint categories_tax_rate_check check (tax_rate >= 0 and tax_rate < 1);
+
+alter table public.items
+  add column is_tax_exempt boolean not null default false;
+
+comment on column public.campaigns.tax_rate is
+  'Default sales tax rate for orders in this campaign, as a fraction (0.0825 = 8.25%)';
+comment on column public.categories.tax_rate is
+  'When set, overrides the campaign tax rate for items in this category';
+comment on column public.items.is_tax_exempt is
+  'When true, no sales tax is charged on this item';
+
+alter table public.order_items
+  add column tax_rate numeric(6,4) not null default 0;
+
+comment on column public.order_items.tax_rate is
+  'Tax rate that applied to this line at the time it was ordered';
+
+-- ============================================
+-- Order totals
+-- ============================================
+
+alter table public.orders
+  add column discount_total numeric(10,2) not null default 0.00,
+  add column tax numeric(10,2) not null default 0.00,
+  add column tip numeric(10,2) not null default 0.00
+    constraint orders_tip_check check (tip >= 0),
+  add column total numeric(10,2) not null default 0.00;
+
+-- Orders placed before now had no tax, discounts or tip, so each one's total
+-- is the subtotal it was charged. The trigger stays off for this so recorded
+-- subtotals aren't recomputed.
+alter table public.orders disable trigger orders_enforce_subtotal;
+update public.orders set total = subtotal;
+alter table public.orders enable trigger orders_enforce_subtotal;
+
+-- ============================================
+-- Discounts
+-- ============================================
+
+create table public.order_discounts (
+  id                bigint generated by default as identity primary key,
+  order_id          bigint not null references public.orders(id) on delete cascade,
+  order_item_id     bigint references public.order_items(id) on delete cascade, -- null = whole order
+  kind              text not null,              -- 'percent' or 'fixed'
+  value             numeric(10,2) not null,     -- 10 = 10% for percent, dollars for fixed
+  reason            text not null,              -- 'Staff meal', 'Remake', etc.
+  amount            numeric(10,2) not null default 0.00, -- computed dollar amount
+  created_at        timestamptz not null default now()
+);
+
+alter table public.order_discounts add constraint order_discounts_kind_check
+  check (kind in ('percent', 'fixed'));
+alter table public.order_discounts add constraint order_discounts_value_check
+  check (value >= 0 and (kind <> 'percent' or value <= 100));
+alter table public.order_discounts add constraint order_discounts_reason_check
+  check (length(trim(reason)) > 0);
+
+create index order_discounts_order_id_idx on public.order_discounts (order_id);
+create unique index order_discounts_order_level_idx
+  on public.order_discounts (order_id) where order_item_id is null;
+create unique index order_discounts_line_level_idx
+  on public.order_discounts (order_item_id) where order_item_id is not null;
+
+alter table public.order_discounts enable row level security;
+
+create policy "Authenticated users can read order_discounts"
+  on public.order_discounts for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can insert order_discounts"
+  on public.order_discounts for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can update order_discounts"
+  on public.order_discounts for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Authenticated users can delete order_discounts"
+  on public.order_discounts for delete
+  to authenticated
+  using (true);
+
+-- ============================================
+-- Computation
+-- ============================================
+
+-- Dollar amount of a discount applied to a base amount
+create or replace function public.discount_amount(p_kind text, p_value numeric, p_base numeric)
+returns numeric(10,2)
+language sql
+immutable
+as $$
+  select case
+    -- No discount row (a left join that matched nothing); least() would
+    -- otherwise ignore the null value and take off the whole base
+    when p_kind is null or p_value is null then 0
+    when p_base <= 0 then 0
+    when p_kind = 'percent' then round(p_base * p_value / 100, 2)
+    else least(p_value, p_base)
+  end::numeric(10,2);
+$$;
+
+create or replace function public.compute_order_totals(
+  p_order_id        bigint,
+  out subtotal      numeric(10,2),
+  out discount_total numeric(10,2),
+  out tax           numeric(10,2)
+)
+language sql
+stable
+set search_path = public
+as $$
+  with lines as (
+    select
+      oi.id,
+      oi.tax_rate,
+      (oi.unit_price + coalesce(m.price_delta, 0)) * oi.quantity as gross
+    from public.order_items oi
+    left join lateral (
+      select sum(oim.price_delta) as price_delta
+      from public.order_item_modifiers oim
+      where oim.order_item_id = oi.id
+    ) m on true
+    where oi.order_id = p_order_id
+  ),
+  discounted as (
+    select
+      l.*,
+      case when d.id is null then 0 else public.discount_amount(d.kind, d.value, l.gross) end as line_discount
+    from lines l
+    left join public.order_discounts d on d.order_item_id = l.id
+  ),
+  sums as (
+    select
+      coalesce(sum(gross), 0) as gross,
+      coalesce(sum(line_discount), 0) as line_discounts,
+      coalesce(sum(gross - line_discount), 0) as net
+    from discounted
+  ),
+  order_discount as (
+    select coalesce((
+      select public.discount_amount(d.kind, d.value, s.net)
+      from public.order_discounts d
+      where d.order_id = p_order_id and d.order_item_id is null
+    ), 0) as amount
+    from sums s
+  )
+  select
+    s.gross::numeric(10,2),
+    (s.line_discounts + od.amount)::numeric(10,2),
+    coalesce(round(sum(
+      (d.gross - d.line_discount)
+      * (1 - case when s.net > 0 then od.amount / s.net else 0 end)
+      * d.tax_rate
+    ), 2), 0)::numeric(10,2)
+  from sums s
+  cross join order_discount od
+  left join discounted d on true
+  group by s.gross, s.line_discounts, od.amount;
+$$;
+
+-- Orders: every total is derived; only the tip is taken from the client
+create or replace function public.orders_enforce_subtotal()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_totals record;
+begin
+  select * into v_totals from public.compute_order_totals(new.id);
+  new.subtotal := v_totals.subtotal;
+  new.discount_total := v_totals.discount_total;
+  new.tax := v_totals.tax;
+  new.total := v_totals.subtotal - v_totals.discount_total + v_totals.tax + coalesce(new.tip, 0);
+  return new;
+end;
+$$;
+
+-- Refresh the stored discount amounts, then touch the order so its totals recompute
+create or replace function public.recalculate_order_subtotal(p_order_id bigint)
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_net numeric;
+begin
+  update public.order_discounts d
+  set amount = public.discount_amount(
+    d.kind,
+    d.value,
+    (
+      select (oi.unit_price + coalesce(sum(oim.price_delta), 0)) * oi.quantity
+      from public.order_items oi
+      left join public.order_item_modifiers oim on oim.order_item_id = oi.id
+      where oi.id = d.order_item_id
+      group by oi.id
+    )
+  )
+  where d.order_id = p_order_id
+    and d.order_item_id is not null;
+
+  select coalesce(sum(line_net), 0)
+  into v_net
+  from (
+    select (oi.unit_price + coalesce(sum(oim.price_delta), 0)) * oi.quantity
+      - coalesce(max(d.amount), 0) as line_net
+    from public.order_items oi
+    left join public.order_item_modifiers oim on oim.order_item_id = oi.id
+    left join public.order_discounts d on d.order_item_id = oi.id
+    where oi.order_id = p_order_id
+    group by oi.id
+  ) lines;
+
+  update public.order_discounts
+  set amount = public.discount_amount(kind, value, v_net)
+  where order_id = p_order_id
+    and order_item_id is null;
+
+  update public.orders
+  set updated_at = now()
+  where id = p_order_id;
+end;
+$$;
+
+create or replace function public.order_discounts_recalculate_totals()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  perform public.recalculate_order_subtotal(
+    case when tg_op = 'DELETE' then old.order_id else new.order_id end
+  );
+  return null;
+end;
+$$;
+
+-- Only fire on user-facing columns; amount is written by recalculate_order_subtotal
+create trigger order_discounts_recalculate_totals
+  after insert or delete or update of kind, value, order_item_id on public.order_discounts
+  for each row execute function public.order_discounts_recalculate_totals();
+
+-- ============================================
+-- Snapshot the tax rate alongside name and price
+-- ============================================
+
+create or replace function public.order_items_snapshot_item()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_item public.items;
+begin
+  if tg_op = 'UPDATE' and new.item_id = old.item_id then
+    -- Keep the original snapshot when editing quantity, notes or status
+    new.unit_price := old.unit_price;
+    new.item_name := old.item_name;
+    new.tax_rate := old.tax_rate;
+    return new;
+  end if;
+
+  select * into v_item from public.items where id = new.item_id;
+  new.unit_price := v_item.base_price;
+  new.item_name := v_item.name;
+  new.tax_rate := case
+    when v_item.is_tax_exempt then 0
+    else coalesce(
+      (select c.tax_rate from public.categories c where c.id = v_item.category_id),
+      (select cp.tax_rate from public.orders o
+        join public.campaigns cp on cp.id = o.campaign_id
+        where o.id = new.order_id),
+      0
+    )
+  end;
+  return new;
+end;
+$$;
+
+drop trigger order_items_snapshot_item on public.order_items;
+
+create trigger order_items_snapshot_item
+  before insert or update of item_id, unit_price, item_name, tax_rate on public.order_items
+  for each row execute function public.order_items_snapshot_item();
+
+-- ============================================
+-- place_order: accept discounts and a tip
+-- ============================================
+
+-- p_items lines may now carry a discount:
+--   { "item_id": 1, "quantity": 1, "modifier_ids": [], "discount": { "kind": "percent", "value": 50, "reason": "Staff" } }
+-- p_discount is an optional order-level discount with the same shape.
+
+drop function public.place_order(bigint, text, text, jsonb);
+
+create or replace function public.validate_discount(p_discount jsonb)
+returns void
+language plpgsql
+immutable
+as $$
+begin
+  if coalesce(p_discount->>'kind', '') not in ('percent', 'fixed')
+    or coalesce((p_discount->>'value')::numeric, -1) < 0
+    or (p_discount->>'kind' = 'percent' and (p_discount->>'value')::numeric > 100) then
+    raise exception 'invalid_discount'
+      using detail = 'Discounts must be a percentage (0-100) or a non-negative amount';
+  end if;
+
+  if coalesce(trim(p_discount->>'reason'), '') = '' then
+    raise exception 'invalid_discount'
+      using detail = 'A reason is required for every discount';
+  end if;
+end;
+$$;
+
+create or replace function public.place_order(
+  p_campaign_id     bigint,
+  p_customer_name   text,
+  p_notes           text,
+  p_items           jsonb,
+  p_discount        jsonb default null,
+  p_tip             numeric default 0
+)
+returns public.orders
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order           public.orders;
+  v_line            jsonb;
+  v_item            public.items;
+  v_quantity        integer;
+  v_status          text;
+  v_modifier_ids    bigint[];
+  v_modifier_count  integer;
+  v_order_item_id   bigint;
+begin
+  if coalesce(trim(p_customer_name), '') = '' then
+    raise exception 'customer_name_required'
+      using detail = 'A customer name is required to place an order';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_order'
+      using detail = 'An order must contain at least one item';
+  end if;
+
+  if coalesce(p_tip, 0) < 0 then
+    raise exception 'invalid_tip'
+      using detail = 'Tip cannot be negative';
+  end if;
+
+  insert into public.orders (campaign_id, customer_name, notes, status, tip)
+  values (p_campaign_id, trim(p_customer_name), nullif(trim(p_notes), ''), 'new', coalesce(p_tip, 0))
+  returning * into v_order;
+
+  for v_line in select * from jsonb_array_elements(p_items)
+  loop
+    v_quantity := coalesce((v_line->>'quantity')::integer, 0);
+    if v_quantity < 1 then
+      raise exception 'invalid_quantity'
+        using detail = format('Quantity must be at least 1 (got %s)', v_quantity);
+    end if;
+
+    select * into v_item
+    from public.items
+    where id = (v_line->>'item_id')::bigint
+      and is_active;
+
+    if not found then
+      raise exception 'item_unavailable'
+        using detail = format('Item %s does not exist or is no longer available', v_line->>'item_id');
+    end if;
+
+    select coalesce(array_agg(distinct value::bigint), '{}')
+    into v_modifier_ids
+    from jsonb_array_elements_text(coalesce(v_line->'modifier_ids', '[]'::jsonb));
+
+    select count(*)
+    into v_modifier_count
+    from public.modifiers m
+    join public.item_modifiers im on im.modifier_id = m.id and im.item_id = v_item.id
+    where m.id = any (v_modifier_ids)
+      and m.is_active;
+
+    if v_modifier_count <> coalesce(array_length(v_modifier_ids, 1), 0) then
+      raise exception 'modifier_unavailable'
+        using detail = format('One or more modifiers are not available for %s', v_item.name);
+    end if;
+
+    v_status := case when v_item.no_prep_needed then 'done' else 'new' end;
+
+    insert into public.order_items (order_id, item_id, quantity, notes, status)
+    values (v_order.id, v_item.id, v_quantity, nullif(trim(v_line->>'notes'), ''), v_status)
+    returning id into v_order_item_id;
+
+    insert into public.order_item_modifiers (order_item_id, modifier_id, label)
+    select v_order_item_id, m.id, m.name
+    from public.modifiers m
+    where m.id = any (v_modifier_ids);
+
+    insert into public.order_item_status_events (order_item_id, old_status, new_status)
+    values (v_order_item_id, null, v_status);
+
+    if jsonb_typeof(v_line->'discount') = 'object' then
+      perform public.validate_discount(v_line->'discount');
+      insert into public.order_discounts (order_id, order_item_id, kind, value, reason)
+      values (
+        v_order.id,
+        v_order_item_id,
+        v_line->'discount'->>'kind',
+        (v_line->'discount'->>'value')::numeric,
+        trim(v_line->'discount'->>'reason')
+      );
+    end if;
+  end loop;
+
+  if jsonb_typeof(p_discount) = 'object' then
+    perform public.validate_discount(p_discount);
+    insert into public.order_discounts (order_id, kind, value, reason)
+    values (
+      v_order.id,
+      p_discount->>'kind',
+      (p_discount->>'value')::numeric,
+      trim(p_discount->>'reason')
+    );
+  end if;
+
+  select * into v_order from public.orders where id = v_order.id;
+  return v_order;
+end;
+$$;
+
+comment on function public.place_order(bigint, text, text, jsonb, jsonb, numeric) is
+  'Atomically creates an order with its items, modifiers, discounts and initial status events. Totals are computed from current menu prices and tax rates.';
+
+revoke execute on function public.place_order(bigint, text, text, jsonb, jsonb, numeric) from public, anon;
+grant execute on function public.place_order(bigint, text, text, jsonb, jsonb, numeric) to authenticated;
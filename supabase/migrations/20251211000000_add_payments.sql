@@ -0,0 +1,371 @@
+-- Payments and tenders
+--   * payments records every tender taken against an order: cash (with the
+--     amount handed over and the change given), card (taken on an external
+--     reader and recorded manually), comp and voucher. An order can be split
+--     across several tenders.
+--   * orders.payment_status is derived from the payments and the order total:
+--     'unpaid', 'partial' or 'paid', or 'no_charge' when nothing is owed and
+--     nothing was taken
+--   * place_order accepts the tenders collected at the terminal so the order and
+--     its payments are written in one transaction; record_payments takes payment
+--     for an order that was submitted unpaid (or only partially paid)
+
+-- ============================================
+-- Payments
+-- ============================================
+
+create table public.payments (
+  id                bigint generated by default as identity primary key,
+  order_id          bigint not null references public.orders(id) on delete cascade,
+  method            text not null,              -- 'cash', 'card', 'comp', 'voucher'
+  amount            numeric(10,2) not null,     -- applied to the order
+  tendered          numeric(10,2),              -- cash handed over (cash only)
+  change_due        numeric(10,2) not null default 0.00,
+  reference         text,                       -- card approval / voucher code / comp reason
+  created_at        timestamptz not null default now()
+);
+
+alter table public.payments add constraint payments_method_check
+  check (method in ('cash', 'card', 'comp', 'voucher'));
+alter table public.payments add constraint payments_amount_check
+  check (amount > 0);
+alter table public.payments add constraint payments_tendered_check
+  check (tendered is null or (method = 'cash' and tendered >= amount));
+alter table public.payments add constraint payments_reference_check
+  check (method not in ('comp', 'voucher') or length(trim(coalesce(reference, ''))) > 0);
+
+create index payments_order_id_idx on public.payments (order_id);
+
+comment on column public.payments.amount is
+  'Amount applied to the order; for cash this excludes the change given back';
+comment on column public.payments.reference is
+  'Card approval code or last four digits, voucher code, or the reason for a comp';
+
+alter table public.payments enable row level security;
+
+-- Payments are append-only for staff; corrections are recorded as new rows
+create policy "Authenticated users can read payments"
+  on public.payments for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can insert payments"
+  on public.payments for insert
+  to authenticated
+  with check (true);
+
+-- Change is always computed, never trusted from the client
+create or replace function public.payments_compute_change()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.method = 'cash' then
+    new.tendered := coalesce(new.tendered, new.amount);
+    new.change_due := new.tendered - new.amount;
+  else
+    new.tendered := null;
+    new.change_due := 0;
+  end if;
+  new.reference := nullif(trim(new.reference), '');
+  return new;
+end;
+$$;
+
+create trigger payments_compute_change
+  before insert or update on public.payments
+  for each row execute function public.payments_compute_change();
+
+-- ============================================
+-- Payment status
+-- ============================================
+
+alter table public.orders
+  add column payment_status text not null default 'unpaid';
+
+alter table public.orders add constraint orders_payment_status_check
+  check (payment_status in ('unpaid', 'partial', 'paid', 'no_charge'));
+
+create or replace function public.compute_order_paid(p_order_id bigint)
+returns numeric(10,2)
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(sum(amount), 0)::numeric(10,2)
+  from public.payments
+  where order_id = p_order_id;
+$$;
+
+-- Runs after orders_enforce_subtotal (triggers fire in name order), so the
+-- total it compares against is already up to date. An order only counts as
+-- paid once money was actually taken.
+create or replace function public.orders_set_payment_status()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_paid numeric(10,2);
+begin
+  v_paid := public.compute_order_paid(new.id);
+  new.payment_status := case
+    when v_paid > 0 and v_paid >= new.total then 'paid'
+    when v_paid > 0 then 'partial'
+    when new.total <= 0 then 'no_charge'
+    else 'unpaid'
+  end;
+  return new;
+end;
+$$;
+
+create trigger orders_set_payment_status
+  before insert or update on public.orders
+  for each row execute function public.orders_set_payment_status();
+
+create or replace function public.payments_refresh_order()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  update public.orders
+  set updated_at = now()
+  where id = case when tg_op = 'DELETE' then old.order_id else new.order_id end;
+  return null;
+end;
+$$;
+
+create trigger payments_refresh_order
+  after insert or delete or update of amount, order_id on public.payments
+  for each row execute function public.payments_refresh_order();
+
+-- ============================================
+-- record_payments
+-- ============================================
+
+-- p_payments is a jsonb array of tenders:
+--   [{ "method": "cash", "amount": 12.50, "tendered": 20 },
+--    { "method": "voucher", "amount": 5, "reference": "SUMMER-05" }]
+-- The order is locked so two terminals cannot both settle the same balance.
+
+create or replace function public.record_payments(
+  p_order_id        bigint,
+  p_payments        jsonb
+)
+returns public.orders
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order           public.orders;
+  v_tender          jsonb;
+  v_method          text;
+  v_amount          numeric;
+  v_tendered        numeric;
+  v_balance         numeric;
+begin
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'order_not_found'
+      using detail = format('Order %s does not exist', p_order_id);
+  end if;
+
+  if p_payments is null or jsonb_typeof(p_payments) <> 'array' then
+    raise exception 'invalid_payment'
+      using detail = 'Payments must be a list of tenders';
+  end if;
+
+  v_balance := v_order.total - public.compute_order_paid(p_order_id);
+
+  for v_tender in select * from jsonb_array_elements(p_payments)
+  loop
+    v_method := v_tender->>'method';
+    v_amount := (v_tender->>'amount')::numeric;
+    v_tendered := (v_tender->>'tendered')::numeric;
+
+    if coalesce(v_method, '') not in ('cash', 'card', 'comp', 'voucher') then
+      raise exception 'invalid_payment'
+        using detail = format('Unknown payment method "%s"', v_method);
+    end if;
+
+    if coalesce(v_amount, 0) <= 0 then
+      raise exception 'invalid_payment'
+        using detail = 'Each payment must be for more than $0.00';
+    end if;
+
+    if v_method = 'cash' and v_tendered is not null and v_tendered < v_amount then
+      raise exception 'invalid_payment'
+        using detail = 'Cash tendered is less than the amount being paid';
+    end if;
+
+    if v_method in ('comp', 'voucher') and coalesce(trim(v_tender->>'reference'), '') = '' then
+      raise exception 'invalid_payment'
+        using detail = case v_method
+          when 'comp' then 'A reason is required for comps'
+          else 'A voucher code is required'
+        end;
+    end if;
+
+    if v_amount > v_balance then
+      raise exception 'overpayment'
+        using detail = format('Payment of %s is more than the %s still owed', v_amount, greatest(v_balance, 0));
+    end if;
+
+    insert into public.payments (order_id, method, amount, tendered, reference)
+    values (p_order_id, v_method, v_amount, v_tendered, v_tender->>'reference');
+
+    v_balance := v_balance - v_amount;
+  end loop;
+
+  select * into v_order from public.orders where id = p_order_id;
+  return v_order;
+end;
+$$;
+
+comment on function public.record_payments(bigint, jsonb) is
+  'Records one or more tenders against an order. Rejects payments that exceed the balance owed.';
+
+revoke execute on function public.record_payments(bigint, jsonb) from public, anon;
+grant execute on function public.record_payments(bigint, jsonb) to authenticated;
+
+-- ============================================
+-- place_order: take payment with the order
+-- ============================================
+
+drop function public.place_order(bigint, text, text, jsonb, jsonb, numeric);
+
+create or replace function public.place_order(
+  p_campaign_id     bigint,
+  p_customer_name   text,
+  p_notes           text,
+  p_items           jsonb,
+  p_discount        jsonb default null,
+  p_tip             numeric default 0,
+  p_payments        jsonb default null
+)
+returns public.orders
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order           public.orders;
+  v_line            jsonb;
+  v_item            public.items;
+  v_quantity        integer;
+  v_status          text;
+  v_modifier_ids    bigint[];
+  v_modifier_count  integer;
+  v_order_item_id   bigint;
+begin
+  if coalesce(trim(p_customer_name), '') = '' then
+    raise exception 'customer_name_required'
+      using detail = 'A customer name is required to place an order';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_order'
+      using detail = 'An order must contain at least one item';
+  end if;
+
+  if coalesce(p_tip, 0) < 0 then
+    raise exception 'invalid_tip'
+      using detail = 'Tip cannot be negative';
+  end if;
+
+  insert into public.orders (campaign_id, customer_name, notes, status, tip)
+  values (p_campaign_id, trim(p_customer_name), nullif(trim(p_notes), ''), 'new', coalesce(p_tip, 0))
+  returning * into v_order;
+
+  for v_line in select * from jsonb_array_elements(p_items)
+  loop
+    v_quantity := coalesce((v_line->>'quantity')::integer, 0);
+    if v_quantity < 1 then
+      raise exception 'invalid_quantity'
+        using detail = format('Quantity must be at least 1 (got %s)', v_quantity);
+    end if;
+
+    select * into v_item
+    from public.items
+    where id = (v_line->>'item_id')::bigint
+      and is_active;
+
+    if not found then
+      raise exception 'item_unavailable'
+        using detail = format('Item %s does not exist or is no longer available', v_line->>'item_id');
+    end if;
+
+    select coalesce(array_agg(distinct value::bigint), '{}')
+    into v_modifier_ids
+    from jsonb_array_elements_text(coalesce(v_line->'modifier_ids', '[]'::jsonb));
+
+    select count(*)
+    into v_modifier_count
+    from public.modifiers m
+    join public.item_modifiers im on im.modifier_id = m.id and im.item_id = v_item.id
+    where m.id = any (v_modifier_ids)
+      and m.is_active;
+
+    if v_modifier_count <> coalesce(array_length(v_modifier_ids, 1), 0) then
+      raise exception 'modifier_unavailable'
+        using detail = format('One or more modifiers are not available for %s', v_item.name);
+    end if;
+
+    v_status := case when v_item.no_prep_needed then 'done' else 'new' end;
+
+    insert into public.order_items (order_id, item_id, quantity, notes, status)
+    values (v_order.id, v_item.id, v_quantity, nullif(trim(v_line->>'notes'), ''), v_status)
+    returning id into v_order_item_id;
+
+    insert into public.order_item_modifiers (order_item_id, modifier_id, label)
+    select v_order_item_id, m.id, m.name
+    from public.modifiers m
+    where m.id = any (v_modifier_ids);
+
+    insert into public.order_item_status_events (order_item_id, old_status, new_status)
+    values (v_order_item_id, null, v_status);
+
+    if jsonb_typeof(v_line->'discount') = 'object' then
+      perform public.validate_discount(v_line->'discount');
+      insert into public.order_discounts (order_id, order_item_id, kind, value, reason)
+      values (
+        v_order.id,
+        v_order_item_id,
+        v_line->'discount'->>'kind',
+        (v_line->'discount'->>'value')::numeric,
+        trim(v_line->'discount'->>'reason')
+      );
+    end if;
+  end loop;
+
+  if jsonb_typeof(p_discount) = 'object' then
+    perform public.validate_discount(p_discount);
+    insert into public.order_discounts (order_id, kind, value, reason)
+    values (
+      v_order.id,
+      p_discount->>'kind',
+      (p_discount->>'value')::numeric,
+      trim(p_discount->>'reason')
+    );
+  end if;
+
+  -- Totals are final at this point, so tenders can be checked against them
+  if jsonb_typeof(p_payments) = 'array' and jsonb_array_length(p_payments) > 0 then
+    perform public.record_payments(v_order.id, p_payments);
+  end if;
+
+  select * into v_order from public.orders where id = v_order.id;
+  return v_order;
+end;
+$$;
+
+comment on function public.place_order(bigint, text, text, jsonb, jsonb, numeric, jsonb) is
+  'Atomically creates an order with its items, modifiers, discounts, payments and initial status events. Totals are computed from current menu prices and tax rates.';
+
+revoke execute on function public.place_order(bigint, text, text, jsonb, jsonb, numeric, jsonb) from public, anon;
+grant execute on function public.place_order(bigint, text, text, jsonb, jsonb, numeric, jsonb) to authenticated;
@@ -0,0 +1,638 @@
+-- Voids and refunds with an audit trail
+-- Orders and their lines are never hard-deleted any more. Instead:
+--   * void (before prep): a line that the kitchen has not started is cancelled
+--     (status 'cancelled'); voiding every line cancels the order
+--   * refund (after payment): a line, or the whole order, is marked refunded
+--     and the money is handed back as a negative payment
+-- Voided and refunded lines stay on the order but no longer count towards its
+-- totals. Every void and refund writes an order_adjustments row recording who
+-- did it, when, why and how much the order total changed.
+
+-- ============================================
+-- No more hard deletes of order history
+-- ============================================
+
+-- order_item_modifiers keeps its delete policy: update_order_item removes
+-- modifiers from a line when it is edited, which is a change, not a void
+drop policy "Authenticated users can delete order_items" on public.order_items;
+drop policy "Authenticated users can delete orders" on public.orders;
+
+-- ============================================
+-- Audit trail
+-- ============================================
+
+create table public.order_adjustments (
+  id                bigint generated by default as identity primary key,
+  order_id          bigint not null references public.orders(id),
+  order_item_id     bigint references public.order_items(id), -- null = whole order
+  kind              text not null,              -- 'void' or 'refund'
+  reason            text not null,
+  amount            numeric(10,2) not null,     -- how much the order total went down
+  performed_by      uuid references auth.users(id) default auth.uid(),
+  created_at        timestamptz not null default now()
+);
+
+alter table public.order_adjustments add constraint order_adjustments_kind_check
+  check (kind in ('void', 'refund'));
+alter table public.order_adjustments add constraint order_adjustments_reason_check
+  check (length(trim(reason)) > 0);
+
+create index order_adjustments_order_id_idx on public.order_adjustments (order_id);
+
+alter table public.order_adjustments enable row level security;
+
+-- Written only by the void/refund functions below; read-only for staff
+create policy "Authenticated users can read order_adjustments"
+  on public.order_adjustments for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can insert order_adjustments"
+  on public.order_adjustments for insert
+  to authenticated
+  with check (true);
+
+alter table public.order_items
+  add column refunded_at timestamptz;
+
+comment on column public.order_items.refunded_at is
+  'Set when the line was refunded; refunded lines no longer count towards order totals';
+
+-- ============================================
+-- Refunds are negative payments
+-- ============================================
+
+alter table public.payments
+  add column adjustment_id bigint references public.order_adjustments(id);
+
+alter table public.payments drop constraint payments_amount_check;
+alter table public.payments add constraint payments_amount_check
+  check (amount > 0 or (amount < 0 and adjustment_id is not null));
+
+comment on column public.payments.adjustment_id is
+  'For refunds (negative amounts), the void or refund that returned the money';
+
+-- Each void or refund hands money back at most once
+create unique index payments_adjustment_id_key on public.payments (adjustment_id);
+
+-- A refund can only come from refund_overpayment: it must belong to a void or
+-- refund of the same order and give back exactly what was overpaid
+create or replace function public.payments_check_refund()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_total numeric(10,2);
+begin
+  if new.amount >= 0 then
+    return new;
+  end if;
+
+  if not exists (
+    select 1 from public.order_adjustments
+    where id = new.adjustment_id and order_id = new.order_id
+  ) then
+    raise exception 'invalid_payment'
+      using detail = 'A refund must belong to a void or refund of the same order';
+  end if;
+
+  select total into v_total from public.orders where id = new.order_id;
+
+  if -new.amount <> public.compute_order_paid(new.order_id) - v_total then
+    raise exception 'invalid_payment'
+      using detail = 'A refund must give back exactly what was overpaid';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger payments_check_refund
+  before insert on public.payments
+  for each row execute function public.payments_check_refund();
+
+create or replace function public.payments_compute_change()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.method = 'cash' and new.amount > 0 then
+    new.tendered := coalesce(new.tendered, new.amount);
+    new.change_due := new.tendered - new.amount;
+  else
+    new.tendered := null;
+    new.change_due := 0;
+  end if;
+  new.reference := nullif(trim(new.reference), '');
+  return new;
+end;
+$$;
+
+alter table public.orders drop constraint orders_payment_status_check;
+alter table public.orders add constraint orders_payment_status_check
+  check (payment_status in ('unpaid', 'partial', 'paid', 'no_charge', 'refunded'));
+
+create or replace function public.orders_set_payment_status()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_paid      numeric(10,2);
+  v_refunded  boolean;
+begin
+  v_paid := public.compute_order_paid(new.id);
+  v_refunded := exists (select 1 from public.payments where order_id = new.id and amount < 0);
+  new.payment_status := case
+    when v_refunded and v_paid <= 0 then 'refunded'
+    when v_paid > 0 and v_paid >= new.total then 'paid'
+    when v_paid > 0 then 'partial'
+    when new.total <= 0 then 'no_charge'
+    else 'unpaid'
+  end;
+  return new;
+end;
+$$;
+
+-- ============================================
+-- Totals skip voided and refunded lines
+-- ============================================
+
+create or replace function public.is_billable_order_item(p_status text, p_refunded_at timestamptz)
+returns boolean
+language sql
+immutable
+as $$
+  select p_status <> 'cancelled' and p_refunded_at is null;
+$$;
+
+create or replace function public.compute_order_totals(
+  p_order_id        bigint,
+  out subtotal      numeric(10,2),
+  out discount_total numeric(10,2),
+  out tax           numeric(10,2)
+)
+language sql
+stable
+set search_path = public
+as $$
+  with lines as (
+    select
+      oi.id,
+      oi.tax_rate,
+      (oi.unit_price + coalesce(m.price_delta, 0)) * oi.quantity as gross
+    from public.order_items oi
+    left join lateral (
+      select sum(oim.price_delta) as price_delta
+      from public.order_item_modifiers oim
+      where oim.order_item_id = oi.id
+    ) m on true
+    where oi.order_id = p_order_id
+      and public.is_billable_order_item(oi.status, oi.refunded_at)
+  ),
+  discounted as (
+    select
+      l.*,
+      case when d.id is null then 0 else public.discount_amount(d.kind, d.value, l.gross) end as line_discount
+    from lines l
+    left join public.order_discounts d on d.order_item_id = l.id
+  ),
+  sums as (
+    select
+      coalesce(sum(gross), 0) as gross,
+      coalesce(sum(line_discount), 0) as line_discounts,
+      coalesce(sum(gross - line_discount), 0) as net
+    from discounted
+  ),
+  order_discount as (
+    select coalesce((
+      select public.discount_amount(d.kind, d.value, s.net)
+      from public.order_discounts d
+      where d.order_id = p_order_id and d.order_item_id is null
+    ), 0) as amount
+    from sums s
+  )
+  select
+    s.gross::numeric(10,2),
+    (s.line_discounts + od.amount)::numeric(10,2),
+    coalesce(round(sum(
+      (d.gross - d.line_discount)
+      * (1 - case when s.net > 0 then od.amount / s.net else 0 end)
+      * d.tax_rate
+    ), 2), 0)::numeric(10,2)
+  from sums s
+  cross join order_discount od
+  left join discounted d on true
+  group by s.gross, s.line_discounts, od.amount;
+$$;
+
+create or replace function public.recalculate_order_subtotal(p_order_id bigint)
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_net numeric;
+begin
+  update public.order_discounts d
+  set amount = public.discount_amount(
+    d.kind,
+    d.value,
+    (
+      select (oi.unit_price + coalesce(sum(oim.price_delta), 0)) * oi.quantity
+      from public.order_items oi
+      left join public.order_item_modifiers oim on oim.order_item_id = oi.id
+      where oi.id = d.order_item_id
+        and public.is_billable_order_item(oi.status, oi.refunded_at)
+      group by oi.id
+    )
+  )
+  where d.order_id = p_order_id
+    and d.order_item_id is not null;
+
+  select coalesce(sum(line_net), 0)
+  into v_net
+  from (
+    select (oi.unit_price + coalesce(sum(oim.price_delta), 0)) * oi.quantity
+      - coalesce(max(d.amount), 0) as line_net
+    from public.order_items oi
+    left join public.order_item_modifiers oim on oim.order_item_id = oi.id
+    left join public.order_discounts d on d.order_item_id = oi.id
+    where oi.order_id = p_order_id
+      and public.is_billable_order_item(oi.status, oi.refunded_at)
+    group by oi.id
+  ) lines;
+
+  update public.order_discounts
+  set amount = public.discount_amount(kind, value, v_net)
+  where order_id = p_order_id
+    and order_item_id is null;
+
+  update public.orders
+  set updated_at = now()
+  where id = p_order_id;
+end;
+$$;
+
+-- Only recalculate when a line moves in or out of the bill, not on every
+-- kitchen status change
+create trigger order_items_recalculate_on_void
+  after update of status, refunded_at on public.order_items
+  for each row
+  when (
+    public.is_billable_order_item(old.status, old.refunded_at)
+      is distinct from public.is_billable_order_item(new.status, new.refunded_at)
+  )
+  execute function public.order_items_recalculate_subtotal();
+
+-- ============================================
+-- Shared helpers
+-- ============================================
+
+-- Hand back whatever has been paid beyond the order's new total
+create or replace function public.refund_overpayment(
+  p_order_id        bigint,
+  p_adjustment_id   bigint,
+  p_method          text,
+  p_reason          text
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_total   numeric(10,2);
+  v_paid    numeric(10,2);
+  v_method  text;
+begin
+  select total into v_total from public.orders where id = p_order_id;
+  v_paid := public.compute_order_paid(p_order_id);
+
+  if v_paid <= v_total then
+    return;
+  end if;
+
+  -- Default to the way the customer paid most recently
+  v_method := coalesce(p_method, (
+    select method from public.payments
+    where order_id = p_order_id and amount > 0
+    order by created_at desc, id desc
+    limit 1
+  ));
+
+  if coalesce(v_method, '') not in ('cash', 'card', 'comp', 'voucher') then
+    raise exception 'invalid_payment'
+      using detail = format('Unknown refund method "%s"', v_method);
+  end if;
+
+  insert into public.payments (order_id, method, amount, reference, adjustment_id)
+  values (p_order_id, v_method, -(v_paid - v_total), p_reason, p_adjustment_id);
+end;
+$$;
+
+create or replace function public.require_adjustment_reason(p_reason text)
+returns void
+language plpgsql
+immutable
+as $$
+begin
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'reason_required'
+      using detail = 'A reason is required for voids and refunds';
+  end if;
+end;
+$$;
+
+-- ============================================
+-- Voids
+-- ============================================
+
+create or replace function public.void_order_item(
+  p_order_item_id   bigint,
+  p_reason          text,
+  p_refund_method   text default null
+)
+returns public.orders
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order_item      public.order_items;
+  v_total_before    numeric(10,2);
+  v_order           public.orders;
+  v_adjustment_id   bigint;
+begin
+  perform public.require_adjustment_reason(p_reason);
+
+  select * into v_order_item
+  from public.order_items
+  where id = p_order_item_id
+  for update;
+
+  if not found then
+    raise exception 'order_item_not_found'
+      using detail = format('Order item %s does not exist', p_order_item_id);
+  end if;
+
+  if not public.is_billable_order_item(v_order_item.status, v_order_item.refunded_at) then
+    raise exception 'already_adjusted'
+      using detail = 'This item has already been voided or refunded';
+  end if;
+
+  if v_order_item.status <> 'new' then
+    raise exception 'already_prepared'
+      using detail = 'The kitchen has already started this item - refund it instead';
+  end if;
+
+  select total into v_total_before
+  from public.orders
+  where id = v_order_item.order_id
+  for update;
+
+  update public.order_items
+  set status = 'cancelled',
+      updated_at = now()
+  where id = p_order_item_id;
+
+  insert into public.order_item_status_events (order_item_id, old_status, new_status)
+  values (p_order_item_id, v_order_item.status, 'cancelled');
+
+  -- Nothing left to make: the order itself is cancelled
+  update public.orders
+  set status = 'cancelled',
+      updated_at = now()
+  where id = v_order_item.order_id
+    and not exists (
+      select 1 from public.order_items
+      where order_id = v_order_item.order_id
+        and status <> 'cancelled'
+    );
+
+  select * into v_order from public.orders where id = v_order_item.order_id;
+
+  insert into public.order_adjustments (order_id, order_item_id, kind, reason, amount)
+  values (v_order.id, p_order_item_id, 'void', trim(p_reason), v_total_before - v_order.total)
+  returning id into v_adjustment_id;
+
+  perform public.refund_overpayment(v_order.id, v_adjustment_id, p_refund_method, trim(p_reason));
+
+  select * into v_order from public.orders where id = v_order.id;
+  return v_order;
+end;
+$$;
+
+create or replace function public.void_order(
+  p_order_id        bigint,
+  p_reason          text,
+  p_refund_method   text default null
+)
+returns public.orders
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order           public.orders;
+  v_total_before    numeric(10,2);
+  v_adjustment_id   bigint;
+begin
+  perform public.require_adjustment_reason(p_reason);
+
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'order_not_found'
+      using detail = format('Order %s does not exist', p_order_id);
+  end if;
+
+  if v_order.status = 'cancelled' then
+    raise exception 'already_adjusted'
+      using detail = 'This order has already been voided';
+  end if;
+
+  if exists (
+    select 1 from public.order_items
+    where order_id = p_order_id
+      and status not in ('new', 'cancelled')
+  ) then
+    raise exception 'already_prepared'
+      using detail = 'The kitchen has already started this order - refund it instead';
+  end if;
+
+  v_total_before := v_order.total;
+
+  insert into public.order_item_status_events (order_item_id, old_status, new_status)
+  select id, status, 'cancelled'
+  from public.order_items
+  where order_id = p_order_id
+    and status <> 'cancelled';
+
+  update public.order_items
+  set status = 'cancelled',
+      updated_at = now()
+  where order_id = p_order_id
+    and status <> 'cancelled';
+
+  -- Nothing was served, so nothing is tipped
+  update public.orders
+  set status = 'cancelled',
+      tip = 0,
+      updated_at = now()
+  where id = p_order_id
+  returning * into v_order;
+
+  insert into public.order_adjustments (order_id, kind, reason, amount)
+  values (p_order_id, 'void', trim(p_reason), v_total_before - v_order.total)
+  returning id into v_adjustment_id;
+
+  perform public.refund_overpayment(p_order_id, v_adjustment_id, p_refund_method, trim(p_reason));
+
+  select * into v_order from public.orders where id = p_order_id;
+  return v_order;
+end;
+$$;
+
+-- ============================================
+-- Refunds
+-- ============================================
+
+create or replace function public.refund_order_item(
+  p_order_item_id   bigint,
+  p_reason          text,
+  p_refund_method   text default null
+)
+returns public.orders
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order_item      public.order_items;
+  v_order           public.orders;
+  v_total_before    numeric(10,2);
+  v_adjustment_id   bigint;
+begin
+  perform public.require_adjustment_reason(p_reason);
+
+  select * into v_order_item
+  from public.order_items
+  where id = p_order_item_id
+  for update;
+
+  if not found then
+    raise exception 'order_item_not_found'
+      using detail = format('Order item %s does not exist', p_order_item_id);
+  end if;
+
+  if not public.is_billable_order_item(v_order_item.status, v_order_item.refunded_at) then
+    raise exception 'already_adjusted'
+      using detail = 'This item has already been voided or refunded';
+  end if;
+
+  select * into v_order
+  from public.orders
+  where id = v_order_item.order_id
+  for update;
+
+  if v_order.payment_status not in ('paid', 'partial') then
+    raise exception 'not_paid'
+      using detail = 'Nothing has been paid on this order - void the item instead';
+  end if;
+
+  v_total_before := v_order.total;
+
+  update public.order_items
+  set refunded_at = now(),
+      updated_at = now()
+  where id = p_order_item_id;
+
+  select * into v_order from public.orders where id = v_order_item.order_id;
+
+  insert into public.order_adjustments (order_id, order_item_id, kind, reason, amount)
+  values (v_order.id, p_order_item_id, 'refund', trim(p_reason), v_total_before - v_order.total)
+  returning id into v_adjustment_id;
+
+  perform public.refund_overpayment(v_order.id, v_adjustment_id, p_refund_method, trim(p_reason));
+
+  select * into v_order from public.orders where id = v_order.id;
+  return v_order;
+end;
+$$;
+
+create or replace function public.refund_order(
+  p_order_id        bigint,
+  p_reason          text,
+  p_refund_method   text default null
+)
+returns public.orders
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order           public.orders;
+  v_total_before    numeric(10,2);
+  v_adjustment_id   bigint;
+begin
+  perform public.require_adjustment_reason(p_reason);
+
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'order_not_found'
+      using detail = format('Order %s does not exist', p_order_id);
+  end if;
+
+  if v_order.payment_status not in ('paid', 'partial') then
+    raise exception 'not_paid'
+      using detail = 'Nothing has been paid on this order - void it instead';
+  end if;
+
+  v_total_before := v_order.total;
+
+  update public.order_items
+  set refunded_at = now(),
+      updated_at = now()
+  where order_id = p_order_id
+    and public.is_billable_order_item(status, refunded_at);
+
+  -- A full refund hands back the tip as well
+  update public.orders
+  set tip = 0,
+      updated_at = now()
+  where id = p_order_id
+  returning * into v_order;
+
+  insert into public.order_adjustments (order_id, kind, reason, amount)
+  values (p_order_id, 'refund', trim(p_reason), v_total_before - v_order.total)
+  returning id into v_adjustment_id;
+
+  perform public.refund_overpayment(p_order_id, v_adjustment_id, p_refund_method, trim(p_reason));
+
+  select * into v_order from public.orders where id = p_order_id;
+  return v_order;
+end;
+$$;
+
+comment on function public.void_order_item(bigint, text, text) is
+  'Cancels an order line the kitchen has not started, refunding any overpayment. Recorded in order_adjustments.';
+comment on function public.void_order(bigint, text, text) is
+  'Cancels an order none of whose lines have been started, refunding any payment. Recorded in order_adjustments.';
+comment on function public.refund_order_item(bigint, text, text) is
+  'Refunds a paid order line as a negative payment. Recorded in order_adjustments.';
+comment on function public.refund_order(bigint, text, text) is
+  'Refunds every remaining line and the tip of a paid order. Recorded in order_adjustments.';
+
+revoke execute on function public.void_order_item(bigint, text, text) from public, anon;
+revoke execute on function public.void_order(bigint, text, text) from public, anon;
+revoke execute on function public.refund_order_item(bigint, text, text) from public, anon;
+revoke execute on function public.refund_order(bigint, text, text) from public, anon;
+grant execute on function public.void_order_item(bigint, text, text) to authenticated;
+grant execute on function public.void_order(bigint, text, text) to authenticated;
+grant execute on function public.refund_order_item(bigint, text, text) to authenticated;
+grant execute on function public.refund_order(bigint, text, text) to authenticated;
@@ -0,0 +1,157 @@
+-- Per-campaign price overrides
+--   * campaign_items.price_override replaces items.base_price for orders placed
+--     under that campaign (null keeps the base price). Overrides only apply to
+--     items on the campaign's menu.
+--   * campaign_modifier_prices replaces modifiers.price_delta for a campaign
+--   * The order line and modifier snapshot triggers look up the order's campaign,
+--     so place_order, line edits and recalculate_order_subtotal all charge the
+--     campaign price without further changes
+
+-- ============================================
+-- Item overrides
+-- ============================================
+
+alter table public.campaign_items
+  add column price_override numeric(10,2);
+
+alter table public.campaign_items add constraint campaign_items_price_override_check
+  check (price_override is null or price_override >= 0);
+
+comment on column public.campaign_items.price_override is
+  'Price charged for the item under this campaign; null uses items.base_price';
+
+-- ============================================
+-- Modifier overrides
+-- ============================================
+
+create table public.campaign_modifier_prices (
+  id                bigint generated by default as identity primary key,
+  campaign_id       bigint not null references public.campaigns(id) on delete cascade,
+  modifier_id       bigint not null references public.modifiers(id) on delete cascade,
+  price_delta       numeric(10,2) not null,
+  created_at        timestamptz not null default now(),
+  unique (campaign_id, modifier_id)
+);
+
+create index campaign_modifier_prices_modifier_id_idx on public.campaign_modifier_prices (modifier_id);
+
+alter table public.campaign_modifier_prices enable row level security;
+
+create policy "Allow authenticated users to read campaign_modifier_prices"
+  on public.campaign_modifier_prices for select
+  to authenticated
+  using (true);
+
+create policy "Allow authenticated users to insert campaign_modifier_prices"
+  on public.campaign_modifier_prices for insert
+  to authenticated
+  with check (true);
+
+create policy "Allow authenticated users to update campaign_modifier_prices"
+  on public.campaign_modifier_prices for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Allow authenticated users to delete campaign_modifier_prices"
+  on public.campaign_modifier_prices for delete
+  to authenticated
+  using (true);
+
+alter publication supabase_realtime add table public.campaign_modifier_prices;
+
+-- ============================================
+-- Price lookups
+-- ============================================
+
+create or replace function public.campaign_item_price(p_campaign_id bigint, p_item_id bigint)
+returns numeric(10,2)
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(
+    (select ci.price_override
+     from public.campaign_items ci
+     where ci.campaign_id = p_campaign_id and ci.item_id = p_item_id),
+    (select i.base_price from public.items i where i.id = p_item_id)
+  );
+$$;
+
+create or replace function public.campaign_modifier_price(p_campaign_id bigint, p_modifier_id bigint)
+returns numeric(10,2)
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(
+    (select cmp.price_delta
+     from public.campaign_modifier_prices cmp
+     where cmp.campaign_id = p_campaign_id and cmp.modifier_id = p_modifier_id),
+    (select m.price_delta from public.modifiers m where m.id = p_modifier_id)
+  );
+$$;
+
+-- ============================================
+-- Snapshot the campaign price
+-- ============================================
+
+create or replace function public.order_items_snapshot_item()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_item public.items;
+  v_campaign_id bigint;
+begin
+  if tg_op = 'UPDATE' and new.item_id = old.item_id then
+    -- Keep the original snapshot when editing quantity, notes or status
+    new.unit_price := old.unit_price;
+    new.item_name := old.item_name;
+    new.tax_rate := old.tax_rate;
+    return new;
+  end if;
+
+  select campaign_id into v_campaign_id from public.orders where id = new.order_id;
+  select * into v_item from public.items where id = new.item_id;
+  new.unit_price := public.campaign_item_price(v_campaign_id, v_item.id);
+  new.item_name := v_item.name;
+  new.tax_rate := case
+    when v_item.is_tax_exempt then 0
+    else coalesce(
+      (select c.tax_rate from public.categories c where c.id = v_item.category_id),
+      (select cp.tax_rate from public.campaigns cp where cp.id = v_campaign_id),
+      0
+    )
+  end;
+  return new;
+end;
+$$;
+
+create or replace function public.order_item_modifiers_snapshot_price()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_modifier public.modifiers;
+  v_campaign_id bigint;
+begin
+  if new.modifier_id is null then
+    -- Ad-hoc modifiers are labels only and never change the price
+    new.price_delta := 0;
+    return new;
+  end if;
+
+  select o.campaign_id into v_campaign_id
+  from public.order_items oi
+  join public.orders o on o.id = oi.order_id
+  where oi.id = new.order_item_id;
+
+  select * into v_modifier from public.modifiers where id = new.modifier_id;
+  new.label := v_modifier.name;
+  new.price_delta := public.campaign_modifier_price(v_campaign_id, v_modifier.id);
+  return new;
+end;
+$$;
@@ -0,0 +1,209 @@
+-- Inventory and stock counts
+--   * stock_levels holds a per-campaign count for an item or a modifier. Items
+--     and modifiers without a row are not tracked and never sell out.
+--   * Stock is taken when a line (or a modifier on it) is written and given back
+--     when the line is voided or its quantity drops, all inside the same
+--     transaction as the order. place_order therefore fails with 'sold_out'
+--     instead of overselling, and the row lock stops two terminals selling the
+--     last bagel twice.
+--   * Refunded lines keep their stock: the item was handed over.
+
+-- ============================================
+-- Stock levels
+-- ============================================
+
+create table public.stock_levels (
+  id                bigint generated by default as identity primary key,
+  campaign_id       bigint not null references public.campaigns(id) on delete cascade,
+  item_id           bigint references public.items(id) on delete cascade,
+  modifier_id       bigint references public.modifiers(id) on delete cascade,
+  quantity          integer not null,
+  updated_at        timestamptz not null default now(),
+  -- Nulls are distinct, so item rows and modifier rows don't collide
+  unique (campaign_id, item_id),
+  unique (campaign_id, modifier_id)
+);
+
+alter table public.stock_levels add constraint stock_levels_target_check
+  check ((item_id is null) <> (modifier_id is null));
+alter table public.stock_levels add constraint stock_levels_quantity_check
+  check (quantity >= 0);
+
+comment on table public.stock_levels is
+  'Units left to sell for an item or modifier within a campaign; no row means unlimited';
+
+alter table public.stock_levels enable row level security;
+
+create policy "Allow authenticated users to read stock_levels"
+  on public.stock_levels for select
+  to authenticated
+  using (true);
+
+create policy "Allow authenticated users to insert stock_levels"
+  on public.stock_levels for insert
+  to authenticated
+  with check (true);
+
+create policy "Allow authenticated users to update stock_levels"
+  on public.stock_levels for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Allow authenticated users to delete stock_levels"
+  on public.stock_levels for delete
+  to authenticated
+  using (true);
+
+-- Terminals mark items sold out as soon as the count hits zero. Full replica
+-- identity lets delete events (tracking switched off) carry the whole row.
+alter table public.stock_levels replica identity full;
+alter publication supabase_realtime add table public.stock_levels;
+
+-- ============================================
+-- adjust_stock
+-- ============================================
+
+create or replace function public.adjust_stock(
+  p_campaign_id     bigint,
+  p_item_id         bigint,
+  p_modifier_id     bigint,
+  p_delta           integer
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_level           public.stock_levels;
+  v_name            text;
+begin
+  if p_campaign_id is null or p_delta = 0 then
+    return;
+  end if;
+
+  select * into v_level
+  from public.stock_levels
+  where campaign_id = p_campaign_id
+    and item_id is not distinct from p_item_id
+    and modifier_id is not distinct from p_modifier_id
+  for update;
+
+  if not found then
+    -- Not tracked
+    return;
+  end if;
+
+  if v_level.quantity + p_delta < 0 then
+    v_name := coalesce(
+      (select name from public.items where id = p_item_id),
+      (select name from public.modifiers where id = p_modifier_id)
+    );
+    raise exception 'sold_out'
+      using detail = case
+        when v_level.quantity = 0 then format('%s is sold out', v_name)
+        else format('Only %s %s left', v_level.quantity, v_name)
+      end;
+  end if;
+
+  update public.stock_levels
+  set quantity = quantity + p_delta,
+      updated_at = now()
+  where id = v_level.id;
+end;
+$$;
+
+-- ============================================
+-- Stock triggers
+-- ============================================
+
+-- Cancelled (voided) lines hold no stock; anything else holds its quantity
+create or replace function public.order_items_track_stock()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_campaign_id     bigint;
+  v_old_quantity    integer := 0;
+  v_new_quantity    integer := 0;
+  v_modifier_id     bigint;
+begin
+  if tg_op = 'UPDATE' and old.status <> 'cancelled' then
+    v_old_quantity := old.quantity;
+  end if;
+  if new.status <> 'cancelled' then
+    v_new_quantity := new.quantity;
+  end if;
+
+  if v_new_quantity = v_old_quantity then
+    return null;
+  end if;
+
+  select campaign_id into v_campaign_id from public.orders where id = new.order_id;
+
+  perform public.adjust_stock(v_campaign_id, new.item_id, null, v_old_quantity - v_new_quantity);
+
+  -- On insert there are no modifiers yet; order_item_modifiers_track_stock takes those
+  for v_modifier_id in
+    select modifier_id
+    from public.order_item_modifiers
+    where order_item_id = new.id
+      and modifier_id is not null
+  loop
+    perform public.adjust_stock(v_campaign_id, null, v_modifier_id, v_old_quantity - v_new_quantity);
+  end loop;
+
+  return null;
+end;
+$$;
+
+create trigger order_items_track_stock
+  after insert or update of quantity, status on public.order_items
+  for each row execute function public.order_items_track_stock();
+
+create or replace function public.order_item_modifiers_track_stock()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_modifier_id     bigint;
+  v_order_item_id   bigint;
+  v_line            public.order_items;
+  v_campaign_id     bigint;
+begin
+  if tg_op = 'DELETE' then
+    v_modifier_id := old.modifier_id;
+    v_order_item_id := old.order_item_id;
+  else
+    v_modifier_id := new.modifier_id;
+    v_order_item_id := new.order_item_id;
+  end if;
+
+  if v_modifier_id is null then
+    -- Ad-hoc modifiers are labels only
+    return null;
+  end if;
+
+  select * into v_line from public.order_items where id = v_order_item_id;
+  if not found or v_line.status = 'cancelled' then
+    return null;
+  end if;
+
+  select campaign_id into v_campaign_id from public.orders where id = v_line.order_id;
+
+  perform public.adjust_stock(
+    v_campaign_id,
+    null,
+    v_modifier_id,
+    case when tg_op = 'DELETE' then v_line.quantity else -v_line.quantity end
+  );
+
+  return null;
+end;
+$$;
+
+create trigger order_item_modifiers_track_stock
+  after insert or delete on public.order_item_modifiers
+  for each row execute function public.order_item_modifiers_track_stock();
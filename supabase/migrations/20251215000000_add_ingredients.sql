@@ -0,0 +1,158 @@
+-- Ingredients, recipes and depletion
+--   * ingredients are the shared raw stock (espresso beans, milk, cream cheese)
+--     with a unit and an optional low-stock threshold
+--   * recipe_ingredients says how much of each ingredient one unit of an item,
+--     or one application of a modifier, uses
+--   * campaign_ingredients records how much of an ingredient was prepped for a
+--     campaign
+--   * Usage is never stored: campaign_ingredient_usage derives it from every
+--     order line that was not voided, so edits and voids are always reflected.
+--     campaign_ingredient_levels compares it with what was prepped.
+
+-- ============================================
+-- Ingredients
+-- ============================================
+
+create table public.ingredients (
+  id                    bigint generated by default as identity primary key,
+  name                  text not null unique,
+  unit                  text not null default 'each',   -- e.g. 'g', 'ml', 'each'
+  low_stock_threshold   numeric(12,3),                  -- warn at or below this much left
+  is_active             boolean not null default true,
+  created_at            timestamptz not null default now()
+);
+
+alter table public.ingredients add constraint ingredients_low_stock_threshold_check
+  check (low_stock_threshold is null or low_stock_threshold >= 0);
+
+-- ============================================
+-- Recipes
+-- ============================================
+
+create table public.recipe_ingredients (
+  id                bigint generated by default as identity primary key,
+  item_id           bigint references public.items(id) on delete cascade,
+  modifier_id       bigint references public.modifiers(id) on delete cascade,
+  ingredient_id     bigint not null references public.ingredients(id) on delete cascade,
+  quantity          numeric(12,3) not null,
+  created_at        timestamptz not null default now(),
+  unique (item_id, ingredient_id),
+  unique (modifier_id, ingredient_id)
+);
+
+alter table public.recipe_ingredients add constraint recipe_ingredients_target_check
+  check ((item_id is null) <> (modifier_id is null));
+alter table public.recipe_ingredients add constraint recipe_ingredients_quantity_check
+  check (quantity > 0);
+
+create index recipe_ingredients_ingredient_id_idx on public.recipe_ingredients (ingredient_id);
+
+comment on column public.recipe_ingredients.quantity is
+  'Amount of the ingredient, in its unit, used by one item or one application of a modifier';
+
+-- ============================================
+-- Prepped stock per campaign
+-- ============================================
+
+create table public.campaign_ingredients (
+  id                bigint generated by default as identity primary key,
+  campaign_id       bigint not null references public.campaigns(id) on delete cascade,
+  ingredient_id     bigint not null references public.ingredients(id) on delete cascade,
+  on_hand           numeric(12,3) not null,
+  updated_at        timestamptz not null default now(),
+  unique (campaign_id, ingredient_id)
+);
+
+alter table public.campaign_ingredients add constraint campaign_ingredients_on_hand_check
+  check (on_hand >= 0);
+
+comment on column public.campaign_ingredients.on_hand is
+  'Amount prepped or brought for the campaign, before any orders';
+
+-- ============================================
+-- RLS
+-- ============================================
+
+alter table public.ingredients enable row level security;
+alter table public.recipe_ingredients enable row level security;
+alter table public.campaign_ingredients enable row level security;
+
+create policy "Allow authenticated users to read ingredients"
+  on public.ingredients for select to authenticated using (true);
+create policy "Allow authenticated users to insert ingredients"
+  on public.ingredients for insert to authenticated with check (true);
+create policy "Allow authenticated users to update ingredients"
+  on public.ingredients for update to authenticated using (true) with check (true);
+
+create policy "Allow authenticated users to read recipe_ingredients"
+  on public.recipe_ingredients for select to authenticated using (true);
+create policy "Allow authenticated users to insert recipe_ingredients"
+  on public.recipe_ingredients for insert to authenticated with check (true);
+create policy "Allow authenticated users to update recipe_ingredients"
+  on public.recipe_ingredients for update to authenticated using (true) with check (true);
+create policy "Allow authenticated users to delete recipe_ingredients"
+  on public.recipe_ingredients for delete to authenticated using (true);
+
+create policy "Allow authenticated users to read campaign_ingredients"
+  on public.campaign_ingredients for select to authenticated using (true);
+create policy "Allow authenticated users to insert campaign_ingredients"
+  on public.campaign_ingredients for insert to authenticated with check (true);
+create policy "Allow authenticated users to update campaign_ingredients"
+  on public.campaign_ingredients for update to authenticated using (true) with check (true);
+create policy "Allow authenticated users to delete campaign_ingredients"
+  on public.campaign_ingredients for delete to authenticated using (true);
+
+-- ============================================
+-- Usage and levels
+-- ============================================
+
+-- Voided lines used nothing; refunded lines were still made
+create or replace view public.campaign_ingredient_usage
+with (security_invoker = true)
+as
+with line_usage as (
+  select o.campaign_id, ri.ingredient_id, ri.quantity * oi.quantity as used
+  from public.order_items oi
+  join public.orders o on o.id = oi.order_id
+  join public.recipe_ingredients ri on ri.item_id = oi.item_id
+  where oi.status <> 'cancelled'
+  union all
+  select o.campaign_id, ri.ingredient_id, ri.quantity * oi.quantity as used
+  from public.order_item_modifiers oim
+  join public.order_items oi on oi.id = oim.order_item_id
+  join public.orders o on o.id = oi.order_id
+  join public.recipe_ingredients ri on ri.modifier_id = oim.modifier_id
+  where oi.status <> 'cancelled'
+)
+select campaign_id, ingredient_id, sum(used)::numeric(12,3) as used
+from line_usage
+where campaign_id is not null
+group by campaign_id, ingredient_id;
+
+comment on view public.campaign_ingredient_usage is
+  'How much of each ingredient the orders of a campaign have used, from recipes';
+
+create or replace view public.campaign_ingredient_levels
+with (security_invoker = true)
+as
+select
+  ci.campaign_id,
+  ci.ingredient_id,
+  i.name,
+  i.unit,
+  ci.on_hand,
+  coalesce(u.used, 0)::numeric(12,3) as used,
+  (ci.on_hand - coalesce(u.used, 0))::numeric(12,3) as remaining,
+  i.low_stock_threshold,
+  (i.low_stock_threshold is not null
+    and ci.on_hand - coalesce(u.used, 0) <= i.low_stock_threshold) as is_low
+from public.campaign_ingredients ci
+join public.ingredients i on i.id = ci.ingredient_id
+left join public.campaign_ingredient_usage u
+  on u.campaign_id = ci.campaign_id and u.ingredient_id = ci.ingredient_id;
+
+comment on view public.campaign_ingredient_levels is
+  'Prepped amount, usage so far and what is left of each ingredient tracked for a campaign';
+
+grant select on public.campaign_ingredient_usage to authenticated;
+grant select on public.campaign_ingredient_levels to authenticated;
@@ -0,0 +1,329 @@
+-- Modifier groups and selection rules
+--   * modifier_groups gather modifiers that are chosen together ("Milk",
+--     "Syrups", "Size") with how many of them an item must or may carry.
+--     min_select > 0 makes the group required; max_select null means no limit.
+--   * modifiers.group_id puts a modifier in a group; ungrouped modifiers stay
+--     free to add or leave off
+--   * modifiers.is_default marks the choice the terminal preselects
+--   * A group only applies to an item that has at least one of its modifiers
+--     linked. place_order and update_order_item reject selections that break
+--     the rules with 'invalid_modifiers'.
+
+-- ============================================
+-- Modifier groups
+-- ============================================
+
+create table public.modifier_groups (
+  id                bigint generated by default as identity primary key,
+  name              text not null,              -- 'Milk', 'Syrups', 'Size'
+  min_select        integer not null default 0,
+  max_select        integer,                    -- null = no limit
+  display_order     integer not null default 0,
+  is_active         boolean not null default true,
+  created_at        timestamptz not null default now(),
+  updated_at        timestamptz not null default now()
+);
+
+alter table public.modifier_groups add constraint modifier_groups_min_select_check
+  check (min_select >= 0);
+alter table public.modifier_groups add constraint modifier_groups_max_select_check
+  check (max_select is null or (max_select >= 1 and max_select >= min_select));
+
+alter table public.modifier_groups enable row level security;
+
+create policy "Allow authenticated users to read modifier_groups"
+  on public.modifier_groups for select
+  to authenticated
+  using (true);
+
+create policy "Allow authenticated users to insert modifier_groups"
+  on public.modifier_groups for insert
+  to authenticated
+  with check (true);
+
+create policy "Allow authenticated users to update modifier_groups"
+  on public.modifier_groups for update
+  to authenticated
+  using (true)
+  with check (true);
+
+-- ============================================
+-- Modifiers
+-- ============================================
+
+alter table public.modifiers
+  add column group_id bigint references public.modifier_groups(id) on delete set null,
+  add column is_default boolean not null default false;
+
+create index modifiers_group_id_idx on public.modifiers (group_id);
+
+comment on column public.modifiers.is_default is
+  'Preselected at the terminal when the item is added';
+
+-- ============================================
+-- validate_modifier_selection
+-- ============================================
+
+-- Checks a line's modifiers against the rules of every group the item offers.
+-- A group can't require more choices than the item actually offers from it.
+create or replace function public.validate_modifier_selection(
+  p_item_id         bigint,
+  p_modifier_ids    bigint[]
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_group           record;
+  v_min             integer;
+begin
+  for v_group in
+    select
+      g.name,
+      g.min_select,
+      g.max_select,
+      count(*) as offered,
+      count(*) filter (where m.id = any (coalesce(p_modifier_ids, '{}'))) as selected
+    from public.modifier_groups g
+    join public.modifiers m on m.group_id = g.id and m.is_active
+    join public.item_modifiers im on im.modifier_id = m.id and im.item_id = p_item_id
+    where g.is_active
+    group by g.id
+  loop
+    v_min := least(v_group.min_select, v_group.offered);
+
+    if v_group.selected < v_min then
+      raise exception 'invalid_modifiers'
+        using detail = case
+          when v_group.max_select = v_min then format('Choose %s %s', v_min, v_group.name)
+          else format('Choose at least %s %s', v_min, v_group.name)
+        end;
+    end if;
+
+    if v_group.max_select is not null and v_group.selected > v_group.max_select then
+      raise exception 'invalid_modifiers'
+        using detail = format('Choose at most %s %s', v_group.max_select, v_group.name);
+    end if;
+  end loop;
+end;
+$$;
+
+-- ============================================
+-- place_order
+-- ============================================
+
+create or replace function public.place_order(
+  p_campaign_id     bigint,
+  p_customer_name   text,
+  p_notes           text,
+  p_items           jsonb,
+  p_discount        jsonb default null,
+  p_tip             numeric default 0,
+  p_payments        jsonb default null
+)
+returns public.orders
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order           public.orders;
+  v_line            jsonb;
+  v_item            public.items;
+  v_quantity        integer;
+  v_status          text;
+  v_modifier_ids    bigint[];
+  v_modifier_count  integer;
+  v_order_item_id   bigint;
+begin
+  if coalesce(trim(p_customer_name), '') = '' then
+    raise exception 'customer_name_required'
+      using detail = 'A customer name is required to place an order';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_order'
+      using detail = 'An order must contain at least one item';
+  end if;
+
+  if coalesce(p_tip, 0) < 0 then
+    raise exception 'invalid_tip'
+      using detail = 'Tip cannot be negative';
+  end if;
+
+  insert into public.orders (campaign_id, customer_name, notes, status, tip)
+  values (p_campaign_id, trim(p_customer_name), nullif(trim(p_notes), ''), 'new', coalesce(p_tip, 0))
+  returning * into v_order;
+
+  for v_line in select * from jsonb_array_elements(p_items)
+  loop
+    v_quantity := coalesce((v_line->>'quantity')::integer, 0);
+    if v_quantity < 1 then
+      raise exception 'invalid_quantity'
+        using detail = format('Quantity must be at least 1 (got %s)', v_quantity);
+    end if;
+
+    select * into v_item
+    from public.items
+    where id = (v_line->>'item_id')::bigint
+      and is_active;
+
+    if not found then
+      raise exception 'item_unavailable'
+        using detail = format('Item %s does not exist or is no longer available', v_line->>'item_id');
+    end if;
+
+    select coalesce(array_agg(distinct value::bigint), '{}')
+    into v_modifier_ids
+    from jsonb_array_elements_text(coalesce(v_line->'modifier_ids', '[]'::jsonb));
+
+    select count(*)
+    into v_modifier_count
+    from public.modifiers m
+    join public.item_modifiers im on im.modifier_id = m.id and im.item_id = v_item.id
+    where m.id = any (v_modifier_ids)
+      and m.is_active;
+
+    if v_modifier_count <> coalesce(array_length(v_modifier_ids, 1), 0) then
+      raise exception 'modifier_unavailable'
+        using detail = format('One or more modifiers are not available for %s', v_item.name);
+    end if;
+
+    perform public.validate_modifier_selection(v_item.id, v_modifier_ids);
+
+    v_status := case when v_item.no_prep_needed then 'done' else 'new' end;
+
+    insert into public.order_items (order_id, item_id, quantity, notes, status)
+    values (v_order.id, v_item.id, v_quantity, nullif(trim(v_line->>'notes'), ''), v_status)
+    returning id into v_order_item_id;
+
+    insert into public.order_item_modifiers (order_item_id, modifier_id, label)
+    select v_order_item_id, m.id, m.name
+    from public.modifiers m
+    where m.id = any (v_modifier_ids);
+
+    insert into public.order_item_status_events (order_item_id, old_status, new_status)
+    values (v_order_item_id, null, v_status);
+
+    if jsonb_typeof(v_line->'discount') = 'object' then
+      perform public.validate_discount(v_line->'discount');
+      insert into public.order_discounts (order_id, order_item_id, kind, value, reason)
+      values (
+        v_order.id,
+        v_order_item_id,
+        v_line->'discount'->>'kind',
+        (v_line->'discount'->>'value')::numeric,
+        trim(v_line->'discount'->>'reason')
+      );
+    end if;
+  end loop;
+
+  if jsonb_typeof(p_discount) = 'object' then
+    perform public.validate_discount(p_discount);
+    insert into public.order_discounts (order_id, kind, value, reason)
+    values (
+      v_order.id,
+      p_discount->>'kind',
+      (p_discount->>'value')::numeric,
+      trim(p_discount->>'reason')
+    );
+  end if;
+
+  -- Totals are final at this point, so tenders can be checked against them
+  if jsonb_typeof(p_payments) = 'array' and jsonb_array_length(p_payments) > 0 then
+    perform public.record_payments(v_order.id, p_payments);
+  end if;
+
+  select * into v_order from public.orders where id = v_order.id;
+  return v_order;
+end;
+$$;
+
+-- ============================================
+-- update_order_item
+-- ============================================
+
+create or replace function public.update_order_item(
+  p_order_item_id   bigint,
+  p_quantity        integer,
+  p_notes           text,
+  p_modifier_ids    bigint[]
+)
+returns public.order_items
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order_item      public.order_items;
+  v_modifier_ids    bigint[];
+  v_modifier_count  integer;
+begin
+  if coalesce(p_quantity, 0) < 1 then
+    raise exception 'invalid_quantity'
+      using detail = format('Quantity must be at least 1 (got %s)', p_quantity);
+  end if;
+
+  select * into v_order_item
+  from public.order_items
+  where id = p_order_item_id
+  for update;
+
+  if not found then
+    raise exception 'order_item_not_found'
+      using detail = format('Order item %s does not exist', p_order_item_id);
+  end if;
+
+  select coalesce(array_agg(distinct id), '{}')
+  into v_modifier_ids
+  from unnest(coalesce(p_modifier_ids, '{}')) as id;
+
+  -- Newly added modifiers must be available; ones already on the line may since
+  -- have been deactivated and are kept as-is
+  select count(*)
+  into v_modifier_count
+  from public.modifiers m
+  join public.item_modifiers im on im.modifier_id = m.id and im.item_id = v_order_item.item_id
+  where m.id = any (v_modifier_ids)
+    and m.is_active
+    and not exists (
+      select 1 from public.order_item_modifiers oim
+      where oim.order_item_id = p_order_item_id and oim.modifier_id = m.id
+    );
+
+  if v_modifier_count <> (
+    select count(*) from unnest(v_modifier_ids) as s(modifier_id)
+    where not exists (
+      select 1 from public.order_item_modifiers oim
+      where oim.order_item_id = p_order_item_id and oim.modifier_id = s.modifier_id
+    )
+  ) then
+    raise exception 'modifier_unavailable'
+      using detail = 'One or more modifiers are not available for this item';
+  end if;
+
+  perform public.validate_modifier_selection(v_order_item.item_id, v_modifier_ids);
+
+  update public.order_items
+  set quantity = p_quantity,
+      notes = nullif(trim(p_notes), ''),
+      updated_at = now()
+  where id = p_order_item_id
+  returning * into v_order_item;
+
+  delete from public.order_item_modifiers
+  where order_item_id = p_order_item_id
+    and modifier_id is not null
+    and modifier_id <> all (v_modifier_ids);
+
+  insert into public.order_item_modifiers (order_item_id, modifier_id, label)
+  select p_order_item_id, m.id, m.name
+  from public.modifiers m
+  where m.id = any (v_modifier_ids)
+    and not exists (
+      select 1 from public.order_item_modifiers oim
+      where oim.order_item_id = p_order_item_id and oim.modifier_id = m.id
+    );
+
+  return v_order_item;
+end;
+$$;
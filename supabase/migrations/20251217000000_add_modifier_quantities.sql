@@ -0,0 +1,633 @@
+-- Modifier quantities and nested modifiers
+--   * order_item_modifiers.quantity lets a line carry a modifier more than
+--     once ("3 extra shots"). Its price_delta is per unit, so totals, stock and
+--     ingredient usage all multiply by it.
+--   * modifiers.parent_id makes a modifier an option of another ("Add cream
+--     cheese" -> "Scallion"). Options are offered with their parent, so they
+--     need no item_modifiers link, and can only be ordered with it. Nesting is
+--     one level deep.
+--   * order_item_modifiers.parent_id records which modifier row an option was
+--     ordered under; removing the parent removes its options.
+--   * place_order lines take 'modifiers': [{modifier_id, quantity}] (the old
+--     'modifier_ids' list is still accepted, at quantity 1), and
+--     update_order_item takes the same list in place of p_modifier_ids.
+
+-- ============================================
+-- Nested modifiers
+-- ============================================
+
+alter table public.modifiers
+  add column parent_id bigint references public.modifiers(id) on delete cascade;
+
+alter table public.modifiers add constraint modifiers_parent_check
+  check (parent_id is null or parent_id <> id);
+
+create index modifiers_parent_id_idx on public.modifiers (parent_id);
+
+comment on column public.modifiers.parent_id is
+  'Modifier this one is an option of; options are only offered once their parent is chosen';
+
+create or replace function public.modifiers_check_nesting()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.parent_id is not null and (
+    exists (select 1 from public.modifiers where id = new.parent_id and parent_id is not null)
+    or exists (select 1 from public.modifiers where parent_id = new.id)
+  ) then
+    raise exception 'modifiers can only be nested one level deep';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger modifiers_check_nesting
+  before insert or update of parent_id on public.modifiers
+  for each row execute function public.modifiers_check_nesting();
+
+-- ============================================
+-- Order line modifiers
+-- ============================================
+
+alter table public.order_item_modifiers
+  add column quantity integer not null default 1,
+  add column parent_id bigint references public.order_item_modifiers(id) on delete cascade;
+
+alter table public.order_item_modifiers add constraint order_item_modifiers_quantity_check
+  check (quantity >= 1);
+
+create index order_item_modifiers_parent_id_idx on public.order_item_modifiers (parent_id);
+
+comment on column public.order_item_modifiers.quantity is
+  'How many of the modifier go on each unit of the line; price_delta is per one';
+
+-- update_order_item changes the quantity of modifiers that stay on a line
+create policy "Authenticated users can update order_item_modifiers"
+  on public.order_item_modifiers for update to authenticated using (true) with check (true);
+
+-- ============================================
+-- Totals
+-- ============================================
+
+create or replace function public.compute_order_totals(
+  p_order_id        bigint,
+  out subtotal      numeric(10,2),
+  out discount_total numeric(10,2),
+  out tax           numeric(10,2)
+)
+language sql
+stable
+set search_path = public
+as $$
+  with lines as (
+    select
+      oi.id,
+      oi.tax_rate,
+      (oi.unit_price + coalesce(m.price_delta, 0)) * oi.quantity as gross
+    from public.order_items oi
+    left join lateral (
+      select sum(oim.price_delta * oim.quantity) as price_delta
+      from public.order_item_modifiers oim
+      where oim.order_item_id = oi.id
+    ) m on true
+    where oi.order_id = p_order_id
+      and public.is_billable_order_item(oi.status, oi.refunded_at)
+  ),
+  discounted as (
+    select
+      l.*,
+      case when d.id is null then 0 else public.discount_amount(d.kind, d.value, l.gross) end as line_discount
+    from lines l
+    left join public.order_discounts d on d.order_item_id = l.id
+  ),
+  sums as (
+    select
+      coalesce(sum(gross), 0) as gross,
+      coalesce(sum(line_discount), 0) as line_discounts,
+      coalesce(sum(gross - line_discount), 0) as net
+    from discounted
+  ),
+  order_discount as (
+    select coalesce((
+      select public.discount_amount(d.kind, d.value, s.net)
+      from public.order_discounts d
+      where d.order_id = p_order_id and d.order_item_id is null
+    ), 0) as amount
+    from sums s
+  )
+  select
+    s.gross::numeric(10,2),
+    (s.line_discounts + od.amount)::numeric(10,2),
+    coalesce(round(sum(
+      (d.gross - d.line_discount)
+      * (1 - case when s.net > 0 then od.amount / s.net else 0 end)
+      * d.tax_rate
+    ), 2), 0)::numeric(10,2)
+  from sums s
+  cross join order_discount od
+  left join discounted d on true
+  group by s.gross, s.line_discounts, od.amount;
+$$;
+
+create or replace function public.recalculate_order_subtotal(p_order_id bigint)
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_net numeric;
+begin
+  update public.order_discounts d
+  set amount = public.discount_amount(
+    d.kind,
+    d.value,
+    (
+      select (oi.unit_price + coalesce(sum(oim.price_delta * oim.quantity), 0)) * oi.quantity
+      from public.order_items oi
+      left join public.order_item_modifiers oim on oim.order_item_id = oi.id
+      where oi.id = d.order_item_id
+        and public.is_billable_order_item(oi.status, oi.refunded_at)
+      group by oi.id
+    )
+  )
+  where d.order_id = p_order_id
+    and d.order_item_id is not null;
+
+  select coalesce(sum(line_net), 0)
+  into v_net
+  from (
+    select (oi.unit_price + coalesce(sum(oim.price_delta * oim.quantity), 0)) * oi.quantity
+      - coalesce(max(d.amount), 0) as line_net
+    from public.order_items oi
+    left join public.order_item_modifiers oim on oim.order_item_id = oi.id
+    left join public.order_discounts d on d.order_item_id = oi.id
+    where oi.order_id = p_order_id
+      and public.is_billable_order_item(oi.status, oi.refunded_at)
+    group by oi.id
+  ) lines;
+
+  update public.order_discounts
+  set amount = public.discount_amount(kind, value, v_net)
+  where order_id = p_order_id
+    and order_item_id is null;
+
+  update public.orders
+  set updated_at = now()
+  where id = p_order_id;
+end;
+$$;
+
+drop trigger order_item_modifiers_recalculate_subtotal on public.order_item_modifiers;
+
+create trigger order_item_modifiers_recalculate_subtotal
+  after insert or delete or update of price_delta, quantity, order_item_id on public.order_item_modifiers
+  for each row execute function public.order_item_modifiers_recalculate_subtotal();
+
+-- ============================================
+-- Stock
+-- ============================================
+
+-- Each modifier on the line takes the line quantity times its own quantity
+create or replace function public.order_items_track_stock()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_campaign_id     bigint;
+  v_old_quantity    integer := 0;
+  v_new_quantity    integer := 0;
+  v_modifier        record;
+begin
+  if tg_op = 'UPDATE' and old.status <> 'cancelled' then
+    v_old_quantity := old.quantity;
+  end if;
+  if new.status <> 'cancelled' then
+    v_new_quantity := new.quantity;
+  end if;
+
+  if v_new_quantity = v_old_quantity then
+    return null;
+  end if;
+
+  select campaign_id into v_campaign_id from public.orders where id = new.order_id;
+
+  perform public.adjust_stock(v_campaign_id, new.item_id, null, v_old_quantity - v_new_quantity);
+
+  -- On insert there are no modifiers yet; order_item_modifiers_track_stock takes those
+  for v_modifier in
+    select modifier_id, quantity
+    from public.order_item_modifiers
+    where order_item_id = new.id
+      and modifier_id is not null
+  loop
+    perform public.adjust_stock(
+      v_campaign_id,
+      null,
+      v_modifier.modifier_id,
+      (v_old_quantity - v_new_quantity) * v_modifier.quantity
+    );
+  end loop;
+
+  return null;
+end;
+$$;
+
+create or replace function public.order_item_modifiers_track_stock()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_modifier_id     bigint;
+  v_order_item_id   bigint;
+  v_old_quantity    integer := 0;
+  v_new_quantity    integer := 0;
+  v_line            public.order_items;
+  v_campaign_id     bigint;
+begin
+  if tg_op = 'DELETE' then
+    v_modifier_id := old.modifier_id;
+    v_order_item_id := old.order_item_id;
+  else
+    v_modifier_id := new.modifier_id;
+    v_order_item_id := new.order_item_id;
+  end if;
+  if tg_op <> 'INSERT' then
+    v_old_quantity := old.quantity;
+  end if;
+  if tg_op <> 'DELETE' then
+    v_new_quantity := new.quantity;
+  end if;
+
+  if v_modifier_id is null or v_new_quantity = v_old_quantity then
+    -- Ad-hoc modifiers are labels only
+    return null;
+  end if;
+
+  select * into v_line from public.order_items where id = v_order_item_id;
+  if not found or v_line.status = 'cancelled' then
+    return null;
+  end if;
+
+  select campaign_id into v_campaign_id from public.orders where id = v_line.order_id;
+
+  perform public.adjust_stock(
+    v_campaign_id,
+    null,
+    v_modifier_id,
+    (v_old_quantity - v_new_quantity) * v_line.quantity
+  );
+
+  return null;
+end;
+$$;
+
+drop trigger order_item_modifiers_track_stock on public.order_item_modifiers;
+
+create trigger order_item_modifiers_track_stock
+  after insert or delete or update of quantity on public.order_item_modifiers
+  for each row execute function public.order_item_modifiers_track_stock();
+
+-- ============================================
+-- Ingredient usage
+-- ============================================
+
+create or replace view public.campaign_ingredient_usage
+with (security_invoker = true)
+as
+with line_usage as (
+  select o.campaign_id, ri.ingredient_id, ri.quantity * oi.quantity as used
+  from public.order_items oi
+  join public.orders o on o.id = oi.order_id
+  join public.recipe_ingredients ri on ri.item_id = oi.item_id
+  where oi.status <> 'cancelled'
+  union all
+  select o.campaign_id, ri.ingredient_id, ri.quantity * oi.quantity * oim.quantity as used
+  from public.order_item_modifiers oim
+  join public.order_items oi on oi.id = oim.order_item_id
+  join public.orders o on o.id = oi.order_id
+  join public.recipe_ingredients ri on ri.modifier_id = oim.modifier_id
+  where oi.status <> 'cancelled'
+)
+select campaign_id, ingredient_id, sum(used)::numeric(12,3) as used
+from line_usage
+where campaign_id is not null
+group by campaign_id, ingredient_id;
+
+-- ============================================
+-- Modifier selections
+-- ============================================
+
+-- Reads [{modifier_id, quantity}] into one row per modifier, adding up repeats
+create or replace function public.parse_modifier_selection(p_modifiers jsonb)
+returns table (modifier_id bigint, quantity integer)
+language plpgsql
+immutable
+as $$
+begin
+  if exists (
+    select 1
+    from jsonb_to_recordset(coalesce(p_modifiers, '[]'::jsonb)) as s(modifier_id bigint, quantity integer)
+    where coalesce(s.quantity, 1) < 1
+  ) then
+    raise exception 'invalid_quantity'
+      using detail = 'Modifier quantity must be at least 1';
+  end if;
+
+  return query
+  select s.modifier_id, sum(coalesce(s.quantity, 1))::integer
+  from jsonb_to_recordset(coalesce(p_modifiers, '[]'::jsonb)) as s(modifier_id bigint, quantity integer)
+  group by s.modifier_id;
+end;
+$$;
+
+-- Modifiers the item offers: its linked modifiers and their options
+create or replace function public.is_modifier_offered(p_item_id bigint, p_modifier_id bigint)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.modifiers m
+    left join public.modifiers parent on parent.id = m.parent_id
+    join public.item_modifiers im
+      on im.item_id = p_item_id and im.modifier_id = coalesce(m.parent_id, m.id)
+    where m.id = p_modifier_id
+      and m.is_active
+      and coalesce(parent.is_active, true)
+  );
+$$;
+
+-- Writes a line's modifiers: parents first, then options under their parent.
+-- Modifiers already on the line keep their price snapshot and only have their
+-- quantity updated; ones no longer selected are removed.
+create or replace function public.write_order_item_modifiers(
+  p_order_item_id   bigint,
+  p_modifiers       jsonb
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  delete from public.order_item_modifiers oim
+  where oim.order_item_id = p_order_item_id
+    and oim.modifier_id is not null
+    and oim.modifier_id not in (
+      select s.modifier_id from public.parse_modifier_selection(p_modifiers) s
+    );
+
+  update public.order_item_modifiers oim
+  set quantity = s.quantity
+  from public.parse_modifier_selection(p_modifiers) s
+  where oim.order_item_id = p_order_item_id
+    and oim.modifier_id = s.modifier_id
+    and oim.quantity <> s.quantity;
+
+  -- label and price_delta are filled in by order_item_modifiers_snapshot_price
+  insert into public.order_item_modifiers (order_item_id, modifier_id, label, quantity)
+  select p_order_item_id, m.id, m.name, s.quantity
+  from public.parse_modifier_selection(p_modifiers) s
+  join public.modifiers m on m.id = s.modifier_id
+  where m.parent_id is null
+    and not exists (
+      select 1 from public.order_item_modifiers oim
+      where oim.order_item_id = p_order_item_id and oim.modifier_id = m.id
+    );
+
+  insert into public.order_item_modifiers (order_item_id, modifier_id, label, quantity, parent_id)
+  select p_order_item_id, m.id, m.name, s.quantity, parent.id
+  from public.parse_modifier_selection(p_modifiers) s
+  join public.modifiers m on m.id = s.modifier_id
+  join public.order_item_modifiers parent
+    on parent.order_item_id = p_order_item_id and parent.modifier_id = m.parent_id
+  where not exists (
+    select 1 from public.order_item_modifiers oim
+    where oim.order_item_id = p_order_item_id and oim.modifier_id = m.id
+  );
+end;
+$$;
+
+-- ============================================
+-- place_order
+-- ============================================
+
+create or replace function public.place_order(
+  p_campaign_id     bigint,
+  p_customer_name   text,
+  p_notes           text,
+  p_items           jsonb,
+  p_discount        jsonb default null,
+  p_tip             numeric default 0,
+  p_payments        jsonb default null
+)
+returns public.orders
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order           public.orders;
+  v_line            jsonb;
+  v_item            public.items;
+  v_quantity        integer;
+  v_status          text;
+  v_modifiers       jsonb;
+  v_modifier_ids    bigint[];
+  v_unavailable     integer;
+  v_order_item_id   bigint;
+begin
+  if coalesce(trim(p_customer_name), '') = '' then
+    raise exception 'customer_name_required'
+      using detail = 'A customer name is required to place an order';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_order'
+      using detail = 'An order must contain at least one item';
+  end if;
+
+  if coalesce(p_tip, 0) < 0 then
+    raise exception 'invalid_tip'
+      using detail = 'Tip cannot be negative';
+  end if;
+
+  insert into public.orders (campaign_id, customer_name, notes, status, tip)
+  values (p_campaign_id, trim(p_customer_name), nullif(trim(p_notes), ''), 'new', coalesce(p_tip, 0))
+  returning * into v_order;
+
+  for v_line in select * from jsonb_array_elements(p_items)
+  loop
+    v_quantity := coalesce((v_line->>'quantity')::integer, 0);
+    if v_quantity < 1 then
+      raise exception 'invalid_quantity'
+        using detail = format('Quantity must be at least 1 (got %s)', v_quantity);
+    end if;
+
+    select * into v_item
+    from public.items
+    where id = (v_line->>'item_id')::bigint
+      and is_active;
+
+    if not found then
+      raise exception 'item_unavailable'
+        using detail = format('Item %s does not exist or is no longer available', v_line->>'item_id');
+    end if;
+
+    -- Lines from before modifier quantities send a plain list of ids
+    v_modifiers := case
+      when jsonb_typeof(v_line->'modifiers') = 'array' then v_line->'modifiers'
+      else (
+        select coalesce(jsonb_agg(jsonb_build_object('modifier_id', value::bigint)), '[]'::jsonb)
+        from jsonb_array_elements_text(coalesce(v_line->'modifier_ids', '[]'::jsonb))
+      )
+    end;
+
+    select coalesce(array_agg(s.modifier_id), '{}')
+    into v_modifier_ids
+    from public.parse_modifier_selection(v_modifiers) s;
+
+    -- Options also need their parent on the line
+    select count(*)
+    into v_unavailable
+    from public.modifiers m
+    right join unnest(v_modifier_ids) as s(modifier_id) on s.modifier_id = m.id
+    where not public.is_modifier_offered(v_item.id, s.modifier_id)
+      or (m.parent_id is not null and m.parent_id <> all (v_modifier_ids));
+
+    if v_unavailable > 0 then
+      raise exception 'modifier_unavailable'
+        using detail = format('One or more modifiers are not available for %s', v_item.name);
+    end if;
+
+    perform public.validate_modifier_selection(v_item.id, v_modifier_ids);
+
+    v_status := case when v_item.no_prep_needed then 'done' else 'new' end;
+
+    insert into public.order_items (order_id, item_id, quantity, notes, status)
+    values (v_order.id, v_item.id, v_quantity, nullif(trim(v_line->>'notes'), ''), v_status)
+    returning id into v_order_item_id;
+
+    perform public.write_order_item_modifiers(v_order_item_id, v_modifiers);
+
+    insert into public.order_item_status_events (order_item_id, old_status, new_status)
+    values (v_order_item_id, null, v_status);
+
+    if jsonb_typeof(v_line->'discount') = 'object' then
+      perform public.validate_discount(v_line->'discount');
+      insert into public.order_discounts (order_id, order_item_id, kind, value, reason)
+      values (
+        v_order.id,
+        v_order_item_id,
+        v_line->'discount'->>'kind',
+        (v_line->'discount'->>'value')::numeric,
+        trim(v_line->'discount'->>'reason')
+      );
+    end if;
+  end loop;
+
+  if jsonb_typeof(p_discount) = 'object' then
+    perform public.validate_discount(p_discount);
+    insert into public.order_discounts (order_id, kind, value, reason)
+    values (
+      v_order.id,
+      p_discount->>'kind',
+      (p_discount->>'value')::numeric,
+      trim(p_discount->>'reason')
+    );
+  end if;
+
+  -- Totals are final at this point, so tenders can be checked against them
+  if jsonb_typeof(p_payments) = 'array' and jsonb_array_length(p_payments) > 0 then
+    perform public.record_payments(v_order.id, p_payments);
+  end if;
+
+  select * into v_order from public.orders where id = v_order.id;
+  return v_order;
+end;
+$$;
+
+-- ============================================
+-- update_order_item
+-- ============================================
+
+drop function public.update_order_item(bigint, integer, text, bigint[]);
+
+create or replace function public.update_order_item(
+  p_order_item_id   bigint,
+  p_quantity        integer,
+  p_notes           text,
+  p_modifiers       jsonb
+)
+returns public.order_items
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order_item      public.order_items;
+  v_modifier_ids    bigint[];
+  v_unavailable     integer;
+begin
+  if coalesce(p_quantity, 0) < 1 then
+    raise exception 'invalid_quantity'
+      using detail = format('Quantity must be at least 1 (got %s)', p_quantity);
+  end if;
+
+  select * into v_order_item
+  from public.order_items
+  where id = p_order_item_id
+  for update;
+
+  if not found then
+    raise exception 'order_item_not_found'
+      using detail = format('Order item %s does not exist', p_order_item_id);
+  end if;
+
+  select coalesce(array_agg(s.modifier_id), '{}')
+  into v_modifier_ids
+  from public.parse_modifier_selection(p_modifiers) s;
+
+  -- Newly added modifiers must be available; ones already on the line may since
+  -- have been deactivated and are kept as-is. Options also need their parent.
+  select count(*)
+  into v_unavailable
+  from public.modifiers m
+  right join unnest(v_modifier_ids) as s(modifier_id) on s.modifier_id = m.id
+  where (
+      not public.is_modifier_offered(v_order_item.item_id, s.modifier_id)
+      and not exists (
+        select 1 from public.order_item_modifiers oim
+        where oim.order_item_id = p_order_item_id and oim.modifier_id = s.modifier_id
+      )
+    )
+    or (m.parent_id is not null and m.parent_id <> all (v_modifier_ids));
+
+  if v_unavailable > 0 then
+    raise exception 'modifier_unavailable'
+      using detail = 'One or more modifiers are not available for this item';
+  end if;
+
+  perform public.validate_modifier_selection(v_order_item.item_id, v_modifier_ids);
+
+  update public.order_items
+  set quantity = p_quantity,
+      notes = nullif(trim(p_notes), ''),
+      updated_at = now()
+  where id = p_order_item_id
+  returning * into v_order_item;
+
+  perform public.write_order_item_modifiers(p_order_item_id, p_modifiers);
+
+  return v_order_item;
+end;
+$$;
+
+comment on function public.update_order_item(bigint, integer, text, jsonb) is
+  'Updates a line''s quantity, notes and modifiers ([{modifier_id, quantity}]). Modifiers that stay on the line keep their price snapshot.';
+
+revoke execute on function public.update_order_item(bigint, integer, text, jsonb) from public, anon;
+grant execute on function public.update_order_item(bigint, integer, text, jsonb) to authenticated;
@@ -0,0 +1,278 @@
+-- Item variants (sizes)
+--   * item_variants are the sizes an item is sold in ("12oz", "16oz"), each
+--     with its own price in place of the item's base_price. An item with no
+--     variants sells at base_price as before.
+--   * order_items.variant_id records the size ordered and variant_name
+--     snapshots its name, so reports keep counting one item across sizes
+--   * A campaign's item price override moves every size by the same amount:
+--     a 16oz latte keeps its difference from the base price
+--   * place_order lines take 'variant_id'. Items with active variants need
+--     one; a missing or unknown size is rejected with 'invalid_variant'.
+
+-- ============================================
+-- Item variants
+-- ============================================
+
+create table public.item_variants (
+  id                bigint generated by default as identity primary key,
+  item_id           bigint not null references public.items(id) on delete cascade,
+  name              text not null,              -- '12oz', '16oz', 'Large'
+  price             numeric(10,2) not null,
+  display_order     integer not null default 0,
+  is_active         boolean not null default true,
+  created_at        timestamptz not null default now(),
+  updated_at        timestamptz not null default now()
+);
+
+alter table public.item_variants add constraint item_variants_price_check
+  check (price >= 0);
+
+create index item_variants_item_id_idx on public.item_variants (item_id);
+
+alter table public.item_variants enable row level security;
+
+create policy "Allow authenticated users to read item_variants"
+  on public.item_variants for select
+  to authenticated
+  using (true);
+
+create policy "Allow authenticated users to insert item_variants"
+  on public.item_variants for insert
+  to authenticated
+  with check (true);
+
+create policy "Allow authenticated users to update item_variants"
+  on public.item_variants for update
+  to authenticated
+  using (true)
+  with check (true);
+
+-- ============================================
+-- Order lines
+-- ============================================
+
+alter table public.order_items
+  add column variant_id bigint references public.item_variants(id) on delete set null,
+  add column variant_name text;
+
+create index order_items_variant_id_idx on public.order_items (variant_id);
+
+comment on column public.order_items.variant_name is
+  'Snapshot of the size ordered; null for items sold without variants';
+
+-- ============================================
+-- Pricing
+-- ============================================
+
+create or replace function public.campaign_variant_price(p_campaign_id bigint, p_variant_id bigint)
+returns numeric(10,2)
+language sql
+stable
+set search_path = public
+as $$
+  select v.price + public.campaign_item_price(p_campaign_id, v.item_id) - i.base_price
+  from public.item_variants v
+  join public.items i on i.id = v.item_id
+  where v.id = p_variant_id;
+$$;
+
+create or replace function public.order_items_snapshot_item()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_item public.items;
+  v_campaign_id bigint;
+begin
+  if tg_op = 'UPDATE'
+    and new.item_id = old.item_id
+    and new.variant_id is not distinct from old.variant_id then
+    -- Keep the original snapshot when editing quantity, notes or status
+    new.unit_price := old.unit_price;
+    new.item_name := old.item_name;
+    new.variant_name := old.variant_name;
+    new.tax_rate := old.tax_rate;
+    return new;
+  end if;
+
+  select campaign_id into v_campaign_id from public.orders where id = new.order_id;
+  select * into v_item from public.items where id = new.item_id;
+  if new.variant_id is null then
+    new.unit_price := public.campaign_item_price(v_campaign_id, v_item.id);
+    new.variant_name := null;
+  else
+    new.unit_price := public.campaign_variant_price(v_campaign_id, new.variant_id);
+    new.variant_name := (select v.name from public.item_variants v where v.id = new.variant_id);
+  end if;
+  new.item_name := v_item.name;
+  new.tax_rate := case
+    when v_item.is_tax_exempt then 0
+    else coalesce(
+      (select c.tax_rate from public.categories c where c.id = v_item.category_id),
+      (select cp.tax_rate from public.campaigns cp where cp.id = v_campaign_id),
+      0
+    )
+  end;
+  return new;
+end;
+$$;
+
+drop trigger order_items_snapshot_item on public.order_items;
+
+create trigger order_items_snapshot_item
+  before insert or update of item_id, variant_id, unit_price, item_name, variant_name, tax_rate on public.order_items
+  for each row execute function public.order_items_snapshot_item();
+
+-- ============================================
+-- place_order
+-- ============================================
+
+create or replace function public.place_order(
+  p_campaign_id     bigint,
+  p_customer_name   text,
+  p_notes           text,
+  p_items           jsonb,
+  p_discount        jsonb default null,
+  p_tip             numeric default 0,
+  p_payments        jsonb default null
+)
+returns public.orders
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order           public.orders;
+  v_line            jsonb;
+  v_item            public.items;
+  v_variant_id      bigint;
+  v_quantity        integer;
+  v_status          text;
+  v_modifiers       jsonb;
+  v_modifier_ids    bigint[];
+  v_unavailable     integer;
+  v_order_item_id   bigint;
+begin
+  if coalesce(trim(p_customer_name), '') = '' then
+    raise exception 'customer_name_required'
+      using detail = 'A customer name is required to place an order';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_order'
+      using detail = 'An order must contain at least one item';
+  end if;
+
+  if coalesce(p_tip, 0) < 0 then
+    raise exception 'invalid_tip'
+      using detail = 'Tip cannot be negative';
+  end if;
+
+  insert into public.orders (campaign_id, customer_name, notes, status, tip)
+  values (p_campaign_id, trim(p_customer_name), nullif(trim(p_notes), ''), 'new', coalesce(p_tip, 0))
+  returning * into v_order;
+
+  for v_line in select * from jsonb_array_elements(p_items)
+  loop
+    v_quantity := coalesce((v_line->>'quantity')::integer, 0);
+    if v_quantity < 1 then
+      raise exception 'invalid_quantity'
+        using detail = format('Quantity must be at least 1 (got %s)', v_quantity);
+    end if;
+
+    select * into v_item
+    from public.items
+    where id = (v_line->>'item_id')::bigint
+      and is_active;
+
+    if not found then
+      raise exception 'item_unavailable'
+        using detail = format('Item %s does not exist or is no longer available', v_line->>'item_id');
+    end if;
+
+    v_variant_id := (v_line->>'variant_id')::bigint;
+    if v_variant_id is null then
+      if exists (select 1 from public.item_variants where item_id = v_item.id and is_active) then
+        raise exception 'invalid_variant'
+          using detail = format('Choose a size for %s', v_item.name);
+      end if;
+    elsif not exists (
+      select 1 from public.item_variants
+      where id = v_variant_id and item_id = v_item.id and is_active
+    ) then
+      raise exception 'invalid_variant'
+        using detail = format('That size of %s is no longer available', v_item.name);
+    end if;
+
+    -- Lines from before modifier quantities send a plain list of ids
+    v_modifiers := case
+      when jsonb_typeof(v_line->'modifiers') = 'array' then v_line->'modifiers'
+      else (
+        select coalesce(jsonb_agg(jsonb_build_object('modifier_id', value::bigint)), '[]'::jsonb)
+        from jsonb_array_elements_text(coalesce(v_line->'modifier_ids', '[]'::jsonb))
+      )
+    end;
+
+    select coalesce(array_agg(s.modifier_id), '{}')
+    into v_modifier_ids
+    from public.parse_modifier_selection(v_modifiers) s;
+
+    -- Options also need their parent on the line
+    select count(*)
+    into v_unavailable
+    from public.modifiers m
+    right join unnest(v_modifier_ids) as s(modifier_id) on s.modifier_id = m.id
+    where not public.is_modifier_offered(v_item.id, s.modifier_id)
+      or (m.parent_id is not null and m.parent_id <> all (v_modifier_ids));
+
+    if v_unavailable > 0 then
+      raise exception 'modifier_unavailable'
+        using detail = format('One or more modifiers are not available for %s', v_item.name);
+    end if;
+
+    perform public.validate_modifier_selection(v_item.id, v_modifier_ids);
+
+    v_status := case when v_item.no_prep_needed then 'done' else 'new' end;
+
+    insert into public.order_items (order_id, item_id, variant_id, quantity, notes, status)
+    values (v_order.id, v_item.id, v_variant_id, v_quantity, nullif(trim(v_line->>'notes'), ''), v_status)
+    returning id into v_order_item_id;
+
+    perform public.write_order_item_modifiers(v_order_item_id, v_modifiers);
+
+    insert into public.order_item_status_events (order_item_id, old_status, new_status)
+    values (v_order_item_id, null, v_status);
+
+    if jsonb_typeof(v_line->'discount') = 'object' then
+      perform public.validate_discount(v_line->'discount');
+      insert into public.order_discounts (order_id, order_item_id, kind, value, reason)
+      values (
+        v_order.id,
+        v_order_item_id,
+        v_line->'discount'->>'kind',
+        (v_line->'discount'->>'value')::numeric,
+        trim(v_line->'discount'->>'reason')
+      );
+    end if;
+  end loop;
+
+  if jsonb_typeof(p_discount) = 'object' then
+    perform public.validate_discount(p_discount);
+    insert into public.order_discounts (order_id, kind, value, reason)
+    values (
+      v_order.id,
+      p_discount->>'kind',
+      (p_discount->>'value')::numeric,
+      trim(p_discount->>'reason')
+    );
+  end if;
+
+  -- Totals are final at this point, so tenders can be checked against them
+  if jsonb_typeof(p_payments) = 'array' and jsonb_array_length(p_payments) > 0 then
+    perform public.record_payments(v_order.id, p_payments);
+  end if;
+
+  select * into v_order from public.orders where id = v_order.id;
+  return v_order;
+end;
+$$;
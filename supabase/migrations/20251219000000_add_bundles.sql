@@ -0,0 +1,488 @@
+-- Bundles ("bagel + latte" deals)
+--   * items.is_bundle marks an item sold as a deal at its own price
+--     (base_price, or the campaign's override)
+--   * bundle_slots are the parts of a bundle ("Bagel", "Drink"); each slot
+--     offers one or more items in bundle_slot_choices, optionally with an
+--     upcharge. A slot with a single choice is a fixed component.
+--   * place_order lines for a bundle take 'components': [{slot_id, item_id}].
+--     The bundle line is priced as the deal; every component becomes its own
+--     order_items row (bundle_line_id -> the bundle line) priced at its
+--     upcharge, so each shows up in its own category's kitchen queue and
+--     counts against its own stock. Items with sizes or required options
+--     can't be components, since components are ordered without either.
+--   * The bundle line's status follows its components. Voiding, refunding or
+--     changing the quantity of the bundle line carries down to them.
+
+-- ============================================
+-- Bundles
+-- ============================================
+
+alter table public.items
+  add column is_bundle boolean not null default false;
+
+comment on column public.items.is_bundle is
+  'Sold as a deal made of other items, chosen in its bundle_slots';
+
+create table public.bundle_slots (
+  id                bigint generated by default as identity primary key,
+  bundle_item_id    bigint not null references public.items(id) on delete cascade,
+  name              text not null,              -- 'Bagel', 'Drink'
+  display_order     integer not null default 0,
+  is_active         boolean not null default true,
+  created_at        timestamptz not null default now(),
+  updated_at        timestamptz not null default now()
+);
+
+create index bundle_slots_bundle_item_id_idx on public.bundle_slots (bundle_item_id);
+
+create table public.bundle_slot_choices (
+  id                bigint generated by default as identity primary key,
+  slot_id           bigint not null references public.bundle_slots(id) on delete cascade,
+  item_id           bigint not null references public.items(id) on delete cascade,
+  price_delta       numeric(10,2) not null default 0,  -- Upcharge for this choice
+  created_at        timestamptz not null default now(),
+  unique (slot_id, item_id)
+);
+
+alter table public.bundle_slot_choices add constraint bundle_slot_choices_price_delta_check
+  check (price_delta >= 0);
+
+alter table public.bundle_slots enable row level security;
+alter table public.bundle_slot_choices enable row level security;
+
+create policy "Allow authenticated users to read bundle_slots"
+  on public.bundle_slots for select
+  to authenticated
+  using (true);
+
+create policy "Allow authenticated users to insert bundle_slots"
+  on public.bundle_slots for insert
+  to authenticated
+  with check (true);
+
+create policy "Allow authenticated users to update bundle_slots"
+  on public.bundle_slots for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Allow authenticated users to read bundle_slot_choices"
+  on public.bundle_slot_choices for select
+  to authenticated
+  using (true);
+
+create policy "Allow authenticated users to insert bundle_slot_choices"
+  on public.bundle_slot_choices for insert
+  to authenticated
+  with check (true);
+
+create policy "Allow authenticated users to update bundle_slot_choices"
+  on public.bundle_slot_choices for update
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Allow authenticated users to delete bundle_slot_choices"
+  on public.bundle_slot_choices for delete
+  to authenticated
+  using (true);
+
+-- Components go on the order as they are, with no size or options, so an
+-- item that needs one chosen can't be part of a bundle
+create or replace function public.item_needs_choices(p_item_id bigint)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select exists (
+      select 1 from public.item_variants
+      where item_id = p_item_id and is_active
+    )
+    or exists (
+      select 1
+      from public.modifier_groups g
+      join public.modifiers m on m.group_id = g.id and m.is_active
+      join public.item_modifiers im on im.modifier_id = m.id and im.item_id = p_item_id
+      where g.is_active and g.min_select > 0
+    );
+$$;
+
+create or replace function public.bundle_slot_choices_check_item()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if public.item_needs_choices(new.item_id) then
+    raise exception 'invalid_bundle'
+      using detail = format(
+        '%s has sizes or required options, so it can''t be part of a bundle',
+        (select name from public.items where id = new.item_id)
+      );
+  end if;
+  return new;
+end;
+$$;
+
+create trigger bundle_slot_choices_check_item
+  before insert or update of item_id on public.bundle_slot_choices
+  for each row execute function public.bundle_slot_choices_check_item();
+
+-- ============================================
+-- Component lines
+-- ============================================
+
+alter table public.order_items
+  add column bundle_line_id bigint references public.order_items(id) on delete cascade,
+  add column bundle_slot_id bigint references public.bundle_slots(id) on delete set null;
+
+create index order_items_bundle_line_id_idx on public.order_items (bundle_line_id);
+
+comment on column public.order_items.bundle_line_id is
+  'The bundle line this component was ordered as part of';
+
+create or replace function public.order_items_snapshot_item()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_item public.items;
+  v_campaign_id bigint;
+begin
+  if tg_op = 'UPDATE'
+    and new.item_id = old.item_id
+    and new.variant_id is not distinct from old.variant_id then
+    -- Keep the original snapshot when editing quantity, notes or status
+    new.unit_price := old.unit_price;
+    new.item_name := old.item_name;
+    new.variant_name := old.variant_name;
+    new.tax_rate := old.tax_rate;
+    return new;
+  end if;
+
+  select campaign_id into v_campaign_id from public.orders where id = new.order_id;
+  select * into v_item from public.items where id = new.item_id;
+  if new.bundle_line_id is not null then
+    -- The bundle line carries the price; a component only adds its choice's upcharge
+    new.unit_price := coalesce(
+      (select ch.price_delta
+       from public.bundle_slot_choices ch
+       where ch.slot_id = new.bundle_slot_id and ch.item_id = new.item_id),
+      0
+    );
+    new.variant_name := null;
+  elsif new.variant_id is null then
+    new.unit_price := public.campaign_item_price(v_campaign_id, v_item.id);
+    new.variant_name := null;
+  else
+    new.unit_price := public.campaign_variant_price(v_campaign_id, new.variant_id);
+    new.variant_name := (select v.name from public.item_variants v where v.id = new.variant_id);
+  end if;
+  new.item_name := v_item.name;
+  new.tax_rate := case
+    when v_item.is_tax_exempt then 0
+    else coalesce(
+      (select c.tax_rate from public.categories c where c.id = v_item.category_id),
+      (select cp.tax_rate from public.campaigns cp where cp.id = v_campaign_id),
+      0
+    )
+  end;
+  return new;
+end;
+$$;
+
+-- ============================================
+-- Keeping a bundle line and its components in step
+-- ============================================
+
+-- A bundle line is as far along as its least-prepared component
+create or replace function public.bundle_status(p_bundle_line_id bigint)
+returns text
+language sql
+stable
+set search_path = public
+as $$
+  select case
+    when count(*) filter (where status <> 'cancelled') = 0 then 'cancelled'
+    when every(status = 'picked_up') filter (where status <> 'cancelled') then 'picked_up'
+    when every(status in ('done', 'picked_up')) filter (where status <> 'cancelled') then 'done'
+    when every(status = 'new') filter (where status <> 'cancelled') then 'new'
+    else 'in_progress'
+  end
+  from public.order_items
+  where bundle_line_id = p_bundle_line_id;
+$$;
+
+create or replace function public.order_items_sync_bundle()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_status          text;
+begin
+  if new.bundle_line_id is not null then
+    if new.status is distinct from old.status then
+      v_status := public.bundle_status(new.bundle_line_id);
+      update public.order_items
+      set status = v_status,
+          updated_at = now()
+      where id = new.bundle_line_id
+        and status <> v_status;
+    end if;
+    return null;
+  end if;
+
+  -- Changes made to the bundle line itself (not ones following its
+  -- components, which run one trigger deeper) carry down to the components
+  if pg_trigger_depth() = 1 and (
+    new.status is distinct from old.status
+    or new.refunded_at is distinct from old.refunded_at
+    or new.quantity <> old.quantity
+  ) then
+    update public.order_items
+    set status = case
+          when new.status is distinct from old.status and status <> 'cancelled' then new.status
+          else status
+        end,
+        refunded_at = coalesce(refunded_at, new.refunded_at),
+        quantity = new.quantity,
+        updated_at = now()
+    where bundle_line_id = new.id;
+  end if;
+
+  return null;
+end;
+$$;
+
+create trigger order_items_sync_bundle
+  after update of status, refunded_at, quantity on public.order_items
+  for each row execute function public.order_items_sync_bundle();
+
+-- ============================================
+-- place_order
+-- ============================================
+
+create or replace function public.place_order(
+  p_campaign_id     bigint,
+  p_customer_name   text,
+  p_notes           text,
+  p_items           jsonb,
+  p_discount        jsonb default null,
+  p_tip             numeric default 0,
+  p_payments        jsonb default null
+)
+returns public.orders
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order           public.orders;
+  v_line            jsonb;
+  v_item            public.items;
+  v_variant_id      bigint;
+  v_quantity        integer;
+  v_status          text;
+  v_modifiers       jsonb;
+  v_modifier_ids    bigint[];
+  v_unavailable     integer;
+  v_order_item_id   bigint;
+  v_components      jsonb;
+begin
+  if coalesce(trim(p_customer_name), '') = '' then
+    raise exception 'customer_name_required'
+      using detail = 'A customer name is required to place an order';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_order'
+      using detail = 'An order must contain at least one item';
+  end if;
+
+  if coalesce(p_tip, 0) < 0 then
+    raise exception 'invalid_tip'
+      using detail = 'Tip cannot be negative';
+  end if;
+
+  insert into public.orders (campaign_id, customer_name, notes, status, tip)
+  values (p_campaign_id, trim(p_customer_name), nullif(trim(p_notes), ''), 'new', coalesce(p_tip, 0))
+  returning * into v_order;
+
+  for v_line in select * from jsonb_array_elements(p_items)
+  loop
+    v_quantity := coalesce((v_line->>'quantity')::integer, 0);
+    if v_quantity < 1 then
+      raise exception 'invalid_quantity'
+        using detail = format('Quantity must be at least 1 (got %s)', v_quantity);
+    end if;
+
+    select * into v_item
+    from public.items
+    where id = (v_line->>'item_id')::bigint
+      and is_active;
+
+    if not found then
+      raise exception 'item_unavailable'
+        using detail = format('Item %s does not exist or is no longer available', v_line->>'item_id');
+    end if;
+
+    v_variant_id := (v_line->>'variant_id')::bigint;
+    if v_variant_id is null then
+      if exists (select 1 from public.item_variants where item_id = v_item.id and is_active) then
+        raise exception 'invalid_variant'
+          using detail = format('Choose a size for %s', v_item.name);
+      end if;
+    elsif not exists (
+      select 1 from public.item_variants
+      where id = v_variant_id and item_id = v_item.id and is_active
+    ) then
+      raise exception 'invalid_variant'
+        using detail = format('That size of %s is no longer available', v_item.name);
+    end if;
+
+    -- Lines from before modifier quantities send a plain list of ids
+    v_modifiers := case
+      when jsonb_typeof(v_line->'modifiers') = 'array' then v_line->'modifiers'
+      else (
+        select coalesce(jsonb_agg(jsonb_build_object('modifier_id', value::bigint)), '[]'::jsonb)
+        from jsonb_array_elements_text(coalesce(v_line->'modifier_ids', '[]'::jsonb))
+      )
+    end;
+
+    select coalesce(array_agg(s.modifier_id), '{}')
+    into v_modifier_ids
+    from public.parse_modifier_selection(v_modifiers) s;
+
+    -- Options also need their parent on the line
+    select count(*)
+    into v_unavailable
+    from public.modifiers m
+    right join unnest(v_modifier_ids) as s(modifier_id) on s.modifier_id = m.id
+    where not public.is_modifier_offered(v_item.id, s.modifier_id)
+      or (m.parent_id is not null and m.parent_id <> all (v_modifier_ids));
+
+    if v_unavailable > 0 then
+      raise exception 'modifier_unavailable'
+        using detail = format('One or more modifiers are not available for %s', v_item.name);
+    end if;
+
+    perform public.validate_modifier_selection(v_item.id, v_modifier_ids);
+
+    v_components := coalesce(v_line->'components', '[]'::jsonb);
+    if v_item.is_bundle then
+      -- One active choice for every active slot, and nothing else
+      if exists (
+        select 1
+        from public.bundle_slots s
+        where s.bundle_item_id = v_item.id
+          and s.is_active
+          and (
+            select count(*)
+            from jsonb_to_recordset(v_components) as c(slot_id bigint, item_id bigint)
+            join public.bundle_slot_choices ch on ch.slot_id = c.slot_id and ch.item_id = c.item_id
+            join public.items i on i.id = ch.item_id and i.is_active
+            where c.slot_id = s.id
+          ) <> 1
+      ) or exists (
+        select 1
+        from jsonb_to_recordset(v_components) as c(slot_id bigint, item_id bigint)
+        where not exists (
+          select 1 from public.bundle_slots s
+          where s.id = c.slot_id and s.bundle_item_id = v_item.id and s.is_active
+        )
+      ) then
+        raise exception 'invalid_bundle'
+          using detail = format('Choose one item for each part of %s', v_item.name);
+      end if;
+
+      -- A choice may have gained a size or a required option since it was
+      -- offered
+      if exists (
+        select 1
+        from jsonb_to_recordset(v_components) as c(slot_id bigint, item_id bigint)
+        where public.item_needs_choices(c.item_id)
+      ) then
+        raise exception 'invalid_bundle'
+          using detail = format('%s can''t be ordered until its parts are updated', v_item.name);
+      end if;
+
+      -- The bundle line is ready once all of its components are
+      v_status := case
+        when exists (
+          select 1
+          from jsonb_to_recordset(v_components) as c(slot_id bigint, item_id bigint)
+          join public.items i on i.id = c.item_id
+          where not i.no_prep_needed
+        ) then 'new'
+        else 'done'
+      end;
+    else
+      v_status := case when v_item.no_prep_needed then 'done' else 'new' end;
+    end if;
+
+    insert into public.order_items (order_id, item_id, variant_id, quantity, notes, status)
+    values (v_order.id, v_item.id, v_variant_id, v_quantity, nullif(trim(v_line->>'notes'), ''), v_status)
+    returning id into v_order_item_id;
+
+    perform public.write_order_item_modifiers(v_order_item_id, v_modifiers);
+
+    insert into public.order_item_status_events (order_item_id, old_status, new_status)
+    values (v_order_item_id, null, v_status);
+
+    -- Components go to their own category's queue in the kitchen
+    if v_item.is_bundle then
+      insert into public.order_items (
+        order_id, item_id, quantity, notes, status, bundle_line_id, bundle_slot_id
+      )
+      select
+        v_order.id,
+        i.id,
+        v_quantity,
+        nullif(trim(v_line->>'notes'), ''),
+        case when i.no_prep_needed then 'done' else 'new' end,
+        v_order_item_id,
+        c.slot_id
+      from jsonb_to_recordset(v_components) as c(slot_id bigint, item_id bigint)
+      join public.items i on i.id = c.item_id;
+
+      insert into public.order_item_status_events (order_item_id, old_status, new_status)
+      select id, null, status
+      from public.order_items
+      where bundle_line_id = v_order_item_id;
+    end if;
+
+    if jsonb_typeof(v_line->'discount') = 'object' then
+      perform public.validate_discount(v_line->'discount');
+      insert into public.order_discounts (order_id, order_item_id, kind, value, reason)
+      values (
+        v_order.id,
+        v_order_item_id,
+        v_line->'discount'->>'kind',
+        (v_line->'discount'->>'value')::numeric,
+        trim(v_line->'discount'->>'reason')
+      );
+    end if;
+  end loop;
+
+  if jsonb_typeof(p_discount) = 'object' then
+    perform public.validate_discount(p_discount);
+    insert into public.order_discounts (order_id, kind, value, reason)
+    values (
+      v_order.id,
+      p_discount->>'kind',
+      (p_discount->>'value')::numeric,
+      trim(p_discount->>'reason')
+    );
+  end if;
+
+  -- Totals are final at this point, so tenders can be checked against them
+  if jsonb_typeof(p_payments) = 'array' and jsonb_array_length(p_payments) > 0 then
+    perform public.record_payments(v_order.id, p_payments);
+  end if;
+
+  select * into v_order from public.orders where id = v_order.id;
+  return v_order;
+end;
+$$;
@@ -0,0 +1,271 @@
+-- Scheduled orders (catering, pickup later)
+--   * orders.scheduled_for is when the customer picks up. Null means as soon
+--     as possible, as before.
+--   * campaigns.fire_lead_minutes is how long before pickup a scheduled order
+--     reaches the kitchen. Until then the kitchen display lists it under
+--     "Scheduled" and it fires on its own when the lead time is reached.
+--   * place_order takes p_scheduled_for and rejects times in the past.
+
+-- ============================================
+-- Scheduling
+-- ============================================
+
+alter table public.orders
+  add column scheduled_for timestamptz;
+
+comment on column public.orders.scheduled_for is
+  'Pickup time for orders taken in advance; null for orders made right away.';
+
+create index orders_campaign_id_scheduled_for_idx
+  on public.orders (campaign_id, scheduled_for)
+  where scheduled_for is not null;
+
+alter table public.campaigns
+  add column fire_lead_minutes integer not null default 20
+    constraint campaigns_fire_lead_minutes_check check (fire_lead_minutes >= 0);
+
+comment on column public.campaigns.fire_lead_minutes is
+  'Minutes before a scheduled order''s pickup time that it is sent to the kitchen.';
+
+-- ============================================
+-- place_order: take orders for later
+-- ============================================
+
+drop function public.place_order(bigint, text, text, jsonb, jsonb, numeric, jsonb);
+
+create or replace function public.place_order(
+  p_campaign_id     bigint,
+  p_customer_name   text,
+  p_notes           text,
+  p_items           jsonb,
+  p_discount        jsonb default null,
+  p_tip             numeric default 0,
+  p_payments        jsonb default null,
+  p_scheduled_for   timestamptz default null
+)
+returns public.orders
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_order           public.orders;
+  v_line            jsonb;
+  v_item            public.items;
+  v_variant_id      bigint;
+  v_quantity        integer;
+  v_status          text;
+  v_modifiers       jsonb;
+  v_modifier_ids    bigint[];
+  v_unavailable     integer;
+  v_order_item_id   bigint;
+  v_components      jsonb;
+begin
+  if coalesce(trim(p_customer_name), '') = '' then
+    raise exception 'customer_name_required'
+      using detail = 'A customer name is required to place an order';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'empty_order'
+      using detail = 'An order must contain at least one item';
+  end if;
+
+  if coalesce(p_tip, 0) < 0 then
+    raise exception 'invalid_tip'
+      using detail = 'Tip cannot be negative';
+  end if;
+
+  if p_scheduled_for is not null and p_scheduled_for <= now() then
+    raise exception 'invalid_schedule'
+      using detail = 'The pickup time must be in the future';
+  end if;
+
+  insert into public.orders (campaign_id, customer_name, notes, status, tip, scheduled_for)
+  values (
+    p_campaign_id, trim(p_customer_name), nullif(trim(p_notes), ''), 'new', coalesce(p_tip, 0),
+    p_scheduled_for
+  )
+  returning * into v_order;
+
+  for v_line in select * from jsonb_array_elements(p_items)
+  loop
+    v_quantity := coalesce((v_line->>'quantity')::integer, 0);
+    if v_quantity < 1 then
+      raise exception 'invalid_quantity'
+        using detail = format('Quantity must be at least 1 (got %s)', v_quantity);
+    end if;
+
+    select * into v_item
+    from public.items
+    where id = (v_line->>'item_id')::bigint
+      and is_active;
+
+    if not found then
+      raise exception 'item_unavailable'
+        using detail = format('Item %s does not exist or is no longer available', v_line->>'item_id');
+    end if;
+
+    v_variant_id := (v_line->>'variant_id')::bigint;
+    if v_variant_id is null then
+      if exists (select 1 from public.item_variants where item_id = v_item.id and is_active) then
+        raise exception 'invalid_variant'
+          using detail = format('Choose a size for %s', v_item.name);
+      end if;
+    elsif not exists (
+      select 1 from public.item_variants
+      where id = v_variant_id and item_id = v_item.id and is_active
+    ) then
+      raise exception 'invalid_variant'
+        using detail = format('That size of %s is no longer available', v_item.name);
+    end if;
+
+    -- Lines from before modifier quantities send a plain list of ids
+    v_modifiers := case
+      when jsonb_typeof(v_line->'modifiers') = 'array' then v_line->'modifiers'
+      else (
+        select coalesce(jsonb_agg(jsonb_build_object('modifier_id', value::bigint)), '[]'::jsonb)
+        from jsonb_array_elements_text(coalesce(v_line->'modifier_ids', '[]'::jsonb))
+      )
+    end;
+
+    select coalesce(array_agg(s.modifier_id), '{}')
+    into v_modifier_ids
+    from public.parse_modifier_selection(v_modifiers) s;
+
+    -- Options also need their parent on the line
+    select count(*)
+    into v_unavailable
+    from public.modifiers m
+    right join unnest(v_modifier_ids) as s(modifier_id) on s.modifier_id = m.id
+    where not public.is_modifier_offered(v_item.id, s.modifier_id)
+      or (m.parent_id is not null and m.parent_id <> all (v_modifier_ids));
+
+    if v_unavailable > 0 then
+      raise exception 'modifier_unavailable'
+        using detail = format('One or more modifiers are not available for %s', v_item.name);
+    end if;
+
+    perform public.validate_modifier_selection(v_item.id, v_modifier_ids);
+
+    v_components := coalesce(v_line->'components', '[]'::jsonb);
+    if v_item.is_bundle then
+      -- One active choice for every active slot, and nothing else
+      if exists (
+        select 1
+        from public.bundle_slots s
+        where s.bundle_item_id = v_item.id
+          and s.is_active
+          and (
+            select count(*)
+            from jsonb_to_recordset(v_components) as c(slot_id bigint, item_id bigint)
+            join public.bundle_slot_choices ch on ch.slot_id = c.slot_id and ch.item_id = c.item_id
+            join public.items i on i.id = ch.item_id and i.is_active
+            where c.slot_id = s.id
+          ) <> 1
+      ) or exists (
+        select 1
+        from jsonb_to_recordset(v_components) as c(slot_id bigint, item_id bigint)
+        where not exists (
+          select 1 from public.bundle_slots s
+          where s.id = c.slot_id and s.bundle_item_id = v_item.id and s.is_active
+        )
+      ) then
+        raise exception 'invalid_bundle'
+          using detail = format('Choose one item for each part of %s', v_item.name);
+      end if;
+
+      -- A choice may have gained a size or a required option since it was
+      -- offered
+      if exists (
+        select 1
+        from jsonb_to_recordset(v_components) as c(slot_id bigint, item_id bigint)
+        where public.item_needs_choices(c.item_id)
+      ) then
+        raise exception 'invalid_bundle'
+          using detail = format('%s can''t be ordered until its parts are updated', v_item.name);
+      end if;
+
+      -- The bundle line is ready once all of its components are
+      v_status := case
+        when exists (
+          select 1
+          from jsonb_to_recordset(v_components) as c(slot_id bigint, item_id bigint)
+          join public.items i on i.id = c.item_id
+          where not i.no_prep_needed
+        ) then 'new'
+        else 'done'
+      end;
+    else
+      v_status := case when v_item.no_prep_needed then 'done' else 'new' end;
+    end if;
+
+    insert into public.order_items (order_id, item_id, variant_id, quantity, notes, status)
+    values (v_order.id, v_item.id, v_variant_id, v_quantity, nullif(trim(v_line->>'notes'), ''), v_status)
+    returning id into v_order_item_id;
+
+    perform public.write_order_item_modifiers(v_order_item_id, v_modifiers);
+
+    insert into public.order_item_status_events (order_item_id, old_status, new_status)
+    values (v_order_item_id, null, v_status);
+
+    -- Components go to their own category's queue in the kitchen
+    if v_item.is_bundle then
+      insert into public.order_items (
+        order_id, item_id, quantity, notes, status, bundle_line_id, bundle_slot_id
+      )
+      select
+        v_order.id,
+        i.id,
+        v_quantity,
+        nullif(trim(v_line->>'notes'), ''),
+        case when i.no_prep_needed then 'done' else 'new' end,
+        v_order_item_id,
+        c.slot_id
+      from jsonb_to_recordset(v_components) as c(slot_id bigint, item_id bigint)
+      join public.items i on i.id = c.item_id;
+
+      insert into public.order_item_status_events (order_item_id, old_status, new_status)
+      select id, null, status
+      from public.order_items
+      where bundle_line_id = v_order_item_id;
+    end if;
+
+    if jsonb_typeof(v_line->'discount') = 'object' then
+      perform public.validate_discount(v_line->'discount');
+      insert into public.order_discounts (order_id, order_item_id, kind, value, reason)
+      values (
+        v_order.id,
+        v_order_item_id,
+        v_line->'discount'->>'kind',
+        (v_line->'discount'->>'value')::numeric,
+        trim(v_line->'discount'->>'reason')
+      );
+    end if;
+  end loop;
+
+  if jsonb_typeof(p_discount) = 'object' then
+    perform public.validate_discount(p_discount);
+    insert into public.order_discounts (order_id, kind, value, reason)
+    values (
+      v_order.id,
+      p_discount->>'kind',
+      (p_discount->>'value')::numeric,
+      trim(p_discount->>'reason')
+    );
+  end if;
+
+  -- Totals are final at this point, so tenders can be checked against them
+  if jsonb_typeof(p_payments) = 'array' and jsonb_array_length(p_payments) > 0 then
+    perform public.record_payments(v_order.id, p_payments);
+  end if;
+
+  select * into v_order from public.orders where id = v_order.id;
+  return v_order;
+end;
+$$;
+
+comment on function public.place_order(bigint, text, text, jsonb, jsonb, numeric, jsonb, timestamptz) is
+  'Atomically creates an order with its items, modifiers, discounts, payments and initial status events. Totals are computed from current menu prices and tax rates. A scheduled order is held back from the kitchen until shortly before its pickup time.';
+
+revoke execute on function public.place_order(bigint, text, text, jsonb, jsonb, numeric, jsonb, timestamptz) from public, anon;
+grant execute on function public.place_order(bigint, text, text, jsonb, jsonb, numeric, jsonb, timestamptz) to authenticated;
@@ -0,0 +1,323 @@
+-- Customer self-ordering (kiosk tablets and QR codes on phones)
+--   * Customers are anonymous, so none of the staff RLS policies apply to
+--     them. Everything they can do goes through the security definer
+--     functions below, which are the only ones granted to anon.
+--   * get_public_menu returns the active campaign's menu in one call.
+--   * place_public_order places an unpaid order on the active campaign
+--     through place_order, limited per client address so one device can't
+--     flood the kitchen.
+--   * Every order gets a public_token; get_public_order looks an order up by
+--     it for the customer's status page, so order ids can't be enumerated.
+
+-- ============================================
+-- Order status tokens
+-- ============================================
+
+alter table public.orders
+  add column public_token uuid not null default gen_random_uuid();
+
+create unique index orders_public_token_idx on public.orders (public_token);
+
+comment on column public.orders.public_token is
+  'Unguessable key customers use to follow their order on the public status page.';
+
+-- ============================================
+-- Rate limiting
+-- ============================================
+
+-- One row per order placed by a customer. Only the functions below read or
+-- write it, so it has RLS enabled and no policies.
+create table public.public_order_attempts (
+  id                bigint generated by default as identity primary key,
+  client_address    text not null,
+  created_at        timestamptz not null default now()
+);
+
+create index public_order_attempts_client_address_idx
+  on public.public_order_attempts (client_address, created_at);
+
+alter table public.public_order_attempts enable row level security;
+
+-- ============================================
+-- Active campaign
+-- ============================================
+
+-- The campaign customers order from: the most recently started campaign that
+-- is active and running now
+create or replace function public.public_campaign_id()
+returns bigint
+language sql
+stable
+set search_path = public
+as $$
+  select id
+  from public.campaigns
+  where is_active
+    and (starts_at is null or starts_at <= now())
+    and (ends_at is null or ends_at > now())
+  order by starts_at desc nulls last, id desc
+  limit 1;
+$$;
+
+-- ============================================
+-- get_public_menu
+-- ============================================
+
+create or replace function public.get_public_menu()
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_campaign_id bigint := public.public_campaign_id();
+  v_has_menu    boolean;
+begin
+  if v_campaign_id is null then
+    return null;
+  end if;
+
+  v_has_menu := exists (select 1 from public.campaign_items where campaign_id = v_campaign_id);
+
+  return (
+    with menu_items as (
+      select i.*
+      from public.items i
+      where i.is_active
+        and (
+          not v_has_menu
+          or exists (
+            select 1 from public.campaign_items ci
+            where ci.campaign_id = v_campaign_id and ci.item_id = i.id
+          )
+        )
+    ),
+    menu_links as (
+      select im.*
+      from public.item_modifiers im
+      where im.item_id in (select id from menu_items)
+    ),
+    menu_modifiers as (
+      select m.*
+      from public.modifiers m
+      where m.is_active
+        and (
+          m.id in (select modifier_id from menu_links)
+          or m.parent_id in (select modifier_id from menu_links)
+        )
+    ),
+    menu_slots as (
+      select s.*
+      from public.bundle_slots s
+      where s.is_active
+        and s.bundle_item_id in (select id from menu_items)
+    )
+    select jsonb_build_object(
+      'campaign', (select to_jsonb(c) from public.campaigns c where c.id = v_campaign_id),
+      'categories', coalesce((
+        select jsonb_agg(to_jsonb(c) order by c.display_order)
+        from public.categories c
+        where c.id in (select category_id from menu_items)
+      ), '[]'::jsonb),
+      'items', coalesce((
+        select jsonb_agg(
+          to_jsonb(i) || jsonb_build_object(
+            'category', (select to_jsonb(c) from public.categories c where c.id = i.category_id)
+          )
+          order by i.name
+        )
+        from menu_items i
+      ), '[]'::jsonb),
+      'campaign_items', coalesce((
+        select jsonb_agg(to_jsonb(ci))
+        from public.campaign_items ci
+        where ci.campaign_id = v_campaign_id
+      ), '[]'::jsonb),
+      'modifier_prices', coalesce((
+        select jsonb_agg(to_jsonb(cmp))
+        from public.campaign_modifier_prices cmp
+        where cmp.campaign_id = v_campaign_id
+      ), '[]'::jsonb),
+      'modifiers', coalesce((select jsonb_agg(to_jsonb(m) order by m.name) from menu_modifiers m), '[]'::jsonb),
+      'item_modifiers', coalesce((select jsonb_agg(to_jsonb(im)) from menu_links im), '[]'::jsonb),
+      'modifier_groups', coalesce((
+        select jsonb_agg(to_jsonb(g) order by g.display_order)
+        from public.modifier_groups g
+        where g.is_active
+      ), '[]'::jsonb),
+      'variants', coalesce((
+        select jsonb_agg(to_jsonb(v) order by v.display_order)
+        from public.item_variants v
+        where v.is_active and v.item_id in (select id from menu_items)
+      ), '[]'::jsonb),
+      'bundle_slots', coalesce((
+        select jsonb_agg(
+          to_jsonb(s) || jsonb_build_object('choices', coalesce((
+            select jsonb_agg(to_jsonb(bc))
+            from public.bundle_slot_choices bc
+            where bc.slot_id = s.id
+          ), '[]'::jsonb))
+          order by s.display_order
+        )
+        from menu_slots s
+      ), '[]'::jsonb),
+      -- Only what has run out: how much is left stays with staff
+      'sold_out', coalesce((
+        select jsonb_agg(jsonb_build_object('item_id', sl.item_id, 'modifier_id', sl.modifier_id))
+        from public.stock_levels sl
+        where sl.campaign_id = v_campaign_id
+          and sl.quantity <= 0
+      ), '[]'::jsonb)
+    )
+  );
+end;
+$$;
+
+comment on function public.get_public_menu() is
+  'The active campaign''s menu for customer self-ordering: items at their campaign prices, with modifiers, sizes, bundles and what has sold out. Null when no campaign is running.';
+
+revoke execute on function public.get_public_menu() from public;
+grant execute on function public.get_public_menu() to anon, authenticated;
+
+-- ============================================
+-- place_public_order
+-- ============================================
+
+create or replace function public.place_public_order(
+  p_customer_name   text,
+  p_items           jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  -- At most this many orders per client address in the window
+  c_max_orders      constant integer := 5;
+  c_window          constant interval := interval '10 minutes';
+  -- A customer can't ask for more than this of any one line
+  c_max_quantity    constant integer := 20;
+  v_campaign_id     bigint := public.public_campaign_id();
+  v_address         text;
+  v_line            jsonb;
+  v_order           public.orders;
+begin
+  if v_campaign_id is null then
+    raise exception 'ordering_closed'
+      using detail = 'Ordering is closed right now';
+  end if;
+
+  -- PostgREST passes the caller's headers through. The customer can send
+  -- their own x-forwarded-for, and the API gateway appends the address it
+  -- saw the request come from, so only the last entry can be trusted.
+  v_address := coalesce(
+    nullif(trim(regexp_replace(
+      current_setting('request.headers', true)::json ->> 'x-forwarded-for', '^.*,', ''
+    )), ''),
+    'unknown'
+  );
+
+  delete from public.public_order_attempts where created_at < now() - interval '1 day';
+
+  if (
+    select count(*)
+    from public.public_order_attempts
+    where client_address = v_address
+      and created_at > now() - c_window
+  ) >= c_max_orders then
+    raise exception 'rate_limited'
+      using detail = 'Too many orders from this device. Please wait a few minutes or order at the counter.';
+  end if;
+
+  if length(trim(coalesce(p_customer_name, ''))) > 40 then
+    raise exception 'customer_name_required'
+      using detail = 'Please use a name of 40 characters or fewer';
+  end if;
+
+  if jsonb_typeof(p_items) = 'array' then
+    for v_line in select * from jsonb_array_elements(p_items)
+    loop
+      if coalesce((v_line->>'quantity')::integer, 0) > c_max_quantity then
+        raise exception 'invalid_quantity'
+          using detail = format('Please order at most %s of each item', c_max_quantity);
+      end if;
+
+      -- Only items on the campaign's menu, when it has one
+      if exists (select 1 from public.campaign_items where campaign_id = v_campaign_id)
+        and not exists (
+          select 1 from public.campaign_items
+          where campaign_id = v_campaign_id and item_id = (v_line->>'item_id')::bigint
+        )
+      then
+        raise exception 'item_unavailable'
+          using detail = 'An item in your order is no longer on the menu';
+      end if;
+    end loop;
+  end if;
+
+  -- No discounts, tips or payments: customers pay at the counter
+  v_order := public.place_order(
+    v_campaign_id,
+    p_customer_name,
+    null,
+    p_items
+  );
+
+  insert into public.public_order_attempts (client_address) values (v_address);
+
+  return jsonb_build_object('id', v_order.id, 'token', v_order.public_token);
+end;
+$$;
+
+comment on function public.place_public_order(text, jsonb) is
+  'Places a customer''s self-service order on the active campaign, unpaid. Rate limited per client address.';
+
+revoke execute on function public.place_public_order(text, jsonb) from public;
+grant execute on function public.place_public_order(text, jsonb) to anon, authenticated;
+
+-- ============================================
+-- get_public_order
+-- ============================================
+
+create or replace function public.get_public_order(p_token uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'id', o.id,
+    'customer_name', o.customer_name,
+    'status', o.status,
+    'payment_status', o.payment_status,
+    'total', o.total,
+    'created_at', o.created_at,
+    'items', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', oi.id,
+          'item_name', oi.item_name,
+          'variant_name', oi.variant_name,
+          'quantity', oi.quantity,
+          'status', oi.status,
+          'refunded_at', oi.refunded_at
+        )
+        order by oi.id
+      )
+      from public.order_items oi
+      where oi.order_id = o.id
+        and oi.bundle_line_id is null
+    ), '[]'::jsonb)
+  )
+  from public.orders o
+  where o.public_token = p_token;
+$$;
+
+comment on function public.get_public_order(uuid) is
+  'An order''s progress for the customer status page, looked up by its public token.';
+
+revoke execute on function public.get_public_order(uuid) from public;
+grant execute on function public.get_public_order(uuid) to anon, authenticated;
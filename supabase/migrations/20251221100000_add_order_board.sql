@@ -0,0 +1,52 @@
+-- Customer-facing order board
+--   * The board runs on a TV that nobody signs in to, so it can't read orders
+--     or follow them over realtime, and it must never see what an order cost.
+--   * get_public_board returns the active campaign's orders that are being
+--     made or are ready: number, name, status and when it became ready.
+--     Scheduled orders are left out until the kitchen fires them.
+--   * It is granted to anon like the other customer functions; the board
+--     polls it.
+
+-- ============================================
+-- get_public_board
+-- ============================================
+
+create or replace function public.get_public_board()
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(jsonb_agg(
+    jsonb_build_object(
+      'id', o.id,
+      'customer_name', o.customer_name,
+      'status', o.status,
+      'ready_at', case
+        when o.status = 'ready' then (
+          select max(e.created_at)
+          from public.order_items oi
+          join public.order_item_status_events e on e.order_item_id = oi.id
+          where oi.order_id = o.id
+            and e.new_status = 'done'
+        )
+      end
+    )
+    order by o.created_at
+  ), '[]'::jsonb)
+  from public.orders o
+  join public.campaigns c on c.id = o.campaign_id
+  where o.campaign_id = public.public_campaign_id()
+    and o.status in ('new', 'in_progress', 'ready')
+    and (
+      o.scheduled_for is null
+      or o.scheduled_for - make_interval(mins => c.fire_lead_minutes) <= now()
+    );
+$$;
+
+comment on function public.get_public_board() is
+  'Orders being made or ready on the active campaign, for the customer-facing board: numbers, names and status only.';
+
+revoke execute on function public.get_public_board() from public;
+grant execute on function public.get_public_board() to anon, authenticated;
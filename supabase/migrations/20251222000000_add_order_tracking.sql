@@ -0,0 +1,100 @@
+-- Live order tracking for customers
+--   * get_public_order (looked up by the order's public_token) now also
+--     returns when each line was started and finished, taken from
+--     order_item_status_events, and an estimated ready time.
+--   * A bundle line has no status events of its own; its times come from its
+--     components.
+--   * The estimate is the order's pickup time when it was scheduled, and
+--     otherwise its order time plus how long the campaign's recent orders
+--     took to be ready.
+
+-- ============================================
+-- Prep time estimate
+-- ============================================
+
+-- Average time from order to ready over the campaign's last 20 orders made
+-- right away in the past 3 hours. Ten minutes until there are any.
+create or replace function public.campaign_prep_interval(p_campaign_id bigint)
+returns interval
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(avg(ready_at - created_at), interval '10 minutes')
+  from (
+    select o.created_at, max(e.created_at) as ready_at
+    from public.orders o
+    join public.order_items oi on oi.order_id = o.id
+    join public.order_item_status_events e on e.order_item_id = oi.id
+    where o.campaign_id = p_campaign_id
+      and o.status in ('ready', 'picked_up')
+      and o.scheduled_for is null
+      and o.created_at > now() - interval '3 hours'
+      and e.new_status = 'done'
+    group by o.id, o.created_at
+    order by o.created_at desc
+    limit 20
+  ) recent;
+$$;
+
+comment on function public.campaign_prep_interval(bigint) is
+  'How long a campaign''s recent orders took from being placed to being ready; used for customer ready-time estimates.';
+
+-- ============================================
+-- get_public_order
+-- ============================================
+
+create or replace function public.get_public_order(p_token uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'id', o.id,
+    'customer_name', o.customer_name,
+    'status', o.status,
+    'payment_status', o.payment_status,
+    'total', o.total,
+    'scheduled_for', o.scheduled_for,
+    'created_at', o.created_at,
+    'estimated_ready_at', case
+      when o.status in ('new', 'in_progress') then
+        coalesce(o.scheduled_for, o.created_at + public.campaign_prep_interval(o.campaign_id))
+    end,
+    'items', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', oi.id,
+          'item_name', oi.item_name,
+          'variant_name', oi.variant_name,
+          'quantity', oi.quantity,
+          'status', oi.status,
+          'refunded_at', oi.refunded_at,
+          'started_at', times.started_at,
+          'done_at', case when oi.status in ('done', 'picked_up') then times.done_at end
+        )
+        order by oi.id
+      )
+      from public.order_items oi
+      cross join lateral (
+        select
+          min(e.created_at) filter (where e.new_status = 'in_progress') as started_at,
+          max(e.created_at) filter (where e.new_status = 'done') as done_at
+        from public.order_item_status_events e
+        where e.order_item_id = oi.id
+          or e.order_item_id in (
+            select c.id from public.order_items c where c.bundle_line_id = oi.id
+          )
+      ) times
+      where oi.order_id = o.id
+        and oi.bundle_line_id is null
+    ), '[]'::jsonb)
+  )
+  from public.orders o
+  where o.public_token = p_token;
+$$;
+
+comment on function public.get_public_order(uuid) is
+  'An order''s progress for the customer tracking page, looked up by its public token: per-line start and finish times and an estimated ready time.';
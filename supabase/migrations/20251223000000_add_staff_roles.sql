@@ -0,0 +1,903 @@
+-- Staff roles
+--   * Every staff account gets a staff_profiles row with one role:
+--       cashier  - takes orders and payments, voids unstarted lines
+--       kitchen  - moves orders through the kitchen
+--       manager  - everything a cashier can do, plus menu, campaign, stock
+--                  and ingredient setup, and refunds
+--       admin    - everything, plus hard deletes and assigning roles
+--   * Reads stay open to all staff; writes are checked against the role with
+--     has_staff_role. Until now every policy allowed any signed-in user.
+--   * Voids and refunds check the role inside their functions, which are
+--     now the only way to write order_adjustments.
+--   * Staff may change only the status of orders and their lines directly;
+--     edits, voids, refunds and tips go through the role-checked functions.
+--   * New sign-ups start as cashiers. Accounts that already exist become
+--     admins so nobody loses access; demote them as needed.
+
+-- ============================================
+-- Profiles
+-- ============================================
+
+create table public.staff_profiles (
+  user_id           uuid primary key references auth.users(id) on delete cascade,
+  role              text not null default 'cashier',
+  created_at        timestamptz not null default now(),
+  updated_at        timestamptz not null default now()
+);
+
+alter table public.staff_profiles add constraint staff_profiles_role_check
+  check (role in ('cashier', 'kitchen', 'manager', 'admin'));
+
+insert into public.staff_profiles (user_id, role)
+select id, 'admin' from auth.users;
+
+-- Give new accounts a profile
+create or replace function public.create_staff_profile()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.staff_profiles (user_id) values (new.id)
+  on conflict (user_id) do nothing;
+  return new;
+end;
+$$;
+
+create trigger auth_users_create_staff_profile
+  after insert on auth.users
+  for each row execute function public.create_staff_profile();
+
+-- ============================================
+-- Role checks
+-- ============================================
+
+-- Whether the signed-in user has one of the given roles. Security definer so
+-- policies can call it without staff_profiles' own policies getting in the way.
+create or replace function public.has_staff_role(variadic p_roles text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.staff_profiles
+    where user_id = auth.uid()
+      and role = any (p_roles)
+  );
+$$;
+
+comment on function public.has_staff_role(text[]) is
+  'True when the signed-in user''s staff role is one of the given roles. Used by RLS policies.';
+
+revoke execute on function public.has_staff_role(text[]) from public;
+grant execute on function public.has_staff_role(text[]) to authenticated;
+
+alter table public.staff_profiles enable row level security;
+
+create policy "Staff can read their own profile, admins can read all"
+  on public.staff_profiles for select
+  to authenticated
+  using (user_id = auth.uid() or public.has_staff_role('admin'));
+
+create policy "Admins can update staff profiles"
+  on public.staff_profiles for update
+  to authenticated
+  using (public.has_staff_role('admin'))
+  with check (public.has_staff_role('admin'));
+
+-- ============================================
+-- Stock
+-- ============================================
+
+-- Selling decrements stock_levels through adjust_stock. Only managers may
+-- write stock_levels now, so it runs with the owner's rights on behalf of
+-- whoever places the order.
+alter function public.adjust_stock(bigint, bigint, bigint, integer) security definer;
+
+-- ============================================
+-- Menu and campaign setup: managers and admins
+-- ============================================
+
+drop policy "Authenticated users can insert campaigns" on public.campaigns;
+create policy "Managers can insert campaigns"
+  on public.campaigns for insert
+  to authenticated
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Authenticated users can update campaigns" on public.campaigns;
+create policy "Managers can update campaigns"
+  on public.campaigns for update
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'))
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Authenticated users can insert categories" on public.categories;
+create policy "Managers can insert categories"
+  on public.categories for insert
+  to authenticated
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Authenticated users can update categories" on public.categories;
+create policy "Managers can update categories"
+  on public.categories for update
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'))
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Authenticated users can delete categories" on public.categories;
+create policy "Managers can delete categories"
+  on public.categories for delete
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'));
+
+drop policy "Authenticated users can insert items" on public.items;
+create policy "Managers can insert items"
+  on public.items for insert
+  to authenticated
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Authenticated users can update items" on public.items;
+create policy "Managers can update items"
+  on public.items for update
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'))
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Authenticated users can insert modifiers" on public.modifiers;
+create policy "Managers can insert modifiers"
+  on public.modifiers for insert
+  to authenticated
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Authenticated users can update modifiers" on public.modifiers;
+create policy "Managers can update modifiers"
+  on public.modifiers for update
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'))
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Authenticated users can insert item_modifiers" on public.item_modifiers;
+create policy "Managers can insert item_modifiers"
+  on public.item_modifiers for insert
+  to authenticated
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Authenticated users can delete item_modifiers" on public.item_modifiers;
+create policy "Managers can delete item_modifiers"
+  on public.item_modifiers for delete
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to insert modifier_groups" on public.modifier_groups;
+create policy "Managers can insert modifier_groups"
+  on public.modifier_groups for insert
+  to authenticated
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to update modifier_groups" on public.modifier_groups;
+create policy "Managers can update modifier_groups"
+  on public.modifier_groups for update
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'))
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to insert item_variants" on public.item_variants;
+create policy "Managers can insert item_variants"
+  on public.item_variants for insert
+  to authenticated
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to update item_variants" on public.item_variants;
+create policy "Managers can update item_variants"
+  on public.item_variants for update
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'))
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to insert bundle_slots" on public.bundle_slots;
+create policy "Managers can insert bundle_slots"
+  on public.bundle_slots for insert
+  to authenticated
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to update bundle_slots" on public.bundle_slots;
+create policy "Managers can update bundle_slots"
+  on public.bundle_slots for update
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'))
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to insert bundle_slot_choices" on public.bundle_slot_choices;
+create policy "Managers can insert bundle_slot_choices"
+  on public.bundle_slot_choices for insert
+  to authenticated
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to update bundle_slot_choices" on public.bundle_slot_choices;
+create policy "Managers can update bundle_slot_choices"
+  on public.bundle_slot_choices for update
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'))
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to delete bundle_slot_choices" on public.bundle_slot_choices;
+create policy "Managers can delete bundle_slot_choices"
+  on public.bundle_slot_choices for delete
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to insert campaign_items" on public.campaign_items;
+create policy "Managers can insert campaign_items"
+  on public.campaign_items for insert
+  to authenticated
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to update campaign_items" on public.campaign_items;
+create policy "Managers can update campaign_items"
+  on public.campaign_items for update
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'))
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to delete campaign_items" on public.campaign_items;
+create policy "Managers can delete campaign_items"
+  on public.campaign_items for delete
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to insert campaign_modifier_prices" on public.campaign_modifier_prices;
+create policy "Managers can insert campaign_modifier_prices"
+  on public.campaign_modifier_prices for insert
+  to authenticated
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to update campaign_modifier_prices" on public.campaign_modifier_prices;
+create policy "Managers can update campaign_modifier_prices"
+  on public.campaign_modifier_prices for update
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'))
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to delete campaign_modifier_prices" on public.campaign_modifier_prices;
+create policy "Managers can delete campaign_modifier_prices"
+  on public.campaign_modifier_prices for delete
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to insert stock_levels" on public.stock_levels;
+create policy "Managers can insert stock_levels"
+  on public.stock_levels for insert
+  to authenticated
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to update stock_levels" on public.stock_levels;
+create policy "Managers can update stock_levels"
+  on public.stock_levels for update
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'))
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to delete stock_levels" on public.stock_levels;
+create policy "Managers can delete stock_levels"
+  on public.stock_levels for delete
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to insert ingredients" on public.ingredients;
+create policy "Managers can insert ingredients"
+  on public.ingredients for insert
+  to authenticated
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to update ingredients" on public.ingredients;
+create policy "Managers can update ingredients"
+  on public.ingredients for update
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'))
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to insert recipe_ingredients" on public.recipe_ingredients;
+create policy "Managers can insert recipe_ingredients"
+  on public.recipe_ingredients for insert
+  to authenticated
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to update recipe_ingredients" on public.recipe_ingredients;
+create policy "Managers can update recipe_ingredients"
+  on public.recipe_ingredients for update
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'))
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to delete recipe_ingredients" on public.recipe_ingredients;
+create policy "Managers can delete recipe_ingredients"
+  on public.recipe_ingredients for delete
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to insert campaign_ingredients" on public.campaign_ingredients;
+create policy "Managers can insert campaign_ingredients"
+  on public.campaign_ingredients for insert
+  to authenticated
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to update campaign_ingredients" on public.campaign_ingredients;
+create policy "Managers can update campaign_ingredients"
+  on public.campaign_ingredients for update
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'))
+  with check (public.has_staff_role('manager', 'admin'));
+
+drop policy "Allow authenticated users to delete campaign_ingredients" on public.campaign_ingredients;
+create policy "Managers can delete campaign_ingredients"
+  on public.campaign_ingredients for delete
+  to authenticated
+  using (public.has_staff_role('manager', 'admin'));
+
+-- ============================================
+-- Hard deletes of menu records and campaigns: admins only
+-- (the app deactivates them instead)
+-- ============================================
+
+drop policy "Authenticated users can delete items" on public.items;
+create policy "Admins can delete items"
+  on public.items for delete
+  to authenticated
+  using (public.has_staff_role('admin'));
+
+drop policy "Authenticated users can delete modifiers" on public.modifiers;
+create policy "Admins can delete modifiers"
+  on public.modifiers for delete
+  to authenticated
+  using (public.has_staff_role('admin'));
+
+drop policy "Authenticated users can delete campaigns" on public.campaigns;
+create policy "Admins can delete campaigns"
+  on public.campaigns for delete
+  to authenticated
+  using (public.has_staff_role('admin'));
+
+-- ============================================
+-- Taking orders: cashiers, managers and admins
+-- ============================================
+
+drop policy "Authenticated users can insert orders" on public.orders;
+create policy "Order takers can insert orders"
+  on public.orders for insert
+  to authenticated
+  with check (public.has_staff_role('cashier', 'manager', 'admin'));
+
+drop policy "Authenticated users can insert order_items" on public.order_items;
+create policy "Order takers can insert order_items"
+  on public.order_items for insert
+  to authenticated
+  with check (public.has_staff_role('cashier', 'manager', 'admin'));
+
+drop policy "Authenticated users can insert order_item_modifiers" on public.order_item_modifiers;
+create policy "Order takers can insert order_item_modifiers"
+  on public.order_item_modifiers for insert
+  to authenticated
+  with check (public.has_staff_role('cashier', 'manager', 'admin'));
+
+drop policy "Authenticated users can update order_item_modifiers" on public.order_item_modifiers;
+create policy "Order takers can update order_item_modifiers"
+  on public.order_item_modifiers for update
+  to authenticated
+  using (public.has_staff_role('cashier', 'manager', 'admin'))
+  with check (public.has_staff_role('cashier', 'manager', 'admin'));
+
+drop policy "Authenticated users can delete order_item_modifiers" on public.order_item_modifiers;
+create policy "Order takers can delete order_item_modifiers"
+  on public.order_item_modifiers for delete
+  to authenticated
+  using (public.has_staff_role('cashier', 'manager', 'admin'));
+
+-- Discounts change what is owed, so they stay open only until the order is
+-- paid for, picked up or cancelled
+create or replace function public.order_takes_discounts(p_order_id bigint)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.orders
+    where id = p_order_id
+      and payment_status = 'unpaid'
+      and status not in ('picked_up', 'cancelled')
+  );
+$$;
+
+drop policy "Authenticated users can insert order_discounts" on public.order_discounts;
+create policy "Order takers can insert order_discounts"
+  on public.order_discounts for insert
+  to authenticated
+  with check (
+    public.has_staff_role('cashier', 'manager', 'admin')
+    and public.order_takes_discounts(order_id)
+  );
+
+drop policy "Authenticated users can update order_discounts" on public.order_discounts;
+create policy "Order takers can update order_discounts"
+  on public.order_discounts for update
+  to authenticated
+  using (
+    public.has_staff_role('cashier', 'manager', 'admin')
+    and public.order_takes_discounts(order_id)
+  )
+  with check (
+    public.has_staff_role('cashier', 'manager', 'admin')
+    and public.order_takes_discounts(order_id)
+  );
+
+drop policy "Authenticated users can delete order_discounts" on public.order_discounts;
+create policy "Order takers can delete order_discounts"
+  on public.order_discounts for delete
+  to authenticated
+  using (
+    public.has_staff_role('cashier', 'manager', 'admin')
+    and public.order_takes_discounts(order_id)
+  );
+
+-- Refunds are written by the refund functions, never directly
+drop policy "Authenticated users can insert payments" on public.payments;
+create policy "Order takers can insert payments"
+  on public.payments for insert
+  to authenticated
+  with check (amount > 0 and public.has_staff_role('cashier', 'manager', 'admin'));
+
+-- ============================================
+-- Moving orders through the kitchen: all staff
+-- ============================================
+
+drop policy "Authenticated users can update orders" on public.orders;
+create policy "Staff can update orders"
+  on public.orders for update
+  to authenticated
+  using (public.has_staff_role('cashier', 'kitchen', 'manager', 'admin'))
+  with check (public.has_staff_role('cashier', 'kitchen', 'manager', 'admin'));
+
+drop policy "Authenticated users can update order_items" on public.order_items;
+create policy "Staff can update order_items"
+  on public.order_items for update
+  to authenticated
+  using (public.has_staff_role('cashier', 'kitchen', 'manager', 'admin'))
+  with check (public.has_staff_role('cashier', 'kitchen', 'manager', 'admin'));
+
+drop policy "Authenticated users can insert order_item_status_events" on public.order_item_status_events;
+create policy "Staff can insert order_item_status_events"
+  on public.order_item_status_events for insert
+  to authenticated
+  with check (public.has_staff_role('cashier', 'kitchen', 'manager', 'admin'));
+
+-- The policies above let staff update order rows so the kitchen can move
+-- them along, but only status may change that way. Everything else (prices,
+-- quantities, tips, voids and refunds) goes through the functions that check
+-- the caller's role, which run with the owner's rights and so pass here, as
+-- do triggers keeping totals and bundles in step with a permitted change.
+-- Cancelling is a void, so it can't be done, or undone, through status.
+create or replace function public.guard_direct_update()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if current_user not in ('anon', 'authenticated') or pg_trigger_depth() > 1 then
+    return new;
+  end if;
+
+  -- tg_argv lists the columns that may change
+  if to_jsonb(new) - tg_argv is distinct from to_jsonb(old) - tg_argv then
+    raise exception 'not_allowed'
+      using detail = format('Only %s can be changed directly on %s', array_to_string(tg_argv, ', '), tg_table_name);
+  end if;
+
+  if new.status is distinct from old.status and 'cancelled' in (old.status, new.status) then
+    raise exception 'not_allowed'
+      using detail = 'Cancelling is done by voiding';
+  end if;
+
+  return new;
+end;
+$$;
+
+-- The order totals may look changed: orders_enforce_subtotal fires first
+-- (triggers fire in name order) and recomputes them whatever the caller sends
+create trigger orders_guard_direct_update
+  before update on public.orders
+  for each row execute function public.guard_direct_update(
+    'status', 'updated_at', 'updated_by', 'subtotal', 'discount_total', 'tax', 'total'
+  );
+
+create trigger order_items_guard_direct_update
+  before update on public.order_items
+  for each row execute function public.guard_direct_update('status', 'updated_at', 'updated_by');
+
+-- ============================================
+-- Editing lines: cashiers, managers and admins
+-- ============================================
+
+create or replace function public.update_order_item(
+  p_order_item_id   bigint,
+  p_quantity        integer,
+  p_notes           text,
+  p_modifiers       jsonb
+)
+returns public.order_items
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order_item      public.order_items;
+  v_modifier_ids    bigint[];
+  v_unavailable     integer;
+begin
+  if not public.has_staff_role('cashier', 'manager', 'admin') then
+    raise exception 'not_allowed'
+      using detail = 'Your role can''t edit orders';
+  end if;
+
+  if coalesce(p_quantity, 0) < 1 then
+    raise exception 'invalid_quantity'
+      using detail = format('Quantity must be at least 1 (got %s)', p_quantity);
+  end if;
+
+  select * into v_order_item
+  from public.order_items
+  where id = p_order_item_id
+  for update;
+
+  if not found then
+    raise exception 'order_item_not_found'
+      using detail = format('Order item %s does not exist', p_order_item_id);
+  end if;
+
+  select coalesce(array_agg(s.modifier_id), '{}')
+  into v_modifier_ids
+  from public.parse_modifier_selection(p_modifiers) s;
+
+  -- Newly added modifiers must be available; ones already on the line may since
+  -- have been deactivated and are kept as-is. Options also need their parent.
+  select count(*)
+  into v_unavailable
+  from public.modifiers m
+  right join unnest(v_modifier_ids) as s(modifier_id) on s.modifier_id = m.id
+  where (
+      not public.is_modifier_offered(v_order_item.item_id, s.modifier_id)
+      and not exists (
+        select 1 from public.order_item_modifiers oim
+        where oim.order_item_id = p_order_item_id and oim.modifier_id = s.modifier_id
+      )
+    )
+    or (m.parent_id is not null and m.parent_id <> all (v_modifier_ids));
+
+  if v_unavailable > 0 then
+    raise exception 'modifier_unavailable'
+      using detail = 'One or more modifiers are not available for this item';
+  end if;
+
+  perform public.validate_modifier_selection(v_order_item.item_id, v_modifier_ids);
+
+  update public.order_items
+  set quantity = p_quantity,
+      notes = nullif(trim(p_notes), ''),
+      updated_at = now()
+  where id = p_order_item_id
+  returning * into v_order_item;
+
+  perform public.write_order_item_modifiers(p_order_item_id, p_modifiers);
+
+  return v_order_item;
+end;
+$$;
+
+-- ============================================
+-- Voids and refunds: cashiers void, managers and admins also refund
+-- ============================================
+
+-- order_adjustments is the audit trail, so nothing writes it directly any
+-- more. The void and refund functions run with the owner's rights, check the
+-- caller's role themselves and record who performed them; refund_overpayment
+-- is only ever called from them.
+drop policy "Authenticated users can insert order_adjustments" on public.order_adjustments;
+revoke insert, update, delete on public.order_adjustments from anon, authenticated;
+revoke execute on function public.refund_overpayment(bigint, bigint, text, text) from public, anon, authenticated;
+
+create or replace function public.void_order_item(
+  p_order_item_id   bigint,
+  p_reason          text,
+  p_refund_method   text default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order_item      public.order_items;
+  v_total_before    numeric(10,2);
+  v_order           public.orders;
+  v_adjustment_id   bigint;
+begin
+  if not public.has_staff_role('cashier', 'manager', 'admin') then
+    raise exception 'not_allowed'
+      using detail = 'Your role can''t void orders';
+  end if;
+
+  perform public.require_adjustment_reason(p_reason);
+
+  select * into v_order_item
+  from public.order_items
+  where id = p_order_item_id
+  for update;
+
+  if not found then
+    raise exception 'order_item_not_found'
+      using detail = format('Order item %s does not exist', p_order_item_id);
+  end if;
+
+  if not public.is_billable_order_item(v_order_item.status, v_order_item.refunded_at) then
+    raise exception 'already_adjusted'
+      using detail = 'This item has already been voided or refunded';
+  end if;
+
+  if v_order_item.status <> 'new' then
+    raise exception 'already_prepared'
+      using detail = 'The kitchen has already started this item - refund it instead';
+  end if;
+
+  select total into v_total_before
+  from public.orders
+  where id = v_order_item.order_id
+  for update;
+
+  update public.order_items
+  set status = 'cancelled',
+      updated_at = now()
+  where id = p_order_item_id;
+
+  insert into public.order_item_status_events (order_item_id, old_status, new_status)
+  values (p_order_item_id, v_order_item.status, 'cancelled');
+
+  -- Nothing left to make: the order itself is cancelled
+  update public.orders
+  set status = 'cancelled',
+      updated_at = now()
+  where id = v_order_item.order_id
+    and not exists (
+      select 1 from public.order_items
+      where order_id = v_order_item.order_id
+        and status <> 'cancelled'
+    );
+
+  select * into v_order from public.orders where id = v_order_item.order_id;
+
+  insert into public.order_adjustments (order_id, order_item_id, kind, reason, amount, performed_by)
+  values (v_order.id, p_order_item_id, 'void', trim(p_reason), v_total_before - v_order.total, auth.uid())
+  returning id into v_adjustment_id;
+
+  perform public.refund_overpayment(v_order.id, v_adjustment_id, p_refund_method, trim(p_reason));
+
+  select * into v_order from public.orders where id = v_order.id;
+  return v_order;
+end;
+$$;
+
+create or replace function public.void_order(
+  p_order_id        bigint,
+  p_reason          text,
+  p_refund_method   text default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order           public.orders;
+  v_total_before    numeric(10,2);
+  v_adjustment_id   bigint;
+begin
+  if not public.has_staff_role('cashier', 'manager', 'admin') then
+    raise exception 'not_allowed'
+      using detail = 'Your role can''t void orders';
+  end if;
+
+  perform public.require_adjustment_reason(p_reason);
+
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'order_not_found'
+      using detail = format('Order %s does not exist', p_order_id);
+  end if;
+
+  if v_order.status = 'cancelled' then
+    raise exception 'already_adjusted'
+      using detail = 'This order has already been voided';
+  end if;
+
+  if exists (
+    select 1 from public.order_items
+    where order_id = p_order_id
+      and status not in ('new', 'cancelled')
+  ) then
+    raise exception 'already_prepared'
+      using detail = 'The kitchen has already started this order - refund it instead';
+  end if;
+
+  v_total_before := v_order.total;
+
+  insert into public.order_item_status_events (order_item_id, old_status, new_status)
+  select id, status, 'cancelled'
+  from public.order_items
+  where order_id = p_order_id
+    and status <> 'cancelled';
+
+  update public.order_items
+  set status = 'cancelled',
+      updated_at = now()
+  where order_id = p_order_id
+    and status <> 'cancelled';
+
+  -- Nothing was served, so nothing is tipped
+  update public.orders
+  set status = 'cancelled',
+      tip = 0,
+      updated_at = now()
+  where id = p_order_id
+  returning * into v_order;
+
+  insert into public.order_adjustments (order_id, kind, reason, amount, performed_by)
+  values (p_order_id, 'void', trim(p_reason), v_total_before - v_order.total, auth.uid())
+  returning id into v_adjustment_id;
+
+  perform public.refund_overpayment(p_order_id, v_adjustment_id, p_refund_method, trim(p_reason));
+
+  select * into v_order from public.orders where id = p_order_id;
+  return v_order;
+end;
+$$;
+
+-- ============================================
+-- Refunds
+-- ============================================
+
+create or replace function public.refund_order_item(
+  p_order_item_id   bigint,
+  p_reason          text,
+  p_refund_method   text default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order_item      public.order_items;
+  v_order           public.orders;
+  v_total_before    numeric(10,2);
+  v_adjustment_id   bigint;
+begin
+  if not public.has_staff_role('manager', 'admin') then
+    raise exception 'not_allowed'
+      using detail = 'Only managers and admins can refund orders';
+  end if;
+
+  perform public.require_adjustment_reason(p_reason);
+
+  select * into v_order_item
+  from public.order_items
+  where id = p_order_item_id
+  for update;
+
+  if not found then
+    raise exception 'order_item_not_found'
+      using detail = format('Order item %s does not exist', p_order_item_id);
+  end if;
+
+  if not public.is_billable_order_item(v_order_item.status, v_order_item.refunded_at) then
+    raise exception 'already_adjusted'
+      using detail = 'This item has already been voided or refunded';
+  end if;
+
+  select * into v_order
+  from public.orders
+  where id = v_order_item.order_id
+  for update;
+
+  if v_order.payment_status not in ('paid', 'partial') then
+    raise exception 'not_paid'
+      using detail = 'Nothing has been paid on this order - void the item instead';
+  end if;
+
+  v_total_before := v_order.total;
+
+  update public.order_items
+  set refunded_at = now(),
+      updated_at = now()
+  where id = p_order_item_id;
+
+  select * into v_order from public.orders where id = v_order_item.order_id;
+
+  insert into public.order_adjustments (order_id, order_item_id, kind, reason, amount, performed_by)
+  values (v_order.id, p_order_item_id, 'refund', trim(p_reason), v_total_before - v_order.total, auth.uid())
+  returning id into v_adjustment_id;
+
+  perform public.refund_overpayment(v_order.id, v_adjustment_id, p_refund_method, trim(p_reason));
+
+  select * into v_order from public.orders where id = v_order.id;
+  return v_order;
+end;
+$$;
+
+create or replace function public.refund_order(
+  p_order_id        bigint,
+  p_reason          text,
+  p_refund_method   text default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order           public.orders;
+  v_total_before    numeric(10,2);
+  v_adjustment_id   bigint;
+begin
+  if not public.has_staff_role('manager', 'admin') then
+    raise exception 'not_allowed'
+      using detail = 'Only managers and admins can refund orders';
+  end if;
+
+  perform public.require_adjustment_reason(p_reason);
+
+  select * into v_order
+  from public.orders
+  where id = p_order_id
+  for update;
+
+  if not found then
+    raise exception 'order_not_found'
+      using detail = format('Order %s does not exist', p_order_id);
+  end if;
+
+  if v_order.payment_status not in ('paid', 'partial') then
+    raise exception 'not_paid'
+      using detail = 'Nothing has been paid on this order - void it instead';
+  end if;
+
+  v_total_before := v_order.total;
+
+  update public.order_items
+  set refunded_at = now(),
+      updated_at = now()
+  where order_id = p_order_id
+    and public.is_billable_order_item(status, refunded_at);
+
+  -- A full refund hands back the tip as well
+  update public.orders
+  set tip = 0,
+      updated_at = now()
+  where id = p_order_id
+  returning * into v_order;
+
+  insert into public.order_adjustments (order_id, kind, reason, amount, performed_by)
+  values (p_order_id, 'refund', trim(p_reason), v_total_before - v_order.total, auth.uid())
+  returning id into v_adjustment_id;
+
+  perform public.refund_overpayment(p_order_id, v_adjustment_id, p_refund_method, trim(p_reason));
+
+  select * into v_order from public.orders where id = p_order_id;
+  return v_order;
+end;
+$$;
@@ -0,0 +1,315 @@
+-- Quick staff switching on shared devices
+--   * A shared device (the terminal iPad) stays signed in to one account; the
+--     people using it are staff_members, each with a 4-6 digit PIN.
+--   * Picking your name and entering your PIN starts a staff session. The app
+--     sends its token with every request in the x-staff-session header, and
+--     acting_staff_id() resolves it for the current request.
+--   * Once any staff member has a PIN, has_staff_role checks only the role of
+--     the staff member signed in on the device: the shared account has no role
+--     of its own, so leaving the x-staff-session header off grants nothing.
+--     Until then the device account's role applies, so an admin can set the
+--     first PINs.
+--   * Orders, payments, voids and refunds, status changes and edits are
+--     stamped with the acting staff member.
+--   * Admins add staff and set their PINs in the database:
+--       insert into public.staff_members (name, role) values ('Sam', 'kitchen');
+--       select public.set_staff_pin(<id>, '1234');
+
+create extension if not exists pgcrypto with schema extensions;
+
+-- ============================================
+-- Staff members
+-- ============================================
+
+create table public.staff_members (
+  id                bigint generated by default as identity primary key,
+  name              text not null,
+  role              text not null default 'cashier',
+  pin_hash          text,                       -- bcrypt; null = can't sign in yet
+  is_active         boolean not null default true,
+  created_at        timestamptz not null default now(),
+  updated_at        timestamptz not null default now()
+);
+
+alter table public.staff_members add constraint staff_members_role_check
+  check (role in ('cashier', 'kitchen', 'manager', 'admin'));
+alter table public.staff_members add constraint staff_members_name_check
+  check (length(trim(name)) > 0);
+
+comment on column public.staff_members.pin_hash is
+  'bcrypt hash of the staff member''s PIN. Set with set_staff_pin; never readable by the app.';
+
+alter table public.staff_members enable row level security;
+
+-- Everyone but the PIN hash is readable, so devices can list who can sign in
+-- and orders can show who took them
+revoke select on public.staff_members from anon, authenticated;
+grant select (id, name, role, is_active, created_at, updated_at)
+  on public.staff_members to authenticated;
+
+create policy "Authenticated users can read staff_members"
+  on public.staff_members for select
+  to authenticated
+  using (true);
+
+-- ============================================
+-- Staff sessions
+-- ============================================
+
+-- Only the functions below read or write these two tables, so they have RLS
+-- enabled and no policies
+create table public.staff_sessions (
+  token             uuid primary key default gen_random_uuid(),
+  staff_id          bigint not null references public.staff_members(id) on delete cascade,
+  user_id           uuid not null references auth.users(id) on delete cascade, -- the device account
+  created_at        timestamptz not null default now(),
+  expires_at        timestamptz not null default now() + interval '12 hours'
+);
+
+create index staff_sessions_staff_id_idx on public.staff_sessions (staff_id);
+
+alter table public.staff_sessions enable row level security;
+
+-- One row per wrong PIN, for locking out guessing
+create table public.staff_pin_failures (
+  id                bigint generated by default as identity primary key,
+  staff_id          bigint not null references public.staff_members(id) on delete cascade,
+  created_at        timestamptz not null default now()
+);
+
+create index staff_pin_failures_staff_id_idx
+  on public.staff_pin_failures (staff_id, created_at);
+
+alter table public.staff_pin_failures enable row level security;
+
+-- ============================================
+-- Acting staff member
+-- ============================================
+
+-- The staff member whose session token came with this request, if it is
+-- still valid for the signed-in device account
+create or replace function public.acting_staff_id()
+returns bigint
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.staff_id
+  from public.staff_sessions s
+  join public.staff_members m on m.id = s.staff_id
+  where s.token = (
+      select case when header ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+        then header::uuid
+      end
+      from (
+        select current_setting('request.headers', true)::json ->> 'x-staff-session' as header
+      ) h
+    )
+    and s.user_id = auth.uid()
+    and s.expires_at > now()
+    and m.is_active;
+$$;
+
+comment on function public.acting_staff_id() is
+  'The staff member signed in with a PIN for this request (from the x-staff-session header), or null.';
+
+revoke execute on function public.acting_staff_id() from public;
+grant execute on function public.acting_staff_id() to authenticated;
+
+-- Once staff sign in with PINs the device account's own role no longer
+-- counts: without a valid staff session there is no role at all
+create or replace function public.has_staff_role(variadic p_roles text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    case
+      when exists (
+        select 1 from public.staff_members where is_active and pin_hash is not null
+      ) then
+        (select role from public.staff_members where id = public.acting_staff_id())
+      else
+        (select role from public.staff_profiles where user_id = auth.uid())
+    end = any (p_roles),
+    false
+  );
+$$;
+
+comment on function public.has_staff_role(text[]) is
+  'True when the acting staff member''s role is one of the given roles. Before any staff member has a PIN, the signed-in user''s role is checked instead. Used by RLS policies.';
+
+-- ============================================
+-- set_staff_pin
+-- ============================================
+
+create or replace function public.set_staff_pin(p_staff_id bigint, p_pin text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not public.has_staff_role('admin') then
+    raise exception 'not_allowed'
+      using detail = 'Only admins can set PINs';
+  end if;
+
+  if coalesce(p_pin, '') !~ '^[0-9]{4,6}$' then
+    raise exception 'invalid_pin'
+      using detail = 'A PIN is 4 to 6 digits';
+  end if;
+
+  update public.staff_members
+  set pin_hash = extensions.crypt(p_pin, extensions.gen_salt('bf')),
+      updated_at = now()
+  where id = p_staff_id;
+
+  if not found then
+    raise exception 'staff_not_found'
+      using detail = format('Staff member %s does not exist', p_staff_id);
+  end if;
+
+  -- Anyone signed in with the old PIN has to sign in again
+  delete from public.staff_sessions where staff_id = p_staff_id;
+end;
+$$;
+
+comment on function public.set_staff_pin(bigint, text) is
+  'Sets a staff member''s 4-6 digit PIN. Admins only.';
+
+revoke execute on function public.set_staff_pin(bigint, text) from public, anon;
+grant execute on function public.set_staff_pin(bigint, text) to authenticated;
+
+-- ============================================
+-- start_staff_session / end_staff_session
+-- ============================================
+
+create or replace function public.start_staff_session(p_staff_id bigint, p_pin text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  -- After this many wrong PINs in the window the staff member is locked out
+  c_max_failures    constant integer := 5;
+  c_window          constant interval := interval '5 minutes';
+  v_member          public.staff_members;
+  v_token           uuid;
+begin
+  select * into v_member
+  from public.staff_members
+  where id = p_staff_id and is_active and pin_hash is not null;
+
+  if not found then
+    raise exception 'staff_not_found'
+      using detail = 'This staff member can''t sign in here';
+  end if;
+
+  if (
+    select count(*)
+    from public.staff_pin_failures
+    where staff_id = p_staff_id
+      and created_at > now() - c_window
+  ) >= c_max_failures then
+    raise exception 'pin_locked'
+      using detail = 'Too many wrong PINs. Wait a few minutes and try again.';
+  end if;
+
+  -- A wrong PIN returns null rather than raising, so the failure is kept
+  if v_member.pin_hash <> extensions.crypt(coalesce(p_pin, ''), v_member.pin_hash) then
+    insert into public.staff_pin_failures (staff_id) values (p_staff_id);
+    return null;
+  end if;
+
+  delete from public.staff_pin_failures where staff_id = p_staff_id;
+  delete from public.staff_sessions where expires_at < now();
+
+  insert into public.staff_sessions (staff_id, user_id)
+  values (p_staff_id, auth.uid())
+  returning token into v_token;
+
+  return jsonb_build_object(
+    'token', v_token,
+    'staff', jsonb_build_object(
+      'id', v_member.id,
+      'name', v_member.name,
+      'role', v_member.role,
+      'is_active', v_member.is_active
+    )
+  );
+end;
+$$;
+
+comment on function public.start_staff_session(bigint, text) is
+  'Signs a staff member in on the current device with their PIN. Returns the session token and staff member, or null for a wrong PIN.';
+
+revoke execute on function public.start_staff_session(bigint, text) from public, anon;
+grant execute on function public.start_staff_session(bigint, text) to authenticated;
+
+create or replace function public.end_staff_session(p_token uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from public.staff_sessions
+  where token = p_token
+    and user_id = auth.uid();
+$$;
+
+comment on function public.end_staff_session(uuid) is
+  'Signs a staff member out of the current device.';
+
+revoke execute on function public.end_staff_session(uuid) from public, anon;
+grant execute on function public.end_staff_session(uuid) to authenticated;
+
+-- ============================================
+-- Stamping
+-- ============================================
+
+alter table public.orders
+  add column taken_by bigint references public.staff_members(id) default public.acting_staff_id(),
+  add column updated_by bigint references public.staff_members(id);
+
+alter table public.order_items
+  add column updated_by bigint references public.staff_members(id);
+
+alter table public.order_item_status_events
+  add column staff_id bigint references public.staff_members(id) default public.acting_staff_id();
+
+alter table public.payments
+  add column staff_id bigint references public.staff_members(id) default public.acting_staff_id();
+
+alter table public.order_adjustments
+  add column staff_id bigint references public.staff_members(id) default public.acting_staff_id();
+
+comment on column public.orders.taken_by is
+  'Staff member who placed the order; null for customer orders and orders taken before staff PINs were set up.';
+comment on column public.orders.updated_by is
+  'Staff member behind the latest change to the order.';
+comment on column public.order_items.updated_by is
+  'Staff member behind the latest change to the line: a status change or an edit.';
+
+create or replace function public.stamp_updated_by()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.updated_by := public.acting_staff_id();
+  return new;
+end;
+$$;
+
+create trigger orders_stamp_updated_by
+  before update on public.orders
+  for each row execute function public.stamp_updated_by();
+
+create trigger order_items_stamp_updated_by
+  before update on public.order_items
+  for each row execute function public.stamp_updated_by();
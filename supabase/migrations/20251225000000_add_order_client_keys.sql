@@ -0,0 +1,98 @@
+-- Offline order queue
+--   * The terminal keeps orders it couldn't send and replays them once it is
+--     back online. A dropped connection can also lose the response to an
+--     order that did go through, so the terminal can't tell whether to send
+--     it again.
+--   * Each order the terminal sends now carries a client_key it generated.
+--     place_order_once places an order only if no order has that key yet,
+--     and otherwise returns the existing order, so replays never duplicate.
+--   * A queued order keeps the staff member who took it, so a replay is
+--     credited to them rather than to whoever is signed in when it is sent.
+
+alter table public.orders
+  add column client_key uuid;
+
+create unique index orders_client_key_idx on public.orders (client_key);
+
+comment on column public.orders.client_key is
+  'Idempotency key generated by the terminal; a replayed order with the same key returns the original.';
+
+-- ============================================
+-- place_order_once
+-- ============================================
+
+create or replace function public.place_order_once(
+  p_client_key      uuid,
+  p_campaign_id     bigint,
+  p_customer_name   text,
+  p_notes           text,
+  p_items           jsonb,
+  p_discount        jsonb default null,
+  p_tip             numeric default 0,
+  p_payments        jsonb default null,
+  p_scheduled_for   timestamptz default null,
+  p_taken_by        bigint default null
+)
+returns public.orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order           public.orders;
+begin
+  -- Runs with the owner's rights so it can set client_key, which staff can't
+  -- write directly
+  if not public.has_staff_role('cashier', 'manager', 'admin') then
+    raise exception 'not_allowed'
+      using detail = 'Your role can''t take orders';
+  end if;
+
+  if p_client_key is null then
+    raise exception 'invalid_client_key'
+      using detail = 'An order key is required';
+  end if;
+
+  select * into v_order from public.orders where client_key = p_client_key;
+  if found then
+    return v_order;
+  end if;
+
+  begin
+    v_order := public.place_order(
+      p_campaign_id,
+      p_customer_name,
+      p_notes,
+      p_items,
+      p_discount,
+      p_tip,
+      p_payments,
+      p_scheduled_for
+    );
+
+    -- An order replayed from the queue is credited to whoever took it, not
+    -- whoever is signed in when it is sent
+    update public.orders
+    set client_key = p_client_key,
+        taken_by = coalesce(p_taken_by, taken_by)
+    where id = v_order.id
+    returning * into v_order;
+  exception
+    when unique_violation then
+      -- The same order arrived twice at once and the other copy won; undo
+      -- this one and return that
+      select * into v_order from public.orders where client_key = p_client_key;
+      if not found then
+        raise;
+      end if;
+  end;
+
+  return v_order;
+end;
+$$;
+
+comment on function public.place_order_once(uuid, bigint, text, text, jsonb, jsonb, numeric, jsonb, timestamptz, bigint) is
+  'place_order, but at most once per client key: a repeat returns the order already placed with that key. p_taken_by credits an order sent later from the offline queue to the staff member who took it.';
+
+revoke execute on function public.place_order_once(uuid, bigint, text, text, jsonb, jsonb, numeric, jsonb, timestamptz, bigint) from public, anon;
+grant execute on function public.place_order_once(uuid, bigint, text, text, jsonb, jsonb, numeric, jsonb, timestamptz, bigint) to authenticated;
@@ -0,0 +1,135 @@
+-- Idempotent order submission
+--   * A double tap on "Place Order", or a retry after a timeout, sent the same
+--     order twice and the kitchen got duplicate tickets.
+--   * The terminal now sends every order through place_order_once with a key
+--     it keeps until the order is through, so a repeat returns the order
+--     already placed.
+--   * place_public_order takes the same key for customer orders. A repeat
+--     returns the original receipt without counting towards the rate limit.
+
+-- ============================================
+-- place_public_order
+-- ============================================
+
+drop function public.place_public_order(text, jsonb);
+
+create or replace function public.place_public_order(
+  p_customer_name   text,
+  p_items           jsonb,
+  p_client_key      uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  -- At most this many orders per client address in the window
+  c_max_orders      constant integer := 5;
+  c_window          constant interval := interval '10 minutes';
+  -- A customer can't ask for more than this of any one line
+  c_max_quantity    constant integer := 20;
+  v_campaign_id     bigint := public.public_campaign_id();
+  v_address         text;
+  v_line            jsonb;
+  v_order           public.orders;
+begin
+  -- A repeat of an order already placed gets the same receipt back, and
+  -- doesn't count towards the limit
+  if p_client_key is not null then
+    select * into v_order from public.orders where client_key = p_client_key;
+    if found then
+      return jsonb_build_object('id', v_order.id, 'token', v_order.public_token);
+    end if;
+  end if;
+
+  if v_campaign_id is null then
+    raise exception 'ordering_closed'
+      using detail = 'Ordering is closed right now';
+  end if;
+
+  -- PostgREST passes the caller's headers through. The customer can send
+  -- their own x-forwarded-for, and the API gateway appends the address it
+  -- saw the request come from, so only the last entry can be trusted.
+  v_address := coalesce(
+    nullif(trim(regexp_replace(
+      current_setting('request.headers', true)::json ->> 'x-forwarded-for', '^.*,', ''
+    )), ''),
+    'unknown'
+  );
+
+  delete from public.public_order_attempts where created_at < now() - interval '1 day';
+
+  if (
+    select count(*)
+    from public.public_order_attempts
+    where client_address = v_address
+      and created_at > now() - c_window
+  ) >= c_max_orders then
+    raise exception 'rate_limited'
+      using detail = 'Too many orders from this device. Please wait a few minutes or order at the counter.';
+  end if;
+
+  if length(trim(coalesce(p_customer_name, ''))) > 40 then
+    raise exception 'customer_name_required'
+      using detail = 'Please use a name of 40 characters or fewer';
+  end if;
+
+  if jsonb_typeof(p_items) = 'array' then
+    for v_line in select * from jsonb_array_elements(p_items)
+    loop
+      if coalesce((v_line->>'quantity')::integer, 0) > c_max_quantity then
+        raise exception 'invalid_quantity'
+          using detail = format('Please order at most %s of each item', c_max_quantity);
+      end if;
+
+      -- Only items on the campaign's menu, when it has one
+      if exists (select 1 from public.campaign_items where campaign_id = v_campaign_id)
+        and not exists (
+          select 1 from public.campaign_items
+          where campaign_id = v_campaign_id and item_id = (v_line->>'item_id')::bigint
+        )
+      then
+        raise exception 'item_unavailable'
+          using detail = 'An item in your order is no longer on the menu';
+      end if;
+    end loop;
+  end if;
+
+  -- No discounts, tips or payments: customers pay at the counter. The key is
+  -- set here rather than through place_order_once, which is for staff only.
+  begin
+    v_order := public.place_order(
+      v_campaign_id,
+      p_customer_name,
+      null,
+      p_items
+    );
+
+    if p_client_key is not null then
+      update public.orders
+      set client_key = p_client_key
+      where id = v_order.id
+      returning * into v_order;
+    end if;
+  exception
+    when unique_violation then
+      -- The same order arrived twice at once and the other copy won
+      select * into v_order from public.orders where client_key = p_client_key;
+      if not found then
+        raise;
+      end if;
+      return jsonb_build_object('id', v_order.id, 'token', v_order.public_token);
+  end;
+
+  insert into public.public_order_attempts (client_address) values (v_address);
+
+  return jsonb_build_object('id', v_order.id, 'token', v_order.public_token);
+end;
+$$;
+
+comment on function public.place_public_order(text, jsonb, uuid) is
+  'Places a customer''s self-service order on the active campaign, unpaid. Rate limited per client address. With a client key, a repeat returns the order already placed.';
+
+revoke execute on function public.place_public_order(text, jsonb, uuid) from public;
+grant execute on function public.place_public_order(text, jsonb, uuid) to anon, authenticated;
@@ -0,0 +1,94 @@
+-- Campaign-scoped realtime for the kitchen display
+--   * The kitchen used to hear about every order_items change in the
+--     database and refetch the whole order for each one. It now applies the
+--     changed rows themselves, and only hears about its own campaign.
+--   * order_items and order_item_modifiers carry their order's campaign_id,
+--     so realtime can filter them the same way it filters orders.
+--   * order_item_modifiers joins the realtime publication.
+--   * updated_at is kept current on every change to orders and order_items,
+--     so a display that lost its connection can catch up on just the orders
+--     changed since the last one it saw.
+
+-- ============================================
+-- campaign_id on lines and modifiers
+-- ============================================
+
+alter table public.order_items
+  add column campaign_id bigint references public.campaigns(id);
+
+alter table public.order_item_modifiers
+  add column campaign_id bigint references public.campaigns(id);
+
+update public.order_items oi
+set campaign_id = o.campaign_id
+from public.orders o
+where o.id = oi.order_id;
+
+update public.order_item_modifiers oim
+set campaign_id = oi.campaign_id
+from public.order_items oi
+where oi.id = oim.order_item_id;
+
+comment on column public.order_items.campaign_id is
+  'Copy of the order''s campaign, so realtime subscribers can filter lines by campaign.';
+comment on column public.order_item_modifiers.campaign_id is
+  'Copy of the order''s campaign, so realtime subscribers can filter modifiers by campaign.';
+
+create or replace function public.order_items_set_campaign()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  select campaign_id into new.campaign_id from public.orders where id = new.order_id;
+  return new;
+end;
+$$;
+
+create trigger order_items_set_campaign
+  before insert or update of order_id on public.order_items
+  for each row execute function public.order_items_set_campaign();
+
+create or replace function public.order_item_modifiers_set_campaign()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  select campaign_id into new.campaign_id from public.order_items where id = new.order_item_id;
+  return new;
+end;
+$$;
+
+create trigger order_item_modifiers_set_campaign
+  before insert or update of order_item_id on public.order_item_modifiers
+  for each row execute function public.order_item_modifiers_set_campaign();
+
+-- ============================================
+-- Catching up after a reconnect
+-- ============================================
+
+-- Not every write path sets updated_at itself; the catch-up query relies on it
+create or replace function public.stamp_updated_by()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.updated_by := public.acting_staff_id();
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+create index orders_campaign_updated_at_idx
+  on public.orders (campaign_id, updated_at);
+
+create index order_items_campaign_updated_at_idx
+  on public.order_items (campaign_id, updated_at);
+
+-- ============================================
+-- Realtime
+-- ============================================
+
+alter publication supabase_realtime add table public.order_item_modifiers;